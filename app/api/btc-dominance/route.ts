@@ -1,8 +1,11 @@
 import { NextResponse } from 'next/server';
+import { DominanceData, DominanceRange } from '@/lib/types';
+import { DOMINANCE } from '@/lib/constants';
+import { getDominanceStore, downsampleDominance } from '@/lib/dominance-store';
 
 // BTC Dominance API proxy
-// Fetches global market data including BTC dominance
-// Also fetches historical data for sparkline
+// Fetches global market data including BTC and ETH dominance
+// Snapshots are persisted (lib/dominance-store) and served per range, downsampled
 
 interface GlobalData {
   data: {
@@ -17,86 +20,82 @@ interface GlobalData {
   };
 }
 
-interface HistoricalData {
-  timestamp: number;
-  dominance: number;
-}
-
 // Cache for global data
 const globalCache: { data: GlobalData | null; timestamp: number } = {
   data: null,
   timestamp: 0
 };
 
-// Cache for historical dominance data (store hourly points for 24h)
-const historyCache: HistoricalData[] = [];
-const MAX_HISTORY_POINTS = 24; // Store 24 hours of data
-
 const CACHE_DURATION = 60 * 1000; // 1 minute for current data
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-export async function GET() {
-  const now = Date.now();
+function isDominanceRange(value: string): value is DominanceRange {
+  return Object.prototype.hasOwnProperty.call(DOMINANCE.RANGE_DAYS, value);
+}
 
-  // Check cache first
-  if (globalCache.data && now - globalCache.timestamp < CACHE_DURATION) {
-    return NextResponse.json({
-      current: globalCache.data,
-      history: historyCache
-    });
-  }
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const range = searchParams.get('range') || DOMINANCE.DEFAULT_RANGE;
 
-  try {
-    // Fetch global market data
-    const response = await fetch(
-      'https://api.coingecko.com/api/v3/global',
-      {
-        headers: {
-          'Accept': 'application/json',
-        },
-        next: { revalidate: 60 }
-      }
+  if (!isDominanceRange(range)) {
+    return NextResponse.json(
+      { error: `Invalid range parameter. Must be one of ${Object.keys(DOMINANCE.RANGE_DAYS).join(', ')}.` },
+      { status: 400 }
     );
+  }
 
-    if (!response.ok) {
-      console.error(`[BTC Dominance] API error: ${response.status}`);
-      return NextResponse.json(
-        { error: `CoinGecko API error: ${response.status}` },
-        { status: response.status }
+  const now = Date.now();
+  const store = getDominanceStore();
+
+  // Refresh global data unless cached
+  if (!globalCache.data || now - globalCache.timestamp >= CACHE_DURATION) {
+    try {
+      const response = await fetch(
+        'https://api.coingecko.com/api/v3/global',
+        {
+          headers: {
+            'Accept': 'application/json',
+          },
+          next: { revalidate: 60 }
+        }
       );
-    }
-
-    const data: GlobalData = await response.json();
 
-    // Update cache
-    globalCache.data = data;
-    globalCache.timestamp = now;
+      if (!response.ok) {
+        console.error(`[BTC Dominance] API error: ${response.status}`);
+        return NextResponse.json(
+          { error: `CoinGecko API error: ${response.status}` },
+          { status: response.status }
+        );
+      }
 
-    // Store historical data point (every ~1 minute when fetched)
-    const currentDominance = data.data.market_cap_percentage.btc;
-    const lastPoint = historyCache[historyCache.length - 1];
+      const data: GlobalData = await response.json();
 
-    // Add new point if enough time has passed (at least 5 minutes between points)
-    if (!lastPoint || now - lastPoint.timestamp >= 5 * 60 * 1000) {
-      historyCache.push({
-        timestamp: now,
-        dominance: currentDominance
-      });
+      // Update cache
+      globalCache.data = data;
+      globalCache.timestamp = now;
 
-      // Keep only last 24 hours of data (288 points at 5-min intervals max)
-      while (historyCache.length > 288) {
-        historyCache.shift();
+      // Store a snapshot if the last one is older than the snapshot interval
+      const recent = await store.list(now - DOMINANCE.SNAPSHOT_INTERVAL);
+      if (recent.length === 0) {
+        await store.append({
+          timestamp: now,
+          btc: data.data.market_cap_percentage.btc,
+          eth: data.data.market_cap_percentage.eth,
+        });
       }
+    } catch (error) {
+      console.error('[BTC Dominance] Failed:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch BTC dominance' },
+        { status: 500 }
+      );
     }
-
-    return NextResponse.json({
-      current: data,
-      history: historyCache
-    });
-  } catch (error) {
-    console.error('[BTC Dominance] Failed:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch BTC dominance' },
-      { status: 500 }
-    );
   }
+
+  const start = now - DOMINANCE.RANGE_DAYS[range] * DAY_MS;
+  const history = downsampleDominance(await store.list(start), start, DOMINANCE.MAX_POINTS);
+  const { btc, eth } = globalCache.data.data.market_cap_percentage;
+
+  const body: DominanceData = { btc, eth, history };
+  return NextResponse.json(body);
 }
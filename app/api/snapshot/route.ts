@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { SNAPSHOT } from '@/lib/constants';
+import { getSnapshotWorker, isSnapshotExchange } from '@/lib/snapshot-worker';
+
+// Shared exchange snapshot (RSI, funding rates, listing dates)
+// Computed once per exchange by lib/snapshot-worker and served to every client
+// Clients send If-None-Match and get a 304 while nothing changed
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const exchange = searchParams.get('exchange') || '';
+
+  if (!isSnapshotExchange(exchange)) {
+    return NextResponse.json(
+      { error: 'Invalid exchange parameter. Must be okx, hyperliquid or binance.' },
+      { status: 400 }
+    );
+  }
+
+  const worker = getSnapshotWorker(exchange);
+
+  try {
+    // A cold worker gets a moment to load; after that serve whatever it has
+    await Promise.race([
+      worker.ensureRunning(),
+      new Promise(resolve => setTimeout(resolve, SNAPSHOT.WARMUP_WAIT)),
+    ]);
+  } catch (error) {
+    console.error(`[Snapshot] ${exchange} worker failed to start:`, error);
+    return NextResponse.json(
+      { error: 'Failed to build snapshot' },
+      { status: 500 }
+    );
+  }
+
+  const { etag, json } = worker.getBody();
+  const headers = {
+    'ETag': etag,
+    'Cache-Control': 'no-cache',
+  };
+
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(json, {
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { STREAM } from '@/lib/constants';
+import { getSnapshotWorker, isSnapshotExchange, StreamEvent } from '@/lib/snapshot-worker';
+
+// Live board updates as Server-Sent Events
+// One connection per client instead of a venue WebSocket (works behind proxies that block wss://)
+// 'init' event: every ticker; default events: StreamDiff of tickers, funding rates and RSI
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const exchange = searchParams.get('exchange') || '';
+
+  if (!isSnapshotExchange(exchange)) {
+    return NextResponse.json(
+      { error: 'Invalid exchange parameter. Must be okx, hyperliquid or binance.' },
+      { status: 400 }
+    );
+  }
+
+  const worker = getSnapshotWorker(exchange);
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+  let heartbeat: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    if (heartbeat) clearInterval(heartbeat);
+    unsubscribe?.();
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed by the client
+          close();
+        }
+      };
+
+      const send = ({ type, diff }: StreamEvent) => {
+        const event = type === 'init' ? 'event: init\n' : '';
+        write(`${event}data: ${JSON.stringify(diff)}\n\n`);
+      };
+
+      try {
+        const leave = await worker.subscribe(send);
+        // Client may have gone while the feed started
+        if (closed) {
+          leave();
+          return;
+        }
+        unsubscribe = leave;
+      } catch (error) {
+        console.error(`[Stream] ${exchange} worker failed to start:`, error);
+        closed = true;
+        controller.error(error);
+        return;
+      }
+
+      heartbeat = setInterval(() => write(': ping\n\n'), STREAM.HEARTBEAT_INTERVAL);
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  request.signal.addEventListener('abort', close);
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Stop nginx-style proxies from buffering the stream
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
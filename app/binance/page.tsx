@@ -0,0 +1,7 @@
+'use client';
+
+import ExchangeBoard from '@/components/ExchangeBoard';
+
+export default function BinancePage() {
+  return <ExchangeBoard exchange="binance" />;
+}
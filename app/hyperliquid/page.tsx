@@ -1,7 +1,7 @@
 'use client';
 
-import HyperliquidBoard from '@/components/HyperliquidBoard';
+import ExchangeBoard from '@/components/ExchangeBoard';
 
 export default function HyperliquidPage() {
-  return <HyperliquidBoard />;
+  return <ExchangeBoard exchange="hyperliquid" />;
 }
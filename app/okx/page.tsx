@@ -1,5 +1,5 @@
-import PerpBoard from '@/components/PerpBoard';
+import ExchangeBoard from '@/components/ExchangeBoard';
 
 export default function OkxPage() {
-  return <PerpBoard />;
+  return <ExchangeBoard exchange="okx" />;
 }
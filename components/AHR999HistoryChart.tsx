@@ -0,0 +1,166 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { AHR999HistoryPoint, getAHR999ZoneInfo } from '@/lib/ahr999';
+import { AHR999, AHR999_ZONE_COLORS } from '@/lib/constants';
+import { formatPrice } from '@/lib/utils';
+
+interface AHR999HistoryChartProps {
+  history: AHR999HistoryPoint[];
+  height?: number;
+}
+
+// Chart geometry (SVG units, scaled to container width)
+const WIDTH = 300;
+
+// Lower bound of each AHR999_ZONE_COLORS zone, plus the open top
+const ZONE_BOUNDS = [
+  0,
+  AHR999.BOTTOM_THRESHOLD,
+  AHR999.DCA_THRESHOLD,
+  AHR999.WAIT_THRESHOLD,
+  AHR999.TAKE_PROFIT_THRESHOLD,
+  Infinity,
+];
+
+function getZoneIndex(value: number): number {
+  const { zone } = getAHR999ZoneInfo(value);
+  return AHR999_ZONE_COLORS.findIndex(z => z.zone === zone);
+}
+
+function formatDate(ts: number): string {
+  return new Date(ts).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * AHR999HistoryChart - Daily AHR999 on a log scale over the zone bands
+ *
+ * The line takes the colour of the zone each day closed in, so runs in the
+ * bottom / DCA zones stand out across cycles.
+ */
+export function AHR999HistoryChart({ history, height = 96 }: AHR999HistoryChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const layout = useMemo(() => {
+    const values = history.map(p => p.value);
+    const logMin = Math.log10(Math.min(...values) * 0.9);
+    const logMax = Math.log10(Math.max(...values) * 1.1);
+    const logRange = logMax - logMin || 1;
+
+    const toY = (value: number) => {
+      const clamped = Math.min(Math.max(Math.log10(value), logMin), logMax);
+      return height - ((clamped - logMin) / logRange) * height;
+    };
+    const step = WIDTH / Math.max(history.length - 1, 1);
+
+    // Zone bands clipped to the visible range
+    const bands = AHR999_ZONE_COLORS.map((zone, i) => {
+      const top = toY(ZONE_BOUNDS[i + 1]);
+      const bottom = ZONE_BOUNDS[i] > 0 ? toY(ZONE_BOUNDS[i]) : height;
+      return { hex: zone.hex, y: top, height: bottom - top };
+    }).filter(band => band.height > 0);
+
+    // One path per run of days in the same zone, each joined to the next day
+    const runs: { hex: string; d: string }[] = [];
+    let runStart = 0;
+    history.forEach((point, i) => {
+      const zone = getZoneIndex(point.value);
+      const isLast = i === history.length - 1;
+      if (!isLast && getZoneIndex(history[i + 1].value) === zone) return;
+
+      const end = Math.min(i + 1, history.length - 1);
+      const d = history
+        .slice(runStart, end + 1)
+        .map((p, j) => `${j === 0 ? 'M' : 'L'} ${((runStart + j) * step).toFixed(1)},${toY(p.value).toFixed(1)}`)
+        .join(' ');
+      runs.push({ hex: AHR999_ZONE_COLORS[zone].hex, d });
+      runStart = i + 1;
+    });
+
+    return { bands, runs, step };
+  }, [history, height]);
+
+  if (history.length < 2) {
+    return (
+      <div className="flex items-center justify-center text-[11px] text-muted-foreground" style={{ height }}>
+        Not enough history
+      </div>
+    );
+  }
+
+  const hovered = history[hoverIndex ?? history.length - 1];
+  const hoveredZone = getAHR999ZoneInfo(hovered.value);
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const index = Math.round(x / layout.step);
+    setHoverIndex(Math.min(Math.max(index, 0), history.length - 1));
+  };
+
+  return (
+    <div>
+      {/* Hover readout (today when idle) */}
+      <div className="flex items-center justify-between text-[11px] mb-1 tabular-nums">
+        <span className="text-muted-foreground">{formatDate(hovered.time)}</span>
+        <span className="flex items-center gap-3">
+          <span className="text-muted-foreground">${formatPrice(hovered.price)}</span>
+          <span className={`font-medium ${hoveredZone.color}`}>{hovered.value.toFixed(2)}</span>
+        </span>
+      </div>
+
+      <svg
+        width="100%"
+        height={height}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        className="block rounded"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {/* Zone bands */}
+        {layout.bands.map((band) => (
+          <rect key={band.hex} x={0} y={band.y} width={WIDTH} height={band.height} fill={band.hex} opacity={0.12} />
+        ))}
+
+        {/* Daily AHR999, coloured by zone */}
+        {layout.runs.map((run, i) => (
+          <path
+            key={i}
+            d={run.d}
+            fill="none"
+            stroke={run.hex}
+            strokeWidth={1.5}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+
+        {/* Crosshair */}
+        {hoverIndex !== null && (
+          <line
+            x1={hoverIndex * layout.step}
+            x2={hoverIndex * layout.step}
+            y1={0}
+            y2={height}
+            stroke="currentColor"
+            className="text-muted-foreground"
+            strokeDasharray="2 2"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+
+      <div className="flex justify-between text-[10px] text-muted-foreground mt-0.5 tabular-nums">
+        <span>{formatDate(history[0].time)}</span>
+        <span>Today</span>
+      </div>
+    </div>
+  );
+}
@@ -3,8 +3,10 @@
 import { useState, useEffect } from 'react';
 import { SmallWidget } from '@/components/widgets/base';
 import { TooltipList } from '@/components/ui';
+import { AHR999HistoryChart } from '@/components/AHR999HistoryChart';
 import { fetchAHR999Data, getAHR999ZoneInfo, AHR999Data } from '@/lib/ahr999';
-import { AHR999_ZONE_COLORS, AHR999_ZONE_LEGEND } from '@/lib/constants';
+import { AHR999, AHR999_ZONE_COLORS, AHR999_ZONE_LEGEND } from '@/lib/constants';
+import { formatPrice } from '@/lib/utils';
 
 export function AHR999Indicator() {
   const [data, setData] = useState<AHR999Data | null>(null);
@@ -20,8 +22,8 @@ export function AHR999Indicator() {
 
     loadData();
 
-    // Refresh every 5 minutes
-    const interval = setInterval(loadData, 5 * 60 * 1000);
+    // Refresh every 5 minutes (only the latest page of closes is refetched)
+    const interval = setInterval(loadData, AHR999.REFRESH_INTERVAL);
     return () => clearInterval(interval);
   }, []);
 
@@ -54,6 +56,8 @@ export function AHR999Indicator() {
           "Combines 200-day MA & growth curve",
           <><span className="text-green-500">&lt;0.45</span>: Strong buy zone</>,
           <><span className="text-red-500">&gt;4</span>: Consider taking profits</>,
+          "Zone prices hold today's 200-day cost fixed",
+          data?.source === 'coingecko' ? "Prices: CoinGecko (OKX unavailable)" : "Prices: OKX BTC-USDT daily closes",
         ]} />
       }
     >
@@ -96,6 +100,27 @@ export function AHR999Indicator() {
         )}
       </div>
 
+      {/* Index History */}
+      {data && (
+        <div className="mt-3">
+          <AHR999HistoryChart history={data.history} />
+        </div>
+      )}
+
+      {/* Prices at which today's index crosses into Bottom / DCA */}
+      {data && (
+        <div className="grid grid-cols-2 gap-2 mt-3 text-[11px]">
+          <div className="rounded-md bg-muted/50 px-2 py-1.5">
+            <div className="text-muted-foreground">AHR999 = {AHR999.BOTTOM_THRESHOLD}</div>
+            <div className="font-semibold text-green-600 dark:text-green-400 tabular-nums">${formatPrice(data.bottomPrice)}</div>
+          </div>
+          <div className="rounded-md bg-muted/50 px-2 py-1.5">
+            <div className="text-muted-foreground">AHR999 = {AHR999.DCA_THRESHOLD}</div>
+            <div className="font-semibold text-emerald-500 dark:text-emerald-400 tabular-nums">${formatPrice(data.dcaPrice)}</div>
+          </div>
+        </div>
+      )}
+
       {/* Zone Legend - Show on hover */}
       <div className="space-y-1 mt-0 max-h-0 overflow-hidden opacity-0 group-hover:mt-3 group-hover:max-h-32 group-hover:opacity-100 transition-all duration-200">
         {AHR999_ZONE_LEGEND.map((zone) => (
@@ -0,0 +1,41 @@
+'use client';
+
+import { BellRing, X } from 'lucide-react';
+import { AlertEvent } from '@/lib/types';
+
+interface AlertToastsProps {
+  toasts: AlertEvent[];
+  onDismiss: (id: string) => void;
+}
+
+/**
+ * AlertToasts - In-app notifications for fired alert rules (newest on top)
+ */
+export function AlertToasts({ toasts, onDismiss }: AlertToastsProps) {
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[120] flex flex-col gap-2 w-[320px] max-w-[calc(100vw-2rem)]" role="status" aria-live="polite">
+      {toasts.map(toast => (
+        <div
+          key={toast.id}
+          className="flex items-start gap-2 rounded-lg border bg-card shadow-lg px-3 py-2.5 animate-in fade-in-0 slide-in-from-bottom-2"
+        >
+          <BellRing className="w-4 h-4 text-primary flex-shrink-0 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <div className="text-[12px] font-medium text-foreground">{toast.title}</div>
+            <div className="text-[11px] text-muted-foreground tabular-nums break-words">{toast.message}</div>
+          </div>
+          <button
+            type="button"
+            onClick={() => onDismiss(toast.id)}
+            className="text-muted-foreground hover:text-foreground flex-shrink-0"
+            aria-label="Dismiss alert"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
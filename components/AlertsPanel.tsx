@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import { Bell, BellRing, Trash2 } from 'lucide-react';
+import { AlertField, AlertOperator } from '@/lib/types';
+import { ALERT_FIELDS, ALERT_FIELD_KEYS, describeAlertRule, createAlertId } from '@/lib/alerts';
+import { ALERTS } from '@/lib/constants';
+import { AlertsState } from '@/hooks/useAlerts';
+import {
+  Button,
+  Sheet,
+  SheetTrigger,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+  PillButtonGroup,
+} from '@/components/ui';
+
+interface AlertsPanelProps {
+  alerts: AlertsState;
+}
+
+const FIELD_OPTIONS = ALERT_FIELD_KEYS.map(field => ({ value: field, label: ALERT_FIELDS[field].label }));
+
+const OPERATOR_OPTIONS: { value: AlertOperator; label: string }[] = [
+  { value: 'lt', label: 'Below' },
+  { value: 'gt', label: 'Above' },
+];
+
+const inputClass = 'w-full bg-transparent text-[12px] tabular-nums text-foreground outline-none [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none';
+
+// Labelled input in the rule form
+function FormInput({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="text-[11px] text-muted-foreground font-medium">{label}</span>
+      <span className="inline-flex items-center bg-muted rounded-lg px-2 h-8">{children}</span>
+    </label>
+  );
+}
+
+/**
+ * AlertsPanel - Bell button + slide-over for managing alert rules
+ */
+export function AlertsPanel({ alerts }: AlertsPanelProps) {
+  const [field, setField] = useState<AlertField>('rsi7');
+  const [operator, setOperator] = useState<AlertOperator>('lt');
+  const [value, setValue] = useState('25');
+  const [maxRank, setMaxRank] = useState('');
+  const [symbol, setSymbol] = useState('');
+  const [cooldown, setCooldown] = useState(String(ALERTS.DEFAULT_COOLDOWN_MIN));
+
+  const activeCount = alerts.rules.filter(r => r.enabled).length;
+  const threshold = parseFloat(value);
+  const canAdd = !isNaN(threshold) && alerts.rules.length < ALERTS.MAX_RULES;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    const rank = parseInt(maxRank, 10);
+    const cooldownMin = parseInt(cooldown, 10);
+    alerts.addRule({
+      id: createAlertId(),
+      field,
+      operator,
+      value: threshold,
+      maxRank: rank > 0 ? rank : undefined,
+      symbol: symbol.trim() ? symbol.trim().toUpperCase() : undefined,
+      cooldownMin: cooldownMin > 0 ? cooldownMin : ALERTS.DEFAULT_COOLDOWN_MIN,
+      enabled: true,
+    });
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8 relative" aria-label="Alerts">
+          {activeCount > 0 ? (
+            <BellRing className="w-4 h-4 text-primary" />
+          ) : (
+            <Bell className="w-4 h-4 text-muted-foreground" />
+          )}
+          {activeCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-primary text-primary-foreground text-[9px] leading-[14px] text-center tabular-nums">
+              {activeCount}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+
+      <SheetContent side="right" className="w-full sm:max-w-md overflow-y-auto p-5">
+        <div className="space-y-5">
+          <SheetHeader className="text-left">
+            <SheetTitle>Alerts</SheetTitle>
+            <SheetDescription className="text-[12px]">
+              Rules are checked on every board update and shared across exchanges.
+            </SheetDescription>
+          </SheetHeader>
+
+          {/* Browser notifications */}
+          {alerts.permission !== 'granted' && (
+            <div className="flex items-center justify-between rounded-lg border px-3 py-2 text-[12px]">
+              <span className="text-muted-foreground">
+                {alerts.permission === 'unsupported'
+                  ? 'Browser notifications unavailable, in-app only'
+                  : alerts.permission === 'denied'
+                    ? 'Notifications blocked in browser settings'
+                    : 'Get notified when this tab is in the background'}
+              </span>
+              {alerts.permission === 'default' && (
+                <Button size="sm" variant="secondary" onClick={alerts.requestPermission}>
+                  Enable
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* New rule */}
+          <div className="space-y-3">
+            <div className="text-[12px] font-medium text-foreground">New Rule</div>
+            <PillButtonGroup options={FIELD_OPTIONS} value={field} onChange={setField} size="sm" />
+            <div className="flex items-end gap-2">
+              <PillButtonGroup options={OPERATOR_OPTIONS} value={operator} onChange={setOperator} size="sm" />
+              <FormInput label={`Value${ALERT_FIELDS[field].unit ? ` (${ALERT_FIELDS[field].unit})` : ''}`}>
+                <input
+                  type="number"
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className={inputClass}
+                />
+              </FormInput>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <FormInput label="Top N rank">
+                <input
+                  type="number"
+                  min="1"
+                  placeholder="Any"
+                  value={maxRank}
+                  onChange={(e) => setMaxRank(e.target.value)}
+                  className={inputClass}
+                />
+              </FormInput>
+              <FormInput label="Symbol">
+                <input
+                  type="text"
+                  placeholder="Any"
+                  value={symbol}
+                  onChange={(e) => setSymbol(e.target.value)}
+                  className={`${inputClass} uppercase`}
+                />
+              </FormInput>
+              <FormInput label="Cooldown (min)">
+                <input
+                  type="number"
+                  min="1"
+                  value={cooldown}
+                  onChange={(e) => setCooldown(e.target.value)}
+                  className={inputClass}
+                />
+              </FormInput>
+            </div>
+            <Button size="sm" className="w-full" disabled={!canAdd} onClick={handleAdd}>
+              Add Rule
+            </Button>
+          </div>
+
+          {/* Existing rules */}
+          <div className="space-y-2">
+            <div className="text-[12px] font-medium text-foreground">
+              Rules <span className="text-muted-foreground font-normal">{alerts.rules.length}/{ALERTS.MAX_RULES}</span>
+            </div>
+            {alerts.rules.length === 0 ? (
+              <div className="text-[12px] text-muted-foreground py-4 text-center">No alert rules yet</div>
+            ) : (
+              alerts.rules.map(rule => (
+                <div key={rule.id} className="flex items-center gap-2 rounded-lg border px-3 py-2">
+                  <button
+                    type="button"
+                    onClick={() => alerts.toggleRule(rule.id)}
+                    className={`w-8 h-4 rounded-full relative transition-colors flex-shrink-0 ${rule.enabled ? 'bg-primary' : 'bg-muted'}`}
+                    aria-label={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                    aria-pressed={rule.enabled}
+                  >
+                    <span
+                      className={`absolute top-0.5 w-3 h-3 rounded-full bg-background transition-all ${rule.enabled ? 'left-[18px]' : 'left-0.5'}`}
+                    />
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <div className={`text-[12px] truncate ${rule.enabled ? 'text-foreground' : 'text-muted-foreground'}`}>
+                      {describeAlertRule(rule)}
+                    </div>
+                    <div className="text-[11px] text-muted-foreground">Every {rule.cooldownMin}m at most</div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => alerts.removeRule(rule.id)}
+                    aria-label="Delete rule"
+                  >
+                    <Trash2 className="w-3.5 h-3.5 text-muted-foreground" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
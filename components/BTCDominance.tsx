@@ -1,20 +1,85 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
-import { loadTradingViewMiniChart } from '@/lib/widget-utils';
+import { useEffect, useState } from 'react';
+import { PieChart } from 'lucide-react';
+import { SmallWidget } from '@/components/widgets/base';
+import { DominanceChart } from '@/components/DominanceChart';
+import { TooltipList, ToggleGroup, ToggleGroupItem } from '@/components/ui';
+import { fetchDominanceData } from '@/lib/api';
+import { DominanceData, DominanceRange } from '@/lib/types';
+import { DOMINANCE } from '@/lib/constants';
+
+const RANGES = Object.keys(DOMINANCE.RANGE_DAYS) as DominanceRange[];
 
 export function BTCDominance() {
-  const containerRef = useRef<HTMLDivElement>(null);
+  const [range, setRange] = useState<DominanceRange>(DOMINANCE.DEFAULT_RANGE);
+  const [data, setData] = useState<DominanceData | null>(null);
+  const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (!containerRef.current) return;
-    loadTradingViewMiniChart();
-  }, []);
+    let cancelled = false;
+
+    const loadData = async () => {
+      const result = await fetchDominanceData(range);
+      if (cancelled) return;
+      if (result) setData(result);
+      setLoading(false);
+    };
+
+    setLoading(true);
+    loadData();
+
+    const interval = setInterval(loadData, DOMINANCE.REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [range]);
 
   return (
-    <div ref={containerRef}>
-      {/* @ts-ignore - TradingView Web Component */}
-      <tv-mini-chart symbol="CRYPTOCAP:BTC.D"></tv-mini-chart>
-    </div>
+    <SmallWidget
+      title="BTC Dominance"
+      icon={<PieChart className="w-4 h-4" />}
+      subtitle="BTC and ETH share of total crypto market cap"
+      headerActions={
+        <ToggleGroup
+          type="single"
+          value={range}
+          onValueChange={(v) => v && setRange(v as DominanceRange)}
+          size="sm"
+          className="gap-0.5"
+        >
+          {RANGES.map((r) => (
+            <ToggleGroupItem
+              key={r}
+              value={r}
+              onClick={(e) => e.stopPropagation()}
+              className="px-2.5 py-1 text-xs data-[state=on]:bg-background data-[state=on]:shadow-sm"
+            >
+              {r.toUpperCase()}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      }
+      loading={loading && !data}
+      tooltip={
+        <TooltipList items={[
+          "CoinGecko global market cap percentages",
+          "Snapshots every 5 minutes, stored server-side",
+          "Change is in percentage points over the range",
+          "BTC and ETH lines use separate scales",
+        ]} />
+      }
+    >
+      {data ? (
+        <DominanceChart history={data.history} height={DOMINANCE.CHART_HEIGHT} />
+      ) : loading ? (
+        <div className="bg-muted rounded animate-pulse" style={{ height: DOMINANCE.CHART_HEIGHT + 20 }} />
+      ) : (
+        <div className="text-center py-4 text-[11px] text-muted-foreground">
+          Dominance data unavailable
+        </div>
+      )}
+    </SmallWidget>
   );
 }
@@ -0,0 +1,228 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { CandleBar } from '@/lib/types';
+import { calculateRSISeries, formatPrice } from '@/lib/utils';
+import { RSI, TOKEN_CHART } from '@/lib/constants';
+
+interface CandlestickChartProps {
+  candles: number[][]; // [timestamp, open, high, low, close, volume], oldest first
+  bar: CandleBar;
+  height?: number;
+  rsiHeight?: number;
+}
+
+// Chart geometry (SVG units, scaled to container width)
+const WIDTH = 360;
+const PADDING = 4;
+
+const RSI7_COLOR = '#f59e0b';  // amber-500
+const RSI14_COLOR = '#8b5cf6'; // violet-500
+
+function formatTime(ts: number, bar: CandleBar): string {
+  const intraday = bar === '1H' || bar === '4H';
+  return new Date(ts).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    ...(intraday ? { hour: '2-digit', minute: '2-digit' } : { year: '2-digit' }),
+  });
+}
+
+function rsiPath(values: (number | null)[], step: number, height: number): string {
+  let path = '';
+  values.forEach((v, i) => {
+    if (v === null) return;
+    const x = i * step + step / 2;
+    const y = height - (v / 100) * height;
+    path += `${path ? 'L' : 'M'} ${x.toFixed(1)},${y.toFixed(1)} `;
+  });
+  return path.trim();
+}
+
+/**
+ * CandlestickChart - OHLC candles with an RSI7/RSI14 sub-pane
+ *
+ * RSI is computed over the full fetched series and only the most recent
+ * candles are drawn, so the visible RSI is already warmed up.
+ */
+export function CandlestickChart({ candles, bar, height = 180, rsiHeight = 70 }: CandlestickChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const layout = useMemo(() => {
+    const closes = candles.map(c => c[4]);
+    const offset = Math.max(0, candles.length - TOKEN_CHART.VISIBLE_CANDLES);
+    const visible = candles.slice(offset);
+    const rsi7 = calculateRSISeries(closes, 7).slice(offset);
+    const rsi14 = calculateRSISeries(closes, 14).slice(offset);
+
+    const low = Math.min(...visible.map(c => c[3]));
+    const high = Math.max(...visible.map(c => c[2]));
+    const priceRange = high - low || 1;
+    const chartHeight = height - PADDING * 2;
+    const step = WIDTH / Math.max(visible.length, 1);
+    const toY = (price: number) => PADDING + chartHeight - ((price - low) / priceRange) * chartHeight;
+
+    const bodies = visible.map((c, i) => {
+      const [, open, hi, lo, close] = c;
+      const top = toY(Math.max(open, close));
+      const bottom = toY(Math.min(open, close));
+      return {
+        x: i * step,
+        wickX: i * step + step / 2,
+        wickTop: toY(hi),
+        wickBottom: toY(lo),
+        y: top,
+        height: Math.max(bottom - top, 0.5),
+        up: close >= open,
+      };
+    });
+
+    return {
+      visible,
+      rsi7,
+      rsi14,
+      bodies,
+      step,
+      rsi7Path: rsiPath(rsi7, step, rsiHeight),
+      rsi14Path: rsiPath(rsi14, step, rsiHeight),
+    };
+  }, [candles, height, rsiHeight]);
+
+  if (layout.visible.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-[12px] text-muted-foreground" style={{ height: height + rsiHeight }}>
+        No candle data
+      </div>
+    );
+  }
+
+  const index = hoverIndex ?? layout.visible.length - 1;
+  const [ts, open, high, low, close] = layout.visible[index];
+  const change = open > 0 ? ((close - open) / open) * 100 : 0;
+  const rsi7 = layout.rsi7[index];
+  const rsi14 = layout.rsi14[index];
+  const crosshairX = index * layout.step + layout.step / 2;
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const i = Math.floor(x / layout.step);
+    setHoverIndex(Math.min(Math.max(i, 0), layout.visible.length - 1));
+  };
+
+  const rsiY = (value: number) => rsiHeight - (value / 100) * rsiHeight;
+
+  return (
+    <div>
+      {/* Hover readout (latest candle when idle) */}
+      <div className="flex items-center justify-between text-[11px] mb-1.5 tabular-nums">
+        <span className="text-muted-foreground">{formatTime(ts, bar)}</span>
+        <span className="flex items-center gap-2">
+          <span className="text-muted-foreground">O <span className="text-foreground">{formatPrice(open)}</span></span>
+          <span className="text-muted-foreground">H <span className="text-foreground">{formatPrice(high)}</span></span>
+          <span className="text-muted-foreground">L <span className="text-foreground">{formatPrice(low)}</span></span>
+          <span className="text-muted-foreground">C <span className="text-foreground">{formatPrice(close)}</span></span>
+          <span className={change >= 0 ? 'text-green-500' : 'text-red-500'}>
+            {change >= 0 ? '+' : ''}{change.toFixed(2)}%
+          </span>
+        </span>
+      </div>
+
+      {/* Price pane */}
+      <svg
+        width="100%"
+        height={height}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        className="block"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {layout.bodies.map((b, i) => {
+          const color = b.up ? '#22c55e' : '#ef4444'; // green-500 / red-500
+          const opacity = hoverIndex === null || hoverIndex === i ? 1 : 0.5;
+          return (
+            <g key={i} opacity={opacity}>
+              <line
+                x1={b.wickX}
+                x2={b.wickX}
+                y1={b.wickTop}
+                y2={b.wickBottom}
+                stroke={color}
+                strokeWidth={1}
+                vectorEffect="non-scaling-stroke"
+              />
+              <rect
+                x={b.x + layout.step * 0.15}
+                y={b.y}
+                width={Math.max(layout.step * 0.7, 0.5)}
+                height={b.height}
+                fill={color}
+              />
+            </g>
+          );
+        })}
+
+        {hoverIndex !== null && (
+          <line
+            x1={crosshairX}
+            x2={crosshairX}
+            y1={0}
+            y2={height}
+            stroke="currentColor"
+            className="text-muted-foreground"
+            strokeDasharray="2 2"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+
+      {/* RSI pane */}
+      <div className="flex items-center gap-3 text-[11px] mt-2 mb-1 tabular-nums">
+        <span className="text-muted-foreground">RSI</span>
+        <span style={{ color: RSI7_COLOR }}>7: {rsi7 !== null ? rsi7.toFixed(1) : '--'}</span>
+        <span style={{ color: RSI14_COLOR }}>14: {rsi14 !== null ? rsi14.toFixed(1) : '--'}</span>
+      </div>
+      <svg
+        width="100%"
+        height={rsiHeight}
+        viewBox={`0 0 ${WIDTH} ${rsiHeight}`}
+        preserveAspectRatio="none"
+        className="block rounded bg-muted/40"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {/* 70 / 30 guides */}
+        {[RSI.STRONG, RSI.VERY_WEAK].map((level) => (
+          <line
+            key={level}
+            x1={0}
+            x2={WIDTH}
+            y1={rsiY(level)}
+            y2={rsiY(level)}
+            stroke="currentColor"
+            className="text-border"
+            strokeDasharray="3 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+
+        <path d={layout.rsi14Path} fill="none" stroke={RSI14_COLOR} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        <path d={layout.rsi7Path} fill="none" stroke={RSI7_COLOR} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+
+        {hoverIndex !== null && (
+          <line
+            x1={crosshairX}
+            x2={crosshairX}
+            y1={0}
+            y2={rsiHeight}
+            stroke="currentColor"
+            className="text-muted-foreground"
+            strokeDasharray="2 2"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+    </div>
+  );
+}
@@ -1,12 +1,174 @@
 'use client';
 
-import { useState, useEffect, useRef, useMemo } from 'react';
-import { Search, Settings, RotateCcw } from 'lucide-react';
-import { ColumnVisibility, ColumnKey, Filters, RsiSignalType } from '@/lib/types';
+import { useState, useEffect, useRef, useMemo, ReactNode } from 'react';
+import { Search, Settings, RotateCcw, Download, X } from 'lucide-react';
+import { ColumnVisibility, ColumnKey, Filters, RsiSignalType, EmaTrendSignal, MacdSignalType, TableExportFormat, RsiPair, RsiPairKey, CandleBar, StreamTransport } from '@/lib/types';
 import { getDefaultColumns } from '@/lib/defaults';
+import { RSI_PAIRS } from '@/lib/constants';
+import { RSI_PAIR_BARS, rsiPairKey, rsiColumnKey, getRsiPairLabel } from '@/lib/rsi-pairs';
 import { RsiFilter } from './RsiFilter';
+import { ScreenerInput } from './ScreenerInput';
 import { PillButtonGroup, PillButtonOption, Button, Tabs, TabsList, TabsTrigger } from '@/components/ui';
 
+const EXPORT_OPTIONS: { value: TableExportFormat; label: string }[] = [
+  { value: 'csv', label: 'Export CSV' },
+  { value: 'json', label: 'Export JSON' },
+];
+
+// Download button with a CSV / JSON choice
+function ExportButton({ onExport }: { onExport: (format: TableExportFormat) => void }) {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={() => setOpen(!open)}
+        aria-label="Export filtered table"
+        aria-expanded={open}
+        aria-haspopup="menu"
+      >
+        <Download className="w-4 h-4 text-muted-foreground" />
+      </Button>
+      {open && (
+        <div className="absolute right-0 top-10 z-[110] w-[140px] rounded-lg border bg-card shadow-xl p-1" role="menu">
+          {EXPORT_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              role="menuitem"
+              onClick={() => {
+                onExport(option.value);
+                setOpen(false);
+              }}
+              className="w-full text-left rounded-md px-2 py-1.5 text-[12px] text-foreground hover:bg-muted"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface RsiPairEditorProps {
+  pairs: RsiPair[];
+  onAdd: (pair: RsiPair) => string | null;
+  onRemove: (pair: RsiPair) => void;
+}
+
+// Add / remove extra RSI (timeframe, period) columns
+function RsiPairEditor({ pairs, onAdd, onRemove }: RsiPairEditorProps) {
+  const [bar, setBar] = useState<CandleBar>('4H');
+  const [period, setPeriod] = useState('14');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const result = onAdd({ bar, period: parseInt(period, 10) });
+    setError(result);
+  };
+
+  return (
+    <div>
+      <div className="text-[11px] text-muted-foreground font-medium mb-2">RSI Pairs</div>
+      {pairs.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-2">
+          {pairs.map(pair => (
+            <span
+              key={rsiPairKey(pair)}
+              className="inline-flex items-center gap-1 rounded-md bg-muted pl-2 pr-1 h-6 text-[12px] text-foreground"
+            >
+              {getRsiPairLabel(pair)}
+              <button
+                type="button"
+                onClick={() => onRemove(pair)}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label={`Remove ${getRsiPairLabel(pair)}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <PillButtonGroup
+          options={RSI_PAIR_BARS.map(b => ({ value: b, label: b }))}
+          value={bar}
+          onChange={setBar}
+          size="sm"
+        />
+        <input
+          type="number"
+          min={RSI_PAIRS.MIN_PERIOD}
+          max={RSI_PAIRS.MAX_PERIOD}
+          value={period}
+          onChange={(e) => {
+            setPeriod(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          className="w-14 bg-muted rounded-md px-2 h-7 text-[12px] text-foreground text-center outline-none"
+          aria-label="RSI period"
+        />
+        <Button
+          size="sm"
+          className="h-7 px-2 text-[12px]"
+          disabled={!period || pairs.length >= RSI_PAIRS.MAX_PAIRS}
+          onClick={handleAdd}
+        >
+          Add
+        </Button>
+      </div>
+      {error && <div className="mt-1.5 text-[11px] text-red-500">{error}</div>}
+    </div>
+  );
+}
+
+const TRANSPORT_OPTIONS: { value: StreamTransport; label: string }[] = [
+  { value: 'direct', label: 'Exchange WebSocket' },
+  { value: 'sse', label: 'Server Stream' },
+];
+
+interface LiveDataSettingProps {
+  value: StreamTransport;
+  active: StreamTransport | null;
+  onChange: (transport: StreamTransport) => void;
+}
+
+// Live ticker transport, with a note when the adapter fell back to the other one
+function LiveDataSetting({ value, active, onChange }: LiveDataSettingProps) {
+  const fallback = active && active !== value ? TRANSPORT_OPTIONS.find(o => o.value === active) : undefined;
+
+  return (
+    <div>
+      <div className="text-[11px] text-muted-foreground font-medium mb-2">Live Data</div>
+      <PillButtonGroup options={TRANSPORT_OPTIONS} value={value} onChange={onChange} size="sm" />
+      {fallback && (
+        <div className="mt-1.5 text-[11px] text-muted-foreground">Unavailable, using {fallback.label}</div>
+      )}
+    </div>
+  );
+}
+
 // Quick filter types
 type QuickFilter = 'all' | 'top25' | 'meme' | 'noSpot' | 'newListed' | 'overbought' | 'oversold';
 
@@ -17,13 +179,21 @@ interface ControlsProps {
   searchTerm: string;
   overboughtCount: number;
   oversoldCount: number;
-  exchange?: 'okx' | 'hyperliquid';
+  exchange?: 'okx' | 'hyperliquid' | 'binance';
   onColumnChange: (col: keyof ColumnVisibility, visible: boolean) => void;
   onColumnsPreset: (preset: 'all' | 'none' | 'default') => void;
   onFiltersChange: (filters: Filters) => void;
   onSearchChange: (term: string) => void;
   onColumnOrderChange: (order: ColumnKey[]) => void;
   onScrollToTop?: () => void;
+  onExport?: (format: TableExportFormat) => void; // Download the filtered table
+  actions?: ReactNode; // Extra icon buttons next to settings (e.g. alerts)
+  rsiPairs?: RsiPair[]; // Configured extra RSI columns
+  onAddRsiPair?: (pair: RsiPair) => string | null;
+  onRemoveRsiPair?: (pair: RsiPair) => void;
+  transport?: StreamTransport; // Preferred live transport
+  activeTransport?: StreamTransport | null; // Transport actually running
+  onTransportChange?: (transport: StreamTransport) => void;
 }
 
 export function Controls({
@@ -40,6 +210,14 @@ export function Controls({
   onSearchChange,
   onColumnOrderChange,
   onScrollToTop,
+  onExport,
+  actions,
+  rsiPairs = [],
+  onAddRsiPair,
+  onRemoveRsiPair,
+  transport,
+  activeTransport = null,
+  onTransportChange,
 }: ControlsProps) {
   const [showCustomizePanel, setShowCustomizePanel] = useState(false);
   const [tempFilters, setTempFilters] = useState<Filters>(filters);
@@ -140,16 +318,24 @@ export function Controls({
 
   // Check if columns differ from default
   const defaultColumns = getDefaultColumns();
+  // RSI pair columns default to visible
   const hasNonDefaultColumns = Object.keys(columns).some(
-    key => columns[key as keyof ColumnVisibility] !== defaultColumns[key as keyof ColumnVisibility]
+    key => columns[key as keyof ColumnVisibility] !== (defaultColumns[key as keyof ColumnVisibility] ?? true)
   );
 
+  // Set one RSI pair filter, dropping the map once it's empty
+  const handleRsiPairFilter = (key: RsiPairKey, value: string | undefined) => {
+    const rsiPairFilters: NonNullable<Filters['rsiPairs']> = { ...filters.rsiPairs, [key]: value };
+    if (!value) delete rsiPairFilters[key];
+    onFiltersChange({ ...filters, rsiPairs: Object.keys(rsiPairFilters).length > 0 ? rsiPairFilters : undefined });
+  };
+
   const handleClearFilters = () => {
     setTempFilters({});
     onFiltersChange({});
   };
 
-  const exchangeLabel = exchange === 'hyperliquid' ? 'Hyperliquid' : 'OKX';
+  const exchangeLabel = exchange === 'hyperliquid' ? 'Hyperliquid' : exchange === 'binance' ? 'Binance' : 'OKX';
 
   // Main filter options - using PillButtonGroup template
   const mainFilterOptions = useMemo((): PillButtonOption<QuickFilter>[] => [
@@ -236,6 +422,15 @@ export function Controls({
         { key: 'marketCap', label: 'Market Cap' },
       ]
     },
+    // Only show open interest columns for exchanges that have the data
+    ...(exchange === 'okx' ? [{
+      label: 'Open Interest',
+      columns: [
+        { key: 'openInterest' as ColumnKey, label: 'Open Interest' },
+        { key: 'oiChange24h' as ColumnKey, label: 'OI 24H Change' },
+        { key: 'oiVolRatio' as ColumnKey, label: 'OI / Volume' },
+      ]
+    }] : []),
     {
       label: 'Price Change',
       columns: [
@@ -253,6 +448,28 @@ export function Controls({
         { key: 'rsi14', label: 'D-RSI14' },
         { key: 'rsiW7', label: 'W-RSI7' },
         { key: 'rsiW14', label: 'W-RSI14' },
+        ...rsiPairs.map(pair => ({ key: rsiColumnKey(pair) as ColumnKey, label: getRsiPairLabel(pair) })),
+      ]
+    },
+    {
+      label: 'Technical Indicators',
+      columns: [
+        { key: 'emaTrend', label: 'EMA Trend' },
+        { key: 'ema20', label: 'vs EMA20' },
+        { key: 'ema50', label: 'vs EMA50' },
+        { key: 'ema200', label: 'vs EMA200' },
+        { key: 'macd', label: 'MACD' },
+        { key: 'bbPercentB', label: 'Bollinger %B' },
+        { key: 'atrPct', label: 'ATR %' },
+      ]
+    },
+    {
+      label: 'Volatility & Beta',
+      columns: [
+        { key: 'vol7d', label: 'Vol 7D' },
+        { key: 'vol30d', label: 'Vol 30D' },
+        { key: 'btcBeta', label: 'Beta to BTC' },
+        { key: 'btcCorr', label: 'Correlation to BTC' },
       ]
     },
     // Only show listing date column for exchanges that have the data
@@ -312,6 +529,26 @@ export function Controls({
           <Settings className="w-4 h-4 text-muted-foreground" />
         </Button>
 
+        {onExport && <ExportButton onExport={onExport} />}
+
+        {actions}
+
+        {/* Symbol filter (scatter brush) - shown as a chip since the search box doesn't hold it */}
+        {filters.symbols && filters.symbols.length > 0 && (
+          <span className="inline-flex items-center gap-1 rounded-md bg-muted pl-2 pr-1 h-6 text-[12px] text-foreground">
+            {filters.symbols.slice(0, 3).join(', ')}
+            {filters.symbols.length > 3 && ` +${filters.symbols.length - 3}`}
+            <button
+              type="button"
+              onClick={() => onFiltersChange({ ...filters, symbols: undefined })}
+              className="text-muted-foreground hover:text-foreground"
+              aria-label="Clear symbol filter"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        )}
+
         {/* Search */}
         <label className="hidden md:inline-flex items-center gap-1 cursor-text">
           <Search className="w-4 h-4 text-muted-foreground" />
@@ -411,12 +648,29 @@ export function Controls({
                   </div>
                 );
               })}
+
+              {onAddRsiPair && onRemoveRsiPair && (
+                <RsiPairEditor pairs={rsiPairs} onAdd={onAddRsiPair} onRemove={onRemoveRsiPair} />
+              )}
+
+              {transport && onTransportChange && (
+                <LiveDataSetting value={transport} active={activeTransport} onChange={onTransportChange} />
+              )}
             </div>
           )}
 
           {/* Filters tab content */}
           {customizeTab === 'filters' && (
             <div className="space-y-4">
+              {/* Screener Expression */}
+              <div>
+                <div className="text-[11px] text-muted-foreground font-medium mb-2">Screener Expression</div>
+                <ScreenerInput
+                  value={filters.expression}
+                  onChange={(v) => onFiltersChange({ ...filters, expression: v })}
+                />
+              </div>
+
               {/* Market Cap Rank */}
               <div>
                 <div className="text-[11px] text-muted-foreground font-medium mb-2">Market Cap Rank</div>
@@ -465,6 +719,49 @@ export function Controls({
                 />
               </div>
 
+              {/* Open Interest - only for exchanges with OI data */}
+              {exchange === 'okx' && (
+                <div>
+                  <div className="text-[11px] text-muted-foreground font-medium mb-2">Open Interest</div>
+                  <div className="flex flex-col gap-3">
+                    <PillButtonGroup
+                      options={[
+                        { value: '0-10', label: '≤$10M' },
+                        { value: '10-100', label: '$10M-$100M' },
+                        { value: '100+', label: '>$100M' },
+                      ]}
+                      value={filters.openInterestMin || ''}
+                      onChange={(v) => onFiltersChange({ ...filters, openInterestMin: v || undefined })}
+                      allowDeselect
+                      size="sm"
+                    />
+                    <PillButtonGroup
+                      options={[
+                        { value: '>20', label: 'OI 24h >+20%' },
+                        { value: '>10', label: '>+10%' },
+                        { value: '<-10', label: '<-10%' },
+                        { value: '<-20', label: '<-20%' },
+                      ]}
+                      value={filters.oiChange || ''}
+                      onChange={(v) => onFiltersChange({ ...filters, oiChange: v || undefined })}
+                      allowDeselect
+                      size="sm"
+                    />
+                    <PillButtonGroup
+                      options={[
+                        { value: '>2', label: 'OI/Vol >2' },
+                        { value: '>1', label: '>1' },
+                        { value: '<0.5', label: '<0.5' },
+                      ]}
+                      value={filters.oiVolRatio || ''}
+                      onChange={(v) => onFiltersChange({ ...filters, oiVolRatio: v || undefined })}
+                      allowDeselect
+                      size="sm"
+                    />
+                  </div>
+                </div>
+              )}
+
               {/* RSI */}
               <div>
                 <div className="text-[11px] text-muted-foreground font-medium mb-2">RSI Indicators</div>
@@ -479,6 +776,22 @@ export function Controls({
                     <RsiFilter label="W-RSI7" value={filters.rsiW7} onChange={(v) => onFiltersChange({ ...filters, rsiW7: v })} />
                     <RsiFilter label="W-RSI14" value={filters.rsiW14} onChange={(v) => onFiltersChange({ ...filters, rsiW14: v })} />
                   </div>
+                  {/* Configured RSI pairs */}
+                  {rsiPairs.length > 0 && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-3">
+                      {rsiPairs.map(pair => {
+                        const key = rsiPairKey(pair);
+                        return (
+                          <RsiFilter
+                            key={key}
+                            label={getRsiPairLabel(pair)}
+                            value={filters.rsiPairs?.[key]}
+                            onChange={(v) => handleRsiPairFilter(key, v)}
+                          />
+                        );
+                      })}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -525,6 +838,156 @@ export function Controls({
                 />
               </div>
 
+              {/* Technical Indicators (daily) */}
+              <div>
+                <div className="text-[11px] text-muted-foreground font-medium mb-2">EMA Trend</div>
+                <div className="flex flex-col gap-3">
+                  <PillButtonGroup<EmaTrendSignal>
+                    options={[
+                      { value: 'strong-uptrend', label: 'Strong Uptrend' },
+                      { value: 'uptrend', label: 'Uptrend' },
+                      { value: 'mixed', label: 'Mixed' },
+                      { value: 'downtrend', label: 'Downtrend' },
+                      { value: 'strong-downtrend', label: 'Strong Downtrend' },
+                    ]}
+                    value={filters.emaTrend || []}
+                    onChange={(v) => onFiltersChange({ ...filters, emaTrend: v.length > 0 ? v : undefined })}
+                    multiSelect
+                    size="sm"
+                  />
+                  <div className="flex flex-wrap gap-x-4 gap-y-3">
+                    {(['ema20', 'ema50', 'ema200'] as const).map(key => {
+                      const period = key.slice(3);
+                      return (
+                        <PillButtonGroup
+                          key={key}
+                          options={[
+                            { value: '>0', label: `Above EMA${period}` },
+                            { value: '<0', label: `Below EMA${period}` },
+                          ]}
+                          value={filters[key] || ''}
+                          onChange={(v) => onFiltersChange({ ...filters, [key]: v || undefined })}
+                          allowDeselect
+                          size="sm"
+                        />
+                      );
+                    })}
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <div className="text-[11px] text-muted-foreground font-medium mb-2">MACD</div>
+                <div className="flex flex-col gap-3">
+                  <PillButtonGroup<MacdSignalType>
+                    options={[
+                      { value: 'bullish-cross', label: 'Bullish Cross' },
+                      { value: 'bullish', label: 'Bullish' },
+                      { value: 'bearish', label: 'Bearish' },
+                      { value: 'bearish-cross', label: 'Bearish Cross' },
+                    ]}
+                    value={filters.macdSignal || []}
+                    onChange={(v) => onFiltersChange({ ...filters, macdSignal: v.length > 0 ? v : undefined })}
+                    multiSelect
+                    size="sm"
+                  />
+                  <PillButtonGroup
+                    options={[
+                      { value: '<7', label: 'Crossed <7d ago' },
+                      { value: '<14', label: '<14d ago' },
+                      { value: '>30', label: 'No cross 30d+' },
+                    ]}
+                    value={filters.macdCrossAge || ''}
+                    onChange={(v) => onFiltersChange({ ...filters, macdCrossAge: v || undefined })}
+                    allowDeselect
+                    size="sm"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="text-[11px] text-muted-foreground font-medium mb-2">Bollinger %B / ATR</div>
+                <div className="flex flex-col gap-3">
+                  <PillButtonGroup
+                    options={[
+                      { value: '>1', label: 'Above upper band' },
+                      { value: '0.8~', label: '%B ≥0.8' },
+                      { value: '~0.2', label: '%B ≤0.2' },
+                      { value: '<0', label: 'Below lower band' },
+                    ]}
+                    value={filters.bbPercentB || ''}
+                    onChange={(v) => onFiltersChange({ ...filters, bbPercentB: v || undefined })}
+                    allowDeselect
+                    size="sm"
+                  />
+                  <PillButtonGroup
+                    options={[
+                      { value: '<3', label: 'ATR <3%' },
+                      { value: '3~6', label: '3-6%' },
+                      { value: '>6', label: '>6%' },
+                      { value: '>10', label: '>10%' },
+                    ]}
+                    value={filters.atrPct || ''}
+                    onChange={(v) => onFiltersChange({ ...filters, atrPct: v || undefined })}
+                    allowDeselect
+                    size="sm"
+                  />
+                </div>
+              </div>
+
+              {/* Realized Volatility / Beta to BTC */}
+              <div>
+                <div className="text-[11px] text-muted-foreground font-medium mb-2">Volatility & Beta</div>
+                <div className="flex flex-col gap-3">
+                  <PillButtonGroup
+                    options={[
+                      { value: '<50', label: 'Vol 30D <50%' },
+                      { value: '50~100', label: '50-100%' },
+                      { value: '>100', label: '>100%' },
+                      { value: '>150', label: '>150%' },
+                    ]}
+                    value={filters.vol30d || ''}
+                    onChange={(v) => onFiltersChange({ ...filters, vol30d: v || undefined })}
+                    allowDeselect
+                    size="sm"
+                  />
+                  <PillButtonGroup
+                    options={[
+                      { value: '<50', label: 'Vol 7D <50%' },
+                      { value: '>100', label: '>100%' },
+                      { value: '>150', label: '>150%' },
+                    ]}
+                    value={filters.vol7d || ''}
+                    onChange={(v) => onFiltersChange({ ...filters, vol7d: v || undefined })}
+                    allowDeselect
+                    size="sm"
+                  />
+                  <PillButtonGroup
+                    options={[
+                      { value: '>2', label: 'Beta >2' },
+                      { value: '>1.5', label: '>1.5' },
+                      { value: '>1', label: '>1' },
+                      { value: '<0.5', label: '<0.5' },
+                    ]}
+                    value={filters.btcBeta || ''}
+                    onChange={(v) => onFiltersChange({ ...filters, btcBeta: v || undefined })}
+                    allowDeselect
+                    size="sm"
+                  />
+                  <PillButtonGroup
+                    options={[
+                      { value: '>0.8', label: 'Corr >0.8' },
+                      { value: '0.5~0.8', label: '0.5-0.8' },
+                      { value: '<0.5', label: '<0.5' },
+                    ]}
+                    value={filters.btcCorr || ''}
+                    onChange={(v) => onFiltersChange({ ...filters, btcCorr: v || undefined })}
+                    allowDeselect
+                    size="sm"
+                  />
+                </div>
+              </div>
+
               {/* Has Spot - only for exchanges with spot data */}
               {exchange !== 'hyperliquid' && (
                 <div>
@@ -0,0 +1,141 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { DominancePoint } from '@/lib/types';
+
+interface DominanceChartProps {
+  history: DominancePoint[];
+  height?: number;
+}
+
+// Chart geometry (SVG units, scaled to container width)
+const WIDTH = 300;
+
+const SERIES = [
+  { key: 'btc', label: 'BTC', color: '#f7931a' },
+  { key: 'eth', label: 'ETH', color: '#627eea' },
+] as const;
+
+function formatTime(ts: number): string {
+  return new Date(ts).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * DominanceChart - BTC and ETH dominance over time
+ *
+ * Each series gets its own scale (BTC sits several times higher than ETH),
+ * so the lines show shape; the readout carries the actual percentages.
+ */
+export function DominanceChart({ history, height = 80 }: DominanceChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const layout = useMemo(() => {
+    const padding = 4;
+    const chartHeight = height - padding * 2;
+    const start = history[0]?.timestamp ?? 0;
+    const span = (history[history.length - 1]?.timestamp ?? 0) - start || 1;
+    const xs = history.map(p => ((p.timestamp - start) / span) * WIDTH);
+
+    const lines = SERIES.map(series => {
+      const values = history.map(p => p[series.key]);
+      const min = Math.min(...values);
+      const range = Math.max(...values) - min || 1;
+      const d = values
+        .map((v, i) => {
+          const y = padding + chartHeight - ((v - min) / range) * chartHeight;
+          return `${i === 0 ? 'M' : 'L'} ${xs[i].toFixed(1)},${y.toFixed(1)}`;
+        })
+        .join(' ');
+      return { ...series, d };
+    });
+
+    return { lines, xs };
+  }, [history, height]);
+
+  if (history.length < 2) {
+    return (
+      <div className="flex items-center justify-center text-center text-[11px] text-muted-foreground px-4" style={{ height }}>
+        Collecting snapshots, history appears as it builds up
+      </div>
+    );
+  }
+
+  const hovered = history[hoverIndex ?? history.length - 1];
+  const first = history[0];
+
+  // Snapshots can be uneven in time, so hover picks the nearest x
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    let nearest = 0;
+    layout.xs.forEach((px, i) => {
+      if (Math.abs(px - x) < Math.abs(layout.xs[nearest] - x)) nearest = i;
+    });
+    setHoverIndex(nearest);
+  };
+
+  return (
+    <div>
+      {/* Hover readout (latest snapshot when idle) */}
+      <div className="flex items-center justify-between text-[11px] mb-1 tabular-nums">
+        <span className="text-muted-foreground">{formatTime(hovered.timestamp)}</span>
+        <span className="flex items-center gap-3">
+          {SERIES.map(series => {
+            const change = hovered[series.key] - first[series.key];
+            return (
+              <span key={series.key} className="flex items-center gap-1">
+                <span style={{ color: series.color }}>●</span>
+                <span className="font-medium text-foreground">{hovered[series.key].toFixed(2)}%</span>
+                <span className={change >= 0 ? 'text-green-500' : 'text-red-500'}>
+                  {change >= 0 ? '+' : ''}{change.toFixed(2)}
+                </span>
+              </span>
+            );
+          })}
+        </span>
+      </div>
+
+      <svg
+        width="100%"
+        height={height}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        className="block"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {layout.lines.map(line => (
+          <path
+            key={line.key}
+            d={line.d}
+            fill="none"
+            stroke={line.color}
+            strokeWidth={1.5}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+
+        {/* Crosshair */}
+        {hoverIndex !== null && (
+          <line
+            x1={layout.xs[hoverIndex]}
+            x2={layout.xs[hoverIndex]}
+            y1={0}
+            y2={height}
+            stroke="currentColor"
+            className="text-muted-foreground"
+            strokeDasharray="2 2"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+    </div>
+  );
+}
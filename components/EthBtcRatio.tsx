@@ -1,17 +1,100 @@
 'use client';
 
-import { useEffect } from 'react';
-import { loadTradingViewMiniChart } from '@/lib/widget-utils';
+import { useMemo, useState } from 'react';
+import { Scale } from 'lucide-react';
+import { SmallWidget } from '@/components/widgets/base';
+import { SparklineChart } from '@/components/Sparkline';
+import { TooltipList, ToggleGroup, ToggleGroupItem } from '@/components/ui';
+import { useCandles, CandleFetcher } from '@/hooks/useCandles';
+import { ExchangeId, ProcessedTicker } from '@/lib/types';
+import { calculateEthBtcSeries } from '@/lib/widget-utils';
+import { MARKET_CHART } from '@/lib/constants';
 
-export function EthBtcRatio() {
-  useEffect(() => {
-    loadTradingViewMiniChart();
-  }, []);
+type EthBtcRange = keyof typeof MARKET_CHART.ETH_BTC_RANGES;
+
+const RANGES = Object.keys(MARKET_CHART.ETH_BTC_RANGES) as EthBtcRange[];
+
+interface EthBtcRatioProps {
+  exchange: ExchangeId;
+  tickers: Map<string, ProcessedTicker>;
+  fetchCandles: CandleFetcher;
+  exchangeLabel?: string;
+}
+
+export function EthBtcRatio({ exchange, tickers, fetchCandles, exchangeLabel = 'OKX' }: EthBtcRatioProps) {
+  const [range, setRange] = useState<EthBtcRange>(MARKET_CHART.ETH_BTC_DEFAULT_RANGE);
+  const { bar, limit } = MARKET_CHART.ETH_BTC_RANGES[range];
+
+  // Venue-native ETH and BTC perp IDs
+  const { ethInstId, btcInstId } = useMemo(() => {
+    let ethInstId: string | null = null;
+    let btcInstId: string | null = null;
+    tickers.forEach((ticker) => {
+      if (ticker.baseSymbol === 'ETH') ethInstId = ticker.instId;
+      if (ticker.baseSymbol === 'BTC') btcInstId = ticker.instId;
+    });
+    return { ethInstId, btcInstId };
+  }, [tickers]);
+
+  const eth = useCandles(exchange, ethInstId, bar, fetchCandles, limit);
+  const btc = useCandles(exchange, btcInstId, bar, fetchCandles, limit);
+
+  const series = useMemo(
+    () => calculateEthBtcSeries(eth.candles, btc.candles),
+    [eth.candles, btc.candles]
+  );
+
+  const isLoading = series.length === 0 && (tickers.size === 0 || eth.loading || btc.loading);
+
+  const formatTime = (time: number) => new Date(time).toLocaleString(undefined, bar === '1H' || bar === '4H'
+    ? { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }
+    : { year: 'numeric', month: 'short', day: 'numeric' });
 
   return (
-    <div>
-      {/* @ts-ignore - TradingView Web Component */}
-      <tv-mini-chart symbol="OKX:ETHBTC"></tv-mini-chart>
-    </div>
+    <SmallWidget
+      title="ETH/BTC"
+      icon={<Scale className="w-4 h-4" />}
+      subtitle={`${exchangeLabel} ETH and BTC perps`}
+      headerActions={
+        <ToggleGroup
+          type="single"
+          value={range}
+          onValueChange={(v) => v && setRange(v as EthBtcRange)}
+          size="sm"
+          className="gap-0.5"
+        >
+          {RANGES.map((r) => (
+            <ToggleGroupItem
+              key={r}
+              value={r}
+              onClick={(e) => e.stopPropagation()}
+              className="px-2.5 py-1 text-xs data-[state=on]:bg-background data-[state=on]:shadow-sm"
+            >
+              {r.toUpperCase()}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      }
+      loading={isLoading}
+      tooltip={
+        <TooltipList items={[
+          "ETH perp close ÷ BTC perp close per candle",
+          <><span className="text-green-500">Rising</span>: ETH outperforming BTC</>,
+          "7D hourly, 30D 4-hourly, 90D daily, 1Y weekly",
+          "Hover the chart for values",
+        ]} />
+      }
+    >
+      {isLoading ? (
+        <div className="bg-muted rounded animate-pulse" style={{ height: MARKET_CHART.CHART_HEIGHT + 20 }} />
+      ) : (
+        <SparklineChart
+          points={series}
+          height={MARKET_CHART.CHART_HEIGHT}
+          formatValue={(value) => value.toFixed(5)}
+          formatTime={formatTime}
+        />
+      )}
+    </SmallWidget>
   );
 }
@@ -1,8 +1,9 @@
 'use client';
 
 import { useEffect, useState, useRef, useMemo, ReactNode } from 'react';
-import { useMarketStore } from '@/hooks/useMarketStore';
+import { useExchangeStore } from '@/hooks/useExchangeStore';
 import { useUrlState } from '@/hooks/useUrlState';
+import { useAlerts } from '@/hooks/useAlerts';
 import { useWidgetOrder } from '@/hooks/useWidgetOrder';
 import { Header } from '@/components/Header';
 import { Controls } from '@/components/Controls';
@@ -14,15 +15,26 @@ import { FundingMarket } from '@/components/FundingMarket';
 import { MarketMomentum } from '@/components/MarketMomentum';
 import { RsiOversold } from '@/components/RsiOversold';
 import { RsiOverbought } from '@/components/RsiOverbought';
+import { RsiDivergence } from '@/components/RsiDivergence';
 import { AHR999Indicator } from '@/components/AHR999Indicator';
 import { BTCDominance } from '@/components/BTCDominance';
 import { EthBtcRatio } from '@/components/EthBtcRatio';
 import { Total2MiniChart } from '@/components/Total2MiniChart';
+import { FundingArbTable } from '@/components/FundingArbTable';
+import { TokenDetailDrawer } from '@/components/TokenDetailDrawer';
+import { AlertsPanel } from '@/components/AlertsPanel';
+import { ScreenMenu } from '@/components/ScreenMenu';
+import { WatchlistMenu } from '@/components/WatchlistMenu';
+import { MarketTreemap, MarketDisplayToggle } from '@/components/MarketTreemap';
+import { MarketScatter } from '@/components/MarketScatter';
+import { AlertToasts } from '@/components/AlertToasts';
+import { HLPVault } from '@/components/HLPVault';
 import { TableHeader, TableRow } from '@/components/table';
 import { TabContainer, WidgetGrid } from '@/components/layout';
 import { Spinner } from '@/components/ui';
-import { ColumnKey } from '@/lib/types';
-import { COLUMN_DEFINITIONS } from '@/lib/utils';
+import { ColumnKey, ExchangeId, MarketDisplay } from '@/lib/types';
+import { getColumnDefinition } from '@/lib/utils';
+
 // Fixed column configuration
 const FIXED_COLUMNS: ColumnKey[] = ['favorite', 'rank', 'logo', 'symbol'];
 const FIXED_WIDTHS: Record<string, number> = {
@@ -32,7 +44,14 @@ const FIXED_WIDTHS: Record<string, number> = {
   symbol: 95,
 };
 
-// Bitcoin logo for AHR999 tab
+// Hyperliquid logo for HLP tab
+const HlpTabIcon = () => (
+  <svg className="w-4 h-4" viewBox="0 0 144 144" fill="currentColor" xmlns="http://www.w3.org/2000/svg">
+    <path d="M144 71.6991C144 119.306 114.866 134.582 99.5156 120.98C86.8804 109.889 83.1211 86.4521 64.116 84.0456C39.9942 81.0113 37.9057 113.133 22.0334 113.133C3.5504 113.133 0 86.2428 0 72.4315C0 58.3063 3.96809 39.0542 19.736 39.0542C38.1146 39.0542 39.1588 66.5722 62.132 65.1073C85.0007 63.5379 85.4184 34.8689 100.247 22.6271C113.195 12.0593 144 23.4641 144 71.6991Z" />
+  </svg>
+);
+
+// Bitcoin logo for BTC tab
 const BtcLogo = () => (
   <img
     src="https://assets.coingecko.com/coins/images/1/small/bitcoin.png"
@@ -41,62 +60,106 @@ const BtcLogo = () => (
   />
 );
 
-// Tab configuration
-const TABS = [
+// Tabs every venue has
+const BASE_TABS = [
   { id: 'rsi', label: 'RSI' },
   { id: 'funding', label: 'Funding' },
   { id: 'altcoin', label: 'Altcoin' },
   { id: 'btc', label: 'BTC', icon: <BtcLogo /> },
 ];
 
+// Venue-only tabs: OKX vs Hyperliquid funding arb (full width), Hyperliquid HLP vault
+const EXTRA_TABS = {
+  arb: { id: 'arb', label: 'Arb' },
+  hlp: { id: 'hlp', label: 'HLP', icon: <HlpTabIcon /> },
+};
+
+interface BoardConfig {
+  label: string;
+  // Prefix of the stored widget orders ("hl-rsi", "binance-funding", ...)
+  widgetOrderPrefix: string;
+  extraTab?: keyof typeof EXTRA_TABS;
+}
+
+const BOARDS: Record<ExchangeId, BoardConfig> = {
+  okx: { label: 'OKX', widgetOrderPrefix: '', extraTab: 'arb' },
+  hyperliquid: { label: 'Hyperliquid', widgetOrderPrefix: 'hl-', extraTab: 'hlp' },
+  binance: { label: 'Binance', widgetOrderPrefix: 'binance-' },
+};
+
 // Default widget order per tab (for tabs with multiple widgets)
 const DEFAULT_WIDGET_ORDER: Record<string, string[]> = {
-  rsi: ['marketMomentum', 'rsiOversold', 'rsiOverbought'],
+  rsi: ['marketMomentum', 'rsiOversold', 'rsiOverbought', 'rsiDivergence'],
   funding: ['fundingMarket', 'fundingKiller'],
   altcoin: ['topGainers', 'vsBtc', 'ethBtcRatio', 'total2'],
   btc: ['btcDominance', 'ahr999'],
 };
 
-export default function PerpBoard() {
-  const store = useMarketStore();
+interface ExchangeBoardProps {
+  exchange: ExchangeId;
+}
+
+/**
+ * ExchangeBoard - Ticker table, widget tabs and token drawer of one venue
+ * Everything venue-specific comes from the store's adapter and BOARDS
+ */
+export default function ExchangeBoard({ exchange }: ExchangeBoardProps) {
+  const { label: exchangeLabel, widgetOrderPrefix, extraTab } = BOARDS[exchange];
+  const tabs = useMemo(() => (extraTab ? [...BASE_TABS, EXTRA_TABS[extraTab]] : BASE_TABS), [extraTab]);
+  const store = useExchangeStore(exchange);
   const [activeTab, setActiveTab] = useState('rsi');
 
   // Widget order for tabs with multiple widgets
   const [rsiWidgetOrder, setRsiWidgetOrder] = useWidgetOrder(
-    'rsi',
+    `${widgetOrderPrefix}rsi`,
     DEFAULT_WIDGET_ORDER.rsi
   );
   const [altcoinWidgetOrder, setAltcoinWidgetOrder] = useWidgetOrder(
-    'altcoin',
+    `${widgetOrderPrefix}altcoin`,
     DEFAULT_WIDGET_ORDER.altcoin
   );
   const [fundingWidgetOrder, setFundingWidgetOrder] = useWidgetOrder(
-    'funding',
+    `${widgetOrderPrefix}funding`,
     DEFAULT_WIDGET_ORDER.funding
   );
   const [btcWidgetOrder, setBtcWidgetOrder] = useWidgetOrder(
-    'btc',
+    `${widgetOrderPrefix}btc`,
     DEFAULT_WIDGET_ORDER.btc
   );
 
+  // Alert rules (load before URL state so shared rules merge into cached ones)
+  const alerts = useAlerts({
+    tickers: store.tickers,
+    rsiData: store.rsiData,
+    fundingRateData: store.fundingRateData,
+    marketCapData: store.marketCapData,
+    defaultFundingInterval: store.defaultFundingInterval,
+  });
+
   // URL state sync
   useUrlState(
     {
-      favorites: store.favorites,
+      watchlist: store.viewedWatchlist,
       filters: store.filters,
       columns: store.columns,
       columnOrder: store.columnOrder,
-      view: store.view,
+      alertRules: alerts.rules,
     },
     {
-      setFavorites: store.setFavoritesDirectly,
       setFilters: store.setFilters,
       setColumns: store.setColumnsDirectly,
       setColumnOrder: store.setColumnOrderDirectly,
-      setView: store.setView,
+      importWatchlist: store.importWatchlist,
+      importAlertRules: alerts.importRules,
     }
   );
 
+  // Token detail drawer
+  const [detailInstId, setDetailInstId] = useState<string | null>(null);
+
+  // Table or treemap view of the filtered market
+  const [display, setDisplay] = useState<MarketDisplay>('table');
+
   // Drag state
   const [draggedColumn, setDraggedColumn] = useState<ColumnKey | null>(null);
   const [dragOverColumn, setDragOverColumn] = useState<ColumnKey | null>(null);
@@ -148,7 +211,7 @@ export default function PerpBoard() {
         maxWidth: FIXED_WIDTHS[key],
       };
     }
-    const def = COLUMN_DEFINITIONS[key];
+    const def = getColumnDefinition(key);
     return { width: def.width, minWidth: def.width };
   };
 
@@ -215,6 +278,32 @@ export default function PerpBoard() {
     tableContainerRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  // Arb tab has no ticker table, so jump to the funding tab filtered to the symbol
+  const handleArbTokenClick = (symbol: string) => {
+    setActiveTab('funding');
+    handleTokenClick(symbol);
+  };
+
+  // Divergence hit narrows the table to that symbol, keeping the other filters
+  const handleDivergenceClick = (symbol: string) => {
+    store.setFilters(prev => ({ ...prev, symbols: [symbol] }));
+    store.setSearchTerm('');
+    setDisplay('table');
+    tableContainerRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Open the token detail drawer from a widget (widgets pass base symbols)
+  const handleTokenOpen = (symbol: string) => {
+    const ticker = Array.from(store.tickers.values()).find(t => t.baseSymbol === symbol);
+    if (ticker) setDetailInstId(ticker.instId);
+  };
+
+  // Scatter brush selection becomes a symbol filter on the table
+  const handleScatterFilter = (symbols: string[]) => {
+    store.setFilters(prev => ({ ...prev, symbols }));
+    setDisplay('table');
+  };
+
   // Scroll table to top
   const handleScrollToTop = () => {
     tableContainerRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
@@ -226,6 +315,7 @@ export default function PerpBoard() {
       <MarketMomentum
         avgRsi7={avgRsi7}
         avgRsi14={avgRsi14}
+        exchangeLabel={exchangeLabel}
       />
     ),
     rsiOversold: (
@@ -234,6 +324,7 @@ export default function PerpBoard() {
         rsiData={store.rsiData}
         marketCapData={store.marketCapData}
         onTokenClick={handleTokenClick}
+        exchangeLabel={exchangeLabel}
       />
     ),
     rsiOverbought: (
@@ -242,9 +333,19 @@ export default function PerpBoard() {
         rsiData={store.rsiData}
         marketCapData={store.marketCapData}
         onTokenClick={handleTokenClick}
+        exchangeLabel={exchangeLabel}
+      />
+    ),
+    rsiDivergence: (
+      <RsiDivergence
+        tickers={store.tickers}
+        rsiData={store.rsiData}
+        marketCapData={store.marketCapData}
+        onTokenClick={handleDivergenceClick}
+        exchangeLabel={exchangeLabel}
       />
     ),
-  }), [avgRsi7, avgRsi14, store.tickers, store.rsiData, store.marketCapData]);
+  }), [avgRsi7, avgRsi14, store.tickers, store.rsiData, store.marketCapData, exchangeLabel]);
 
   // Widget mapping for altcoin tab
   const altcoinWidgets: Record<string, ReactNode> = useMemo(() => ({
@@ -254,6 +355,7 @@ export default function PerpBoard() {
         rsiData={store.rsiData}
         marketCapData={store.marketCapData}
         onTokenClick={handleTokenClick}
+        exchangeLabel={exchangeLabel}
       />
     ),
     vsBtc: (
@@ -263,11 +365,19 @@ export default function PerpBoard() {
         marketCapData={store.marketCapData}
         onTokenClick={handleTokenClick}
         onTopNClick={handleGroupClick}
+        exchangeLabel={exchangeLabel}
+      />
+    ),
+    ethBtcRatio: (
+      <EthBtcRatio
+        exchange={exchange}
+        tickers={store.tickers}
+        fetchCandles={store.fetchCandles}
+        exchangeLabel={exchangeLabel}
       />
     ),
-    ethBtcRatio: <EthBtcRatio />,
-    total2: <Total2MiniChart />,
-  }), [store.tickers, store.rsiData, store.marketCapData]);
+    total2: <Total2MiniChart marketCapData={store.marketCapData} />,
+  }), [exchange, store.tickers, store.rsiData, store.marketCapData, store.fetchCandles, exchangeLabel]);
 
   // Widget mapping for funding tab
   const fundingWidgets: Record<string, ReactNode> = useMemo(() => ({
@@ -277,6 +387,8 @@ export default function PerpBoard() {
         fundingRateData={store.fundingRateData}
         marketCapData={store.marketCapData}
         onGroupClick={handleGroupClick}
+        onTokenOpen={handleTokenOpen}
+        exchangeLabel={exchangeLabel}
       />
     ),
     fundingKiller: (
@@ -285,10 +397,12 @@ export default function PerpBoard() {
         fundingRateData={store.fundingRateData}
         marketCapData={store.marketCapData}
         onTokenClick={handleTokenClick}
+        onTokenOpen={handleTokenOpen}
         onGroupClick={handleGroupClick}
+        exchangeLabel={exchangeLabel}
       />
     ),
-  }), [store.tickers, store.fundingRateData, store.marketCapData]);
+  }), [store.tickers, store.fundingRateData, store.marketCapData, exchangeLabel]);
 
   // Widget mapping for BTC tab
   const btcWidgets: Record<string, ReactNode> = useMemo(() => ({
@@ -318,29 +432,68 @@ export default function PerpBoard() {
             {/* Tabs - Same width as widget sidebar */}
             <div className="lg:w-[320px] flex-shrink-0">
               <TabContainer
-                tabs={TABS}
+                tabs={tabs}
                 activeTab={activeTab}
                 onTabChange={setActiveTab}
                 variant="sidebar"
               />
             </div>
 
-            {/* Controls - Aligns with table */}
-            <Controls
-              exchange="okx"
-              columns={store.columns}
-              columnOrder={store.columnOrder}
-              filters={store.filters}
-              searchTerm={store.searchTerm}
-              overboughtCount={quickFilterCounts.overbought}
-              oversoldCount={quickFilterCounts.oversold}
-              onColumnChange={store.updateColumn}
-              onColumnsPreset={store.setColumnsPreset}
-              onFiltersChange={store.setFilters}
-              onSearchChange={store.setSearchTerm}
-              onColumnOrderChange={store.updateColumnOrder}
-              onScrollToTop={handleScrollToTop}
-            />
+            {/* Controls - Aligns with table (arb tab has its own table) */}
+            {activeTab !== 'arb' && (
+              <Controls
+                exchange={exchange}
+                columns={store.columns}
+                columnOrder={store.columnOrder}
+                filters={store.filters}
+                searchTerm={store.searchTerm}
+                overboughtCount={quickFilterCounts.overbought}
+                oversoldCount={quickFilterCounts.oversold}
+                onColumnChange={store.updateColumn}
+                onColumnsPreset={store.setColumnsPreset}
+                onFiltersChange={store.setFilters}
+                onSearchChange={store.setSearchTerm}
+                onColumnOrderChange={store.updateColumnOrder}
+                onScrollToTop={handleScrollToTop}
+                onExport={store.exportFilteredData}
+                rsiPairs={store.rsiPairs}
+                onAddRsiPair={store.addRsiPair}
+                onRemoveRsiPair={store.removeRsiPair}
+                transport={store.streamTransport}
+                activeTransport={store.activeTransport}
+                onTransportChange={store.setStreamTransport}
+                actions={
+                  <>
+                    <MarketDisplayToggle value={display} onChange={setDisplay} />
+                    <WatchlistMenu
+                      watchlists={store.watchlists}
+                      view={store.view}
+                      starListId={store.starWatchlist?.id ?? null}
+                      onViewChange={store.setView}
+                      onCreate={store.createWatchlist}
+                      onRename={store.renameWatchlist}
+                      onDelete={store.deleteWatchlist}
+                      onToggleSymbol={store.toggleWatchlistSymbol}
+                      onUpdateEntry={store.updateWatchlistEntry}
+                    />
+                    <ScreenMenu
+                      exchange={exchange}
+                      screens={store.screens}
+                      activeScreenId={store.activeScreenId}
+                      isModified={store.isActiveScreenModified}
+                      onApply={store.applyScreen}
+                      onSave={store.saveScreen}
+                      onUpdateActive={store.updateActiveScreen}
+                      onRename={store.renameScreen}
+                      onDelete={store.deleteScreen}
+                      onMove={store.moveScreen}
+                      onImport={store.importScreens}
+                    />
+                    <AlertsPanel alerts={alerts} />
+                  </>
+                }
+              />
+            )}
           </div>
 
           {/* -----------------------------------------------------------------
@@ -348,7 +501,7 @@ export default function PerpBoard() {
               ----------------------------------------------------------------- */}
           <div className="flex flex-col lg:flex-row flex-1 gap-4 overflow-hidden">
             {/* Widgets - Desktop: fixed width sidebar, Mobile: above table */}
-            <div className="lg:w-[320px] flex-shrink-0 lg:overflow-y-auto lg:pr-2 space-y-4">
+            <div className={`lg:w-[320px] flex-shrink-0 lg:overflow-y-auto lg:pr-2 space-y-4 ${activeTab === 'arb' ? 'hidden' : ''}`}>
               {/* RSI Tab Widgets - Sortable */}
               {activeTab === 'rsi' && (
                 <WidgetGrid
@@ -394,6 +547,9 @@ export default function PerpBoard() {
                 </WidgetGrid>
               )}
 
+              {/* HLP Tab */}
+              {activeTab === 'hlp' && <HLPVault />}
+
               {/* BTC Tab Widgets - Sortable */}
               {activeTab === 'btc' && (
                 <WidgetGrid
@@ -410,12 +566,51 @@ export default function PerpBoard() {
               )}
             </div>
 
-            {/* Data Table - flex-1 to fill remaining space */}
-            <div className="bg-card rounded-xl border flex flex-col flex-1 overflow-hidden">
+            {/* Arb Tab - OKX vs Hyperliquid funding carry (full width) */}
+            {activeTab === 'arb' && (
+              <FundingArbTable
+                okxFundingRateData={store.fundingRateData}
+                marketCapData={store.marketCapData}
+                onTokenClick={handleArbTokenClick}
+              />
+            )}
+
+            {/* Data Table - flex-1 to fill remaining space (kept mounted for scroll tracking) */}
+            <div className={`bg-card rounded-xl border flex flex-col flex-1 overflow-hidden ${activeTab === 'arb' ? 'hidden' : ''}`}>
+              {display === 'treemap' && (
+                <MarketTreemap
+                  rows={filteredData}
+                  context={{
+                    rsiData: store.rsiData,
+                    fundingRateData: store.fundingRateData,
+                    marketCapData: store.marketCapData,
+                    defaultFundingInterval: store.defaultFundingInterval,
+                  }}
+                  isLoading={store.tickers.size === 0}
+                  onTileClick={setDetailInstId}
+                />
+              )}
+
+              {display === 'scatter' && (
+                <MarketScatter
+                  rows={filteredData}
+                  context={{
+                    rsiData: store.rsiData,
+                    fundingRateData: store.fundingRateData,
+                    marketCapData: store.marketCapData,
+                    openInterestData: store.openInterestData,
+                    defaultFundingInterval: store.defaultFundingInterval,
+                  }}
+                  isLoading={store.tickers.size === 0}
+                  onDotClick={setDetailInstId}
+                  onFilterSymbols={handleScatterFilter}
+                />
+              )}
+
               {/* Scrollable Table Container */}
               <div
                 ref={tableContainerRef}
-                className="flex-1 overflow-auto"
+                className={`flex-1 overflow-auto ${display !== 'table' ? 'hidden' : ''}`}
                 style={{ WebkitOverflowScrolling: 'touch' }}
               >
                 <table
@@ -472,17 +667,21 @@ export default function PerpBoard() {
                           pageSize={displayData.length}
                           visibleColumns={visibleColumns}
                           rsi={store.rsiData.get(ticker.instId)}
+                          btcReturns={store.btcReturns}
                           fundingRate={store.fundingRateData.get(ticker.instId)}
+                          openInterest={store.openInterestData.get(ticker.instId)}
                           listingData={store.listingData.get(ticker.instId)}
                           marketCap={store.marketCapData.get(ticker.baseSymbol)}
-                          hasSpot={store.spotSymbols.has(`${ticker.baseSymbol}-USDT`)}
-                          exchange="okx"
-                          isFavorite={store.favorites.includes(ticker.instId)}
+                          hasSpot={store.spotSymbols.has(ticker.baseSymbol)}
+                          exchange={exchange}
+                          watchlistEntry={store.getWatchlistEntry(ticker)}
+                          watchlistName={store.starWatchlist?.name}
                           isScrolled={isScrolled}
                           fixedColumns={FIXED_COLUMNS}
                           fixedWidths={FIXED_WIDTHS}
                           columns={store.columns}
                           onToggleFavorite={store.toggleFavorite}
+                          onSymbolClick={setDetailInstId}
                         />
                       ))
                     )}
@@ -494,12 +693,29 @@ export default function PerpBoard() {
         </div>
       </div>
 
+      {/* Token detail drawer */}
+      <TokenDetailDrawer
+        exchange={exchange}
+        exchangeLabel={exchangeLabel}
+        ticker={detailInstId ? store.tickers.get(detailInstId) ?? null : null}
+        fundingRate={detailInstId ? store.fundingRateData.get(detailInstId) : undefined}
+        marketCap={detailInstId ? store.marketCapData.get(store.tickers.get(detailInstId)?.baseSymbol ?? '') : undefined}
+        rsi={detailInstId ? store.rsiData.get(detailInstId) : undefined}
+        listTime={detailInstId ? store.listingData.get(detailInstId)?.listTime : undefined}
+        hasSpot={detailInstId ? store.spotSymbols.has(store.tickers.get(detailInstId)?.baseSymbol ?? '') : undefined}
+        fetchFundingHistory={store.fetchFundingHistory}
+        fetchCandles={store.fetchCandles}
+        onClose={() => setDetailInstId(null)}
+      />
+
+      <AlertToasts toasts={alerts.toasts} onDismiss={alerts.dismissToast} />
+
       {/* ===================================================================
           SECTION 3: Footer
           =================================================================== */}
       <div className="px-6 flex-shrink-0">
         <div className="max-w-[1600px] mx-auto w-full">
-          <Footer />
+          <Footer exchange={exchange} />
         </div>
       </div>
     </div>
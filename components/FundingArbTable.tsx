@@ -0,0 +1,212 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { FundingRateData, FundingArbRow, MarketCapData, SortConfig } from '@/lib/types';
+import { useFundingArb } from '@/hooks/useFundingArb';
+import { getNextSettlementTime, formatCountdown } from '@/lib/funding-arb';
+import { formatPrice, getFundingAprClass } from '@/lib/utils';
+import { TokenAvatar, Spinner } from '@/components/ui';
+
+interface FundingArbTableProps {
+  okxFundingRateData: Map<string, FundingRateData>;
+  marketCapData: Map<string, MarketCapData>;
+  onTokenClick?: (symbol: string) => void;
+}
+
+type ArbColumn = 'symbol' | 'okxApr' | 'hlApr' | 'carryApr' | 'direction' | 'basis' | 'okxSettle' | 'hlSettle';
+
+const ARB_COLUMNS: { key: ArbColumn; label: string; align: 'left' | 'right' | 'center'; title?: string }[] = [
+  { key: 'symbol', label: 'Symbol', align: 'left' },
+  { key: 'okxApr', label: 'OKX APR', align: 'right', title: 'OKX funding normalized to APR (settlement interval per instrument)' },
+  { key: 'hlApr', label: 'HL APR', align: 'right', title: 'Hyperliquid hourly funding normalized to APR' },
+  { key: 'carryApr', label: 'Carry APR', align: 'right', title: 'Funding earned by shorting the higher-funding venue and longing the other' },
+  { key: 'direction', label: 'Position', align: 'center' },
+  { key: 'basis', label: 'Basis', align: 'right', title: '(HL mark - OKX mark) / OKX mark, per single token' },
+  { key: 'okxSettle', label: 'OKX Settle', align: 'right' },
+  { key: 'hlSettle', label: 'HL Settle', align: 'right' },
+];
+
+// Sort value per column (settlement columns sort by time left)
+function getSortValue(row: FundingArbRow, column: ArbColumn, now: number): number | string {
+  switch (column) {
+    case 'symbol': return row.symbol;
+    case 'okxApr': return row.okx.apr;
+    case 'hlApr': return row.hl.apr;
+    case 'direction': return row.shortVenue;
+    case 'basis': return row.basis;
+    case 'okxSettle': return getNextSettlementTime(row.okx.fundingTime, row.okx.settlementInterval, now);
+    case 'hlSettle': return getNextSettlementTime(row.hl.fundingTime, row.hl.settlementInterval, now);
+    default: return row.carryApr;
+  }
+}
+
+function formatApr(apr: number): string {
+  const sign = apr >= 0 ? '+' : '';
+  return `${sign}${apr.toFixed(1)}%`;
+}
+
+/**
+ * FundingArbTable - OKX vs Hyperliquid funding carry ranking
+ *
+ * Lists every base symbol perpetual on both venues, ranked by the APR spread
+ * captured with a delta-neutral short/long pair. Multiplier contracts
+ * (1000PEPE, kPEPE) are matched to their base symbol and priced per token.
+ */
+export function FundingArbTable({ okxFundingRateData, marketCapData, onTokenClick }: FundingArbTableProps) {
+  const { rows, loading } = useFundingArb(okxFundingRateData);
+  const [sort, setSort] = useState<SortConfig>({ column: 'carryApr', direction: 'desc' });
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick settlement countdowns every second
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const sortedRows = useMemo(() => {
+    const column = sort.column as ArbColumn;
+    const dir = sort.direction === 'asc' ? 1 : -1;
+    const sortTime = Date.now();
+    return [...rows].sort((a, b) => {
+      const aVal = getSortValue(a, column, sortTime);
+      const bVal = getSortValue(b, column, sortTime);
+      if (typeof aVal === 'string' || typeof bVal === 'string') {
+        return String(aVal).localeCompare(String(bVal)) * dir;
+      }
+      return (aVal - bVal) * dir;
+    });
+  }, [rows, sort]);
+
+  const handleSort = (column: ArbColumn) => {
+    setSort(prev => ({
+      column,
+      direction: prev.column === column && prev.direction === 'desc' ? 'asc' : 'desc',
+    }));
+  };
+
+  return (
+    <div className="bg-card rounded-xl border flex flex-col flex-1 overflow-hidden">
+      <div className="flex-1 overflow-auto" style={{ WebkitOverflowScrolling: 'touch' }}>
+        <table className="border-collapse" style={{ width: 'max-content', minWidth: '100%' }}>
+          <thead className="sticky top-0 z-20">
+            <tr className="bg-secondary">
+              <th className="px-3 py-3 text-[11px] font-medium text-muted-foreground tracking-wide bg-secondary border-b border whitespace-nowrap text-left w-10">
+                #
+              </th>
+              {ARB_COLUMNS.map(({ key, label, align, title }) => {
+                const isActive = sort.column === key;
+                const alignClass = align === 'right' ? 'text-right' : align === 'center' ? 'text-center' : 'text-left';
+                return (
+                  <th
+                    key={key}
+                    title={title}
+                    className={`px-3 py-3 text-[11px] font-medium text-muted-foreground tracking-wide bg-secondary border-b border whitespace-nowrap cursor-pointer hover:bg-muted select-none ${alignClass}`}
+                    onClick={() => handleSort(key)}
+                  >
+                    <span className="inline-flex items-center gap-0.5">
+                      {label}
+                      {key === 'symbol' && (
+                        <span className="text-[10px] text-muted-foreground font-normal ml-0.5">
+                          ({rows.length})
+                        </span>
+                      )}
+                      <svg className="w-3 h-3 ml-0.5 text-muted-foreground" viewBox="0 0 12 12" fill="currentColor">
+                        <path
+                          d="M6 2L9 5H3L6 2Z"
+                          className={isActive && sort.direction === 'asc' ? 'text-foreground' : 'text-muted-foreground'}
+                          fill="currentColor"
+                        />
+                        <path
+                          d="M6 10L3 7H9L6 10Z"
+                          className={isActive && sort.direction === 'desc' ? 'text-foreground' : 'text-muted-foreground'}
+                          fill="currentColor"
+                        />
+                      </svg>
+                    </span>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+
+          <tbody>
+            {sortedRows.length === 0 ? (
+              <tr>
+                <td colSpan={ARB_COLUMNS.length + 1}>
+                  <div className="flex items-center justify-center py-16 text-muted-foreground">
+                    {loading ? (
+                      <>
+                        <Spinner size="md" className="mr-3" />
+                        Loading funding rates from OKX and Hyperliquid...
+                      </>
+                    ) : (
+                      'No symbols listed on both venues'
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ) : (
+              sortedRows.map((row, index) => {
+                const okxNext = getNextSettlementTime(row.okx.fundingTime, row.okx.settlementInterval, now);
+                const hlNext = getNextSettlementTime(row.hl.fundingTime, row.hl.settlementInterval, now);
+                const basisClass = Math.abs(row.basis) < 0.05
+                  ? 'text-muted-foreground'
+                  : row.basis > 0 ? 'text-green-500' : 'text-red-500';
+
+                return (
+                  <tr key={row.symbol} className="group border-b border-border/50 hover:bg-muted/50 transition-colors">
+                    <td className="px-3 py-2.5 text-[12px] text-muted-foreground whitespace-nowrap">
+                      {index + 1}
+                    </td>
+                    <td className="px-3 py-2.5 text-[13px] whitespace-nowrap font-semibold">
+                      <button
+                        className="flex items-center gap-2 hover:underline"
+                        onClick={() => onTokenClick?.(row.okx.instId.split('-')[0])}
+                      >
+                        <TokenAvatar symbol={row.symbol} logo={marketCapData.get(row.symbol)?.logo} size="md" />
+                        <span className="text-foreground">{row.symbol}</span>
+                        {(row.okx.multiplier > 1 || row.hl.multiplier > 1) && (
+                          <span className="text-[11px] text-muted-foreground font-normal">
+                            {row.okx.multiplier > 1 ? row.okx.instId.split('-')[0] : row.symbol} / {row.hl.instId}
+                          </span>
+                        )}
+                      </button>
+                    </td>
+                    <td className={`px-3 py-2.5 text-[13px] text-right font-medium tabular-nums whitespace-nowrap ${getFundingAprClass(row.okx.apr)}`}>
+                      {formatApr(row.okx.apr)}
+                      <span className="text-[11px] text-muted-foreground font-normal ml-1">{row.okx.settlementInterval}h</span>
+                    </td>
+                    <td className={`px-3 py-2.5 text-[13px] text-right font-medium tabular-nums whitespace-nowrap ${getFundingAprClass(row.hl.apr)}`}>
+                      {formatApr(row.hl.apr)}
+                      <span className="text-[11px] text-muted-foreground font-normal ml-1">{row.hl.settlementInterval}h</span>
+                    </td>
+                    <td className="px-3 py-2.5 text-[13px] text-right font-semibold tabular-nums whitespace-nowrap text-foreground">
+                      {row.carryApr.toFixed(1)}%
+                    </td>
+                    <td className="px-3 py-2.5 text-[12px] text-center whitespace-nowrap">
+                      <span className="text-red-500">Short {row.shortVenue === 'okx' ? 'OKX' : 'HL'}</span>
+                      <span className="text-muted-foreground"> / </span>
+                      <span className="text-green-500">Long {row.shortVenue === 'okx' ? 'HL' : 'OKX'}</span>
+                    </td>
+                    <td
+                      className={`px-3 py-2.5 text-[13px] text-right tabular-nums whitespace-nowrap ${basisClass}`}
+                      title={`OKX ${formatPrice(row.okx.markPrice)} · HL ${formatPrice(row.hl.markPrice)}`}
+                    >
+                      {row.basis >= 0 ? '+' : ''}{row.basis.toFixed(3)}%
+                    </td>
+                    <td className="px-3 py-2.5 text-[12px] text-right tabular-nums whitespace-nowrap text-muted-foreground">
+                      {formatCountdown(okxNext - now)}
+                    </td>
+                    <td className="px-3 py-2.5 text-[12px] text-right tabular-nums whitespace-nowrap text-muted-foreground">
+                      {formatCountdown(hlNext - now)}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { CumulativeFundingPoint, formatFundingUsd } from '@/lib/funding-history';
+import { formatFundingRate } from '@/lib/utils';
+
+interface FundingHistoryChartProps {
+  series: CumulativeFundingPoint[];
+  height?: number;
+}
+
+// Chart geometry (SVG units, scaled to container width)
+const WIDTH = 360;
+const MAX_BARS = 120;
+
+// Consecutive periods merged into one bar when the window is long (90d of hourly funding)
+interface FundingBucket {
+  start: number;
+  end: number;
+  rate: number;       // Summed rate across the bucket
+  cumulative: number; // Running USD total at bucket end
+}
+
+function bucketSeries(series: CumulativeFundingPoint[]): FundingBucket[] {
+  const size = Math.max(1, Math.ceil(series.length / MAX_BARS));
+  const buckets: FundingBucket[] = [];
+  for (let i = 0; i < series.length; i += size) {
+    const chunk = series.slice(i, i + size);
+    buckets.push({
+      start: chunk[0].fundingTime,
+      end: chunk[chunk.length - 1].fundingTime,
+      rate: chunk.reduce((sum, p) => sum + p.fundingRate, 0),
+      cumulative: chunk[chunk.length - 1].cumulative,
+    });
+  }
+  return buckets;
+}
+
+function formatTime(ts: number): string {
+  return new Date(ts).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * FundingHistoryChart - Funding per period (bars) with cumulative PnL (line)
+ *
+ * Bars share a zero line: green above when longs pay, red below when shorts pay.
+ * The cumulative line has its own scale so small rates stay readable.
+ */
+export function FundingHistoryChart({ series, height = 160 }: FundingHistoryChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const buckets = useMemo(() => bucketSeries(series), [series]);
+
+  const layout = useMemo(() => {
+    const maxAbsRate = Math.max(...buckets.map(b => Math.abs(b.rate)), 1e-9);
+    const cumValues = [0, ...buckets.map(b => b.cumulative)];
+    const cumMin = Math.min(...cumValues);
+    const cumMax = Math.max(...cumValues);
+    const cumRange = cumMax - cumMin || 1;
+
+    const padding = 4;
+    const chartHeight = height - padding * 2;
+    const zeroY = padding + chartHeight / 2;
+    const barWidth = WIDTH / Math.max(buckets.length, 1);
+
+    const bars = buckets.map((b, i) => {
+      const barHeight = (Math.abs(b.rate) / maxAbsRate) * (chartHeight / 2);
+      return {
+        x: i * barWidth,
+        y: b.rate >= 0 ? zeroY - barHeight : zeroY,
+        height: Math.max(barHeight, 0.5),
+        positive: b.rate >= 0,
+      };
+    });
+
+    const line = buckets
+      .map((b, i) => {
+        const x = i * barWidth + barWidth / 2;
+        const y = padding + chartHeight - ((b.cumulative - cumMin) / cumRange) * chartHeight;
+        return `${i === 0 ? 'M' : 'L'} ${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+
+    return { bars, line, barWidth, zeroY };
+  }, [buckets, height]);
+
+  if (buckets.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-[12px] text-muted-foreground" style={{ height }}>
+        No funding history
+      </div>
+    );
+  }
+
+  const hovered = hoverIndex !== null ? buckets[hoverIndex] : buckets[buckets.length - 1];
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const index = Math.floor(x / layout.barWidth);
+    setHoverIndex(Math.min(Math.max(index, 0), buckets.length - 1));
+  };
+
+  return (
+    <div>
+      {/* Hover readout (latest bucket when idle) */}
+      <div className="flex items-center justify-between text-[11px] mb-1.5 tabular-nums">
+        <span className="text-muted-foreground">
+          {hovered.start === hovered.end
+            ? formatTime(hovered.end)
+            : `${formatTime(hovered.start)} – ${formatTime(hovered.end)}`}
+        </span>
+        <span className="flex items-center gap-3">
+          <span className={hovered.rate >= 0 ? 'text-green-500' : 'text-red-500'}>
+            {formatFundingRate(hovered.rate)}
+          </span>
+          <span className="text-foreground font-medium">
+            {formatFundingUsd(hovered.cumulative)}
+          </span>
+        </span>
+      </div>
+
+      <svg
+        width="100%"
+        height={height}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        className="block"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {/* Zero line */}
+        <line x1={0} x2={WIDTH} y1={layout.zeroY} y2={layout.zeroY} stroke="currentColor" className="text-border" strokeWidth={1} />
+
+        {/* Funding per period */}
+        {layout.bars.map((bar, i) => (
+          <rect
+            key={i}
+            x={bar.x + layout.barWidth * 0.1}
+            y={bar.y}
+            width={Math.max(layout.barWidth * 0.8, 0.5)}
+            height={bar.height}
+            fill={bar.positive ? '#22c55e' : '#ef4444'} // green-500 / red-500
+            opacity={hoverIndex === null || hoverIndex === i ? 0.8 : 0.4}
+          />
+        ))}
+
+        {/* Cumulative funding */}
+        <path
+          d={layout.line}
+          fill="none"
+          stroke="currentColor"
+          className="text-foreground"
+          strokeWidth={1.5}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+
+        {/* Crosshair */}
+        {hoverIndex !== null && (
+          <line
+            x1={hoverIndex * layout.barWidth + layout.barWidth / 2}
+            x2={hoverIndex * layout.barWidth + layout.barWidth / 2}
+            y1={0}
+            y2={height}
+            stroke="currentColor"
+            className="text-muted-foreground"
+            strokeDasharray="2 2"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+    </div>
+  );
+}
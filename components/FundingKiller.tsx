@@ -13,6 +13,7 @@ interface FundingKillerProps {
   fundingRateData: Map<string, FundingRateData>;
   marketCapData?: Map<string, MarketCapData>;
   onTokenClick?: (symbol: string) => void;
+  onTokenOpen?: (symbol: string) => void;
   onGroupClick?: (symbols: string[]) => void;
   exchangeLabel?: string;
 }
@@ -57,6 +58,7 @@ export function FundingKiller({
   fundingRateData,
   marketCapData,
   onTokenClick,
+  onTokenOpen,
   onGroupClick,
   exchangeLabel = 'OKX',
 }: FundingKillerProps) {
@@ -96,7 +98,7 @@ export function FundingKiller({
     <div
       key={token.instId}
       className="flex items-center justify-between py-1.5 cursor-pointer hover:bg-muted/50 rounded -mx-2 px-2"
-      onClick={() => onTokenClick?.(token.symbol)}
+      onClick={() => (onTokenOpen ?? onTokenClick)?.(token.symbol)}
     >
       <div className="flex items-center gap-2">
         <span className="text-[11px] text-muted-foreground w-4">{index + 1}</span>
@@ -2,37 +2,49 @@
 
 import { useMemo } from 'react';
 import { SmallWidget } from '@/components/widgets/base';
-import { TooltipList } from '@/components/ui';
+import { TooltipList, TokenAvatar } from '@/components/ui';
 import { ProcessedTicker, FundingRateData, MarketCapData } from '@/lib/types';
+import { calculateFundingApr } from '@/lib/widget-utils';
 
 interface FundingMarketProps {
   tickers: Map<string, ProcessedTicker>;
   fundingRateData: Map<string, FundingRateData>;
   marketCapData?: Map<string, MarketCapData>;
   onGroupClick?: (symbols: string[]) => void;
+  onTokenOpen?: (symbol: string) => void;
   exchangeLabel?: string;
 }
 
+// Extreme funding token shown under the sentiment bar
+interface FundingExtreme {
+  symbol: string;
+  apr: number;
+  logo?: string;
+}
+
 /**
  * FundingMarket - Shows funding rate market sentiment
  *
  * Displays count of positive vs negative funding rates
- * from top 100 perp tokens by market cap
+ * from top 100 perp tokens by market cap, plus the highest and lowest APR
  */
 export function FundingMarket({
   tickers,
   fundingRateData,
   marketCapData,
   onGroupClick,
+  onTokenOpen,
   exchangeLabel = 'OKX',
 }: FundingMarketProps) {
-  const { positiveSymbols, negativeSymbols, total } = useMemo(() => {
+  const { positiveSymbols, negativeSymbols, total, highest, lowest } = useMemo(() => {
     // Get all OKX perp tickers with market cap and funding rate
     const tickersWithMcap: Array<{
       instId: string;
       symbol: string;
       marketCap: number;
       fundingRate: number;
+      apr: number;
+      logo?: string;
     }> = [];
 
     tickers.forEach((ticker, instId) => {
@@ -45,6 +57,8 @@ export function FundingMarket({
           symbol: ticker.baseSymbol,
           marketCap: mc.marketCap,
           fundingRate: fr.fundingRate,
+          apr: calculateFundingApr(fr.fundingRate, fr.settlementInterval),
+          logo: mc.logo,
         });
       }
     });
@@ -56,6 +70,8 @@ export function FundingMarket({
 
     const positive: string[] = [];
     const negative: string[] = [];
+    let max: FundingExtreme | null = null;
+    let min: FundingExtreme | null = null;
 
     top100.forEach((t) => {
       if (t.fundingRate > 0) {
@@ -63,12 +79,16 @@ export function FundingMarket({
       } else if (t.fundingRate < 0) {
         negative.push(t.symbol);
       }
+      if (!max || t.apr > max.apr) max = { symbol: t.symbol, apr: t.apr, logo: t.logo };
+      if (!min || t.apr < min.apr) min = { symbol: t.symbol, apr: t.apr, logo: t.logo };
     });
 
     return {
       positiveSymbols: positive,
       negativeSymbols: negative,
       total: top100.length,
+      highest: max as FundingExtreme | null,
+      lowest: min as FundingExtreme | null,
     };
   }, [tickers, fundingRateData, marketCapData]);
 
@@ -142,6 +162,26 @@ export function FundingMarket({
           )}
         </div>
 
+        {/* Extremes - open the token's funding history */}
+        {highest && lowest && (
+          <div className="flex items-center justify-between">
+            {[{ label: 'Highest', token: highest }, { label: 'Lowest', token: lowest }].map(({ label, token }) => (
+              <div
+                key={label}
+                className={`flex items-center gap-1.5 text-[11px] rounded -mx-1 px-1 py-0.5 ${onTokenOpen ? 'cursor-pointer hover:bg-muted/50' : ''}`}
+                onClick={() => onTokenOpen?.(token.symbol)}
+              >
+                <span className="text-muted-foreground">{label}</span>
+                <TokenAvatar symbol={token.symbol} logo={token.logo} size="sm" />
+                <span className="font-medium text-foreground">{token.symbol}</span>
+                <span className={`tabular-nums font-semibold ${token.apr >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                  {token.apr > 0 ? '+' : ''}{token.apr.toFixed(1)}%
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
       </div>
     </SmallWidget>
   );
@@ -73,6 +73,15 @@ function HyperliquidLogo({ className = "w-4 h-4" }: { className?: string }) {
   );
 }
 
+// Binance Logo Component
+function BinanceLogo({ className = "w-4 h-4" }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg">
+      <path d="M16.624 13.9202l2.7175 2.7154-7.353 7.353-7.353-7.352 2.7175-2.7164 4.6355 4.6595 4.6356-4.6595zm4.6366-4.6366L24 12l-2.7154 2.7164L18.5682 12l2.6924-2.7164zm-9.272.001l2.7163 2.6914-2.7164 2.7174v-.001L9.2721 12l2.7164-2.7154zm-9.2722-.001L5.4088 12l-2.6914 2.6924L0 12l2.7164-2.7164zM11.9885.0115l7.353 7.329-2.7174 2.7154-4.6356-4.6356-4.6355 4.6595-2.7174-2.7154 7.353-7.353z" />
+    </svg>
+  );
+}
+
 // Exchange navigation items
 const EXCHANGES = [
   {
@@ -87,6 +96,12 @@ const EXCHANGES = [
     href: '/hyperliquid',
     logo: HyperliquidLogo,
   },
+  {
+    id: 'binance',
+    label: 'Binance',
+    href: '/binance',
+    logo: BinanceLogo,
+  },
 ] as const;
 
 export function Header() {
@@ -0,0 +1,326 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ZoomIn, RotateCcw, Filter, X } from 'lucide-react';
+import { ProcessedTicker, ScatterMetric } from '@/lib/types';
+import {
+  ScatterContext,
+  ScatterDomains,
+  SCATTER_METRICS,
+  SCATTER_METRIC_KEYS,
+  buildScatterPoints,
+  getScatterDomains,
+  scaleLinear,
+  getDotRadius,
+  getTicks,
+  selectScatterPoints,
+} from '@/lib/scatter';
+import { SCATTER } from '@/lib/constants';
+import { formatMarketCap } from '@/lib/utils';
+import { Button, PillButtonGroup, Spinner } from '@/components/ui';
+
+interface MarketScatterProps {
+  rows: ProcessedTicker[]; // Filtered board rows
+  context: ScatterContext;
+  isLoading: boolean;
+  onDotClick: (instId: string) => void;
+  onFilterSymbols: (symbols: string[]) => void; // Brush selection → table symbol filter
+}
+
+// Plot margins (px) for axis labels
+const MARGIN = { top: 12, right: 16, bottom: 32, left: 52 };
+
+const METRIC_OPTIONS = SCATTER_METRIC_KEYS.map(value => ({ value, label: SCATTER_METRICS[value].label }));
+
+interface Brush {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/**
+ * MarketScatter - Filtered perps as dots on two selectable metrics
+ * Drag to select a region, then zoom into it or turn it into a table filter
+ */
+export function MarketScatter({ rows, context, isLoading, onDotClick, onFilterSymbols }: MarketScatterProps) {
+  const [xMetric, setXMetric] = useState<ScatterMetric>(SCATTER.DEFAULT_X);
+  const [yMetric, setYMetric] = useState<ScatterMetric>(SCATTER.DEFAULT_Y);
+  const [zoom, setZoom] = useState<ScatterDomains | null>(null);
+  const [brush, setBrush] = useState<Brush | null>(null);                 // Pixels, while dragging
+  const [selection, setSelection] = useState<ScatterDomains | null>(null); // Data units, after release
+  const [hoverId, setHoverId] = useState<string | null>(null);
+  const [box, setBox] = useState({ width: 0, height: 0 });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // Track the container size so the plot fills it
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    const measure = () => setBox({ width: el.clientWidth, height: el.clientHeight });
+    measure();
+    const ro = new ResizeObserver(measure);
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  // Metric changes invalidate zoom and selection
+  const changeMetric = (axis: 'x' | 'y', metric: ScatterMetric) => {
+    (axis === 'x' ? setXMetric : setYMetric)(metric);
+    setZoom(null);
+    setSelection(null);
+  };
+
+  const points = useMemo(
+    () => buildScatterPoints(rows, context, xMetric, yMetric),
+    [rows, context, xMetric, yMetric]
+  );
+
+  const plotWidth = Math.max(0, box.width - MARGIN.left - MARGIN.right);
+  const plotHeight = Math.max(0, box.height - MARGIN.top - MARGIN.bottom);
+  const domains = zoom ?? getScatterDomains(points, xMetric, yMetric);
+  const xScale = scaleLinear(domains.x, MARGIN.left, MARGIN.left + plotWidth);
+  const yScale = scaleLinear(domains.y, MARGIN.top + plotHeight, MARGIN.top);
+  const maxMarketCap = Math.max(0, ...points.map(p => p.marketCap ?? 0));
+
+  const xDef = SCATTER_METRICS[xMetric];
+  const yDef = SCATTER_METRICS[yMetric];
+
+  const selected = useMemo(
+    () => (selection ? selectScatterPoints(points, selection) : []),
+    [points, selection]
+  );
+
+  // Pointer position inside the plot area
+  const getPlotPoint = (event: React.MouseEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return { x: 0, y: 0 };
+    return {
+      x: Math.min(Math.max(event.clientX - rect.left, MARGIN.left), MARGIN.left + plotWidth),
+      y: Math.min(Math.max(event.clientY - rect.top, MARGIN.top), MARGIN.top + plotHeight),
+    };
+  };
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    const { x, y } = getPlotPoint(event);
+    setBrush({ x0: x, y0: y, x1: x, y1: y });
+    setSelection(null);
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    if (!brush) return;
+    const { x, y } = getPlotPoint(event);
+    setBrush({ ...brush, x1: x, y1: y });
+  };
+
+  // Keep the drag as a selection unless it was just a click
+  const handleMouseUp = () => {
+    if (!brush) return;
+    if (Math.abs(brush.x1 - brush.x0) >= SCATTER.MIN_BRUSH_SIZE && Math.abs(brush.y1 - brush.y0) >= SCATTER.MIN_BRUSH_SIZE) {
+      setSelection({
+        x: [xScale.toValue(brush.x0), xScale.toValue(brush.x1)],
+        y: [yScale.toValue(brush.y0), yScale.toValue(brush.y1)],
+      });
+    }
+    setBrush(null);
+  };
+
+  const handleZoom = () => {
+    if (!selection) return;
+    setZoom({
+      x: [Math.min(...selection.x), Math.max(...selection.x)],
+      y: [Math.min(...selection.y), Math.max(...selection.y)],
+    });
+    setSelection(null);
+  };
+
+  const handleFilter = () => {
+    if (selected.length === 0) return;
+    onFilterSymbols(Array.from(new Set(selected.map(p => p.symbol))));
+    setSelection(null);
+  };
+
+  const hovered = points.find(p => p.instId === hoverId);
+  const xTicks = getTicks(domains.x);
+  const yTicks = getTicks(domains.y);
+  const inDomain = (v: number, d: [number, number]) => v >= d[0] && v <= d[1];
+
+  // Rectangle to draw: the live drag, or the kept selection
+  const brushRect = brush
+    ? { x0: brush.x0, y0: brush.y0, x1: brush.x1, y1: brush.y1 }
+    : selection
+      ? { x0: xScale.toPixel(selection.x[0]), y0: yScale.toPixel(selection.y[0]), x1: xScale.toPixel(selection.x[1]), y1: yScale.toPixel(selection.y[1]) }
+      : null;
+
+  return (
+    <div className="flex flex-col flex-1 overflow-hidden">
+      {/* Axis pickers */}
+      <div className="flex flex-col gap-1.5 px-3 py-2 border-b">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="w-3 text-[11px] text-muted-foreground font-medium">X</span>
+          <PillButtonGroup options={METRIC_OPTIONS} value={xMetric} onChange={(m) => changeMetric('x', m)} size="sm" scrollable />
+        </div>
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="w-3 text-[11px] text-muted-foreground font-medium">Y</span>
+          <PillButtonGroup options={METRIC_OPTIONS} value={yMetric} onChange={(m) => changeMetric('y', m)} size="sm" scrollable />
+        </div>
+      </div>
+
+      {/* Selection actions */}
+      <div className="flex items-center gap-2 px-3 h-9 border-b text-[12px]">
+        {selection ? (
+          <>
+            <span className="text-muted-foreground tabular-nums">{selected.length} selected</span>
+            <Button variant="ghost" size="sm" className="h-7 text-[12px]" onClick={handleZoom}>
+              <ZoomIn className="w-3.5 h-3.5" />
+              Zoom
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7 text-[12px]" onClick={handleFilter} disabled={selected.length === 0}>
+              <Filter className="w-3.5 h-3.5" />
+              Filter table
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setSelection(null)} aria-label="Clear selection">
+              <X className="w-3.5 h-3.5" />
+            </Button>
+          </>
+        ) : (
+          <span className="text-muted-foreground">Drag to select tokens · click a dot to open it</span>
+        )}
+        <span className="ml-auto flex items-center gap-2">
+          {zoom && (
+            <Button variant="ghost" size="sm" className="h-7 text-[12px]" onClick={() => setZoom(null)}>
+              <RotateCcw className="w-3.5 h-3.5" />
+              Reset zoom
+            </Button>
+          )}
+          <span className="text-[11px] text-muted-foreground tabular-nums">
+            {points.length} of {rows.length} tokens
+          </span>
+        </span>
+      </div>
+
+      {/* Plot */}
+      <div ref={containerRef} className="relative flex-1 min-h-[320px] overflow-hidden select-none">
+        {points.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+            {isLoading ? (
+              <>
+                <Spinner size="md" className="mr-3" />
+                Loading market data...
+              </>
+            ) : (
+              'No data found'
+            )}
+          </div>
+        )}
+
+        {plotWidth > 0 && plotHeight > 0 && points.length > 0 && (
+          <svg
+            ref={svgRef}
+            width={box.width}
+            height={box.height}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+          >
+            {/* Grid + ticks */}
+            {xTicks.map(v => (
+              <g key={`x${v}`}>
+                <line x1={xScale.toPixel(v)} x2={xScale.toPixel(v)} y1={MARGIN.top} y2={MARGIN.top + plotHeight} className="stroke-border" strokeWidth={0.5} />
+                <text x={xScale.toPixel(v)} y={MARGIN.top + plotHeight + 14} textAnchor="middle" className="fill-muted-foreground text-[10px] tabular-nums">
+                  {xDef.format(v)}
+                </text>
+              </g>
+            ))}
+            {yTicks.map(v => (
+              <g key={`y${v}`}>
+                <line x1={MARGIN.left} x2={MARGIN.left + plotWidth} y1={yScale.toPixel(v)} y2={yScale.toPixel(v)} className="stroke-border" strokeWidth={0.5} />
+                <text x={MARGIN.left - 6} y={yScale.toPixel(v) + 3} textAnchor="end" className="fill-muted-foreground text-[10px] tabular-nums">
+                  {yDef.format(v)}
+                </text>
+              </g>
+            ))}
+
+            {/* Guide lines (RSI 30/70, zero funding / change) */}
+            {xDef.guides.filter(v => inDomain(v, domains.x)).map(v => (
+              <line key={`gx${v}`} x1={xScale.toPixel(v)} x2={xScale.toPixel(v)} y1={MARGIN.top} y2={MARGIN.top + plotHeight} className="stroke-muted-foreground" strokeDasharray="4 3" strokeWidth={1} />
+            ))}
+            {yDef.guides.filter(v => inDomain(v, domains.y)).map(v => (
+              <line key={`gy${v}`} x1={MARGIN.left} x2={MARGIN.left + plotWidth} y1={yScale.toPixel(v)} y2={yScale.toPixel(v)} className="stroke-muted-foreground" strokeDasharray="4 3" strokeWidth={1} />
+            ))}
+
+            {/* Axis titles */}
+            <text x={MARGIN.left + plotWidth} y={box.height - 4} textAnchor="end" className="fill-muted-foreground text-[11px] font-medium">
+              {xDef.label}
+            </text>
+            <text x={MARGIN.left + 4} y={MARGIN.top + 10} className="fill-muted-foreground text-[11px] font-medium">
+              {yDef.label}
+            </text>
+
+            {/* Brush target */}
+            <rect
+              x={MARGIN.left}
+              y={MARGIN.top}
+              width={plotWidth}
+              height={plotHeight}
+              fill="transparent"
+              className="cursor-crosshair"
+              onMouseDown={handleMouseDown}
+            />
+
+            {/* Dots */}
+            <g>
+              {points
+                .filter(p => inDomain(p.x, domains.x) && inDomain(p.y, domains.y))
+                .map(p => {
+                  const isSelected = selection !== null && selected.includes(p);
+                  return (
+                    <circle
+                      key={p.instId}
+                      cx={xScale.toPixel(p.x)}
+                      cy={yScale.toPixel(p.y)}
+                      r={getDotRadius(p.marketCap, maxMarketCap)}
+                      className={isSelected || p.instId === hoverId ? 'fill-primary stroke-primary' : 'fill-primary/40 stroke-primary/70'}
+                      strokeWidth={1}
+                      style={{ cursor: 'pointer' }}
+                      onMouseEnter={() => setHoverId(p.instId)}
+                      onMouseLeave={() => setHoverId(null)}
+                      onClick={() => onDotClick(p.instId)}
+                    />
+                  );
+                })}
+            </g>
+
+            {/* Brush rectangle */}
+            {brushRect && (
+              <rect
+                x={Math.min(brushRect.x0, brushRect.x1)}
+                y={Math.min(brushRect.y0, brushRect.y1)}
+                width={Math.abs(brushRect.x1 - brushRect.x0)}
+                height={Math.abs(brushRect.y1 - brushRect.y0)}
+                className="fill-primary/10 stroke-primary"
+                strokeDasharray="3 2"
+                pointerEvents="none"
+              />
+            )}
+          </svg>
+        )}
+
+        {/* Hover readout */}
+        {hovered && (
+          <div className="absolute top-2 right-3 rounded-md border bg-card/95 px-2 py-1 text-[11px] shadow-sm pointer-events-none">
+            <div className="font-semibold text-foreground">{hovered.symbol}</div>
+            <div className="text-muted-foreground tabular-nums">
+              {xDef.label} {xDef.format(hovered.x)} · {yDef.label} {yDef.format(hovered.y)}
+            </div>
+            {hovered.marketCap && (
+              <div className="text-muted-foreground tabular-nums">MCap {formatMarketCap(hovered.marketCap)}</div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { LayoutGrid, Table2, ChartScatter } from 'lucide-react';
+import {
+  ProcessedTicker,
+  MarketDisplay,
+  TreemapSizeMetric,
+  TreemapColorMetric,
+} from '@/lib/types';
+import {
+  TreemapContext,
+  TREEMAP_SIZE_METRICS,
+  TREEMAP_COLOR_METRICS,
+  buildTreemapTiles,
+  getTreemapColor,
+} from '@/lib/treemap';
+import { TREEMAP } from '@/lib/constants';
+import { formatMarketCap, cn } from '@/lib/utils';
+import { PillButtonGroup, Spinner } from '@/components/ui';
+
+interface MarketDisplayToggleProps {
+  value: MarketDisplay;
+  onChange: (display: MarketDisplay) => void;
+}
+
+/**
+ * MarketDisplayToggle - Table / treemap / scatter switch for the board header
+ */
+export function MarketDisplayToggle({ value, onChange }: MarketDisplayToggleProps) {
+  const options: { value: MarketDisplay; label: string; icon: typeof Table2 }[] = [
+    { value: 'table', label: 'Table', icon: Table2 },
+    { value: 'treemap', label: 'Treemap', icon: LayoutGrid },
+    { value: 'scatter', label: 'Scatter', icon: ChartScatter },
+  ];
+
+  return (
+    <div className="inline-flex items-center rounded-md bg-muted p-0.5" role="radiogroup" aria-label="Market view">
+      {options.map(({ value: option, label, icon: Icon }) => (
+        <button
+          key={option}
+          type="button"
+          role="radio"
+          aria-checked={value === option}
+          aria-label={label}
+          title={label}
+          onClick={() => onChange(option)}
+          className={cn(
+            'h-7 w-7 inline-flex items-center justify-center rounded',
+            value === option ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground hover:text-foreground'
+          )}
+        >
+          <Icon className="w-3.5 h-3.5" />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface MarketTreemapProps {
+  rows: ProcessedTicker[]; // Filtered board rows
+  context: TreemapContext;
+  isLoading: boolean;
+  onTileClick: (instId: string) => void;
+}
+
+const SIZE_OPTIONS = (Object.keys(TREEMAP_SIZE_METRICS) as TreemapSizeMetric[])
+  .map(value => ({ value, label: TREEMAP_SIZE_METRICS[value].label }));
+
+const COLOR_OPTIONS = (Object.keys(TREEMAP_COLOR_METRICS) as TreemapColorMetric[])
+  .map(value => ({ value, label: TREEMAP_COLOR_METRICS[value].label }));
+
+/**
+ * MarketTreemap - Filtered market as tiles sized by market cap / volume
+ * and coloured by change, RSI or funding; clicking a tile opens the token
+ */
+export function MarketTreemap({ rows, context, isLoading, onTileClick }: MarketTreemapProps) {
+  const [sizeMetric, setSizeMetric] = useState<TreemapSizeMetric>('marketCap');
+  const [colorMetric, setColorMetric] = useState<TreemapColorMetric>('change24h');
+  const [box, setBox] = useState({ width: 0, height: 0 });
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Track the container size so tiles fill it
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    const measure = () => setBox({ width: el.clientWidth, height: el.clientHeight });
+    measure();
+    const ro = new ResizeObserver(measure);
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  const tiles = useMemo(
+    () => buildTreemapTiles(rows, context, sizeMetric, colorMetric, box.width, box.height),
+    [rows, context, sizeMetric, colorMetric, box.width, box.height]
+  );
+
+  const colorDef = TREEMAP_COLOR_METRICS[colorMetric];
+
+  return (
+    <div className="flex flex-col flex-1 overflow-hidden">
+      {/* Metric pickers */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 px-3 py-2 border-b">
+        <div className="flex items-center gap-2">
+          <span className="text-[11px] text-muted-foreground font-medium">Size</span>
+          <PillButtonGroup options={SIZE_OPTIONS} value={sizeMetric} onChange={setSizeMetric} size="sm" />
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-[11px] text-muted-foreground font-medium">Colour</span>
+          <PillButtonGroup options={COLOR_OPTIONS} value={colorMetric} onChange={setColorMetric} size="sm" />
+        </div>
+        <span className="ml-auto text-[11px] text-muted-foreground tabular-nums">
+          {tiles.length} of {rows.length} tokens
+        </span>
+      </div>
+
+      {/* Tiles */}
+      <div ref={containerRef} className="relative flex-1 min-h-[320px] overflow-hidden">
+        {tiles.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+            {isLoading ? (
+              <>
+                <Spinner size="md" className="mr-3" />
+                Loading market data...
+              </>
+            ) : (
+              'No data found'
+            )}
+          </div>
+        )}
+
+        {tiles.map(tile => {
+          const showLabel = tile.width >= TREEMAP.MIN_LABEL_WIDTH && tile.height >= TREEMAP.MIN_LABEL_HEIGHT;
+          const showValue = showLabel && tile.height >= TREEMAP.MIN_VALUE_HEIGHT;
+          const valueText = tile.value !== null ? colorDef.format(tile.value) : '--';
+
+          return (
+            <button
+              key={tile.instId}
+              type="button"
+              onClick={() => onTileClick(tile.instId)}
+              title={`${tile.symbol} · ${formatMarketCap(tile.size)} · ${colorDef.label} ${valueText}`}
+              className="absolute flex flex-col items-center justify-center overflow-hidden border border-background/60 text-white hover:brightness-110 focus-visible:outline focus-visible:outline-2 focus-visible:outline-ring"
+              style={{
+                left: tile.x,
+                top: tile.y,
+                width: tile.width,
+                height: tile.height,
+                backgroundColor: getTreemapColor(colorMetric, tile.value),
+              }}
+            >
+              {showLabel && (
+                <span
+                  className="font-semibold leading-tight truncate max-w-full px-1"
+                  style={{ fontSize: Math.max(10, Math.min(22, tile.width / 6, tile.height / 3)) }}
+                >
+                  {tile.symbol}
+                </span>
+              )}
+              {showValue && (
+                <span className="text-[11px] leading-tight tabular-nums opacity-90">{valueText}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
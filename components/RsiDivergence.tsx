@@ -0,0 +1,115 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { GitCompareArrows } from 'lucide-react';
+import { SmallWidget } from '@/components/widgets/base';
+import { TooltipList, TokenAvatar, ToggleGroup, ToggleGroupItem } from '@/components/ui';
+import { ProcessedTicker, RSIData, MarketCapData } from '@/lib/types';
+import { formatPrice } from '@/lib/utils';
+import { getTokensWithRsiDivergence } from '@/lib/widget-utils';
+import { DIVERGENCE, WIDGET } from '@/lib/constants';
+
+interface RsiDivergenceProps {
+  tickers: Map<string, ProcessedTicker>;
+  rsiData: Map<string, RSIData>;
+  marketCapData: Map<string, MarketCapData>;
+  onTokenClick?: (symbol: string) => void;
+  exchangeLabel?: string;
+}
+
+export function RsiDivergence({ tickers, rsiData, marketCapData, onTokenClick, exchangeLabel = 'OKX' }: RsiDivergenceProps) {
+  const [lookback, setLookback] = useState<number>(DIVERGENCE.DEFAULT_LOOKBACK);
+
+  const divergenceTokens = useMemo(
+    () => getTokensWithRsiDivergence(tickers, rsiData, marketCapData, lookback),
+    [tickers, rsiData, marketCapData, lookback]
+  );
+
+  const isLoading = tickers.size === 0;
+
+  return (
+    <SmallWidget
+      title="RSI Divergence"
+      icon={<GitCompareArrows className="w-4 h-4" />}
+      subtitle={`Daily RSI14 divergences in ${exchangeLabel} Perps, last ${lookback}d`}
+      headerActions={
+        <ToggleGroup
+          type="single"
+          value={String(lookback)}
+          onValueChange={(v) => v && setLookback(Number(v))}
+          size="sm"
+          className="gap-0.5"
+        >
+          {DIVERGENCE.LOOKBACK_OPTIONS.map((days) => (
+            <ToggleGroupItem
+              key={days}
+              value={String(days)}
+              onClick={(e) => e.stopPropagation()}
+              className="px-2.5 py-1 text-xs data-[state=on]:bg-background data-[state=on]:shadow-sm"
+            >
+              {days}d
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      }
+      loading={isLoading}
+      tooltip={
+        <TooltipList items={[
+          <><span className="text-green-500">Bullish</span>: price lower low, RSI higher low</>,
+          <><span className="text-red-500">Bearish</span>: price higher high, RSI lower high</>,
+          `Swings need ${DIVERGENCE.PIVOT_BARS} daily closes on each side to confirm`,
+          `Largest ${WIDGET.DISPLAY_LIMIT} by market cap, "3d" = latest swing 3 days ago`,
+          "Click token to filter in table",
+        ]} />
+      }
+    >
+      <div className="space-y-1">
+        {isLoading ? (
+          [1, 2, 3].map((i) => (
+            <div key={i} className="flex items-center justify-between py-1.5">
+              <div className="flex items-center gap-2">
+                <span className="text-[11px] text-muted-foreground w-4">{i}</span>
+                <div className="w-5 h-5 rounded-full bg-muted animate-pulse" />
+                <div className="w-10 h-3 bg-muted rounded animate-pulse" />
+              </div>
+              <div className="flex items-center gap-3">
+                <div className="w-12 h-3 bg-muted rounded animate-pulse" />
+                <div className="w-16 h-5 bg-muted rounded-md animate-pulse" />
+              </div>
+            </div>
+          ))
+        ) : divergenceTokens.length > 0 ? (
+          divergenceTokens.map((token, i) => {
+            const isBullish = token.divergence.type === 'bullish';
+            return (
+              <div
+                key={token.instId}
+                className="flex items-center justify-between py-1.5 cursor-pointer hover:bg-muted/50 rounded -mx-2 px-2"
+                onClick={() => onTokenClick?.(token.symbol)}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-[11px] text-muted-foreground w-4">{i + 1}</span>
+                  <TokenAvatar symbol={token.symbol} logo={token.logo} />
+                  <span className="text-[12px] font-medium text-foreground">{token.symbol}</span>
+                </div>
+                <div className="flex items-center">
+                  <span className="text-[11px] text-muted-foreground tabular-nums w-16 text-center">{formatPrice(token.price)}</span>
+                  <span
+                    className={`text-[11px] font-semibold tabular-nums w-20 text-center py-0.5 rounded-md ${isBullish ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}
+                    title={`Swings ${token.divergence.span} days apart`}
+                  >
+                    {isBullish ? 'Bull' : 'Bear'} · {token.divergence.barsAgo}d
+                  </span>
+                </div>
+              </div>
+            );
+          })
+        ) : (
+          <div className="text-center py-4 text-[11px] text-muted-foreground">
+            No divergences in the last {lookback} days
+          </div>
+        )}
+      </div>
+    </SmallWidget>
+  );
+}
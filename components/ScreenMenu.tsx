@@ -0,0 +1,267 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  ChevronDown,
+  ChevronUp,
+  Pencil,
+  Trash2,
+  Link2,
+  Download,
+  Upload,
+  Check,
+  Save,
+} from 'lucide-react';
+import { ExchangeId, SavedScreen } from '@/lib/types';
+import { exportScreensJson, parseScreensJson, getScreenShareUrl } from '@/lib/screens';
+import { SCREENS } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui';
+
+interface ScreenMenuProps {
+  exchange: ExchangeId;
+  screens: SavedScreen[];
+  activeScreenId: string | null;
+  isModified: boolean; // Current setup differs from the active screen
+  onApply: (screen: SavedScreen) => void;
+  onSave: (name: string) => void;
+  onUpdateActive: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+  onImport: (screens: SavedScreen[]) => void;
+}
+
+const inputClass = 'flex-1 min-w-0 bg-muted rounded-md px-2 h-7 text-[12px] text-foreground outline-none placeholder:text-muted-foreground';
+const iconButtonClass = 'p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted disabled:opacity-30 disabled:pointer-events-none';
+
+/**
+ * ScreenMenu - Dropdown of named saved screens
+ * Apply, save, rename, reorder, share by link and export/import as JSON
+ */
+export function ScreenMenu({
+  exchange,
+  screens,
+  activeScreenId,
+  isModified,
+  onApply,
+  onSave,
+  onUpdateActive,
+  onRename,
+  onDelete,
+  onMove,
+  onImport,
+}: ScreenMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeScreen = screens.find(s => s.id === activeScreenId);
+  const isFull = screens.length >= SCREENS.MAX_SCREENS;
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+        setRenamingId(null);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const handleSave = () => {
+    if (!newName.trim() || isFull) return;
+    onSave(newName);
+    setNewName('');
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onRename(renamingId, renameValue);
+    }
+    setRenamingId(null);
+  };
+
+  const handleCopyLink = async (screen: SavedScreen) => {
+    try {
+      await navigator.clipboard.writeText(getScreenShareUrl(screen));
+      setCopiedId(screen.id);
+      setTimeout(() => setCopiedId(prev => (prev === screen.id ? null : prev)), 1500);
+    } catch (e) {
+      console.warn('[Screens] Failed to copy link:', e);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportScreensJson(screens)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${exchange}-screens.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (file: File) => {
+    const imported = parseScreensJson(await file.text());
+    if (!imported || imported.length === 0) {
+      setImportError('No screens found in that file');
+      return;
+    }
+    setImportError(null);
+    onImport(imported);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 gap-1 px-2 text-[13px]"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-haspopup="menu"
+      >
+        <span className={cn('max-w-[120px] truncate', activeScreen ? 'text-foreground' : 'text-muted-foreground')}>
+          {activeScreen ? activeScreen.name : 'Screens'}
+        </span>
+        {activeScreen && isModified && <span className="w-1.5 h-1.5 rounded-full bg-primary" title="Unsaved changes" />}
+        <ChevronDown className="w-3.5 h-3.5 text-muted-foreground" />
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 top-10 z-[110] w-[300px] rounded-lg border bg-card shadow-xl p-2 space-y-2" role="menu">
+          {/* Saved screens */}
+          {screens.length === 0 ? (
+            <div className="text-[12px] text-muted-foreground text-center py-3">No saved screens yet</div>
+          ) : (
+            <div className="max-h-[280px] overflow-y-auto space-y-0.5">
+              {screens.map((screen, index) => (
+                <div
+                  key={screen.id}
+                  className={cn(
+                    'group flex items-center gap-1 rounded-md px-1.5 py-1',
+                    screen.id === activeScreenId ? 'bg-muted' : 'hover:bg-muted/60'
+                  )}
+                >
+                  {renamingId === screen.id ? (
+                    <input
+                      autoFocus
+                      value={renameValue}
+                      maxLength={SCREENS.MAX_NAME_LENGTH}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      className={inputClass}
+                      aria-label="Screen name"
+                    />
+                  ) : (
+                    <button
+                      type="button"
+                      role="menuitem"
+                      onClick={() => {
+                        onApply(screen);
+                        setOpen(false);
+                      }}
+                      className="flex-1 min-w-0 text-left text-[12px] text-foreground truncate"
+                    >
+                      {screen.name}
+                    </button>
+                  )}
+
+                  <div className="flex items-center opacity-60 group-hover:opacity-100">
+                    <button type="button" className={iconButtonClass} onClick={() => onMove(screen.id, -1)} disabled={index === 0} aria-label="Move up">
+                      <ChevronUp className="w-3.5 h-3.5" />
+                    </button>
+                    <button type="button" className={iconButtonClass} onClick={() => onMove(screen.id, 1)} disabled={index === screens.length - 1} aria-label="Move down">
+                      <ChevronDown className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      className={iconButtonClass}
+                      onClick={() => {
+                        setRenamingId(screen.id);
+                        setRenameValue(screen.name);
+                      }}
+                      aria-label="Rename"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button type="button" className={iconButtonClass} onClick={() => handleCopyLink(screen)} aria-label="Copy share link">
+                      {copiedId === screen.id ? <Check className="w-3.5 h-3.5 text-green-500" /> : <Link2 className="w-3.5 h-3.5" />}
+                    </button>
+                    <button type="button" className={iconButtonClass} onClick={() => onDelete(screen.id)} aria-label="Delete">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Update active screen */}
+          {activeScreen && isModified && (
+            <Button variant="secondary" size="sm" className="w-full h-7 text-[12px]" onClick={onUpdateActive}>
+              <Save className="w-3.5 h-3.5" />
+              Update &quot;{activeScreen.name}&quot;
+            </Button>
+          )}
+
+          {/* Save current setup */}
+          <div className="flex items-center gap-1.5 border-t pt-2">
+            <input
+              value={newName}
+              maxLength={SCREENS.MAX_NAME_LENGTH}
+              placeholder={isFull ? `Limit of ${SCREENS.MAX_SCREENS} screens reached` : 'Save current setup as...'}
+              disabled={isFull}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              className={inputClass}
+              aria-label="New screen name"
+            />
+            <Button size="sm" className="h-7 px-2 text-[12px]" disabled={!newName.trim() || isFull} onClick={handleSave}>
+              Save
+            </Button>
+          </div>
+
+          {/* Export / import */}
+          <div className="flex items-center gap-1.5">
+            <Button variant="ghost" size="sm" className="flex-1 h-7 text-[12px]" onClick={handleExport} disabled={screens.length === 0}>
+              <Download className="w-3.5 h-3.5" />
+              Export JSON
+            </Button>
+            <Button variant="ghost" size="sm" className="flex-1 h-7 text-[12px]" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-3.5 h-3.5" />
+              Import JSON
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {importError && <div className="text-[11px] text-red-500 px-1">{importError}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { parseScreener, getScreenerCompletions, SCREENER_FIELDS } from '@/lib/screener';
+
+interface ScreenerInputProps {
+  value: string | undefined;
+  onChange: (value: string | undefined) => void;
+}
+
+/**
+ * ScreenerInput - Expression filter with field autocomplete
+ *
+ * Valid expressions apply as you type; invalid ones keep the last valid
+ * expression active and point at the first error.
+ */
+export function ScreenerInput({ value, onChange }: ScreenerInputProps) {
+  const [draft, setDraft] = useState(value ?? '');
+  const [cursor, setCursor] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Sync when filters change elsewhere (URL state, reset button)
+  useEffect(() => {
+    setDraft(prev => (prev.trim() === (value ?? '').trim() ? prev : value ?? ''));
+  }, [value]);
+
+  const parsed = useMemo(() => (draft.trim() ? parseScreener(draft) : null), [draft]);
+  const error = parsed && !parsed.ok ? parsed.error : null;
+  const completion = useMemo(
+    () => (focused ? getScreenerCompletions(draft, cursor) : null),
+    [draft, cursor, focused]
+  );
+
+  const handleChange = (next: string, nextCursor: number) => {
+    setDraft(next);
+    setCursor(nextCursor);
+    setActiveIndex(0);
+
+    if (!next.trim()) {
+      onChange(undefined);
+      return;
+    }
+    if (parseScreener(next).ok) {
+      onChange(next.trim());
+    }
+  };
+
+  const acceptCompletion = (index: number) => {
+    if (!completion) return;
+    const field = completion.fields[index];
+    const next = draft.slice(0, completion.start) + field.name + ' ' + draft.slice(completion.end).trimStart();
+    const nextCursor = completion.start + field.name.length + 1;
+    handleChange(next, nextCursor);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCursor, nextCursor));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!completion) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => (i + 1) % completion.fields.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => (i - 1 + completion.fields.length) % completion.fields.length);
+    } else if (e.key === 'Tab' || e.key === 'Enter') {
+      e.preventDefault();
+      acceptCompletion(Math.min(activeIndex, completion.fields.length - 1));
+    } else if (e.key === 'Escape') {
+      setFocused(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        ref={inputRef}
+        type="text"
+        value={draft}
+        spellCheck={false}
+        placeholder="rsi7 < 30 and fundingApr > 20 and not meme"
+        onChange={(e) => handleChange(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+        onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? 0)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        className={cn(
+          'w-full bg-muted rounded-lg px-3 h-8 text-[12px] font-mono text-foreground placeholder:text-muted-foreground outline-none border',
+          error ? 'border-red-500/60' : 'border-transparent focus:border-border'
+        )}
+        aria-label="Screener expression"
+        aria-invalid={!!error}
+      />
+
+      {/* Field autocomplete */}
+      {completion && (
+        <div className="absolute left-0 right-0 top-9 z-10 max-h-48 overflow-y-auto rounded-lg border bg-card shadow-lg py-1">
+          {completion.fields.map((field, i) => (
+            <button
+              key={field.name}
+              type="button"
+              onMouseDown={(e) => {
+                e.preventDefault(); // Keep input focus
+                acceptCompletion(i);
+              }}
+              className={cn(
+                'w-full flex items-center justify-between px-3 py-1 text-[12px] text-left',
+                i === activeIndex ? 'bg-muted' : 'hover:bg-muted/60'
+              )}
+            >
+              <span className="font-mono text-foreground">{field.name}</span>
+              <span className="text-[11px] text-muted-foreground">{field.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error ? (
+        <div className="mt-1.5 text-[11px] text-red-500">
+          {error.message} <span className="text-muted-foreground">(at column {error.position + 1})</span>
+        </div>
+      ) : (
+        <div className="mt-1.5 text-[11px] text-muted-foreground">
+          Fields: {SCREENER_FIELDS.map(f => f.name).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useId } from 'react';
+import { useId, useMemo, useState } from 'react';
 
 interface SparklineProps {
   data?: number[];       // Real price data array
@@ -10,13 +10,17 @@ interface SparklineProps {
   className?: string;
 }
 
+// Line colour shared by every sparkline: green when up over the window, red when down
+function getSparklineColor(change: number): string {
+  return change >= 0 ? '#22c55e' : '#ef4444'; // green-500 / red-500
+}
+
 /**
  * Mini sparkline chart showing price trend
  * Uses real price data when available, otherwise generates simulated data
  */
 export function Sparkline({ data, change, width = 50, height = 20, className = '' }: SparklineProps) {
-  const isPositive = change >= 0;
-  const color = isPositive ? '#22c55e' : '#ef4444'; // green-500 / red-500
+  const color = getSparklineColor(change);
   const gradientId = `sparkline-gradient-${useId()}`;
 
   // Generate points from real data or simulated data
@@ -137,6 +141,124 @@ export function Sparkline({ data, change, width = 50, height = 20, className = '
   );
 }
 
+interface SparklineChartProps {
+  points: { time: number; value: number }[];
+  formatValue: (value: number) => string;
+  formatTime: (time: number) => string;
+  height?: number;
+}
+
+// Chart geometry (SVG units, scaled to container width)
+const CHART_WIDTH = 300;
+
+/**
+ * Widget-sized sparkline with hover values
+ * Same colour and gradient as Sparkline, stretched to the container width;
+ * the readout shows the hovered point (latest when idle) and its change from the first
+ */
+export function SparklineChart({ points, formatValue, formatTime, height = 80 }: SparklineChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const gradientId = `sparkline-chart-gradient-${useId()}`;
+
+  const first = points[0]?.value ?? 0;
+  const last = points[points.length - 1]?.value ?? 0;
+  const color = getSparklineColor(last - first);
+
+  const layout = useMemo(() => {
+    const values = points.map(p => p.value);
+    const minValue = Math.min(...values);
+    const maxValue = Math.max(...values);
+    const valueRange = maxValue - minValue || 1;
+
+    const padding = 2;
+    const chartHeight = height - padding * 2;
+    const step = CHART_WIDTH / Math.max(points.length - 1, 1);
+
+    const line = points.map((p, i) => {
+      const x = i * step;
+      const y = padding + chartHeight - ((p.value - minValue) / valueRange) * chartHeight;
+      return `${i === 0 ? 'M' : 'L'} ${x.toFixed(1)},${y.toFixed(1)}`;
+    }).join(' ');
+
+    return { line, area: `${line} L ${CHART_WIDTH},${height} L 0,${height} Z`, step };
+  }, [points, height]);
+
+  if (points.length < 2) {
+    return (
+      <div className="flex items-center justify-center text-[11px] text-muted-foreground" style={{ height }}>
+        No data
+      </div>
+    );
+  }
+
+  const hovered = points[hoverIndex ?? points.length - 1];
+  const change = first ? ((hovered.value - first) / first) * 100 : 0;
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * CHART_WIDTH;
+    const index = Math.round(x / layout.step);
+    setHoverIndex(Math.min(Math.max(index, 0), points.length - 1));
+  };
+
+  return (
+    <div>
+      {/* Hover readout (latest point when idle) */}
+      <div className="flex items-center justify-between text-[11px] mb-1 tabular-nums">
+        <span className="text-muted-foreground">{formatTime(hovered.time)}</span>
+        <span className="flex items-center gap-2">
+          <span className="font-medium text-foreground">{formatValue(hovered.value)}</span>
+          <span className={change >= 0 ? 'text-green-500' : 'text-red-500'}>
+            {change >= 0 ? '+' : ''}{change.toFixed(2)}%
+          </span>
+        </span>
+      </div>
+
+      <svg
+        width="100%"
+        height={height}
+        viewBox={`0 0 ${CHART_WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        className="block"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        <defs>
+          <linearGradient id={gradientId} x1="0%" y1="0%" x2="0%" y2="100%">
+            <stop offset="0%" stopColor={color} stopOpacity="0.3" />
+            <stop offset="100%" stopColor={color} stopOpacity="0" />
+          </linearGradient>
+        </defs>
+
+        <path d={layout.area} fill={`url(#${gradientId})`} />
+        <path
+          d={layout.line}
+          fill="none"
+          stroke={color}
+          strokeWidth="1.5"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+
+        {/* Crosshair */}
+        {hoverIndex !== null && (
+          <line
+            x1={hoverIndex * layout.step}
+            x2={hoverIndex * layout.step}
+            y1={0}
+            y2={height}
+            stroke="currentColor"
+            className="text-muted-foreground"
+            strokeDasharray="2 2"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+    </div>
+  );
+}
+
 interface ChangeWithSparklineProps {
   change: number | null | undefined;
   sparklineData?: number[];
@@ -0,0 +1,313 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  ExchangeId,
+  ProcessedTicker,
+  FundingRateData,
+  MarketCapData,
+  RSIData,
+  CandleBar,
+  FundingHistoryRange,
+} from '@/lib/types';
+import { useFundingHistory, FundingHistoryFetcher } from '@/hooks/useFundingHistory';
+import { useCandles, CandleFetcher } from '@/hooks/useCandles';
+import {
+  sliceFundingHistory,
+  calculateFundingHistoryStats,
+  calculateCumulativeFunding,
+  formatFundingUsd,
+  FundingSide,
+} from '@/lib/funding-history';
+import {
+  formatPrice,
+  formatFundingRate,
+  formatFundingApr,
+  getFundingAprClass,
+  getFundingRateClass,
+  formatSettlementInterval,
+  formatListDate,
+  formatMarketCap,
+  getRsiSignal,
+} from '@/lib/utils';
+import { FUNDING_HISTORY, TOKEN_CHART } from '@/lib/constants';
+import { FundingHistoryChart } from '@/components/FundingHistoryChart';
+import { CandlestickChart } from '@/components/CandlestickChart';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+  PillButtonGroup,
+  TokenAvatar,
+  Spinner,
+} from '@/components/ui';
+
+interface TokenDetailDrawerProps {
+  exchange: ExchangeId;
+  exchangeLabel: string;
+  ticker: ProcessedTicker | null; // null closes the drawer
+  fundingRate?: FundingRateData;
+  marketCap?: MarketCapData;
+  rsi?: RSIData;
+  listTime?: number;    // Undefined on venues without listing dates
+  hasSpot?: boolean;    // Undefined on venues without a spot market
+  fetchFundingHistory: FundingHistoryFetcher;
+  fetchCandles: CandleFetcher;
+  onClose: () => void;
+}
+
+const BAR_OPTIONS: { value: CandleBar; label: string }[] = [
+  { value: '1H', label: '1H' },
+  { value: '4H', label: '4H' },
+  { value: '1D', label: '1D' },
+  { value: '1W', label: '1W' },
+];
+
+const RANGE_OPTIONS: { value: FundingHistoryRange; label: string }[] = [
+  { value: '7d', label: '7D' },
+  { value: '30d', label: '30D' },
+  { value: '90d', label: '90D' },
+];
+
+const SIDE_OPTIONS: { value: FundingSide; label: string; activeColor: string }[] = [
+  { value: 'long', label: 'Long', activeColor: 'text-green-500' },
+  { value: 'short', label: 'Short', activeColor: 'text-red-500' },
+];
+
+// Single stat cell in the summary grid
+function Stat({ label, value, className = 'text-foreground' }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="rounded-lg border px-3 py-2">
+      <div className="text-[11px] text-muted-foreground mb-0.5">{label}</div>
+      <div className={`text-[14px] font-semibold tabular-nums ${className}`}>{value}</div>
+    </div>
+  );
+}
+
+/**
+ * PriceChartSection - Candles with RSI sub-pane and a bar-size switch
+ */
+function PriceChartSection({
+  exchange,
+  instId,
+  fetchCandles,
+}: {
+  exchange: ExchangeId;
+  instId: string;
+  fetchCandles: CandleFetcher;
+}) {
+  const [bar, setBar] = useState<CandleBar>(TOKEN_CHART.DEFAULT_BAR);
+  const { candles, loading } = useCandles(exchange, instId, bar, fetchCandles);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-[12px] font-medium text-foreground">Price</div>
+        <PillButtonGroup options={BAR_OPTIONS} value={bar} onChange={setBar} size="sm" />
+      </div>
+
+      {loading && candles.length === 0 ? (
+        <div className="flex items-center justify-center h-[250px] text-[12px] text-muted-foreground">
+          <Spinner size="sm" className="mr-2" />
+          Loading candles...
+        </div>
+      ) : (
+        <CandlestickChart candles={candles} bar={bar} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * FundingHistorySection - Historical funding, summary stats and cumulative PnL
+ * for a notional position held over the selected window
+ */
+function FundingHistorySection({
+  exchange,
+  instId,
+  fetchFundingHistory,
+}: {
+  exchange: ExchangeId;
+  instId: string;
+  fetchFundingHistory: FundingHistoryFetcher;
+}) {
+  const [range, setRange] = useState<FundingHistoryRange>(FUNDING_HISTORY.DEFAULT_RANGE);
+  const [side, setSide] = useState<FundingSide>('long');
+  const [notional, setNotional] = useState<string>(String(FUNDING_HISTORY.DEFAULT_NOTIONAL));
+
+  const { points, loading } = useFundingHistory(exchange, instId, fetchFundingHistory);
+
+  const windowPoints = useMemo(() => sliceFundingHistory(points, range), [points, range]);
+  const stats = useMemo(() => calculateFundingHistoryStats(windowPoints), [windowPoints]);
+  const series = useMemo(
+    () => calculateCumulativeFunding(windowPoints, parseFloat(notional) || 0, side),
+    [windowPoints, notional, side]
+  );
+
+  const total = series.length > 0 ? series[series.length - 1].cumulative : 0;
+  const streakUnit = (n: number) => `${n} ${n === 1 ? 'period' : 'periods'}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-[12px] font-medium text-foreground">Funding History</div>
+        <PillButtonGroup options={RANGE_OPTIONS} value={range} onChange={setRange} size="sm" />
+      </div>
+
+      {loading && points.length === 0 ? (
+        <div className="flex items-center justify-center h-[160px] text-[12px] text-muted-foreground">
+          <Spinner size="sm" className="mr-2" />
+          Loading funding history...
+        </div>
+      ) : (
+        <>
+          {/* Summary stats */}
+          <div className="grid grid-cols-2 gap-2">
+            <Stat
+              label="Avg APR"
+              value={stats ? `${stats.avgApr >= 0 ? '+' : ''}${stats.avgApr.toFixed(1)}%` : '--'}
+              className={getFundingAprClass(stats?.avgApr)}
+            />
+            <Stat
+              label="Positive Periods"
+              value={stats ? `${stats.positivePct.toFixed(0)}% of ${stats.periods}` : '--'}
+            />
+            <Stat
+              label="Max Positive Streak"
+              value={stats ? streakUnit(stats.maxPositiveStreak) : '--'}
+              className="text-green-500"
+            />
+            <Stat
+              label="Max Negative Streak"
+              value={stats ? streakUnit(stats.maxNegativeStreak) : '--'}
+              className="text-red-500"
+            />
+          </div>
+
+          <FundingHistoryChart series={series} />
+
+          {/* Cumulative funding for a notional position */}
+          <div className="rounded-lg border px-3 py-2.5 space-y-2">
+            <div className="flex items-center gap-2">
+              <PillButtonGroup options={SIDE_OPTIONS} value={side} onChange={setSide} size="sm" />
+              <div className="inline-flex items-center bg-muted rounded-lg px-2 h-8">
+                <span className="text-[12px] text-muted-foreground">$</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="1000"
+                  value={notional}
+                  onChange={(e) => setNotional(e.target.value)}
+                  className="w-20 bg-transparent text-[12px] tabular-nums text-foreground outline-none [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none"
+                  aria-label="Position notional in USD"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between text-[12px]">
+              <span className="text-muted-foreground">
+                {total >= 0 ? 'Received' : 'Paid'} over {range}
+              </span>
+              <span className={`font-semibold tabular-nums ${total >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                {formatFundingUsd(total)}
+              </span>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * TokenDetailDrawer - Slide-over with a single token's context
+ * Opened from the table's symbol cell and from funding widgets
+ */
+export function TokenDetailDrawer({
+  exchange,
+  exchangeLabel,
+  ticker,
+  fundingRate,
+  marketCap,
+  rsi,
+  listTime,
+  hasSpot,
+  fetchFundingHistory,
+  fetchCandles,
+  onClose,
+}: TokenDetailDrawerProps) {
+  const dailySignal = getRsiSignal(rsi?.rsi7 ?? null, rsi?.rsi14 ?? null);
+  const weeklySignal = getRsiSignal(rsi?.rsiW7 ?? null, rsi?.rsiW14 ?? null);
+
+  return (
+    <Sheet open={ticker !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-md overflow-y-auto p-5">
+        {ticker && (
+          <div className="space-y-5">
+            <SheetHeader className="text-left">
+              <SheetTitle className="flex items-center gap-2">
+                <TokenAvatar symbol={ticker.baseSymbol} logo={marketCap?.logo} size="lg" />
+                <span>{ticker.baseSymbol}</span>
+                <span className="text-[12px] text-muted-foreground font-normal">{ticker.instId}</span>
+              </SheetTitle>
+              <SheetDescription className="flex items-center gap-3 tabular-nums">
+                <span className="text-foreground font-medium">{formatPrice(ticker.priceNum)}</span>
+                <span className={ticker.changeNum >= 0 ? 'text-green-500' : 'text-red-500'}>
+                  {ticker.changeNum >= 0 ? '+' : ''}{ticker.changeNum.toFixed(2)}% 24h
+                </span>
+                <span>{exchangeLabel} Perp</span>
+              </SheetDescription>
+            </SheetHeader>
+
+            {/* Current funding */}
+            <div className="grid grid-cols-3 gap-2">
+              <Stat
+                label="Funding Rate"
+                value={formatFundingRate(fundingRate?.fundingRate)}
+                className={getFundingRateClass(fundingRate?.fundingRate)}
+              />
+              <Stat
+                label="Funding APR"
+                value={formatFundingApr(fundingRate?.fundingRate, fundingRate?.settlementInterval)}
+                className={getFundingAprClass(fundingRate?.fundingRate)}
+              />
+              <Stat
+                label="Interval"
+                value={formatSettlementInterval(fundingRate?.settlementInterval)}
+              />
+            </div>
+
+            <PriceChartSection
+              key={`chart-${ticker.instId}`}
+              exchange={exchange}
+              instId={ticker.instId}
+              fetchCandles={fetchCandles}
+            />
+
+            {/* Overview */}
+            <div className="grid grid-cols-3 gap-2">
+              <Stat label="Market Cap Rank" value={marketCap ? `#${marketCap.rank}` : '--'} />
+              <Stat label="Market Cap" value={marketCap ? formatMarketCap(marketCap.marketCap) : '--'} />
+              <Stat label="Listed" value={formatListDate(listTime)} />
+              <Stat
+                label="Spot Market"
+                value={hasSpot === undefined ? '--' : hasSpot ? 'Yes' : 'No'}
+                className={hasSpot ? 'text-green-500' : 'text-muted-foreground'}
+              />
+              <Stat label="Daily RSI" value={dailySignal.label} />
+              <Stat label="Weekly RSI" value={weeklySignal.label} />
+            </div>
+
+            <FundingHistorySection
+              key={ticker.instId}
+              exchange={exchange}
+              instId={ticker.instId}
+              fetchFundingHistory={fetchFundingHistory}
+            />
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,17 +1,85 @@
 'use client';
 
-import { useEffect } from 'react';
-import { loadTradingViewMiniChart } from '@/lib/widget-utils';
+import { useMemo, useState } from 'react';
+import { Layers } from 'lucide-react';
+import { SmallWidget } from '@/components/widgets/base';
+import { SparklineChart } from '@/components/Sparkline';
+import { TooltipList, ToggleGroup, ToggleGroupItem } from '@/components/ui';
+import { MarketCapData } from '@/lib/types';
+import { calculateTotal2Series } from '@/lib/widget-utils';
+import { formatMarketCap } from '@/lib/utils';
+import { MARKET_CHART } from '@/lib/constants';
 
-export function Total2MiniChart() {
-  useEffect(() => {
-    loadTradingViewMiniChart();
-  }, []);
+type Total2Range = keyof typeof MARKET_CHART.TOTAL2_RANGES;
+
+const RANGES = Object.keys(MARKET_CHART.TOTAL2_RANGES) as Total2Range[];
+
+interface Total2MiniChartProps {
+  marketCapData: Map<string, MarketCapData>;
+}
+
+export function Total2MiniChart({ marketCapData }: Total2MiniChartProps) {
+  const [range, setRange] = useState<Total2Range>(MARKET_CHART.TOTAL2_DEFAULT_RANGE);
+
+  const series = useMemo(
+    () => calculateTotal2Series(marketCapData, MARKET_CHART.TOTAL2_RANGES[range]),
+    [marketCapData, range]
+  );
+
+  const isLoading = marketCapData.size === 0;
+
+  const formatTime = (time: number) => new Date(time).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
 
   return (
-    <div>
-      {/* @ts-ignore - TradingView Web Component */}
-      <tv-mini-chart symbol="CRYPTOCAP:TOTAL2"></tv-mini-chart>
-    </div>
+    <SmallWidget
+      title="TOTAL2"
+      icon={<Layers className="w-4 h-4" />}
+      subtitle="Crypto market cap excluding BTC"
+      headerActions={
+        <ToggleGroup
+          type="single"
+          value={range}
+          onValueChange={(v) => v && setRange(v as Total2Range)}
+          size="sm"
+          className="gap-0.5"
+        >
+          {RANGES.map((r) => (
+            <ToggleGroupItem
+              key={r}
+              value={r}
+              onClick={(e) => e.stopPropagation()}
+              className="px-2.5 py-1 text-xs data-[state=on]:bg-background data-[state=on]:shadow-sm"
+            >
+              {r.toUpperCase()}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      }
+      loading={isLoading}
+      tooltip={
+        <TooltipList items={[
+          "Top 500 CoinGecko coins excluding BTC",
+          "History from each coin's 7d hourly prices",
+          "Approximate: supply is held at today's",
+          "Hover the chart for values",
+        ]} />
+      }
+    >
+      {isLoading ? (
+        <div className="bg-muted rounded animate-pulse" style={{ height: MARKET_CHART.CHART_HEIGHT + 20 }} />
+      ) : (
+        <SparklineChart
+          points={series}
+          height={MARKET_CHART.CHART_HEIGHT}
+          formatValue={formatMarketCap}
+          formatTime={formatTime}
+        />
+      )}
+    </SmallWidget>
   );
 }
@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { ChevronDown, Pencil, Trash2, X, Star } from 'lucide-react';
+import { BoardView, Watchlist, WatchlistEntry } from '@/lib/types';
+import { WATCHLIST_COLORS, watchlistView, getViewWatchlistId } from '@/lib/watchlists';
+import { WATCHLISTS } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui';
+
+interface WatchlistMenuProps {
+  watchlists: Watchlist[];
+  view: BoardView;
+  starListId: string | null; // List the table's star column toggles
+  onViewChange: (view: BoardView) => void;
+  onCreate: (name: string) => string | null;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onToggleSymbol: (listId: string, symbol: string) => void;
+  onUpdateEntry: (listId: string, symbol: string, changes: Partial<Omit<WatchlistEntry, 'symbol'>>) => void;
+}
+
+const inputClass = 'flex-1 min-w-0 bg-muted rounded-md px-2 h-7 text-[12px] text-foreground outline-none placeholder:text-muted-foreground';
+const iconButtonClass = 'p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted disabled:opacity-30 disabled:pointer-events-none';
+
+/**
+ * WatchlistMenu - Dropdown for picking the board view and managing watchlists
+ * Lists are shared by all exchanges; entries carry an optional colour and note
+ */
+export function WatchlistMenu({
+  watchlists,
+  view,
+  starListId,
+  onViewChange,
+  onCreate,
+  onRename,
+  onDelete,
+  onToggleSymbol,
+  onUpdateEntry,
+}: WatchlistMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const viewedId = getViewWatchlistId(view);
+  const viewedList = watchlists.find(l => l.id === viewedId);
+  const starList = watchlists.find(l => l.id === starListId);
+  const isFull = watchlists.length >= WATCHLISTS.MAX_LISTS;
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+        setRenamingId(null);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const handleCreate = () => {
+    if (!newName.trim() || isFull) return;
+    const id = onCreate(newName);
+    if (id) onViewChange(watchlistView(id));
+    setNewName('');
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onRename(renamingId, renameValue);
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 gap-1 px-2 text-[13px]"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-haspopup="menu"
+      >
+        <Star className={cn('w-3.5 h-3.5', viewedList ? 'text-yellow-400' : 'text-muted-foreground')} />
+        <span className={cn('max-w-[120px] truncate', viewedList ? 'text-foreground' : 'text-muted-foreground')}>
+          {viewedList ? viewedList.name : 'All markets'}
+        </span>
+        <ChevronDown className="w-3.5 h-3.5 text-muted-foreground" />
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 top-10 z-[110] w-[320px] rounded-lg border bg-card shadow-xl p-2 space-y-2" role="menu">
+          {/* Views */}
+          <div className="max-h-[220px] overflow-y-auto space-y-0.5">
+            <button
+              type="button"
+              role="menuitemradio"
+              aria-checked={!viewedList}
+              onClick={() => onViewChange('market')}
+              className={cn(
+                'w-full text-left rounded-md px-1.5 py-1 text-[12px] text-foreground',
+                !viewedList ? 'bg-muted' : 'hover:bg-muted/60'
+              )}
+            >
+              All markets
+            </button>
+
+            {watchlists.map(list => (
+              <div
+                key={list.id}
+                className={cn(
+                  'group flex items-center gap-1 rounded-md px-1.5 py-1',
+                  list.id === viewedId ? 'bg-muted' : 'hover:bg-muted/60'
+                )}
+              >
+                {renamingId === list.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    maxLength={WATCHLISTS.MAX_NAME_LENGTH}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className={inputClass}
+                    aria-label="Watchlist name"
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    role="menuitemradio"
+                    aria-checked={list.id === viewedId}
+                    onClick={() => onViewChange(watchlistView(list.id))}
+                    className="flex-1 min-w-0 flex items-center gap-1.5 text-left text-[12px] text-foreground"
+                  >
+                    <span className="truncate">{list.name}</span>
+                    <span className="text-[11px] text-muted-foreground tabular-nums">{list.entries.length}</span>
+                  </button>
+                )}
+
+                <div className="flex items-center opacity-60 group-hover:opacity-100">
+                  <button
+                    type="button"
+                    className={iconButtonClass}
+                    onClick={() => {
+                      setRenamingId(list.id);
+                      setRenameValue(list.name);
+                    }}
+                    aria-label="Rename"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    className={iconButtonClass}
+                    onClick={() => onDelete(list.id)}
+                    disabled={watchlists.length <= 1}
+                    aria-label="Delete"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* New list */}
+          <div className="flex items-center gap-1.5 border-t pt-2">
+            <input
+              value={newName}
+              maxLength={WATCHLISTS.MAX_NAME_LENGTH}
+              placeholder={isFull ? `Limit of ${WATCHLISTS.MAX_LISTS} lists reached` : 'New watchlist...'}
+              disabled={isFull}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              className={inputClass}
+              aria-label="New watchlist name"
+            />
+            <Button size="sm" className="h-7 px-2 text-[12px]" disabled={!newName.trim() || isFull} onClick={handleCreate}>
+              Create
+            </Button>
+          </div>
+
+          {/* Entries of the list the stars toggle */}
+          {starList && (
+            <div className="border-t pt-2 space-y-1">
+              <div className="text-[11px] text-muted-foreground font-medium px-1">
+                ★ adds to {starList.name}
+              </div>
+              {starList.entries.length === 0 ? (
+                <div className="text-[12px] text-muted-foreground text-center py-2">Star tokens in the table to add them</div>
+              ) : (
+                <div className="max-h-[240px] overflow-y-auto space-y-1">
+                  {starList.entries.map(entry => (
+                    <div key={entry.symbol} className="flex items-center gap-1.5 px-1">
+                      <span className="w-14 shrink-0 text-[12px] font-medium text-foreground truncate">{entry.symbol}</span>
+                      <div className="flex items-center gap-0.5 shrink-0">
+                        {WATCHLIST_COLORS.map(c => (
+                          <button
+                            key={c.value}
+                            type="button"
+                            onClick={() => onUpdateEntry(starList.id, entry.symbol, { color: c.value })}
+                            className={cn(
+                              'w-3 h-3 rounded-full',
+                              c.bg,
+                              (entry.color ?? 'yellow') === c.value ? 'ring-2 ring-offset-1 ring-offset-card ring-foreground/60' : 'opacity-60 hover:opacity-100'
+                            )}
+                            aria-label={`Mark ${entry.symbol} ${c.value}`}
+                            aria-pressed={(entry.color ?? 'yellow') === c.value}
+                          />
+                        ))}
+                      </div>
+                      <input
+                        defaultValue={entry.note ?? ''}
+                        maxLength={WATCHLISTS.MAX_NOTE_LENGTH}
+                        placeholder="Note"
+                        onBlur={(e) => {
+                          if (e.target.value !== (entry.note ?? '')) {
+                            onUpdateEntry(starList.id, entry.symbol, { note: e.target.value });
+                          }
+                        }}
+                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                        className={inputClass}
+                        aria-label={`Note for ${entry.symbol}`}
+                      />
+                      <button
+                        type="button"
+                        className={iconButtonClass}
+                        onClick={() => onToggleSymbol(starList.id, entry.symbol)}
+                        aria-label={`Remove ${entry.symbol}`}
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
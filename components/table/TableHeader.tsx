@@ -2,7 +2,7 @@
 
 import { Info } from 'lucide-react';
 import { ColumnKey, SortConfig } from '@/lib/types';
-import { COLUMN_DEFINITIONS, COLUMN_TOOLTIPS } from '@/lib/utils';
+import { getColumnDefinition, COLUMN_TOOLTIPS } from '@/lib/utils';
 
 interface TableHeaderProps {
   visibleColumns: ColumnKey[];
@@ -62,7 +62,7 @@ export function TableHeader({
     <thead className="sticky top-0 z-20">
       <tr className="bg-secondary">
         {visibleColumns.map((key) => {
-          const def = COLUMN_DEFINITIONS[key];
+          const def = getColumnDefinition(key);
           const sortable = def.sortable !== false;
           const isActive = sort.column === key;
           const isFixed = isFixedColumn(key);
@@ -4,16 +4,20 @@ import {
   ProcessedTicker,
   RSIData,
   FundingRateData,
+  OpenInterestData,
   ListingData,
   MarketCapData,
   ColumnKey,
+  WatchlistEntry,
+  DailyReturns,
 } from '@/lib/types';
 import { Button } from '@/components/ui';
 import {
-  COLUMN_DEFINITIONS,
+  getColumnDefinition,
   formatPrice,
   formatMarketCap,
   formatVolume,
+  calculateOiVolRatio,
   getRsiPillStyle,
   formatFundingRate,
   getFundingRateClass,
@@ -23,6 +27,11 @@ import {
   formatSettlementInterval,
   getRsiSignal,
 } from '@/lib/utils';
+import { getWatchlistColorClass } from '@/lib/watchlists';
+import { parseRsiColumnKey, rsiPairKey } from '@/lib/rsi-pairs';
+import { getEmaTrendSignal, getMacdSignal, getBollingerPillStyle, getAtrPillStyle } from '@/lib/indicators';
+import { calculateRealizedVol, calculateBtcBeta } from '@/lib/volatility';
+import { VOLATILITY } from '@/lib/constants';
 import { ChangeWithSparkline } from '@/components/Sparkline';
 
 interface TableRowProps {
@@ -32,17 +41,21 @@ interface TableRowProps {
   pageSize: number;
   visibleColumns: ColumnKey[];
   rsi: RSIData | undefined;
+  btcReturns?: DailyReturns; // Beta / correlation reference
   fundingRate: FundingRateData | undefined;
+  openInterest?: OpenInterestData;
   listingData: ListingData | undefined;
   marketCap: MarketCapData | undefined;
   hasSpot: boolean;
-  exchange?: 'okx' | 'hyperliquid';
-  isFavorite: boolean;
+  exchange?: 'okx' | 'hyperliquid' | 'binance';
+  watchlistEntry: WatchlistEntry | undefined; // Entry in the list the star toggles
+  watchlistName?: string;
   isScrolled: boolean;
   fixedColumns: ColumnKey[];
   fixedWidths: Record<string, number>;
   columns: Record<ColumnKey, boolean>;
   onToggleFavorite: (instId: string) => void;
+  onSymbolClick?: (instId: string) => void;
 }
 
 export function TableRow({
@@ -52,23 +65,30 @@ export function TableRow({
   pageSize,
   visibleColumns,
   rsi,
+  btcReturns,
   fundingRate,
+  openInterest,
   listingData,
   marketCap,
   hasSpot,
   exchange = 'okx',
-  isFavorite,
+  watchlistEntry,
+  watchlistName = 'watchlist',
   isScrolled,
   fixedColumns,
   fixedWidths,
   columns,
   onToggleFavorite,
+  onSymbolClick,
 }: TableRowProps) {
   const displayRank = (currentPage - 1) * pageSize + index + 1;
+  // Binance symbols have no separator (e.g. "BTCUSDT"), so use the resolved base symbol
   const parts = ticker.instId.split('-');
-  const base = parts[0];
+  const base = ticker.baseSymbol;
   const quote = parts[1] || (exchange === 'hyperliquid' ? 'USDC' : 'USDT');
 
+  const isFavorite = watchlistEntry !== undefined;
+
   const isFixedColumn = (key: ColumnKey) => fixedColumns.includes(key);
 
   const isLastFixedColumn = (key: ColumnKey) => {
@@ -122,7 +142,7 @@ export function TableRow({
   const listingAgeInfo = getListingAgeLabel();
 
   const renderCell = (key: ColumnKey) => {
-    const def = COLUMN_DEFINITIONS[key];
+    const def = getColumnDefinition(key);
     const isFixed = isFixedColumn(key);
     let alignClass = 'text-left';
     if (def.align === 'right') alignClass = 'text-right';
@@ -143,11 +163,12 @@ export function TableRow({
               size="icon"
               className={`h-6 w-6 text-sm ${
                 isFavorite
-                  ? 'text-yellow-400'
+                  ? getWatchlistColorClass(watchlistEntry.color)
                   : 'text-muted hover:text-yellow-400'
               }`}
               onClick={() => onToggleFavorite(ticker.instId)}
-              aria-label={isFavorite ? `Remove ${base} from favorites` : `Add ${base} to favorites`}
+              title={watchlistEntry?.note}
+              aria-label={isFavorite ? `Remove ${base} from ${watchlistName}` : `Add ${base} to ${watchlistName}`}
               aria-pressed={isFavorite}
             >
               {isFavorite ? '★' : '☆'}
@@ -171,12 +192,17 @@ export function TableRow({
           <td key={key} className={`${baseClass} font-semibold`} style={getCellStyle(key)}>
             <div className="flex flex-col leading-tight">
               <div className="truncate">
-                <span className="text-foreground">{base}</span>
+                <span
+                  className={`text-foreground ${onSymbolClick ? 'cursor-pointer hover:underline' : ''}`}
+                  onClick={() => onSymbolClick?.(ticker.instId)}
+                >
+                  {base}
+                </span>
                 <span className="text-muted-foreground font-normal">/{quote}</span>
               </div>
               {!hasSpot && exchange !== 'hyperliquid' && (
                 <span className="text-[11px] text-muted-foreground font-normal">
-                  No Spot on {exchange === 'okx' ? 'OKX' : exchange}
+                  No Spot on {exchange === 'okx' ? 'OKX' : exchange === 'binance' ? 'Binance' : exchange}
                 </span>
               )}
               {listingAgeInfo && (
@@ -297,6 +323,29 @@ export function TableRow({
           </td>
         );
 
+      case 'openInterest':
+        return (
+          <td key={key} className={`${baseClass} text-muted-foreground tabular-nums`}>
+            {openInterest?.oiUsd ? formatMarketCap(openInterest.oiUsd) : '--'}
+          </td>
+        );
+
+      case 'oiChange24h':
+        return (
+          <td key={key} className={baseClass}>
+            <ChangeWithSparkline change={openInterest?.oiChange24h} showSparkline={false} />
+          </td>
+        );
+
+      case 'oiVolRatio': {
+        const oiVolRatio = calculateOiVolRatio(openInterest?.oiUsd, ticker.volCcy24h, ticker.priceNum);
+        return (
+          <td key={key} className={`${baseClass} text-muted-foreground tabular-nums`}>
+            {oiVolRatio !== null ? oiVolRatio.toFixed(2) : '--'}
+          </td>
+        );
+      }
+
       case 'dRsiSignal': {
         const dSignal = getRsiSignal(rsi?.rsi7 ?? null, rsi?.rsi14 ?? null);
         const hasRsiData = (rsi?.rsi7 != null || rsi?.rsi14 != null) && dSignal.label !== '--';
@@ -367,6 +416,90 @@ export function TableRow({
           </td>
         );
 
+      case 'emaTrend': {
+        const indicators = rsi?.indicators;
+        const trend = getEmaTrendSignal(indicators);
+        const formatDist = (d: number | null | undefined) => d != null ? `${d >= 0 ? '+' : ''}${d.toFixed(1)}%` : '--';
+        return (
+          <td key={key} className={`${baseClass} align-middle group/ematrend`}>
+            <div className="inline-flex flex-col items-center justify-center">
+              <span className={`inline-block px-2 py-0.5 rounded-md text-[13px] font-semibold whitespace-nowrap ${trend.pillStyle}`}>
+                {trend.label}
+              </span>
+              <span className={`text-[10px] text-muted-foreground tabular-nums leading-none mt-0.5 whitespace-nowrap h-0 overflow-hidden group-hover/ematrend:h-auto ${trend.signal ? '' : 'invisible'}`}>
+                {formatDist(indicators?.ema20Dist)}/{formatDist(indicators?.ema50Dist)}/{formatDist(indicators?.ema200Dist)}
+              </span>
+            </div>
+          </td>
+        );
+      }
+
+      case 'ema20':
+      case 'ema50':
+      case 'ema200': {
+        const dist = rsi?.indicators?.[`${key}Dist` as const];
+        return (
+          <td key={key} className={baseClass}>
+            <ChangeWithSparkline change={dist} showSparkline={false} />
+          </td>
+        );
+      }
+
+      case 'macd': {
+        const macd = getMacdSignal(rsi?.indicators);
+        const crossAge = rsi?.indicators?.macdCrossAge;
+        return (
+          <td key={key} className={baseClass}>
+            <span className={`inline-block px-2 py-0.5 rounded-md text-[11px] font-semibold whitespace-nowrap ${macd.pillStyle}`}>
+              {macd.label}{macd.signal && crossAge != null ? ` · ${crossAge}d` : ''}
+            </span>
+          </td>
+        );
+      }
+
+      case 'bbPercentB': {
+        const percentB = rsi?.indicators?.bbPercentB;
+        return (
+          <td key={key} className={baseClass}>
+            <span className={`inline-block px-2 py-0.5 rounded-md text-[11px] font-semibold tabular-nums min-w-[42px] text-center ${getBollingerPillStyle(percentB)}`}>
+              {percentB != null ? percentB.toFixed(2) : '--'}
+            </span>
+          </td>
+        );
+      }
+
+      case 'atrPct': {
+        const atrPct = rsi?.indicators?.atrPct;
+        return (
+          <td key={key} className={baseClass}>
+            <span className={`inline-block px-2 py-0.5 rounded-md text-[11px] font-semibold tabular-nums min-w-[42px] text-center ${getAtrPillStyle(atrPct)}`}>
+              {atrPct != null ? `${atrPct.toFixed(1)}%` : '--'}
+            </span>
+          </td>
+        );
+      }
+
+      case 'vol7d':
+      case 'vol30d': {
+        const vol = calculateRealizedVol(rsi?.dailyReturns, key === 'vol7d' ? VOLATILITY.SHORT_DAYS : VOLATILITY.RETURN_DAYS);
+        return (
+          <td key={key} className={`${baseClass} text-muted-foreground tabular-nums`}>
+            {vol !== null ? `${vol.toFixed(0)}%` : '--'}
+          </td>
+        );
+      }
+
+      case 'btcBeta':
+      case 'btcCorr': {
+        const btcBeta = calculateBtcBeta(rsi?.dailyReturns, btcReturns);
+        const value = key === 'btcBeta' ? btcBeta?.beta : btcBeta?.correlation;
+        return (
+          <td key={key} className={`${baseClass} text-muted-foreground tabular-nums`}>
+            {value != null ? value.toFixed(2) : '--'}
+          </td>
+        );
+      }
+
       case 'listDate':
         return (
           <td key={key} className={`${baseClass} text-[12px] text-muted-foreground`}>
@@ -389,12 +522,25 @@ export function TableRow({
           </td>
         );
 
-      default:
+      default: {
+        // Configured RSI pair ("rsi:4H:14")
+        const pair = parseRsiColumnKey(key);
+        if (pair) {
+          const value = rsi?.custom?.[rsiPairKey(pair)];
+          return (
+            <td key={key} className={baseClass}>
+              <span className={`inline-block px-2 py-0.5 rounded-md text-[11px] font-semibold tabular-nums min-w-[42px] text-center ${getRsiPillStyle(value)}`}>
+                {value != null ? value.toFixed(1) : '--'}
+              </span>
+            </td>
+          );
+        }
         return (
           <td key={key} className={baseClass}>
             --
           </td>
         );
+      }
     }
   };
 
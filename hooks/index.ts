@@ -4,10 +4,13 @@
  */
 
 export { useColumns } from './useColumns';
-export { useFavorites } from './useFavorites';
+export { useWatchlists } from './useWatchlists';
+export { useRsiPairs } from './useRsiPairs';
 export { useFilters } from './useFilters';
 export { usePagination } from './usePagination';
-export { useMarketStore } from './useMarketStore';
-export { useHyperliquidStore } from './useHyperliquidStore';
+export { useExchangeStore, type ExchangeStore } from './useExchangeStore';
+export { useFundingArb } from './useFundingArb';
+export { useFundingHistory } from './useFundingHistory';
+export { useCandles } from './useCandles';
 export { useUrlState } from './useUrlState';
 export { useWidgetOrder } from './useWidgetOrder';
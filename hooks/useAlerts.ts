@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  AlertRule,
+  AlertEvent,
+  ProcessedTicker,
+  RSIData,
+  FundingRateData,
+  MarketCapData,
+} from '@/lib/types';
+import { evaluateAlertRules, mergeAlertRules } from '@/lib/alerts';
+import {
+  getAlertRulesCache,
+  setAlertRulesCache,
+  getAlertCooldownsCache,
+  setAlertCooldownsCache,
+} from '@/lib/cache';
+import { ALERTS } from '@/lib/constants';
+
+type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+function getNotificationPermission(): NotificationPermissionState {
+  if (typeof window === 'undefined' || !('Notification' in window)) return 'unsupported';
+  return Notification.permission;
+}
+
+/**
+ * useAlerts - Alert rules, evaluation and delivery
+ *
+ * Rules are shared across exchanges and persisted through lib/cache.
+ * Every store update re-evaluates enabled rules; matches fire an in-app toast
+ * and, when permitted, a browser notification, then respect the rule's cooldown.
+ *
+ * Call before useUrlState so cached rules load before URL rules are merged in.
+ */
+export function useAlerts(data: {
+  tickers: Map<string, ProcessedTicker>;
+  rsiData: Map<string, RSIData>;
+  fundingRateData: Map<string, FundingRateData>;
+  marketCapData: Map<string, MarketCapData>;
+  defaultFundingInterval: number;
+}) {
+  const { tickers, rsiData, fundingRateData, marketCapData, defaultFundingInterval } = data;
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [toasts, setToasts] = useState<AlertEvent[]>([]);
+  const [permission, setPermission] = useState<NotificationPermissionState>('default');
+  const cooldownsRef = useRef<Record<string, number>>({});
+  const persistRef = useRef(false);
+  const toastTimersRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+
+  // Load rules + cooldowns from cache on mount
+  useEffect(() => {
+    const cached = getAlertRulesCache();
+    setRules(prev => mergeAlertRules(cached, prev));
+    cooldownsRef.current = getAlertCooldownsCache();
+    setPermission(getNotificationPermission());
+  }, []);
+
+  // Clear pending toast timers on unmount
+  useEffect(() => {
+    const timers = toastTimersRef.current;
+    return () => timers.forEach(clearTimeout);
+  }, []);
+
+  // Apply a change to the rule list; the effect below persists it
+  const updateRules = useCallback((update: (prev: AlertRule[]) => AlertRule[]) => {
+    persistRef.current = true;
+    setRules(update);
+  }, []);
+
+  // Persist user changes (the initial cache load is not written back)
+  useEffect(() => {
+    if (!persistRef.current) return;
+    persistRef.current = false;
+    setAlertRulesCache(rules);
+  }, [rules]);
+
+  const addRule = useCallback((rule: AlertRule) => {
+    updateRules(prev => (prev.length >= ALERTS.MAX_RULES ? prev : [...prev, rule]));
+  }, [updateRules]);
+
+  const removeRule = useCallback((id: string) => {
+    updateRules(prev => prev.filter(r => r.id !== id));
+  }, [updateRules]);
+
+  const toggleRule = useCallback((id: string) => {
+    updateRules(prev => prev.map(r => (r.id === id ? { ...r, enabled: !r.enabled } : r)));
+  }, [updateRules]);
+
+  // Merge rules from a shared URL (keeps the user's own rules)
+  const importRules = useCallback((incoming: AlertRule[]) => {
+    updateRules(prev => mergeAlertRules(prev, incoming));
+  }, [updateRules]);
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  const requestPermission = useCallback(async () => {
+    if (getNotificationPermission() === 'unsupported') return;
+    const result = await Notification.requestPermission();
+    setPermission(result);
+  }, []);
+
+  // Evaluate on every store update
+  useEffect(() => {
+    if (rules.length === 0 || tickers.size === 0) return;
+
+    const events = evaluateAlertRules(
+      rules,
+      tickers,
+      rsiData,
+      fundingRateData,
+      marketCapData,
+      defaultFundingInterval,
+      cooldownsRef.current
+    );
+    if (events.length === 0) return;
+
+    const cooldowns = { ...cooldownsRef.current };
+    events.forEach(event => {
+      cooldowns[event.ruleId] = event.firedAt;
+
+      if (getNotificationPermission() === 'granted') {
+        try {
+          new Notification(event.title, { body: event.message, tag: event.ruleId });
+        } catch (e) {
+          // Some mobile browsers only allow notifications from a service worker
+          console.warn('[Alerts] Notification failed:', e);
+        }
+      }
+
+      const timer = setTimeout(() => {
+        toastTimersRef.current.delete(timer);
+        dismissToast(event.id);
+      }, ALERTS.TOAST_DURATION);
+      toastTimersRef.current.add(timer);
+    });
+
+    // Drop cooldowns of deleted rules while saving
+    const ruleIds = new Set(rules.map(r => r.id));
+    Object.keys(cooldowns).forEach(id => {
+      if (!ruleIds.has(id)) delete cooldowns[id];
+    });
+    cooldownsRef.current = cooldowns;
+    setAlertCooldownsCache(cooldowns);
+
+    setToasts(prev => [...events, ...prev].slice(0, ALERTS.MAX_TOASTS));
+  }, [rules, tickers, rsiData, fundingRateData, marketCapData, defaultFundingInterval, dismissToast]);
+
+  return {
+    rules,
+    toasts,
+    permission,
+    addRule,
+    removeRule,
+    toggleRule,
+    importRules,
+    dismissToast,
+    requestPermission,
+  };
+}
+
+export type AlertsState = ReturnType<typeof useAlerts>;
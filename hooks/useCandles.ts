@@ -0,0 +1,70 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ExchangeId, CandleBar } from '@/lib/types';
+import { TOKEN_CHART } from '@/lib/constants';
+
+export type CandleFetcher = (instId: string, bar: CandleBar, limit: number) => Promise<number[][] | null>;
+
+// Candles per instrument + bar + limit, shared across drawer opens and bar switches
+const candleCache = new Map<string, { candles: number[][]; fetchedAt: number }>();
+
+/**
+ * useCandles - OHLCV candles for one instrument at one bar size
+ *
+ * @param exchange - Venue the instrument belongs to (cache namespace)
+ * @param instId - Venue-native instrument ID, or null when nothing is selected
+ * @param bar - Candle size
+ * @param fetcher - Store's fetchCandles (goes through the ExchangeAdapter)
+ * @param limit - Candles to request (default: TOKEN_CHART.CANDLE_LIMIT)
+ * @returns Candles as [timestamp, open, high, low, close, volume] (oldest first) plus loading state
+ */
+export function useCandles(
+  exchange: ExchangeId,
+  instId: string | null,
+  bar: CandleBar,
+  fetcher: CandleFetcher,
+  limit: number = TOKEN_CHART.CANDLE_LIMIT
+) {
+  const [candles, setCandles] = useState<number[][]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!instId) {
+      setCandles([]);
+      return;
+    }
+
+    const cacheKey = `${exchange}:${instId}:${bar}:${limit}`;
+    const cached = candleCache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < TOKEN_CHART.CACHE_TTL) {
+      setCandles(cached.candles);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setCandles(cached?.candles ?? []);
+    setLoading(true);
+
+    fetcher(instId, bar, limit).then((result) => {
+      if (cancelled) return;
+      if (result && result.length > 0) {
+        candleCache.set(cacheKey, { candles: result, fetchedAt: Date.now() });
+      }
+      setCandles(result ?? []);
+      setLoading(false);
+    }).catch((error) => {
+      if (cancelled) return;
+      console.error('Failed to load candles:', error);
+      setCandles([]);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [exchange, instId, bar, fetcher, limit]);
+
+  return { candles, loading };
+}
@@ -1,37 +1,41 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
-import { ColumnVisibility, ColumnKey } from '@/lib/types';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { ColumnVisibility, ColumnKey, ExchangeId, RsiPair } from '@/lib/types';
 import { isMobile } from '@/lib/utils';
 import { DEFAULT_COLUMN_ORDER, getDefaultColumns } from '@/lib/defaults';
-import { FIXED_COLUMNS } from '@/lib/constants';
+import { FIXED_COLUMNS, EXCHANGE_CACHE_KEYS } from '@/lib/constants';
 import {
   getColumnOrderCache,
   setColumnOrderCache,
   getColumnsCache,
   setColumnsCache,
 } from '@/lib/cache';
+import { isRsiColumnKey, rsiColumnKey, withRsiPairColumns, withRsiPairVisibility } from '@/lib/rsi-pairs';
 
 // Get default columns based on device
 const DEFAULT_COLUMNS: ColumnVisibility = getDefaultColumns(isMobile());
 
 /**
  * Hook for managing column visibility and order
+ * Settings are persisted per exchange; columns of the configured RSI pairs
+ * are merged in on top of the saved settings
  */
-export function useColumns() {
+export function useColumns(exchange: ExchangeId = 'okx', rsiPairs: RsiPair[] = []) {
+  const { COLUMNS: columnsKey, COLUMN_ORDER: columnOrderKey } = EXCHANGE_CACHE_KEYS[exchange];
   const [columns, setColumns] = useState<ColumnVisibility>(DEFAULT_COLUMNS);
   const [columnOrder, setColumnOrder] = useState<ColumnKey[]>(DEFAULT_COLUMN_ORDER);
 
   // Load saved column settings from cache on mount
   useEffect(() => {
     // Load saved column order
-    const savedColumnOrder = getColumnOrderCache();
+    const savedColumnOrder = getColumnOrderCache(columnOrderKey);
     if (savedColumnOrder && Array.isArray(savedColumnOrder)) {
       const savedSet = new Set(savedColumnOrder);
       const defaultSet = new Set(DEFAULT_COLUMN_ORDER);
 
-      // Start with saved order, but only include columns that still exist
-      const mergedOrder = savedColumnOrder.filter((col) => defaultSet.has(col as ColumnKey));
+      // Start with saved order, but only include columns that still exist (RSI pair columns are kept)
+      const mergedOrder = savedColumnOrder.filter((col) => defaultSet.has(col as ColumnKey) || isRsiColumnKey(col));
 
       // Add any new columns that weren't in saved order
       const fixedCols = FIXED_COLUMNS as readonly ColumnKey[];
@@ -43,24 +47,24 @@ export function useColumns() {
       const finalOrder: ColumnKey[] = [...fixedCols, ...nonFixedPart as ColumnKey[], ...newColumns];
 
       setColumnOrder(finalOrder);
-      setColumnOrderCache(finalOrder);
+      setColumnOrderCache(finalOrder, columnOrderKey);
     }
 
     // Load saved columns visibility
-    const savedColumns = getColumnsCache<ColumnVisibility>();
+    const savedColumns = getColumnsCache<ColumnVisibility>(columnsKey);
     if (savedColumns) {
       setColumns(savedColumns);
     } else {
       const defaultCols = getDefaultColumns(isMobile());
       setColumns(defaultCols);
     }
-  }, []);
+  }, [columnsKey, columnOrderKey]);
 
   // Update single column visibility
   const updateColumn = useCallback((col: keyof ColumnVisibility, visible: boolean) => {
     setColumns(prev => {
       const updated = { ...prev, [col]: visible };
-      setColumnsCache(updated);
+      setColumnsCache(updated, columnsKey);
       return updated;
     });
 
@@ -71,13 +75,13 @@ export function useColumns() {
           const rankIndex = prev.indexOf('rank');
           const newOrder = [...prev];
           newOrder.splice(rankIndex + 1, 0, 'logo');
-          setColumnOrderCache(newOrder);
+          setColumnOrderCache(newOrder, columnOrderKey);
           return newOrder;
         }
         return prev;
       });
     }
-  }, []);
+  }, [columnsKey, columnOrderKey]);
 
   // Update column order (for drag and drop)
   const updateColumnOrder = useCallback((newOrder: ColumnKey[]) => {
@@ -86,8 +90,8 @@ export function useColumns() {
     const finalOrder: ColumnKey[] = [...fixedCols, ...nonFixedOrder];
 
     setColumnOrder(finalOrder);
-    setColumnOrderCache(finalOrder);
-  }, []);
+    setColumnOrderCache(finalOrder, columnOrderKey);
+  }, [columnOrderKey]);
 
   // Move a column to a new position
   const moveColumn = useCallback((dragKey: ColumnKey, hoverKey: ColumnKey) => {
@@ -97,19 +101,20 @@ export function useColumns() {
     }
 
     setColumnOrder(prev => {
-      const dragIndex = prev.indexOf(dragKey);
-      const hoverIndex = prev.indexOf(hoverKey);
+      const current = withRsiPairColumns(prev, rsiPairs);
+      const dragIndex = current.indexOf(dragKey);
+      const hoverIndex = current.indexOf(hoverKey);
 
       if (dragIndex === -1 || hoverIndex === -1) return prev;
 
-      const newOrder = [...prev];
+      const newOrder = [...current];
       newOrder.splice(dragIndex, 1);
       newOrder.splice(hoverIndex, 0, dragKey);
 
-      setColumnOrderCache(newOrder);
+      setColumnOrderCache(newOrder, columnOrderKey);
       return newOrder;
     });
-  }, []);
+  }, [columnOrderKey, rsiPairs]);
 
   // Set columns to preset configuration
   const setColumnsPreset = useCallback((preset: 'all' | 'none' | 'default') => {
@@ -121,8 +126,12 @@ export function useColumns() {
         fundingRate: true, fundingApr: true, fundingInterval: true,
         change4h: true, change: true, change7d: true,
         volume24h: true, marketCap: true,
+        openInterest: true, oiChange24h: true, oiVolRatio: true,
         dRsiSignal: true, wRsiSignal: true,
         rsi7: true, rsi14: true, rsiW7: true, rsiW14: true,
+        emaTrend: true, ema20: true, ema50: true, ema200: true,
+        macd: true, bbPercentB: true, atrPct: true,
+        vol7d: true, vol30d: true, btcBeta: true, btcCorr: true,
         listDate: true, hasSpot: false
       };
     } else if (preset === 'none') {
@@ -131,32 +140,43 @@ export function useColumns() {
         fundingRate: false, fundingApr: false, fundingInterval: false,
         change4h: false, change: false, change7d: false,
         volume24h: false, marketCap: false,
+        openInterest: false, oiChange24h: false, oiVolRatio: false,
         dRsiSignal: false, wRsiSignal: false,
         rsi7: false, rsi14: false, rsiW7: false, rsiW14: false,
+        emaTrend: false, ema20: false, ema50: false, ema200: false,
+        macd: false, bbPercentB: false, atrPct: false,
+        vol7d: false, vol30d: false, btcBeta: false, btcCorr: false,
         listDate: false, hasSpot: false
       };
+      rsiPairs.forEach(pair => {
+        newColumns[rsiColumnKey(pair)] = false;
+      });
     } else {
       newColumns = DEFAULT_COLUMNS;
     }
 
     setColumns(newColumns);
-    setColumnsCache(newColumns);
-  }, []);
+    setColumnsCache(newColumns, columnsKey);
+  }, [columnsKey, rsiPairs]);
 
   // Direct setter for URL state sync
   const setColumnsDirectly = useCallback((newColumns: ColumnVisibility) => {
     setColumns(newColumns);
-    setColumnsCache(newColumns);
-  }, []);
+    setColumnsCache(newColumns, columnsKey);
+  }, [columnsKey]);
 
   const setColumnOrderDirectly = useCallback((newOrder: ColumnKey[]) => {
     setColumnOrder(newOrder);
-    setColumnOrderCache(newOrder);
-  }, []);
+    setColumnOrderCache(newOrder, columnOrderKey);
+  }, [columnOrderKey]);
+
+  // Saved settings with the configured RSI pair columns merged in
+  const mergedColumns = useMemo(() => withRsiPairVisibility(columns, rsiPairs), [columns, rsiPairs]);
+  const mergedColumnOrder = useMemo(() => withRsiPairColumns(columnOrder, rsiPairs), [columnOrder, rsiPairs]);
 
   return {
-    columns,
-    columnOrder,
+    columns: mergedColumns,
+    columnOrder: mergedColumnOrder,
     updateColumn,
     updateColumnOrder,
     moveColumn,
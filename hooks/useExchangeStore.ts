@@ -0,0 +1,900 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import {
+  ExchangeId,
+  CandleBar,
+  ProcessedTicker,
+  SavedScreen,
+  TableExportFormat,
+  WatchlistEntry,
+  RSIData,
+  FundingRateData,
+  FundingHistoryPoint,
+  OpenInterestData,
+  ListingData,
+  MarketCapData,
+  RsiPair,
+  ExchangeSnapshot,
+  StreamDiff,
+  StreamTransport,
+  LiveCandleUpdate,
+} from '@/lib/types';
+import { StreamDataManager, fetchMarketCapData, fetchExchangeSnapshot } from '@/lib/api';
+import { createScreenId, decodeScreenParam } from '@/lib/screens';
+import { buildTableExport, downloadTableExport } from '@/lib/table-export';
+import { toWatchlistSymbol, watchlistView, getViewWatchlistId } from '@/lib/watchlists';
+import { rsiPairKey, getHourlyCandleLimit } from '@/lib/rsi-pairs';
+import { findBtcReturns } from '@/lib/volatility';
+import { BoardCompute, EMPTY_COMPUTED_BOARD, applyLiveCandles, seedLiveRsi } from '@/lib/compute-client';
+import { liveRsiKey } from '@/lib/live-rsi';
+import { loadCandles } from '@/lib/candle-store';
+import type { ComputedBoard, TopMoversTimeframe } from '@/lib/compute-protocol';
+import { TIMING, FUNDING, EXCHANGE_CACHE_KEYS, SCREENS, SNAPSHOT, STREAM, RSI, LIVE_CANDLES } from '@/lib/constants';
+import {
+  getRsiCache,
+  setRsiCache,
+  getMarketCapCache,
+  setMarketCapCache,
+  getStreamTransportCache,
+  setStreamTransportCache,
+  checkVersionAndClearCache,
+} from '@/lib/cache';
+
+// Import composed hooks
+import { useColumns } from './useColumns';
+import { useFilters } from './useFilters';
+import { usePagination } from './usePagination';
+import { useScreens } from './useScreens';
+import { useWatchlists } from './useWatchlists';
+import { useRsiPairs } from './useRsiPairs';
+
+/**
+ * Generic market store for any exchange
+ * All venue-specific work goes through the ExchangeAdapter registered for `exchange`,
+ * wrapped by StreamDataManager which picks the live transport (direct WebSocket or SSE)
+ * Filtering, sorting and indicator math run in the compute worker (lib/compute-client)
+ * On venues with candle channels the top 50's RSI ticks live (lib/live-rsi); REST only
+ * recomputes it every LIVE_CANDLES.REST_REFRESH while candles are flowing
+ */
+export function useExchangeStore(exchange: ExchangeId) {
+  const rsiCacheKey = EXCHANGE_CACHE_KEYS[exchange].RSI_CACHE;
+
+  // Core data
+  const [tickers, setTickers] = useState<Map<string, ProcessedTicker>>(new Map());
+  const [rsiData, setRsiData] = useState<Map<string, RSIData>>(new Map());
+  const [fundingRateData, setFundingRateData] = useState<Map<string, FundingRateData>>(new Map());
+  const [openInterestData, setOpenInterestData] = useState<Map<string, OpenInterestData>>(new Map());
+  const [listingData, setListingData] = useState<Map<string, ListingData>>(new Map());
+  const [marketCapData, setMarketCapData] = useState<Map<string, MarketCapData>>(new Map());
+  const [spotSymbols, setSpotSymbols] = useState<Set<string>>(new Set());
+
+  // Composed hooks (persisted per exchange; watchlists and RSI pairs are shared)
+  const rsiPairsHook = useRsiPairs();
+  const columnsHook = useColumns(exchange, rsiPairsHook.rsiPairs);
+  const watchlistsHook = useWatchlists();
+  const paginationHook = usePagination();
+
+  // Pass pagination reset callback to filters hook
+  const filtersHook = useFilters(paginationHook.resetPage, exchange);
+  const screensHook = useScreens(exchange);
+
+  // Status - Always show 'live' as requested
+  const [status, setStatus] = useState<'connecting' | 'live' | 'error'>('live');
+  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [rsiProgress, setRsiProgress] = useState('');
+
+  // Live transport: preferred (persisted) and the one actually running after fallbacks
+  const [streamTransport, setStreamTransportState] = useState<StreamTransport>(STREAM.DEFAULT_TRANSPORT);
+  const [activeTransport, setActiveTransport] = useState<StreamTransport | null>(null);
+  const [urlInitialized, setUrlInitialized] = useState(false);
+
+  // Funding interval assumed when a rate doesn't carry one (1h on Hyperliquid, 8h elsewhere)
+  const [defaultFundingInterval, setDefaultFundingInterval] = useState<number>(FUNDING.DEFAULT_INTERVAL_HOURS);
+
+  // Refs for adapter and intervals
+  const adapterRef = useRef<StreamDataManager | null>(null);
+  const isFetchingRsiRef = useRef(false);
+  const isFetchingOiChangeRef = useRef(false);
+  const intervalsRef = useRef<NodeJS.Timeout[]>([]);
+  const timeoutsRef = useRef<NodeJS.Timeout[]>([]);
+
+  // Shared server snapshot (/api/snapshot): live while the API answers
+  const snapshotRef = useRef<{ etag: string | null; live: boolean }>({ etag: null, live: false });
+
+  // Latest RSI map for the interval callbacks (their closures outlive renders)
+  const rsiDataRef = useRef(rsiData);
+  useEffect(() => {
+    rsiDataRef.current = rsiData;
+  }, [rsiData]);
+
+  // Save RSI data to cache (debounced)
+  const saveRsiCacheTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const saveRsiCacheDebounced = useCallback((rsiMap: Map<string, RSIData>) => {
+    if (saveRsiCacheTimeoutRef.current) {
+      clearTimeout(saveRsiCacheTimeoutRef.current);
+    }
+    saveRsiCacheTimeoutRef.current = setTimeout(() => {
+      setRsiCache(rsiMap, rsiCacheKey);
+    }, TIMING.RSI_CACHE_SAVE_DEBOUNCE);
+  }, [rsiCacheKey]);
+
+  // Load RSI cache on mount
+  useEffect(() => {
+    const cachedRsi = getRsiCache(rsiCacheKey);
+    if (cachedRsi && cachedRsi.size > 0) {
+      setRsiData(cachedRsi);
+    }
+  }, [rsiCacheKey]);
+
+  // Update RSI data for single instrument
+  const updateRsiData = useCallback((instId: string, data: RSIData) => {
+    setRsiData(prev => {
+      const newMap = new Map(prev);
+      newMap.set(instId, data);
+      saveRsiCacheDebounced(newMap);
+      return newMap;
+    });
+  }, [saveRsiCacheDebounced]);
+
+  // Built-in RSI comes from the snapshot; configured RSI pairs are per user and fetched here
+  const usesSnapshotRsi = useCallback(() => {
+    return snapshotRef.current.live && rsiPairsHook.rsiPairsRef.current.length === 0;
+  }, [rsiPairsHook.rsiPairsRef]);
+
+  // Merge RSI computed on the server (snapshot / stream); the newer entry wins, so RSI
+  // fetched here before the server caught up is kept
+  // Skipped with RSI pairs configured: server entries carry no pair values
+  const mergeServerRsi = useCallback((entries: Record<string, RSIData>) => {
+    if (rsiPairsHook.rsiPairsRef.current.length > 0) return;
+    setRsiData(prev => {
+      const newMap = new Map(prev);
+      let changed = false;
+      Object.entries(entries).forEach(([instId, data]) => {
+        if ((prev.get(instId)?.lastUpdated ?? 0) >= data.lastUpdated) return;
+        newMap.set(instId, data);
+        changed = true;
+      });
+      if (!changed) return prev;
+      saveRsiCacheDebounced(newMap);
+      return newMap;
+    });
+  }, [saveRsiCacheDebounced, rsiPairsHook.rsiPairsRef]);
+
+  // Load the shared snapshot; returns it when it changed, null when unchanged or unavailable
+  const loadSnapshot = useCallback(async (): Promise<ExchangeSnapshot | null> => {
+    const result = await fetchExchangeSnapshot(exchange, snapshotRef.current.etag);
+    if (!result) {
+      snapshotRef.current = { etag: null, live: false };
+      return null;
+    }
+    snapshotRef.current.live = true;
+    if (result.status === 'not-modified') return null;
+
+    const { snapshot, etag } = result;
+    snapshotRef.current.etag = etag;
+
+    mergeServerRsi(snapshot.rsi);
+    if (usesSnapshotRsi()) {
+      setRsiProgress(snapshot.warm ? '' : 'Loading RSI on server...');
+    }
+
+    if (Object.keys(snapshot.fundingRates).length > 0) {
+      setFundingRateData(new Map(Object.entries(snapshot.fundingRates)));
+    }
+    if (Object.keys(snapshot.listings).length > 0) {
+      setListingData(new Map(Object.entries(snapshot.listings)));
+    }
+    return snapshot;
+  }, [exchange, usesSnapshotRsi, mergeServerRsi]);
+
+  // Get sorted instrument IDs by market cap rank
+  const getSortedInstIds = useCallback((tickerMap: Map<string, ProcessedTicker>) => {
+    return Array.from(tickerMap.values())
+      .sort((a, b) => {
+        const rankA = marketCapData.get(a.baseSymbol)?.rank ?? 9999;
+        const rankB = marketCapData.get(b.baseSymbol)?.rank ?? 9999;
+        return rankA - rankB;
+      })
+      .map(t => t.instId);
+  }, [marketCapData]);
+
+  // Fetch RSI for all items (initial load)
+  const fetchRsiForVisible = useCallback(async (tickerMap: Map<string, ProcessedTicker>) => {
+    const adapter = adapterRef.current;
+    if (!adapter || isFetchingRsiRef.current || usesSnapshotRsi()) return;
+    isFetchingRsiRef.current = true;
+
+    try {
+      const instIds = getSortedInstIds(tickerMap);
+      await adapter.fetchRSIBatch(
+        instIds,
+        rsiDataRef.current,
+        setRsiProgress,
+        updateRsiData,
+        rsiPairsHook.rsiPairsRef.current
+      );
+    } finally {
+      isFetchingRsiRef.current = false;
+    }
+  }, [getSortedInstIds, updateRsiData, usesSnapshotRsi, rsiPairsHook.rsiPairsRef]);
+
+  // Fetch RSI for specific tier only
+  const fetchRsiForTier = useCallback(async (
+    tickerMap: Map<string, ProcessedTicker>,
+    tier: 'top50' | 'tier2' | 'tier3'
+  ) => {
+    const adapter = adapterRef.current;
+    if (!adapter || isFetchingRsiRef.current || usesSnapshotRsi()) return;
+    isFetchingRsiRef.current = true;
+
+    try {
+      const instIds = getSortedInstIds(tickerMap);
+      await adapter.fetchRSIBatch(
+        instIds,
+        rsiDataRef.current,
+        setRsiProgress,
+        updateRsiData,
+        rsiPairsHook.rsiPairsRef.current,
+        tier
+      );
+    } finally {
+      isFetchingRsiRef.current = false;
+    }
+  }, [getSortedInstIds, updateRsiData, usesSnapshotRsi, rsiPairsHook.rsiPairsRef]);
+
+  // ===========================================
+  // Live RSI (WebSocket candles for the top 50)
+  // ===========================================
+
+  // Latest candle per instrument + bar since the last flush
+  const liveCandlesRef = useRef<Map<string, LiveCandleUpdate>>(new Map());
+  const lastLiveCandleRef = useRef(0);
+  const lastTop50RsiRef = useRef(0);
+  const liveSeedingRef = useRef<Set<string>>(new Set());
+
+  // Seed live series the engine has none for (snapshot / cached RSI, dropped after a socket gap)
+  // Candles come from the candle store, so this only downloads the newest bars
+  const seedLiveSeries = useCallback(async (instIds: string[]) => {
+    const adapter = adapterRef.current;
+    if (!adapter) return;
+    const pairs = rsiPairsHook.rsiPairsRef.current;
+    const load = (instId: string, bar: CandleBar, limit: number) =>
+      loadCandles(exchange, instId, bar, limit, count => adapter.fetchCandles(instId, bar, count));
+
+    for (const instId of instIds) {
+      // Nothing to patch until the instrument has RSI
+      if (liveSeedingRef.current.has(instId) || !rsiDataRef.current.has(instId)) continue;
+      liveSeedingRef.current.add(instId);
+      try {
+        const daily = await load(instId, '1D', RSI.DAILY_CANDLE_LIMIT);
+        const hourly = await load(instId, '1H', getHourlyCandleLimit(pairs));
+        if (adapterRef.current !== adapter) return;
+        seedLiveRsi(liveRsiKey(exchange, instId), daily, hourly, pairs);
+      } finally {
+        liveSeedingRef.current.delete(instId);
+      }
+    }
+  }, [exchange, rsiPairsHook.rsiPairsRef]);
+
+  // Apply buffered candles in the compute engine and merge the live fields into RSI data
+  // Not written to the RSI cache: live values are replaced by the next computation anyway
+  const flushLiveCandles = useCallback(async () => {
+    const buffered = liveCandlesRef.current;
+    if (buffered.size === 0) return;
+    liveCandlesRef.current = new Map();
+
+    const { patches, unseeded } = await applyLiveCandles(exchange, Array.from(buffered.values()));
+    if (patches.length > 0) {
+      setRsiData(prev => {
+        const newMap = new Map(prev);
+        let changed = false;
+        patches.forEach(([instId, patch]) => {
+          const existing = prev.get(instId);
+          if (!existing) return;
+          const custom = patch.custom ? { ...existing.custom, ...patch.custom } : existing.custom;
+          newMap.set(instId, { ...existing, ...patch, custom });
+          changed = true;
+        });
+        return changed ? newMap : prev;
+      });
+    }
+    if (unseeded.length > 0) seedLiveSeries(unseeded);
+  }, [exchange, seedLiveSeries]);
+
+  // Merge a fresh OI snapshot, keeping 24h changes already loaded from history
+  const mergeOpenInterest = useCallback((snapshot: Map<string, OpenInterestData>) => {
+    setOpenInterestData(prev => {
+      const merged = new Map<string, OpenInterestData>();
+      snapshot.forEach((oi, instId) => {
+        merged.set(instId, { ...oi, oiChange24h: oi.oiChange24h ?? prev.get(instId)?.oiChange24h ?? null });
+      });
+      return merged;
+    });
+  }, []);
+
+  // Update 24h OI change for single instrument
+  const updateOiChange = useCallback((instId: string, change: number) => {
+    setOpenInterestData(prev => {
+      const existing = prev.get(instId);
+      if (!existing) return prev;
+      const newMap = new Map(prev);
+      newMap.set(instId, { ...existing, oiChange24h: change });
+      return newMap;
+    });
+  }, []);
+
+  // Load 24h OI changes (per-instrument history, slow), highest volume first
+  const fetchOiChanges = useCallback(async () => {
+    const adapter = adapterRef.current;
+    if (!adapter?.features.openInterest || isFetchingOiChangeRef.current) return;
+    isFetchingOiChangeRef.current = true;
+
+    try {
+      await adapter.fetchOpenInterestChanges(adapter.getAllInstIds(), updateOiChange);
+    } finally {
+      isFetchingOiChangeRef.current = false;
+    }
+  }, [updateOiChange]);
+
+  // Settled funding history for one instrument (token detail drawer)
+  const fetchFundingHistory = useCallback(async (instId: string, startTime: number): Promise<FundingHistoryPoint[]> => {
+    const adapter = adapterRef.current;
+    if (!adapter) return [];
+    return adapter.fetchFundingHistory(instId, startTime);
+  }, []);
+
+  // Candles for one instrument (token detail chart)
+  const fetchCandles = useCallback(async (instId: string, bar: CandleBar, limit: number): Promise<number[][] | null> => {
+    const adapter = adapterRef.current;
+    if (!adapter) return null;
+    return adapter.fetchCandles(instId, bar, limit);
+  }, []);
+
+  // Market cap cache helpers
+  const saveMarketCapCacheLocal = useCallback((data: Map<string, MarketCapData>) => {
+    setMarketCapCache(data);
+  }, []);
+
+  const loadMarketCapCacheLocal = useCallback((): Map<string, MarketCapData> | null => {
+    return getMarketCapCache();
+  }, []);
+
+  // Initialize exchange adapter (tickers + funding + listings + spot + RSI)
+  const initialize = useCallback(async () => {
+    // Check app version and clear data cache if version changed
+    // This ensures users see fresh data after site updates
+    checkVersionAndClearCache();
+
+    // Try to load cached market cap first for instant display
+    const cachedMarketCap = loadMarketCapCacheLocal();
+    if (cachedMarketCap) {
+      setMarketCapData(cachedMarketCap);
+    }
+
+    const handleTickerUpdate = (newTickers: Map<string, ProcessedTicker>) => {
+      setTickers(newTickers);
+    };
+
+    const handleStatusUpdate = (newStatus: 'connecting' | 'live' | 'error', time?: Date) => {
+      setStatus(newStatus);
+      if (time) setLastUpdate(time);
+    };
+
+    // Funding and RSI pushed by the server stream
+    const handleStreamDiff = (diff: StreamDiff) => {
+      const { fundingRates, rsi } = diff;
+      if (fundingRates) {
+        setFundingRateData(prev => {
+          const newMap = new Map(prev);
+          Object.entries(fundingRates).forEach(([instId, rate]) => newMap.set(instId, rate));
+          return newMap;
+        });
+      }
+      if (rsi) mergeServerRsi(rsi);
+    };
+
+    // Candle pushes (direct transport only), applied once per flush
+    const handleCandleUpdate = (update: LiveCandleUpdate) => {
+      liveCandlesRef.current.set(`${update.instId}:${update.bar}`, update);
+      lastLiveCandleRef.current = Date.now();
+    };
+
+    const adapter = new StreamDataManager(
+      exchange,
+      getStreamTransportCache(),
+      handleTickerUpdate,
+      handleStatusUpdate,
+      handleStreamDiff,
+      setActiveTransport,
+      handleCandleUpdate
+    );
+    adapterRef.current = adapter;
+    setDefaultFundingInterval(adapter.defaultFundingInterval);
+
+    // Fetch exchange data first (fast, doesn't block)
+    // Shared snapshot alongside, so funding and listings needn't be fetched per client
+    const [snapshot, spotData, openInterest] = await Promise.all([
+      loadSnapshot(),
+      adapter.fetchSpotSymbols(),
+      adapter.fetchOpenInterest()
+    ]);
+
+    setSpotSymbols(spotData);
+    mergeOpenInterest(openInterest);
+
+    // Fall back to direct fetching for whatever the snapshot didn't carry
+    const [listings, fundingRates] = await Promise.all([
+      snapshot && Object.keys(snapshot.listings).length > 0 ? null : adapter.fetchListingDates(),
+      snapshot && Object.keys(snapshot.fundingRates).length > 0 ? null : adapter.fetchFundingRates(),
+    ]);
+
+    if (listings) setListingData(listings);
+    if (fundingRates) setFundingRateData(fundingRates);
+
+    // Fetch CoinGecko data separately (slower, shouldn't block exchange data)
+    fetchMarketCapData().then((marketCap) => {
+      console.log(`[MarketCap] Received ${marketCap.size} coins from CoinGecko`);
+      setMarketCapData(marketCap);
+      saveMarketCapCacheLocal(marketCap);
+    }).catch((error) => {
+      console.error('[MarketCap] Failed to fetch:', error);
+    });
+
+    // Start ticker streaming
+    await adapter.start();
+
+    // Fetch RSI for initial data after tickers are loaded
+    const initialRsiTimeout = setTimeout(() => {
+      const currentTickers = adapterRef.current?.getTickers();
+      if (currentTickers && currentTickers.size > 0) {
+        fetchRsiForVisible(currentTickers);
+      }
+    }, TIMING.INITIAL_RSI_FETCH_DELAY);
+    timeoutsRef.current.push(initialRsiTimeout);
+
+    // Setup tiered RSI refresh intervals
+    // Top 50 is kept live by candle pushes while they flow; REST then only refreshes
+    // what they don't cover (weekly RSI, indicators) and reseeds the live state
+    const rsiTop50Interval = setInterval(() => {
+      const now = Date.now();
+      if (now - lastLiveCandleRef.current < LIVE_CANDLES.ACTIVE_WINDOW
+        && now - lastTop50RsiRef.current < LIVE_CANDLES.REST_REFRESH) return;
+
+      const currentTickers = adapterRef.current?.getTickers();
+      if (currentTickers && currentTickers.size > 0) {
+        lastTop50RsiRef.current = now;
+        fetchRsiForTier(currentTickers, 'top50');
+      }
+    }, TIMING.RSI_REFRESH_TOP50);
+    intervalsRef.current.push(rsiTop50Interval);
+
+    if (adapter.features.liveCandles) {
+      const liveCandlesInterval = setInterval(flushLiveCandles, LIVE_CANDLES.FLUSH_INTERVAL);
+      intervalsRef.current.push(liveCandlesInterval);
+    }
+
+    const rsiTier2Interval = setInterval(() => {
+      const currentTickers = adapterRef.current?.getTickers();
+      if (currentTickers && currentTickers.size > 0) {
+        fetchRsiForTier(currentTickers, 'tier2');
+      }
+    }, TIMING.RSI_REFRESH_TIER2);
+    intervalsRef.current.push(rsiTier2Interval);
+
+    const rsiTier3Interval = setInterval(() => {
+      const currentTickers = adapterRef.current?.getTickers();
+      if (currentTickers && currentTickers.size > 0) {
+        fetchRsiForTier(currentTickers, 'tier3');
+      }
+    }, TIMING.RSI_REFRESH_TIER3);
+    intervalsRef.current.push(rsiTier3Interval);
+
+    // Refresh market cap
+    const marketCapInterval = setInterval(async () => {
+      const newMarketCap = await fetchMarketCapData();
+      setMarketCapData(newMarketCap);
+      saveMarketCapCacheLocal(newMarketCap);
+    }, TIMING.MARKET_CAP_REFRESH);
+    intervalsRef.current.push(marketCapInterval);
+
+    // Poll the shared snapshot (304 while unchanged)
+    const snapshotInterval = setInterval(loadSnapshot, SNAPSHOT.CLIENT_REFRESH);
+    intervalsRef.current.push(snapshotInterval);
+
+    // Refresh funding rates at the adapter's cadence, unless the snapshot is as fresh
+    const fundingRatesInterval = setInterval(async () => {
+      if (snapshotRef.current.live && adapter.fundingRefreshInterval >= SNAPSHOT.CLIENT_REFRESH) return;
+      const newFundingRates = await adapterRef.current?.fetchFundingRates();
+      if (newFundingRates) setFundingRateData(newFundingRates);
+    }, adapter.fundingRefreshInterval);
+    intervalsRef.current.push(fundingRatesInterval);
+
+    // Open interest: cheap snapshot on a short cadence, 24h history on a long one
+    if (adapter.features.openInterest) {
+      fetchOiChanges();
+
+      const openInterestInterval = setInterval(async () => {
+        const newOpenInterest = await adapterRef.current?.fetchOpenInterest();
+        if (newOpenInterest) mergeOpenInterest(newOpenInterest);
+      }, TIMING.OPEN_INTEREST_REFRESH);
+      intervalsRef.current.push(openInterestInterval);
+
+      const oiChangeInterval = setInterval(fetchOiChanges, TIMING.OPEN_INTEREST_CHANGE_REFRESH);
+      intervalsRef.current.push(oiChangeInterval);
+    }
+
+  }, [exchange, loadSnapshot, mergeServerRsi, fetchRsiForVisible, fetchRsiForTier, flushLiveCandles, fetchOiChanges, mergeOpenInterest, loadMarketCapCacheLocal, saveMarketCapCacheLocal]);
+
+  // Load the preferred transport on mount
+  useEffect(() => {
+    setStreamTransportState(getStreamTransportCache());
+  }, []);
+
+  // Persist the preferred transport and switch the running adapter over
+  const setStreamTransport = useCallback((transport: StreamTransport) => {
+    setStreamTransportState(transport);
+    setStreamTransportCache(transport);
+    adapterRef.current?.setTransport(transport);
+  }, []);
+
+  // Cleanup - clear all intervals, timeouts, and stop the adapter
+  const cleanup = useCallback(() => {
+    // Clear all intervals
+    intervalsRef.current.forEach(clearInterval);
+    intervalsRef.current = [];
+
+    // Clear all timeouts
+    timeoutsRef.current.forEach(clearTimeout);
+    timeoutsRef.current = [];
+
+    // Clear RSI cache save timeout
+    if (saveRsiCacheTimeoutRef.current) {
+      clearTimeout(saveRsiCacheTimeoutRef.current);
+      saveRsiCacheTimeoutRef.current = null;
+    }
+
+    // Stop adapter (WebSocket + REST polling)
+    adapterRef.current?.stop();
+    adapterRef.current = null;
+    snapshotRef.current = { etag: null, live: false };
+
+    // Drop live candle state of this venue
+    liveCandlesRef.current = new Map();
+    liveSeedingRef.current.clear();
+    lastLiveCandleRef.current = 0;
+    lastTop50RsiRef.current = 0;
+  }, []);
+
+  // ===========================================
+  // Saved Screens
+  // ===========================================
+
+  // Snapshot of the current board setup
+  const captureScreen = useCallback((): Omit<SavedScreen, 'id' | 'name'> => ({
+    filters: filtersHook.filters,
+    columns: columnsHook.columns,
+    columnOrder: columnsHook.columnOrder,
+    sort: filtersHook.sort,
+    view: filtersHook.view,
+    updatedAt: Date.now(),
+  }), [filtersHook.filters, filtersHook.sort, filtersHook.view, columnsHook.columns, columnsHook.columnOrder]);
+
+  // Save the current setup as a new named screen
+  const saveScreen = useCallback((name: string) => {
+    const id = createScreenId();
+    screensHook.addScreens([{ id, name, ...captureScreen() }]);
+    screensHook.setActiveScreenId(id);
+  }, [screensHook, captureScreen]);
+
+  // Overwrite the active screen with the current setup
+  const updateActiveScreen = useCallback(() => {
+    if (!screensHook.activeScreenId) return;
+    screensHook.replaceScreen(screensHook.activeScreenId, captureScreen());
+  }, [screensHook, captureScreen]);
+
+  // Apply a screen's filters, columns, sort and view
+  const applyScreen = useCallback((screen: SavedScreen) => {
+    filtersHook.setFilters(screen.filters);
+    filtersHook.setSortDirectly(screen.sort);
+    filtersHook.setView(screen.view);
+    columnsHook.setColumnsDirectly(screen.columns);
+    columnsHook.setColumnOrderDirectly(screen.columnOrder);
+    screensHook.setActiveScreenId(screen.id);
+  }, [filtersHook, columnsHook, screensHook]);
+
+  // Whether the board has drifted from the active screen since it was applied
+  const isActiveScreenModified = useMemo(() => {
+    const active = screensHook.screens.find(sc => sc.id === screensHook.activeScreenId);
+    if (!active) return false;
+    const current = captureScreen();
+    return JSON.stringify([active.filters, active.columns, active.columnOrder, active.sort, active.view])
+      !== JSON.stringify([current.filters, current.columns, current.columnOrder, current.sort, current.view]);
+  }, [screensHook.screens, screensHook.activeScreenId, captureScreen]);
+
+  // Import + apply a screen shared by link (?screen=...), then drop the param
+  const sharedScreenHandledRef = useRef(false);
+  useEffect(() => {
+    if (sharedScreenHandledRef.current || typeof window === 'undefined') return;
+    sharedScreenHandledRef.current = true;
+
+    const url = new URL(window.location.href);
+    const encoded = url.searchParams.get(SCREENS.URL_PARAM);
+    if (!encoded) return;
+
+    const screen = decodeScreenParam(encoded);
+    if (screen) {
+      screensHook.addScreens([screen]);
+      applyScreen(screen);
+    }
+    url.searchParams.delete(SCREENS.URL_PARAM);
+    window.history.replaceState(null, '', `${url.pathname}${url.search}`);
+  }, [screensHook, applyScreen]);
+
+  // ===========================================
+  // Watchlists
+  // ===========================================
+
+  // List shown by the current view (null on the full market view)
+  const viewedWatchlist = useMemo(() => {
+    const id = getViewWatchlistId(filtersHook.view);
+    return id ? watchlistsHook.watchlists.find(l => l.id === id) ?? null : null;
+  }, [filtersHook.view, watchlistsHook.watchlists]);
+
+  // Stars add to the viewed list, or the first list on the market view
+  const starWatchlist = viewedWatchlist ?? watchlistsHook.watchlists[0] ?? null;
+
+  const starEntries = useMemo(() => {
+    return new Map((starWatchlist?.entries ?? []).map(e => [e.symbol, e]));
+  }, [starWatchlist]);
+
+  // Fall back to the market view when the viewed list no longer exists
+  useEffect(() => {
+    if (watchlistsHook.watchlists.length > 0 && getViewWatchlistId(filtersHook.view) && !viewedWatchlist) {
+      filtersHook.setView('market');
+    }
+  }, [watchlistsHook.watchlists, filtersHook, viewedWatchlist]);
+
+  // Entry for a ticker in the star list (undefined when not listed)
+  const getWatchlistEntry = useCallback((ticker: ProcessedTicker): WatchlistEntry | undefined => {
+    return starEntries.get(toWatchlistSymbol(ticker.baseSymbol));
+  }, [starEntries]);
+
+  // Toggle a token in the star list
+  const toggleFavorite = useCallback((instId: string) => {
+    if (!starWatchlist) return;
+    const ticker = tickers.get(instId);
+    watchlistsHook.toggleSymbol(starWatchlist.id, toWatchlistSymbol(ticker?.baseSymbol ?? instId));
+  }, [starWatchlist, tickers, watchlistsHook]);
+
+  // Merge a shared list and switch the board to it
+  const importWatchlist = useCallback((name: string, symbols: string[]) => {
+    const id = watchlistsHook.importWatchlist(name, symbols);
+    if (id) filtersHook.setView(watchlistView(id));
+  }, [watchlistsHook, filtersHook]);
+
+  // ===========================================
+  // RSI Pairs
+  // ===========================================
+
+  // Add a pair and load its values right away, returns why it was rejected (null when added)
+  const addRsiPair = useCallback((pair: RsiPair): string | null => {
+    const error = rsiPairsHook.addRsiPair(pair);
+    const currentTickers = adapterRef.current?.getTickers();
+    if (!error && currentTickers && currentTickers.size > 0) {
+      fetchRsiForVisible(currentTickers);
+    }
+    return error;
+  }, [rsiPairsHook, fetchRsiForVisible]);
+
+  // Remove a pair along with its filter
+  const removeRsiPair = useCallback((pair: RsiPair) => {
+    rsiPairsHook.removeRsiPair(pair);
+    const key = rsiPairKey(pair);
+    const pairFilters = filtersHook.filters.rsiPairs;
+    if (pairFilters?.[key] !== undefined) {
+      const rest = Object.fromEntries(Object.entries(pairFilters).filter(([k]) => k !== key));
+      filtersHook.setFilters({ ...filtersHook.filters, rsiPairs: Object.keys(rest).length > 0 ? rest : undefined });
+    }
+  }, [rsiPairsHook, filtersHook]);
+
+  // BTC perp daily returns, the reference for the beta / correlation columns
+  const btcReturns = useMemo(() => findBtcReturns(tickers, rsiData), [tickers, rsiData]);
+
+  // ===========================================
+  // Row Model (compute worker)
+  // ===========================================
+
+  // Filtering, sorting and the header aggregates run in the compute worker
+  const [computedBoard, setComputedBoard] = useState<ComputedBoard>(EMPTY_COMPUTED_BOARD);
+  const boardComputeRef = useRef<BoardCompute | null>(null);
+
+  useEffect(() => {
+    const compute = new BoardCompute(setComputedBoard);
+    boardComputeRef.current = compute;
+    return () => {
+      compute.close();
+      boardComputeRef.current = null;
+    };
+  }, []);
+
+  // Mirror the data maps into the worker (unchanged maps are skipped, changed ones send only new entries)
+  useEffect(() => {
+    const compute = boardComputeRef.current;
+    if (!compute) return;
+    compute.setData('tickers', tickers);
+    compute.setData('rsiData', rsiData);
+    compute.setData('fundingRateData', fundingRateData);
+    compute.setData('openInterestData', openInterestData);
+    compute.setData('listingData', listingData);
+    compute.setData('marketCapData', marketCapData);
+    compute.setSpotSymbols(spotSymbols);
+  }, [tickers, rsiData, fundingRateData, openInterestData, listingData, marketCapData, spotSymbols]);
+
+  useEffect(() => {
+    boardComputeRef.current?.setQuery({
+      searchTerm: filtersHook.searchTerm,
+      filters: filtersHook.filters,
+      sort: filtersHook.sort,
+      watchlistSymbols: viewedWatchlist ? viewedWatchlist.entries.map(e => e.symbol) : null,
+      rsiPairs: rsiPairsHook.rsiPairs,
+      defaultFundingInterval,
+    });
+  }, [filtersHook.searchTerm, filtersHook.filters, filtersHook.sort, viewedWatchlist, rsiPairsHook.rsiPairs, defaultFundingInterval]);
+
+  // Rows of the latest computation, resolved against the current tickers
+  const filteredRows = useMemo(() => {
+    const rows: ProcessedTicker[] = [];
+    computedBoard.rowIds.forEach(instId => {
+      const ticker = tickers.get(instId);
+      if (ticker) rows.push(ticker);
+    });
+    return rows;
+  }, [computedBoard, tickers]);
+
+  // Get filtered and sorted data
+  const getFilteredData = useCallback((): ProcessedTicker[] => filteredRows, [filteredRows]);
+
+  // RSI averages for the exchange's Top 100 by market cap
+  const getRsiAverages = useCallback(() => computedBoard.rsiAverages, [computedBoard]);
+
+  // Top gainers/losers for leaderboard (up to COMPUTE.TOP_MOVERS_LIMIT)
+  const getTopMovers = useCallback((timeframe: TopMoversTimeframe, limit: number = 5) => {
+    const { gainers, losers } = computedBoard.topMovers[timeframe];
+    return { gainers: gainers.slice(0, limit), losers: losers.slice(0, limit) };
+  }, [computedBoard]);
+
+  // Get paginated data
+  const getPaginatedData = useCallback(() => {
+    const filtered = getFilteredData();
+    const { currentPage, pageSize } = paginationHook;
+    const startIndex = (currentPage - 1) * pageSize;
+    const endIndex = startIndex + pageSize;
+
+    return {
+      data: filtered.slice(startIndex, endIndex),
+      totalPages: Math.ceil(filtered.length / pageSize),
+      totalItems: filtered.length
+    };
+  }, [getFilteredData, paginationHook]);
+
+  // Download the filtered, sorted rows (visible columns only) as CSV or JSON
+  const exportFilteredData = useCallback((format: TableExportFormat) => {
+    const visibleColumns = columnsHook.columnOrder.filter(key => columnsHook.columns[key]);
+    const context = {
+      rsiData,
+      fundingRateData,
+      marketCapData,
+      listingData,
+      openInterestData,
+      spotSymbols,
+      defaultFundingInterval,
+      btcReturns,
+      now: Date.now(),
+    };
+    const data = buildTableExport(getFilteredData(), visibleColumns, context, {
+      exchange,
+      view: viewedWatchlist ? viewedWatchlist.name : 'All markets',
+      searchTerm: filtersHook.searchTerm,
+      filters: filtersHook.filters,
+      sort: filtersHook.sort,
+    });
+    downloadTableExport(data, format);
+  }, [exchange, getFilteredData, columnsHook.columnOrder, columnsHook.columns, filtersHook, viewedWatchlist, rsiData, fundingRateData, marketCapData, listingData, openInterestData, spotSymbols, defaultFundingInterval, btcReturns]);
+
+  // Get quick filter counts
+  const getQuickFilterCounts = useCallback(() => computedBoard.quickFilterCounts, [computedBoard]);
+
+  return {
+    // Data
+    tickers,
+    rsiData,
+    fundingRateData,
+    openInterestData,
+    listingData,
+    marketCapData,
+    spotSymbols,
+    defaultFundingInterval,
+    btcReturns,
+    rsiPairs: rsiPairsHook.rsiPairs,
+    watchlists: watchlistsHook.watchlists,
+    viewedWatchlist,
+    starWatchlist,
+
+    // UI state from composed hooks
+    columns: columnsHook.columns,
+    columnOrder: columnsHook.columnOrder,
+    filters: filtersHook.filters,
+    sort: filtersHook.sort,
+    view: filtersHook.view,
+    searchTerm: filtersHook.searchTerm,
+    status,
+    lastUpdate,
+    rsiProgress,
+    streamTransport,
+    activeTransport,
+    currentPage: paginationHook.currentPage,
+    pageSize: paginationHook.pageSize,
+    urlInitialized,
+
+    // Actions
+    initialize,
+    cleanup,
+    fetchFundingHistory,
+    fetchCandles,
+    toggleFavorite,
+    getWatchlistEntry,
+    updateColumn: columnsHook.updateColumn,
+    setColumnsPreset: columnsHook.setColumnsPreset,
+    setFilters: filtersHook.setFilters,
+    clearFilters: filtersHook.clearFilters,
+    hasActiveFilters: filtersHook.hasActiveFilters,
+    updateSort: filtersHook.updateSort,
+    setSortDirectly: filtersHook.setSortDirectly,
+    setView: filtersHook.setView,
+    setSearchTerm: filtersHook.setSearchTerm,
+    updateColumnOrder: columnsHook.updateColumnOrder,
+    moveColumn: columnsHook.moveColumn,
+    setCurrentPage: paginationHook.setCurrentPage,
+    setUrlInitialized,
+    setStreamTransport,
+
+    // Saved screens
+    screens: screensHook.screens,
+    activeScreenId: screensHook.activeScreenId,
+    isActiveScreenModified,
+    saveScreen,
+    updateActiveScreen,
+    applyScreen,
+    importScreens: screensHook.addScreens,
+    renameScreen: screensHook.renameScreen,
+    deleteScreen: screensHook.deleteScreen,
+    moveScreen: screensHook.moveScreen,
+
+    // Watchlists
+    createWatchlist: watchlistsHook.createWatchlist,
+    renameWatchlist: watchlistsHook.renameWatchlist,
+    deleteWatchlist: watchlistsHook.deleteWatchlist,
+    toggleWatchlistSymbol: watchlistsHook.toggleSymbol,
+    updateWatchlistEntry: watchlistsHook.updateEntry,
+    importWatchlist,
+
+    // RSI pairs
+    addRsiPair,
+    removeRsiPair,
+
+    // Direct setters for URL state sync
+    setColumnsDirectly: columnsHook.setColumnsDirectly,
+    setColumnOrderDirectly: columnsHook.setColumnOrderDirectly,
+
+    // Derived data
+    getFilteredData,
+    getRsiAverages,
+    getTopMovers,
+    getPaginatedData,
+    getQuickFilterCounts,
+    exportFilteredData
+  };
+}
+
+export type ExchangeStore = ReturnType<typeof useExchangeStore>;
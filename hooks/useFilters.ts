@@ -1,42 +1,45 @@
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
-import { Filters, SortConfig } from '@/lib/types';
+import { Filters, SortConfig, ExchangeId, BoardView } from '@/lib/types';
+import { EXCHANGE_CACHE_KEYS } from '@/lib/constants';
 import { getFiltersCache, setFiltersCache } from '@/lib/cache';
 
 /**
  * Hook for managing filters, sorting, search, and view mode
+ * Filters are persisted per exchange
  */
-export function useFilters(onFilterChange?: () => void) {
+export function useFilters(onFilterChange?: () => void, exchange: ExchangeId = 'okx') {
+  const filtersKey = EXCHANGE_CACHE_KEYS[exchange].FILTERS;
   const [filters, setFiltersState] = useState<Filters>({});
   const [sort, setSort] = useState<SortConfig>({ column: 'rank', direction: 'asc' });
-  const [view, setViewState] = useState<'market' | 'favorites'>('market');
+  const [view, setViewState] = useState<BoardView>('market');
   const [searchTerm, setSearchTermInternal] = useState('');
 
   // Load filters from cache on mount
   useEffect(() => {
-    const savedFilters = getFiltersCache<Filters>();
+    const savedFilters = getFiltersCache<Filters>(filtersKey);
     if (savedFilters) {
       setFiltersState(savedFilters);
     }
-  }, []);
+  }, [filtersKey]);
 
   // Update filters with cache persistence
   const setFilters = useCallback((newFilters: Filters | ((prev: Filters) => Filters)) => {
     setFiltersState(prev => {
       const resolved = typeof newFilters === 'function' ? newFilters(prev) : newFilters;
-      setFiltersCache(resolved);
+      setFiltersCache(resolved, filtersKey);
       return resolved;
     });
     onFilterChange?.();
-  }, [onFilterChange]);
+  }, [onFilterChange, filtersKey]);
 
   // Clear all filters
   const clearFilters = useCallback(() => {
     setFiltersState({});
-    setFiltersCache({});
+    setFiltersCache({}, filtersKey);
     onFilterChange?.();
-  }, [onFilterChange]);
+  }, [onFilterChange, filtersKey]);
 
   // Check if any filters are active
   const hasActiveFilters = useCallback(() => {
@@ -58,8 +61,8 @@ export function useFilters(onFilterChange?: () => void) {
     setSort(config);
   }, []);
 
-  // Set view mode
-  const setView = useCallback((newView: 'market' | 'favorites') => {
+  // Set view mode (all markets or a watchlist)
+  const setView = useCallback((newView: BoardView) => {
     setViewState(newView);
   }, []);
 
@@ -0,0 +1,61 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { FundingRateData, FundingArbRow } from '@/lib/types';
+import { fetchMarkPrices, fetchHyperliquidMarksAndFunding } from '@/lib/api';
+import { buildFundingArbRows } from '@/lib/funding-arb';
+import { TIMING } from '@/lib/constants';
+
+/**
+ * useFundingArb - OKX vs Hyperliquid funding carry
+ *
+ * OKX funding rates come from the board store (already refreshed every 5 minutes);
+ * OKX mark prices and Hyperliquid funding + marks are polled here while mounted.
+ *
+ * @param okxFunding - OKX funding rates keyed by instId
+ * @returns Ranked rows plus loading state
+ */
+export function useFundingArb(okxFunding: Map<string, FundingRateData>) {
+  const [okxMarkPrices, setOkxMarkPrices] = useState<Map<string, number>>(new Map());
+  const [hlMarkPrices, setHlMarkPrices] = useState<Map<string, number>>(new Map());
+  const [hlFunding, setHlFunding] = useState<Map<string, FundingRateData>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const [okxMarks, hl] = await Promise.all([
+        fetchMarkPrices(),
+        fetchHyperliquidMarksAndFunding(),
+      ]);
+      if (cancelled) return;
+
+      // Keep the previous snapshot if a venue returned nothing
+      if (okxMarks.size > 0) setOkxMarkPrices(okxMarks);
+      if (hl.fundingRates.size > 0) {
+        setHlMarkPrices(hl.markPrices);
+        setHlFunding(hl.fundingRates);
+      }
+      setLoading(false);
+    };
+
+    load();
+    const interval = setInterval(load, TIMING.FUNDING_ARB_REFRESH);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  const rows: FundingArbRow[] = useMemo(
+    () => buildFundingArbRows(okxFunding, okxMarkPrices, hlFunding, hlMarkPrices),
+    [okxFunding, okxMarkPrices, hlFunding, hlMarkPrices]
+  );
+
+  return {
+    rows,
+    loading: loading || okxFunding.size === 0,
+  };
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ExchangeId, FundingHistoryPoint } from '@/lib/types';
+import { getFundingRangeStart } from '@/lib/funding-history';
+import { FUNDING_HISTORY } from '@/lib/constants';
+
+export type FundingHistoryFetcher = (instId: string, startTime: number) => Promise<FundingHistoryPoint[]>;
+
+// Full 90d history per instrument, shared across drawer opens
+const historyCache = new Map<string, { points: FundingHistoryPoint[]; fetchedAt: number }>();
+
+/**
+ * useFundingHistory - Settled funding periods for one instrument
+ *
+ * Always loads the longest window once; shorter ranges are sliced locally,
+ * so switching 7d/30d/90d never triggers another request.
+ *
+ * @param exchange - Venue the instrument belongs to (cache namespace)
+ * @param instId - Venue-native instrument ID, or null when nothing is selected
+ * @param fetcher - Store's fetchFundingHistory (goes through the ExchangeAdapter)
+ * @returns Points for the last 90 days (oldest first) plus loading state
+ */
+export function useFundingHistory(
+  exchange: ExchangeId,
+  instId: string | null,
+  fetcher: FundingHistoryFetcher
+) {
+  const [points, setPoints] = useState<FundingHistoryPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!instId) {
+      setPoints([]);
+      return;
+    }
+
+    const cacheKey = `${exchange}:${instId}`;
+    const cached = historyCache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < FUNDING_HISTORY.CACHE_TTL) {
+      setPoints(cached.points);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setPoints(cached?.points ?? []);
+    setLoading(true);
+
+    fetcher(instId, getFundingRangeStart('90d')).then((result) => {
+      if (cancelled) return;
+      if (result.length > 0) {
+        historyCache.set(cacheKey, { points: result, fetchedAt: Date.now() });
+      }
+      setPoints(result);
+      setLoading(false);
+    }).catch((error) => {
+      if (cancelled) return;
+      console.error('Failed to load funding history:', error);
+      setPoints([]);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [exchange, instId, fetcher]);
+
+  return { points, loading };
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { RsiPair } from '@/lib/types';
+import { getRsiPairsCache, setRsiPairsCache } from '@/lib/cache';
+import { normalizeRsiPairs, rsiPairKey, validateRsiPair } from '@/lib/rsi-pairs';
+
+/**
+ * Hook for managing the configured RSI (timeframe, period) pairs
+ * Pairs are shared across exchanges
+ */
+export function useRsiPairs() {
+  const [rsiPairs, setRsiPairs] = useState<RsiPair[]>([]);
+  // Mirrors the latest pairs for RSI fetches started from intervals / async callbacks
+  const rsiPairsRef = useRef<RsiPair[]>([]);
+
+  // Apply a change to the pairs and persist it
+  const updateRsiPairs = useCallback((next: RsiPair[]) => {
+    rsiPairsRef.current = next;
+    setRsiPairs(next);
+    setRsiPairsCache(next);
+  }, []);
+
+  // Load pairs from cache on mount
+  useEffect(() => {
+    const saved = normalizeRsiPairs(getRsiPairsCache());
+    rsiPairsRef.current = saved;
+    setRsiPairs(saved);
+  }, []);
+
+  // Add a pair, returns why it was rejected (null when added)
+  const addRsiPair = useCallback((pair: RsiPair): string | null => {
+    const error = validateRsiPair(pair, rsiPairsRef.current);
+    if (error) return error;
+    updateRsiPairs([...rsiPairsRef.current, pair]);
+    return null;
+  }, [updateRsiPairs]);
+
+  const removeRsiPair = useCallback((pair: RsiPair) => {
+    updateRsiPairs(rsiPairsRef.current.filter(p => rsiPairKey(p) !== rsiPairKey(pair)));
+  }, [updateRsiPairs]);
+
+  return {
+    rsiPairs,
+    rsiPairsRef,
+    addRsiPair,
+    removeRsiPair,
+  };
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { ExchangeId, SavedScreen } from '@/lib/types';
+import { EXCHANGE_CACHE_KEYS, SCREENS } from '@/lib/constants';
+import { getScreensCache, setScreensCache } from '@/lib/cache';
+import { normalizeScreen, uniqueScreenName } from '@/lib/screens';
+
+/**
+ * Hook for managing named saved screens
+ * Screens are persisted per exchange; applying one is up to the store
+ */
+export function useScreens(exchange: ExchangeId = 'okx') {
+  const screensKey = EXCHANGE_CACHE_KEYS[exchange].SCREENS;
+  const [screens, setScreens] = useState<SavedScreen[]>([]);
+  const [activeScreenId, setActiveScreenId] = useState<string | null>(null);
+
+  // Load screens from cache on mount
+  useEffect(() => {
+    const saved = getScreensCache(screensKey)
+      .map(normalizeScreen)
+      .filter((s): s is SavedScreen => s !== null);
+    setScreens(saved);
+  }, [screensKey]);
+
+  // Apply a change to the list and persist it
+  const updateScreens = useCallback((update: (prev: SavedScreen[]) => SavedScreen[]) => {
+    setScreens(prev => {
+      const next = update(prev);
+      setScreensCache(next, screensKey);
+      return next;
+    });
+  }, [screensKey]);
+
+  // Add screens (new or imported), renaming on name clashes
+  const addScreens = useCallback((incoming: SavedScreen[]) => {
+    updateScreens(prev => {
+      const next = [...prev];
+      incoming.forEach(screen => {
+        if (next.length >= SCREENS.MAX_SCREENS) return;
+        next.push({ ...screen, name: uniqueScreenName(screen.name, next) });
+      });
+      return next;
+    });
+  }, [updateScreens]);
+
+  // Overwrite a screen's setup, keeping its name and position
+  const replaceScreen = useCallback((id: string, screen: Omit<SavedScreen, 'id' | 'name'>) => {
+    updateScreens(prev => prev.map(s => (s.id === id ? { ...s, ...screen, id, name: s.name } : s)));
+  }, [updateScreens]);
+
+  const renameScreen = useCallback((id: string, name: string) => {
+    updateScreens(prev => prev.map(s => (s.id === id ? { ...s, name: uniqueScreenName(name, prev, id) } : s)));
+  }, [updateScreens]);
+
+  const deleteScreen = useCallback((id: string) => {
+    updateScreens(prev => prev.filter(s => s.id !== id));
+    setActiveScreenId(prev => (prev === id ? null : prev));
+  }, [updateScreens]);
+
+  // Move a screen one slot up (-1) or down (+1)
+  const moveScreen = useCallback((id: string, offset: -1 | 1) => {
+    updateScreens(prev => {
+      const index = prev.findIndex(s => s.id === id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, [updateScreens]);
+
+  return {
+    screens,
+    activeScreenId,
+    setActiveScreenId,
+    addScreens,
+    replaceScreen,
+    renameScreen,
+    deleteScreen,
+    moveScreen,
+  };
+}
@@ -1,9 +1,12 @@
 'use client';
 
 import { useEffect, useCallback, useRef } from 'react';
-import { Filters, ColumnVisibility, ColumnKey, RsiSignalType } from '@/lib/types';
+import { Filters, ColumnVisibility, ColumnKey, RsiSignalType, EmaTrendSignal, MacdSignalType, AlertRule, Watchlist } from '@/lib/types';
 import { DEFAULT_COLUMN_ORDER } from '@/lib/utils';
-import { FIXED_COLUMNS } from '@/lib/constants';
+import { FIXED_COLUMNS, WATCHLISTS } from '@/lib/constants';
+import { encodeAlertRules, decodeAlertRules } from '@/lib/alerts';
+import { encodeWatchlistParam, decodeWatchlistParam, toWatchlistSymbol } from '@/lib/watchlists';
+import { isRsiColumnKey, encodeRsiPairFilters, decodeRsiPairFilters } from '@/lib/rsi-pairs';
 
 // All columns visible - used as base for URL parsing
 const ALL_COLUMNS_VISIBLE: ColumnVisibility = {
@@ -27,51 +30,80 @@ const ALL_COLUMNS_VISIBLE: ColumnVisibility = {
   rsiW7: true,
   rsiW14: true,
   listDate: true,
-  hasSpot: true
+  hasSpot: true,
+  openInterest: true,
+  oiChange24h: true,
+  oiVolRatio: true,
+  emaTrend: true,
+  ema20: true,
+  ema50: true,
+  ema200: true,
+  macd: true,
+  bbPercentB: true,
+  atrPct: true,
+  vol7d: true,
+  vol30d: true,
+  btcBeta: true,
+  btcCorr: true
 };
 
 // Convert readonly array to regular array for includes check
 const FIXED_COLS = [...FIXED_COLUMNS] as string[];
 
 interface UrlState {
-  favorites: string[];
+  watchlist: Watchlist | null; // Viewed list, shared by name and symbols
   filters: Filters;
   columns: ColumnVisibility;
   columnOrder: ColumnKey[];
-  view: 'market' | 'favorites';
+  alertRules: AlertRule[];
+}
+
+// Shared list decoded from the URL
+interface SharedWatchlist {
+  name: string;
+  symbols: string[];
 }
 
 // Serialize state to URL params
 function stateToParams(state: Partial<UrlState>): URLSearchParams {
   const params = new URLSearchParams();
 
-  // Favorites - comma-separated list
-  if (state.favorites && state.favorites.length > 0) {
-    params.set('fav', state.favorites.join(','));
-  }
-
-  // View
-  if (state.view && state.view !== 'market') {
-    params.set('view', state.view);
+  // Viewed watchlist - "name:SYM,SYM"
+  if (state.watchlist) {
+    params.set(WATCHLISTS.URL_PARAM, encodeWatchlistParam(state.watchlist));
   }
 
   // Filters - only include non-empty values
   if (state.filters) {
     // String-type filters
-    const stringFilterKeys = ['rank', 'rsi7', 'rsi14', 'rsiW7', 'rsiW14', 'hasSpot', 'fundingRate', 'marketCapMin', 'listAge'] as const;
+    const stringFilterKeys = ['rank', 'rsi7', 'rsi14', 'rsiW7', 'rsiW14', 'hasSpot', 'fundingRate', 'marketCapMin', 'listAge', 'openInterestMin', 'oiChange', 'oiVolRatio', 'ema20', 'ema50', 'ema200', 'macdCrossAge', 'bbPercentB', 'atrPct', 'vol7d', 'vol30d', 'btcBeta', 'btcCorr', 'expression'] as const;
     stringFilterKeys.forEach(key => {
       const value = state.filters?.[key];
       if (value) {
         params.set(`f_${key}`, value);
       }
     });
-    // Array-type filters (RSI signals)
+    // Array-type filters (RSI and indicator signals)
     if (state.filters.dRsiSignal && state.filters.dRsiSignal.length > 0) {
       params.set('f_dRsiSignal', state.filters.dRsiSignal.join(','));
     }
     if (state.filters.wRsiSignal && state.filters.wRsiSignal.length > 0) {
       params.set('f_wRsiSignal', state.filters.wRsiSignal.join(','));
     }
+    if (state.filters.emaTrend && state.filters.emaTrend.length > 0) {
+      params.set('f_emaTrend', state.filters.emaTrend.join(','));
+    }
+    if (state.filters.macdSignal && state.filters.macdSignal.length > 0) {
+      params.set('f_macdSignal', state.filters.macdSignal.join(','));
+    }
+    if (state.filters.symbols && state.filters.symbols.length > 0) {
+      params.set('f_symbols', state.filters.symbols.join(','));
+    }
+    // Configured RSI pair filters - "4H:14=<30,1H:21=>70"
+    const rsiPairs = encodeRsiPairFilters(state.filters.rsiPairs);
+    if (rsiPairs) {
+      params.set('f_rsiPairs', rsiPairs);
+    }
   }
 
   // Columns - only include hidden columns (default is all visible)
@@ -95,36 +127,42 @@ function stateToParams(state: Partial<UrlState>): URLSearchParams {
     }
   }
 
+  // Alert rules - enabled ones only, so shared links carry live rules
+  if (state.alertRules) {
+    const enabled = state.alertRules.filter(r => r.enabled);
+    if (enabled.length > 0) {
+      params.set('alerts', encodeAlertRules(enabled));
+    }
+  }
+
   return params;
 }
 
 // Parse URL params to state
-function paramsToState(params: URLSearchParams): Partial<UrlState> {
-  const state: Partial<UrlState> = {};
+function paramsToState(params: URLSearchParams): Partial<Omit<UrlState, 'watchlist'>> & { watchlist?: SharedWatchlist } {
+  const state: Partial<Omit<UrlState, 'watchlist'>> & { watchlist?: SharedWatchlist } = {};
 
-  // Favorites
+  // Watchlist (older links carried OKX favorites as ?fav=BTC-USDT-SWAP,...)
+  const wl = params.get(WATCHLISTS.URL_PARAM);
   const fav = params.get('fav');
-  if (fav) {
-    state.favorites = fav.split(',').filter(Boolean);
-  }
-
-  // View
-  const view = params.get('view');
-  if (view === 'favorites') {
-    state.view = 'favorites';
+  if (wl) {
+    state.watchlist = decodeWatchlistParam(wl) ?? undefined;
+  } else if (fav) {
+    const symbols = fav.split(',').filter(Boolean).map(instId => toWatchlistSymbol(instId.split('-')[0]));
+    state.watchlist = { name: WATCHLISTS.DEFAULT_NAME, symbols: Array.from(new Set(symbols)) };
   }
 
   // Filters
   const filters: Filters = {};
   // String-type filters
-  const stringFilterKeys = ['rank', 'rsi7', 'rsi14', 'rsiW7', 'rsiW14', 'hasSpot', 'fundingRate', 'marketCapMin', 'listAge'] as const;
+  const stringFilterKeys = ['rank', 'rsi7', 'rsi14', 'rsiW7', 'rsiW14', 'hasSpot', 'fundingRate', 'marketCapMin', 'listAge', 'openInterestMin', 'oiChange', 'oiVolRatio', 'ema20', 'ema50', 'ema200', 'macdCrossAge', 'bbPercentB', 'atrPct', 'vol7d', 'vol30d', 'btcBeta', 'btcCorr', 'expression'] as const;
   stringFilterKeys.forEach(key => {
     const value = params.get(`f_${key}`);
     if (value) {
       (filters as Record<string, string>)[key] = value;
     }
   });
-  // Array-type filters (RSI signals)
+  // Array-type filters (RSI and indicator signals)
   const dRsiSignal = params.get('f_dRsiSignal');
   if (dRsiSignal) {
     filters.dRsiSignal = dRsiSignal.split(',').filter(Boolean) as RsiSignalType[];
@@ -133,6 +171,22 @@ function paramsToState(params: URLSearchParams): Partial<UrlState> {
   if (wRsiSignal) {
     filters.wRsiSignal = wRsiSignal.split(',').filter(Boolean) as RsiSignalType[];
   }
+  const emaTrend = params.get('f_emaTrend');
+  if (emaTrend) {
+    filters.emaTrend = emaTrend.split(',').filter(Boolean) as EmaTrendSignal[];
+  }
+  const macdSignal = params.get('f_macdSignal');
+  if (macdSignal) {
+    filters.macdSignal = macdSignal.split(',').filter(Boolean) as MacdSignalType[];
+  }
+  const rsiPairs = params.get('f_rsiPairs');
+  if (rsiPairs) {
+    filters.rsiPairs = decodeRsiPairFilters(rsiPairs);
+  }
+  const symbols = params.get('f_symbols');
+  if (symbols) {
+    filters.symbols = symbols.split(',').filter(Boolean);
+  }
   if (Object.keys(filters).length > 0) {
     state.filters = filters;
   }
@@ -143,7 +197,7 @@ function paramsToState(params: URLSearchParams): Partial<UrlState> {
     const hiddenCols = new Set(hide.split(',').filter(Boolean));
     const columns = { ...ALL_COLUMNS_VISIBLE };
     hiddenCols.forEach(col => {
-      if (col in columns) {
+      if (col in columns || isRsiColumnKey(col)) {
         columns[col as keyof ColumnVisibility] = false;
       }
     });
@@ -157,23 +211,32 @@ function paramsToState(params: URLSearchParams): Partial<UrlState> {
     state.columnOrder = [...FIXED_COLUMNS as unknown as ColumnKey[], ...nonFixedOrder];
   }
 
+  // Alert rules
+  const alerts = params.get('alerts');
+  if (alerts) {
+    const rules = decodeAlertRules(alerts);
+    if (rules.length > 0) {
+      state.alertRules = rules;
+    }
+  }
+
   return state;
 }
 
 export function useUrlState(
   currentState: {
-    favorites: string[];
+    watchlist: Watchlist | null;
     filters: Filters;
     columns: ColumnVisibility;
     columnOrder: ColumnKey[];
-    view: 'market' | 'favorites';
+    alertRules: AlertRule[];
   },
   setters: {
-    setFavorites: (favorites: string[]) => void;
     setFilters: (filters: Filters) => void;
     setColumns: (columns: ColumnVisibility) => void;
     setColumnOrder: (order: ColumnKey[]) => void;
-    setView: (view: 'market' | 'favorites') => void;
+    importWatchlist: (name: string, symbols: string[]) => void; // Merges by name and views the list
+    importAlertRules: (rules: AlertRule[]) => void; // Merges, never replaces
   }
 ) {
   const initializedRef = useRef(false);
@@ -191,9 +254,6 @@ export function useUrlState(
 
     isUpdatingFromUrlRef.current = true;
 
-    if (urlState.favorites) {
-      setters.setFavorites(urlState.favorites);
-    }
     if (urlState.filters) {
       setters.setFilters(urlState.filters);
     }
@@ -203,8 +263,11 @@ export function useUrlState(
     if (urlState.columnOrder) {
       setters.setColumnOrder(urlState.columnOrder);
     }
-    if (urlState.view) {
-      setters.setView(urlState.view);
+    if (urlState.watchlist) {
+      setters.importWatchlist(urlState.watchlist.name, urlState.watchlist.symbols);
+    }
+    if (urlState.alertRules) {
+      setters.importAlertRules(urlState.alertRules);
     }
 
     // Allow state updates after a small delay
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Watchlist, WatchlistEntry } from '@/lib/types';
+import { WATCHLISTS } from '@/lib/constants';
+import { getWatchlistsCache, setWatchlistsCache } from '@/lib/cache';
+import { createWatchlistId, createDefaultWatchlists } from '@/lib/watchlists';
+
+// "memes" → "memes (2)" when the name is taken
+function uniqueListName(name: string, lists: Watchlist[], ignoreId?: string): string {
+  const base = name.trim().slice(0, WATCHLISTS.MAX_NAME_LENGTH) || 'Untitled';
+  const taken = new Set(lists.filter(l => l.id !== ignoreId).map(l => l.name.toLowerCase()));
+  if (!taken.has(base.toLowerCase())) return base;
+
+  let n = 2;
+  while (taken.has(`${base} (${n})`.toLowerCase())) n++;
+  return `${base} (${n})`;
+}
+
+/**
+ * Hook for managing named watchlists
+ * Lists hold normalized base symbols and are shared across exchanges
+ */
+export function useWatchlists() {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  // Mirrors the latest lists so actions fired right after mount (URL import) see them
+  const watchlistsRef = useRef<Watchlist[]>([]);
+
+  // Load lists from cache on mount (seed from legacy favorites the first time)
+  useEffect(() => {
+    const saved = getWatchlistsCache();
+    if (saved && saved.length > 0) {
+      watchlistsRef.current = saved;
+      setWatchlists(saved);
+    } else {
+      const seeded = createDefaultWatchlists();
+      watchlistsRef.current = seeded;
+      setWatchlists(seeded);
+      setWatchlistsCache(seeded);
+    }
+  }, []);
+
+  // Apply a change to the lists and persist it
+  const updateWatchlists = useCallback((update: (prev: Watchlist[]) => Watchlist[]) => {
+    const next = update(watchlistsRef.current);
+    watchlistsRef.current = next;
+    setWatchlists(next);
+    setWatchlistsCache(next);
+  }, []);
+
+  // Create an empty list, returns its ID (null when at the limit)
+  const createWatchlist = useCallback((name: string): string | null => {
+    if (watchlistsRef.current.length >= WATCHLISTS.MAX_LISTS) return null;
+    const id = createWatchlistId();
+    updateWatchlists(prev => [...prev, { id, name: uniqueListName(name, prev), entries: [] }]);
+    return id;
+  }, [updateWatchlists]);
+
+  const renameWatchlist = useCallback((id: string, name: string) => {
+    updateWatchlists(prev => prev.map(l => (l.id === id ? { ...l, name: uniqueListName(name, prev, id) } : l)));
+  }, [updateWatchlists]);
+
+  // Delete a list (the last remaining list is kept)
+  const deleteWatchlist = useCallback((id: string) => {
+    updateWatchlists(prev => (prev.length <= 1 ? prev : prev.filter(l => l.id !== id)));
+  }, [updateWatchlists]);
+
+  // Add or remove a symbol from a list
+  const toggleSymbol = useCallback((listId: string, symbol: string) => {
+    updateWatchlists(prev => prev.map(l => {
+      if (l.id !== listId) return l;
+      const exists = l.entries.some(e => e.symbol === symbol);
+      return {
+        ...l,
+        entries: exists ? l.entries.filter(e => e.symbol !== symbol) : [...l.entries, { symbol }],
+      };
+    }));
+  }, [updateWatchlists]);
+
+  // Update an entry's colour or note
+  const updateEntry = useCallback((listId: string, symbol: string, changes: Partial<Omit<WatchlistEntry, 'symbol'>>) => {
+    updateWatchlists(prev => prev.map(l => (
+      l.id !== listId ? l : {
+        ...l,
+        entries: l.entries.map(e => (e.symbol === symbol
+          ? { ...e, ...changes, note: (changes.note ?? e.note)?.slice(0, WATCHLISTS.MAX_NOTE_LENGTH) || undefined }
+          : e)),
+      }
+    )));
+  }, [updateWatchlists]);
+
+  /**
+   * Merge a shared list by name: new symbols join an existing list with the
+   * same name, otherwise a new list is created
+   * @returns ID of the list that received the symbols, or null when at the limit
+   */
+  const importWatchlist = useCallback((name: string, symbols: string[]): string | null => {
+    const existing = watchlistsRef.current.find(l => l.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      updateWatchlists(prev => prev.map(l => {
+        if (l.id !== existing.id) return l;
+        const known = new Set(l.entries.map(e => e.symbol));
+        const added = symbols.filter(s => !known.has(s)).map(symbol => ({ symbol }));
+        return { ...l, entries: [...l.entries, ...added] };
+      }));
+      return existing.id;
+    }
+
+    if (watchlistsRef.current.length >= WATCHLISTS.MAX_LISTS) return null;
+    const id = createWatchlistId();
+    updateWatchlists(prev => [...prev, { id, name: uniqueListName(name, prev), entries: symbols.map(symbol => ({ symbol })) }]);
+    return id;
+  }, [updateWatchlists]);
+
+  return {
+    watchlists,
+    createWatchlist,
+    renameWatchlist,
+    deleteWatchlist,
+    toggleSymbol,
+    updateEntry,
+    importWatchlist,
+  };
+}
@@ -7,6 +7,27 @@
 // 1.2 - 2.0: Wait Zone (观望区) - Be cautious
 // 2.0 - 4.0: Take Profit Zone (止盈区) - Gradual exit
 // >= 4.0: Top Zone (逃顶区) - Sell
+//
+// Prices are OKX BTC-USDT daily closes (UTC days), with CoinGecko as a fallback.
+// Closes are kept in lib/cache so refreshes only fetch the latest page and the
+// daily history builds up without re-downloading years of candles.
+
+import { API, AHR999 } from './constants';
+import { getAhr999ClosesCache, setAhr999ClosesCache } from './cache';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GENESIS_TIME = new Date(`${AHR999.GENESIS_DATE}T00:00:00Z`).getTime();
+
+// Closes needed for the full chart: every history day averages DCA_DAYS closes
+const CLOSES_NEEDED = AHR999.HISTORY_DAYS + AHR999.DCA_DAYS - 1;
+
+export type AHR999Source = 'okx' | 'coingecko';
+
+export interface AHR999HistoryPoint {
+  time: number; // UTC day start
+  value: number;
+  price: number;
+}
 
 export interface AHR999Data {
   value: number;
@@ -14,6 +35,10 @@ export interface AHR999Data {
   dca200Cost: number;
   growthValuation: number;
   zone: AHR999Zone;
+  bottomPrice: number; // BTC price at which today's AHR999 = 0.45
+  dcaPrice: number;    // BTC price at which today's AHR999 = 1.2
+  history: AHR999HistoryPoint[];
+  source: AHR999Source;
   lastUpdated: number;
 }
 
@@ -104,7 +129,7 @@ export function getAHR999ZoneInfo(value: number | null): AHR999ZoneInfo {
   };
 }
 
-// Calculate 200-day DCA cost (average of last 200 daily closes)
+// Calculate 200-day DCA cost (average of the daily closes)
 function calculate200DayCost(prices: number[]): number {
   if (prices.length === 0) return 0;
   const sum = prices.reduce((a, b) => a + b, 0);
@@ -114,53 +139,123 @@ function calculate200DayCost(prices: number[]): number {
 // Calculate growth valuation using Bitcoin's historical growth model
 // Based on: 10^(5.84 * log10(days since genesis) - 17.01)
 // Genesis block: January 3, 2009
-function calculateGrowthValuation(): number {
-  const genesisDate = new Date('2009-01-03T00:00:00Z');
-  const now = new Date();
-  const daysSinceGenesis = Math.floor((now.getTime() - genesisDate.getTime()) / (1000 * 60 * 60 * 24));
+function calculateGrowthValuation(time: number): number {
+  const daysSinceGenesis = Math.floor((time - GENESIS_TIME) / DAY_MS);
 
   // Power law growth model
-  const valuation = Math.pow(10, 5.84 * Math.log10(daysSinceGenesis) - 17.01);
-  return valuation;
+  return Math.pow(10, AHR999.COEFFICIENT_A * Math.log10(daysSinceGenesis) - AHR999.COEFFICIENT_B);
+}
+
+function calculateAHR999(price: number, dca200Cost: number, growthValuation: number): number {
+  // AHR999 = (price / dca200Cost) * (price / growthValuation)
+  return (price / dca200Cost) * (price / growthValuation);
+}
+
+// BTC price at which AHR999 reaches `target` today
+// Solves target = price² / (dca200Cost × growthValuation), holding today's DCA cost
+// fixed (one close barely moves a 200-day average)
+export function getAHR999PriceAt(target: number, dca200Cost: number, growthValuation: number): number {
+  return Math.sqrt(target * dca200Cost * growthValuation);
+}
+
+// AHR999 for every day that has DCA_DAYS closes behind it
+// closes: [dayStart, close] oldest first, the last day being today at the live price
+export function calculateAHR999History(closes: number[][]): AHR999HistoryPoint[] {
+  const window = AHR999.DCA_DAYS;
+  const history: AHR999HistoryPoint[] = [];
+  let sum = 0;
+
+  closes.forEach(([time, price], i) => {
+    sum += price;
+    if (i >= window) sum -= closes[i - window][1];
+    if (i < window - 1) return;
+
+    history.push({
+      time,
+      price,
+      value: calculateAHR999(price, sum / window, calculateGrowthValuation(time)),
+    });
+  });
+
+  return history.slice(-AHR999.HISTORY_DAYS);
+}
+
+function toDayStart(time: number): number {
+  return Math.floor(time / DAY_MS) * DAY_MS;
 }
 
-// Fetch BTC historical prices from CoinGecko (200 days)
-async function fetchBTCHistoricalPrices(): Promise<number[]> {
+// Merge closes by UTC day, newer rows replacing stored ones (today's close keeps moving)
+function mergeCloses(stored: number[][], fresh: number[][]): number[][] {
+  const byDay = new Map<number, number>();
+  [...stored, ...fresh].forEach(([time, close]) => byDay.set(toDayStart(time), close));
+  return Array.from(byDay.entries())
+    .sort((a, b) => a[0] - b[0])
+    .slice(-CLOSES_NEEDED);
+}
+
+// Fetch one page of OKX BTC daily closes older than `after` (latest page when omitted)
+async function fetchOKXClosesPage(after?: number): Promise<number[][] | null> {
   try {
     const response = await fetch(
-      'https://api.coingecko.com/api/v3/coins/bitcoin/market_chart?vs_currency=usd&days=200&interval=daily'
+      `${API.OKX_REST_BASE}/market/history-candles?instId=${AHR999.OKX_INST_ID}&bar=1Dutc&limit=${AHR999.OKX_PAGE_LIMIT}${after ? `&after=${after}` : ''}`
     );
     if (!response.ok) {
-      console.error(`Failed to fetch BTC historical prices: HTTP ${response.status}`);
-      return [];
+      console.error(`Failed to fetch BTC daily candles: HTTP ${response.status}`);
+      return null;
     }
     const data = await response.json();
+    if (data.code !== '0' || !Array.isArray(data.data)) return null;
 
-    if (data.prices && Array.isArray(data.prices)) {
-      // Extract closing prices
-      return data.prices.map((p: [number, number]) => p[1]);
-    }
-    return [];
+    // OKX returns newest first
+    return (data.data as string[][])
+      .map(c => [parseInt(c[0], 10), parseFloat(c[4])])
+      .reverse();
   } catch (error) {
-    console.error('Failed to fetch BTC historical prices:', error);
-    return [];
+    console.error('Failed to fetch BTC daily candles:', error);
+    return null;
   }
 }
 
-// Fetch current BTC price
-async function fetchCurrentBTCPrice(): Promise<number | null> {
+// Fetch BTC daily closes from OKX
+// Only the latest page when the stored closes reach it, otherwise pages back
+// (`after` walks back in time) until the chart's history is covered
+async function fetchOKXCloses(stored: number[][]): Promise<number[][] | null> {
+  const latest = await fetchOKXClosesPage();
+  if (!latest || latest.length === 0) return null;
+
+  const storedEnd = stored.length > 0 ? stored[stored.length - 1][0] : 0;
+  if (stored.length >= CLOSES_NEEDED && storedEnd >= latest[0][0]) {
+    return mergeCloses(stored, latest);
+  }
+
+  let closes = latest;
+  const maxPages = Math.ceil(CLOSES_NEEDED / AHR999.OKX_PAGE_LIMIT);
+  for (let page = 1; page < maxPages && closes.length < CLOSES_NEEDED; page++) {
+    const older = await fetchOKXClosesPage(closes[0][0]);
+    if (!older || older.length === 0) break;
+    closes = [...older, ...closes];
+  }
+  return mergeCloses([], closes);
+}
+
+// Fallback: BTC daily prices from CoinGecko (enough for today's value, not the chart)
+async function fetchCoinGeckoCloses(): Promise<number[][] | null> {
   try {
     const response = await fetch(
-      'https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd'
+      `${API.COINGECKO_BASE}/coins/bitcoin/market_chart?vs_currency=usd&days=${AHR999.DCA_DAYS}&interval=daily`
     );
     if (!response.ok) {
-      console.error(`Failed to fetch BTC price: HTTP ${response.status}`);
+      console.error(`Failed to fetch BTC historical prices: HTTP ${response.status}`);
       return null;
     }
     const data = await response.json();
-    return data.bitcoin?.usd || null;
+    if (!data.prices || !Array.isArray(data.prices)) return null;
+
+    // Daily points sit at 00:00 UTC and carry the previous day's close,
+    // the last point is the live price
+    return data.prices.map(([time, price]: [number, number]) => [toDayStart(time - 1), price]);
   } catch (error) {
-    console.error('Failed to fetch current BTC price:', error);
+    console.error('Failed to fetch BTC historical prices:', error);
     return null;
   }
 }
@@ -168,32 +263,40 @@ async function fetchCurrentBTCPrice(): Promise<number | null> {
 // Main function to fetch and calculate AHR999
 export async function fetchAHR999Data(): Promise<AHR999Data | null> {
   try {
-    // Fetch data in parallel
-    const [historicalPrices, currentPrice] = await Promise.all([
-      fetchBTCHistoricalPrices(),
-      fetchCurrentBTCPrice()
-    ]);
+    const stored = getAhr999ClosesCache() ?? [];
+
+    let source: AHR999Source = 'okx';
+    let closes = await fetchOKXCloses(stored);
+    if (!closes) {
+      source = 'coingecko';
+      const fallback = await fetchCoinGeckoCloses();
+      if (!fallback) return null;
+      closes = mergeCloses(stored, fallback);
+    }
 
-    if (!currentPrice || historicalPrices.length === 0) {
+    if (closes.length < AHR999.DCA_DAYS) {
       return null;
     }
+    setAhr999ClosesCache(closes);
 
     // Calculate components
-    const dca200Cost = calculate200DayCost(historicalPrices);
-    const growthValuation = calculateGrowthValuation();
-
-    // Calculate AHR999
-    // AHR999 = (price / dca200Cost) * (price / growthValuation)
-    const ahr999 = (currentPrice / dca200Cost) * (currentPrice / growthValuation);
+    const [time, btcPrice] = closes[closes.length - 1];
+    const dca200Cost = calculate200DayCost(closes.slice(-AHR999.DCA_DAYS).map(c => c[1]));
+    const growthValuation = calculateGrowthValuation(time);
 
+    const ahr999 = calculateAHR999(btcPrice, dca200Cost, growthValuation);
     const zoneInfo = getAHR999ZoneInfo(ahr999);
 
     return {
       value: ahr999,
-      btcPrice: currentPrice,
+      btcPrice,
       dca200Cost,
       growthValuation,
       zone: zoneInfo.zone,
+      bottomPrice: getAHR999PriceAt(AHR999.BOTTOM_THRESHOLD, dca200Cost, growthValuation),
+      dcaPrice: getAHR999PriceAt(AHR999.DCA_THRESHOLD, dca200Cost, growthValuation),
+      history: calculateAHR999History(closes),
+      source,
       lastUpdated: Date.now()
     };
   } catch (error) {
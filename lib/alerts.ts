@@ -0,0 +1,226 @@
+/**
+ * Alert Rules Engine
+ * Evaluates user-defined threshold rules against the live board data
+ *
+ * - Rule values use display units: RSI 0-100, changes/funding/APR in %, price in USD
+ * - A rule fires once for every instrument matching at that moment, then sleeps
+ *   for its cooldown (per rule, not per instrument)
+ * - Rules serialize to a compact string for sharing through the URL
+ */
+
+import {
+  AlertRule,
+  AlertField,
+  AlertOperator,
+  AlertEvent,
+  ProcessedTicker,
+  RSIData,
+  FundingRateData,
+  MarketCapData,
+} from './types';
+import { getFundingApr } from './widget-utils';
+import { ALERTS } from './constants';
+
+// ===========================================
+// Field Definitions
+// ===========================================
+
+// Everything a rule can read for one instrument
+export interface AlertSnapshot {
+  ticker: ProcessedTicker;
+  rsi?: RSIData;
+  funding?: FundingRateData;
+  defaultFundingInterval: number;
+}
+
+interface AlertFieldDefinition {
+  label: string;
+  unit: '' | '%' | '$';
+  read: (s: AlertSnapshot) => number | null | undefined;
+}
+
+export const ALERT_FIELDS: Record<AlertField, AlertFieldDefinition> = {
+  rsi7: { label: 'D-RSI7', unit: '', read: s => s.rsi?.rsi7 },
+  rsi14: { label: 'D-RSI14', unit: '', read: s => s.rsi?.rsi14 },
+  rsiW7: { label: 'W-RSI7', unit: '', read: s => s.rsi?.rsiW7 },
+  rsiW14: { label: 'W-RSI14', unit: '', read: s => s.rsi?.rsiW14 },
+  change1h: { label: '1H Change', unit: '%', read: s => s.rsi?.change1h },
+  change4h: { label: '4H Change', unit: '%', read: s => s.rsi?.change4h },
+  change7d: { label: '7D Change', unit: '%', read: s => s.rsi?.change7d },
+  change24h: { label: '24H Change', unit: '%', read: s => s.ticker.changeNum },
+  price: { label: 'Price', unit: '$', read: s => s.ticker.priceNum },
+  fundingRate: {
+    label: 'Funding Rate',
+    unit: '%',
+    read: s => (s.funding ? s.funding.fundingRate * 100 : undefined),
+  },
+  fundingApr: {
+    label: 'Funding APR',
+    unit: '%',
+    read: s => (s.funding ? getFundingApr(s.funding, s.defaultFundingInterval) : undefined),
+  },
+};
+
+export const ALERT_FIELD_KEYS = Object.keys(ALERT_FIELDS) as AlertField[];
+
+const OPERATOR_SYMBOLS: Record<AlertOperator, string> = { lt: '<', gt: '>' };
+
+// ===========================================
+// Rule Helpers
+// ===========================================
+
+export function createAlertId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`;
+}
+
+// "D-RSI7 < 25 · Top 50" / "Funding APR > 100% · BTC"
+export function describeAlertRule(rule: AlertRule): string {
+  const def = ALERT_FIELDS[rule.field];
+  const value = def.unit === '$' ? `$${rule.value}` : `${rule.value}${def.unit}`;
+  const scope = rule.symbol ? ` · ${rule.symbol}` : rule.maxRank ? ` · Top ${rule.maxRank}` : '';
+  return `${def.label} ${OPERATOR_SYMBOLS[rule.operator]} ${value}${scope}`;
+}
+
+// Rules that watch the same condition (used to dedupe imports)
+function ruleSignature(rule: AlertRule): string {
+  return `${rule.field}:${rule.operator}:${rule.value}:${rule.maxRank ?? ''}:${rule.symbol ?? ''}`;
+}
+
+/**
+ * Merge incoming rules into existing ones, skipping conditions already present
+ */
+export function mergeAlertRules(existing: AlertRule[], incoming: AlertRule[]): AlertRule[] {
+  const seen = new Set(existing.map(ruleSignature));
+  const merged = [...existing];
+  incoming.forEach(rule => {
+    const signature = ruleSignature(rule);
+    if (seen.has(signature) || merged.length >= ALERTS.MAX_RULES) return;
+    seen.add(signature);
+    merged.push(rule);
+  });
+  return merged;
+}
+
+// ===========================================
+// Evaluation
+// ===========================================
+
+function matchesRule(rule: AlertRule, value: number): boolean {
+  return rule.operator === 'lt' ? value < rule.value : value > rule.value;
+}
+
+/**
+ * Evaluate enabled rules against the current board state
+ *
+ * @param rules - User rules
+ * @param tickers - Live tickers keyed by instId
+ * @param rsiData - RSI keyed by instId
+ * @param fundingRateData - Funding keyed by instId
+ * @param marketCapData - Market cap keyed by base symbol (for rank scoping)
+ * @param lastFired - Rule ID → last fire time (ms)
+ * @returns One event per rule that matched and is out of cooldown
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  tickers: Map<string, ProcessedTicker>,
+  rsiData: Map<string, RSIData>,
+  fundingRateData: Map<string, FundingRateData>,
+  marketCapData: Map<string, MarketCapData>,
+  defaultFundingInterval: number,
+  lastFired: Record<string, number>,
+  now: number = Date.now()
+): AlertEvent[] {
+  const events: AlertEvent[] = [];
+
+  rules.forEach(rule => {
+    if (!rule.enabled) return;
+    const last = lastFired[rule.id];
+    if (last && now - last < rule.cooldownMin * 60 * 1000) return;
+
+    const def = ALERT_FIELDS[rule.field];
+    const matches: { symbol: string; value: number }[] = [];
+
+    tickers.forEach((ticker, instId) => {
+      if (rule.symbol && ticker.baseSymbol !== rule.symbol) return;
+      if (rule.maxRank) {
+        const rank = marketCapData.get(ticker.baseSymbol)?.rank;
+        if (!rank || rank > rule.maxRank) return;
+      }
+
+      const value = def.read({
+        ticker,
+        rsi: rsiData.get(instId),
+        funding: fundingRateData.get(instId),
+        defaultFundingInterval,
+      });
+      if (value === null || value === undefined || !isFinite(value)) return;
+      if (matchesRule(rule, value)) {
+        matches.push({ symbol: ticker.baseSymbol, value });
+      }
+    });
+
+    if (matches.length === 0) return;
+
+    // Most extreme first
+    matches.sort((a, b) => (rule.operator === 'lt' ? a.value - b.value : b.value - a.value));
+    const shown = matches.slice(0, ALERTS.MAX_SYMBOLS_SHOWN).map(m => `${m.symbol} ${formatAlertValue(rule.field, m.value)}`);
+    const more = matches.length - shown.length;
+
+    events.push({
+      id: createAlertId(),
+      ruleId: rule.id,
+      title: describeAlertRule(rule),
+      message: `${shown.join(', ')}${more > 0 ? ` +${more} more` : ''}`,
+      symbols: matches.map(m => m.symbol),
+      firedAt: now,
+    });
+  });
+
+  return events;
+}
+
+export function formatAlertValue(field: AlertField, value: number): string {
+  const def = ALERT_FIELDS[field];
+  if (def.unit === '$') return `$${value.toPrecision(5).replace(/\.?0+$/, '')}`;
+  if (field === 'fundingRate') return `${value.toFixed(4)}%`;
+  return `${value.toFixed(1)}${def.unit}`;
+}
+
+// ===========================================
+// URL Serialization
+// ===========================================
+
+// One rule per comma-separated entry: field~op~value~maxRank~symbol~cooldown
+// e.g. "rsi7~lt~25~50~~60,fundingApr~gt~100~~~30"
+export function encodeAlertRules(rules: AlertRule[]): string {
+  return rules
+    .map(r => [r.field, r.operator, r.value, r.maxRank ?? '', r.symbol ?? '', r.cooldownMin].join('~'))
+    .join(',');
+}
+
+export function decodeAlertRules(encoded: string): AlertRule[] {
+  const rules: AlertRule[] = [];
+
+  encoded.split(',').filter(Boolean).forEach(entry => {
+    const [field, operator, value, maxRank, symbol, cooldown] = entry.split('~');
+    if (!ALERT_FIELD_KEYS.includes(field as AlertField)) return;
+    if (operator !== 'lt' && operator !== 'gt') return;
+    const threshold = parseFloat(value);
+    if (isNaN(threshold)) return;
+
+    const rank = parseInt(maxRank, 10);
+    const cooldownMin = parseInt(cooldown, 10);
+    rules.push({
+      id: createAlertId(),
+      field: field as AlertField,
+      operator,
+      value: threshold,
+      maxRank: rank > 0 ? rank : undefined,
+      symbol: symbol ? symbol.toUpperCase() : undefined,
+      cooldownMin: cooldownMin > 0 ? cooldownMin : ALERTS.DEFAULT_COOLDOWN_MIN,
+      enabled: true,
+    });
+  });
+
+  return rules.slice(0, ALERTS.MAX_RULES);
+}
@@ -0,0 +1,344 @@
+/**
+ * Binance Hybrid Data Manager
+ * Manages WebSocket connection for TOP 50 tickers + REST polling for the rest
+ *
+ * Architecture (same as OKXHybridDataManager):
+ * - WebSocket (<symbol>@ticker): Real-time 24hr ticker for TOP 50 by volume
+ * - REST polling (ticker/24hr): All USDT perpetuals every 5 seconds
+ *
+ * Key differences from OKXHybridDataManager:
+ * - exchangeInfo is fetched once to restrict tickers to tradable USDT perpetuals
+ *   (ticker/24hr also returns delivery contracts and delisted symbols)
+ * - Binance sends ping frames itself; browsers answer them automatically,
+ *   so no application-level ping is needed
+ */
+
+import { BinanceTicker24h, BinanceWSTicker, ProcessedTicker, CandleBar, RSIData, RsiPair, OpenInterestData } from '../types';
+import {
+  fetchBinancePerpSymbols,
+  fetchBinanceFundingRates,
+  fetchBinanceFundingHistory,
+  fetchBinanceListingDates,
+  fetchBinanceSpotSymbols,
+  processBinanceTicker,
+} from './binance-rest';
+import { fetchBinanceCandles, fetchBinanceRSIBatch } from './binance-rsi';
+import { API, TIMING, UI, RATE_LIMIT, FUNDING } from '../constants';
+import type { ExchangeAdapter, RsiTier, TickerUpdateCallback, StatusCallback } from './exchange-adapter';
+
+const BINANCE_FAPI = API.BINANCE_FAPI_REST;
+const BINANCE_FAPI_WS = API.BINANCE_FAPI_WS;
+
+// Convert a WebSocket ticker event into the REST ticker shape
+function wsTickerToRest(t: BinanceWSTicker): BinanceTicker24h {
+  return {
+    symbol: t.s,
+    priceChange: t.p,
+    priceChangePercent: t.P,
+    lastPrice: t.c,
+    openPrice: t.o,
+    highPrice: t.h,
+    lowPrice: t.l,
+    volume: t.v,
+    quoteVolume: t.q,
+    openTime: t.O,
+    closeTime: t.C,
+  };
+}
+
+export class BinanceHybridDataManager implements ExchangeAdapter {
+  readonly id = 'binance' as const;
+  readonly label = 'Binance';
+  readonly features = { listings: true, spot: true, openInterest: false, liveCandles: false };
+  readonly rateLimit = { maxRequestsPerSecond: RATE_LIMIT.MAX_REQUESTS_PER_SECOND, windowMs: RATE_LIMIT.WINDOW_MS };
+  readonly defaultFundingInterval = FUNDING.DEFAULT_INTERVAL_HOURS;
+  readonly fundingRefreshInterval = TIMING.FUNDING_RATES_REFRESH;
+
+  private ws: WebSocket | null = null;
+  private tickers: Map<string, ProcessedTicker> = new Map();
+  private onUpdate: TickerUpdateCallback;
+  private onStatus: StatusCallback;
+  private baseAssets: Map<string, string> = new Map(); // symbol → baseAsset
+  private top50InstIds: string[] = [];
+  private allInstIds: string[] = [];
+  private restPollInterval: NodeJS.Timeout | null = null;
+  private wsReconnectTimeout: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private wsConnected = false;
+
+  constructor(onUpdate: TickerUpdateCallback, onStatus: StatusCallback) {
+    this.onUpdate = onUpdate;
+    this.onStatus = onStatus;
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    this.onStatus('connecting');
+
+    // Step 1: Load tradable USDT perpetuals
+    const perpSymbols = await fetchBinancePerpSymbols();
+    perpSymbols.forEach((info, symbol) => this.baseAssets.set(symbol, info.baseAsset));
+
+    // Step 2: Fetch all tickers via REST to get initial data and determine TOP 50
+    await this.fetchAllTickers();
+
+    // Step 3: Connect WebSocket for TOP 50
+    this.connectWebSocket();
+
+    // Step 4: Start REST polling for non-TOP 50
+    this.startRestPolling();
+  }
+
+  private async fetchTickerList(): Promise<BinanceTicker24h[] | null> {
+    const response = await fetch(`${BINANCE_FAPI}/ticker/24hr`);
+    if (!response.ok) {
+      console.error(`[Binance] HTTP ${response.status}`);
+      return null;
+    }
+    const data = await response.json();
+    return Array.isArray(data) ? data : null;
+  }
+
+  private async fetchAllTickers(): Promise<void> {
+    try {
+      const data = await this.fetchTickerList();
+      if (!data) {
+        this.onStatus('error');
+        return;
+      }
+
+      const usdtPerps: ProcessedTicker[] = [];
+      const currentInstIds = new Set<string>();
+
+      data.forEach((ticker) => {
+        const baseAsset = this.baseAssets.get(ticker.symbol);
+        if (!baseAsset) return;
+
+        const processed = processBinanceTicker(ticker, baseAsset);
+        this.tickers.set(ticker.symbol, processed);
+        usdtPerps.push(processed);
+        currentInstIds.add(ticker.symbol);
+      });
+
+      // Remove delisted tokens
+      for (const instId of this.tickers.keys()) {
+        if (!currentInstIds.has(instId)) {
+          this.tickers.delete(instId);
+        }
+      }
+
+      // Sort by 24h volume in USD (volume * price) descending
+      usdtPerps.sort((a, b) => {
+        const volA = (parseFloat(a.volCcy24h) || 0) * a.priceNum;
+        const volB = (parseFloat(b.volCcy24h) || 0) * b.priceNum;
+        return volB - volA;
+      });
+
+      // TOP 50 for WebSocket
+      this.top50InstIds = usdtPerps.slice(0, UI.TOP50_COUNT).map(t => t.instId);
+      this.allInstIds = usdtPerps.map(t => t.instId);
+
+      this.onUpdate(new Map(this.tickers));
+      this.onStatus('live', new Date());
+    } catch (error) {
+      console.error('[Binance] Error fetching initial tickers:', error);
+      this.onStatus('error');
+    }
+  }
+
+  private connectWebSocket(): void {
+    // No global WebSocket (snapshot worker on Node < 22): REST polling covers every ticker
+    if (typeof WebSocket === 'undefined') return;
+    if (this.ws?.readyState === WebSocket.OPEN) return;
+    if (this.top50InstIds.length === 0) return;
+
+    try {
+      this.ws = new WebSocket(BINANCE_FAPI_WS);
+
+      this.ws.onopen = () => {
+        console.log('[Binance] WebSocket connected, subscribing to TOP 50...');
+        this.wsConnected = true;
+
+        // Subscribe to TOP 50 in batches
+        const batchSize = UI.WS_SUBSCRIBE_BATCH_SIZE;
+        for (let i = 0; i < this.top50InstIds.length; i += batchSize) {
+          const batch = this.top50InstIds.slice(i, i + batchSize);
+          const subscribeMsg = {
+            method: 'SUBSCRIBE',
+            params: batch.map(symbol => `${symbol.toLowerCase()}@ticker`),
+            id: i / batchSize + 1,
+          };
+          this.ws?.send(JSON.stringify(subscribeMsg));
+        }
+      };
+
+      this.ws.onmessage = (event) => {
+        try {
+          const data = JSON.parse(event.data);
+
+          // Handle subscription confirmation ({ result: null, id })
+          if (data.id !== undefined && data.result === null) {
+            return;
+          }
+
+          // Handle error
+          if (data.error) {
+            console.error('[Binance] WebSocket error:', data.error.msg);
+            return;
+          }
+
+          // Handle ticker data
+          if (data.e === '24hrTicker') {
+            const ticker = wsTickerToRest(data as BinanceWSTicker);
+            const processed = processBinanceTicker(ticker, this.baseAssets.get(ticker.symbol));
+            this.tickers.set(ticker.symbol, processed);
+            this.onUpdate(new Map(this.tickers));
+            this.onStatus('live', new Date());
+          }
+        } catch (e) {
+          // Ignore parse errors
+        }
+      };
+
+      this.ws.onerror = (error) => {
+        console.error('[Binance] WebSocket error:', error);
+      };
+
+      this.ws.onclose = () => {
+        console.log('[Binance] WebSocket closed');
+        this.wsConnected = false;
+
+        // Reconnect after delay (Binance also drops connections every 24h)
+        if (this.isRunning) {
+          this.wsReconnectTimeout = setTimeout(() => {
+            this.connectWebSocket();
+          }, TIMING.WS_RECONNECT_DELAY);
+        }
+      };
+    } catch (error) {
+      console.error('[Binance] Failed to create WebSocket:', error);
+      if (this.isRunning) {
+        this.wsReconnectTimeout = setTimeout(() => {
+          this.connectWebSocket();
+        }, TIMING.WS_RECONNECT_FALLBACK);
+      }
+    }
+  }
+
+  private startRestPolling(): void {
+    // Poll for all tickers (updates non-TOP 50)
+    this.restPollInterval = setInterval(async () => {
+      try {
+        const data = await this.fetchTickerList();
+        if (!data) return;
+
+        let updated = false;
+        const currentInstIds = new Set<string>();
+
+        data.forEach((ticker) => {
+          const baseAsset = this.baseAssets.get(ticker.symbol);
+          if (!baseAsset) return;
+
+          currentInstIds.add(ticker.symbol);
+          // Only update non-TOP 50 via REST (TOP 50 updated by WebSocket)
+          if (!this.wsConnected || !this.top50InstIds.includes(ticker.symbol)) {
+            this.tickers.set(ticker.symbol, processBinanceTicker(ticker, baseAsset));
+            updated = true;
+          }
+        });
+
+        // Remove delisted tokens
+        for (const instId of this.tickers.keys()) {
+          if (!currentInstIds.has(instId)) {
+            this.tickers.delete(instId);
+            updated = true;
+          }
+        }
+
+        // Update allInstIds list
+        this.allInstIds = Array.from(currentInstIds);
+
+        if (updated) {
+          this.onUpdate(new Map(this.tickers));
+          // Only update status if WebSocket is not connected
+          if (!this.wsConnected) {
+            this.onStatus('live', new Date());
+          }
+        }
+      } catch (error) {
+        console.error('[Binance] REST polling error:', error);
+      }
+    }, TIMING.REST_POLLING_INTERVAL);
+  }
+
+  stop(): void {
+    this.isRunning = false;
+
+    // Stop WebSocket
+    if (this.wsReconnectTimeout) {
+      clearTimeout(this.wsReconnectTimeout);
+      this.wsReconnectTimeout = null;
+    }
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+
+    // Stop REST polling
+    if (this.restPollInterval) {
+      clearInterval(this.restPollInterval);
+      this.restPollInterval = null;
+    }
+  }
+
+  getTickers(): Map<string, ProcessedTicker> {
+    return new Map(this.tickers);
+  }
+
+  getTop50InstIds(): string[] {
+    return [...this.top50InstIds];
+  }
+
+  getAllInstIds(): string[] {
+    return [...this.allInstIds];
+  }
+
+  fetchFundingRates() {
+    return fetchBinanceFundingRates();
+  }
+
+  fetchFundingHistory(symbol: string, startTime: number) {
+    return fetchBinanceFundingHistory(symbol, startTime);
+  }
+
+  fetchListingDates() {
+    return fetchBinanceListingDates();
+  }
+
+  fetchSpotSymbols() {
+    return fetchBinanceSpotSymbols();
+  }
+
+  // Open interest columns are OKX-only for now
+  async fetchOpenInterest(): Promise<Map<string, OpenInterestData>> {
+    return new Map();
+  }
+
+  async fetchOpenInterestChanges(): Promise<void> {}
+
+  fetchCandles(symbol: string, bar: CandleBar, limit: number) {
+    return fetchBinanceCandles(symbol, bar, limit);
+  }
+
+  fetchRSIBatch(
+    symbols: string[],
+    existingData: Map<string, RSIData>,
+    onProgress: (text: string) => void,
+    onUpdate: (symbol: string, data: RSIData) => void,
+    pairs: RsiPair[],
+    tier?: RsiTier
+  ) {
+    return fetchBinanceRSIBatch(symbols, existingData, onProgress, onUpdate, pairs, tier);
+  }
+}
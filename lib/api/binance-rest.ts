@@ -0,0 +1,187 @@
+/**
+ * Binance USDⓈ-M Futures REST API functions
+ * Handles all REST API calls to Binance
+ *
+ * Differences from OKX:
+ * - Instrument IDs are plain symbols (e.g., "BTCUSDT" not "BTC-USDT-SWAP")
+ * - One premiumIndex call returns funding for every symbol (no per-instrument requests)
+ * - Funding intervals come from fundingInfo, which only lists non-default (non-8h) symbols
+ * - Spot availability comes from the separate spot API (api.binance.com)
+ */
+
+import {
+  BinanceTicker24h,
+  BinanceSymbolInfo,
+  BinancePremiumIndex,
+  BinanceFundingInfo,
+  BinanceFundingRateHistory,
+  ProcessedTicker,
+  FundingRateData,
+  FundingHistoryPoint,
+  ListingData,
+} from '../types';
+import { API, FUNDING, FUNDING_HISTORY } from '../constants';
+
+const BINANCE_FAPI = API.BINANCE_FAPI_REST;
+const BINANCE_SPOT = API.BINANCE_SPOT_REST;
+
+// ===== Helper: GET from Binance =====
+async function binanceGet<T>(url: string): Promise<T | null> {
+  try {
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      console.error(`[Binance] HTTP ${response.status} for ${url}`);
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error(`[Binance] Request failed for ${url}:`, error);
+    return null;
+  }
+}
+
+// ===== Process Binance 24hr ticker into ProcessedTicker =====
+export function processBinanceTicker(t: BinanceTicker24h, baseAsset?: string): ProcessedTicker {
+  return {
+    instId: t.symbol,
+    baseSymbol: baseAsset ?? t.symbol.replace(/USDT$/, ''),
+    priceNum: parseFloat(t.lastPrice) || 0,
+    changeNum: parseFloat(t.priceChangePercent) || 0,
+    volCcy24h: t.volume || '0', // Base asset volume, formatVolume multiplies by price
+    rawData: t,
+  };
+}
+
+// ===== Fetch tradable USDT perpetual symbols (symbol → info) =====
+export async function fetchBinancePerpSymbols(): Promise<Map<string, BinanceSymbolInfo>> {
+  const data = await binanceGet<{ symbols: BinanceSymbolInfo[] }>(`${BINANCE_FAPI}/exchangeInfo`);
+  const result = new Map<string, BinanceSymbolInfo>();
+
+  if (!data?.symbols) return result;
+
+  data.symbols.forEach(s => {
+    if (s.contractType === 'PERPETUAL' && s.quoteAsset === 'USDT' && s.status === 'TRADING') {
+      result.set(s.symbol, s);
+    }
+  });
+
+  return result;
+}
+
+// ===== Fetch all tickers via REST =====
+export async function fetchBinanceTickers(): Promise<ProcessedTicker[]> {
+  const [data, perpSymbols] = await Promise.all([
+    binanceGet<BinanceTicker24h[]>(`${BINANCE_FAPI}/ticker/24hr`),
+    fetchBinancePerpSymbols(),
+  ]);
+
+  if (!data || !Array.isArray(data)) {
+    console.error('[Binance] Invalid ticker/24hr response');
+    return [];
+  }
+
+  return data
+    .filter(t => perpSymbols.has(t.symbol))
+    .map(t => processBinanceTicker(t, perpSymbols.get(t.symbol)?.baseAsset));
+}
+
+// ===== Fetch spot symbols (base assets with a USDT spot pair on Binance) =====
+export async function fetchBinanceSpotSymbols(): Promise<Set<string>> {
+  const symbols = new Set<string>();
+
+  const data = await binanceGet<{ symbols: { baseAsset: string; quoteAsset: string; status: string }[] }>(
+    `${BINANCE_SPOT}/exchangeInfo?permissions=SPOT`
+  );
+
+  if (!data?.symbols) return symbols;
+
+  data.symbols.forEach(s => {
+    if (s.quoteAsset === 'USDT' && s.status === 'TRADING') {
+      symbols.add(s.baseAsset);
+    }
+  });
+
+  console.log(`[Binance] Found ${symbols.size} spot symbols`);
+  return symbols;
+}
+
+// ===== Fetch listing dates from exchangeInfo onboardDate =====
+export async function fetchBinanceListingDates(): Promise<Map<string, ListingData>> {
+  const perpSymbols = await fetchBinancePerpSymbols();
+  const result = new Map<string, ListingData>();
+
+  perpSymbols.forEach((info, symbol) => {
+    if (info.onboardDate) {
+      result.set(symbol, { listTime: info.onboardDate });
+    }
+  });
+
+  return result;
+}
+
+// ===== Fetch funding rates for all USDT perpetuals =====
+export async function fetchBinanceFundingRates(): Promise<Map<string, FundingRateData>> {
+  const [premiumIndex, fundingInfo] = await Promise.all([
+    binanceGet<BinancePremiumIndex[]>(`${BINANCE_FAPI}/premiumIndex`),
+    binanceGet<BinanceFundingInfo[]>(`${BINANCE_FAPI}/fundingInfo`),
+  ]);
+
+  const result = new Map<string, FundingRateData>();
+
+  if (!premiumIndex || !Array.isArray(premiumIndex)) {
+    return result;
+  }
+
+  // Symbols missing from fundingInfo use the default 8h interval
+  const intervals = new Map<string, number>();
+  if (Array.isArray(fundingInfo)) {
+    fundingInfo.forEach(info => {
+      if (info.fundingIntervalHours > 0) {
+        intervals.set(info.symbol, info.fundingIntervalHours);
+      }
+    });
+  }
+
+  premiumIndex.forEach(p => {
+    if (!p.symbol.endsWith('USDT') || !p.nextFundingTime) return;
+
+    const fundingRate = parseFloat(p.lastFundingRate) || 0;
+    const settlementInterval = intervals.get(p.symbol) ?? FUNDING.DEFAULT_INTERVAL_HOURS;
+
+    result.set(p.symbol, {
+      fundingRate,
+      nextFundingRate: fundingRate, // Binance doesn't publish a separate predicted rate
+      fundingTime: p.nextFundingTime,
+      nextFundingTime: p.nextFundingTime + settlementInterval * 60 * 60 * 1000,
+      settlementInterval,
+      lastUpdated: Date.now(),
+    });
+  });
+
+  return result;
+}
+
+// ===== Fetch settled funding history since startTime (oldest first) =====
+// fundingRate returns at most 1000 rows per request, so page forward by time
+export async function fetchBinanceFundingHistory(symbol: string, startTime: number): Promise<FundingHistoryPoint[]> {
+  const points: FundingHistoryPoint[] = [];
+  let cursor = startTime;
+
+  for (let page = 0; page < FUNDING_HISTORY.MAX_PAGES; page++) {
+    const rows = await binanceGet<BinanceFundingRateHistory[]>(
+      `${BINANCE_FAPI}/fundingRate?symbol=${symbol}&startTime=${cursor}&limit=1000`
+    );
+    if (!rows || !Array.isArray(rows) || rows.length === 0) break;
+
+    rows.forEach(row => {
+      points.push({ fundingTime: row.fundingTime, fundingRate: parseFloat(row.fundingRate) || 0 });
+    });
+
+    if (rows.length < 1000) break;
+    cursor = rows[rows.length - 1].fundingTime + 1;
+  }
+
+  return points;
+}
@@ -0,0 +1,197 @@
+/**
+ * Binance RSI calculation functions
+ * Handles fetching kline data from Binance USDⓈ-M Futures and calculating RSI
+ *
+ * Reuses the shared RSI / indicator math from lib/rsi-data (run in the compute worker)
+ * Only the data fetching is Binance-specific:
+ * - GET /fapi/v1/klines?symbol=BTCUSDT&interval=1d&limit=210
+ * - Klines returned in chronological order (oldest first), prices as strings
+ * - The last kline is the current (unclosed) bar, matching OKX behaviour
+ * - Klines are kept in the IndexedDB candle store (lib/candle-store) between refreshes
+ */
+
+import { RSIData, CandleBar, RsiPair } from '../types';
+import { Mutex, RateLimiter } from '../utils';
+import { API, TIMING, RATE_LIMIT, RSI, RSI_PAIRS } from '../constants';
+import { getHourlyCandleLimit, hasRsiPairsOnBar, hasRsiPairValues } from '../rsi-pairs';
+import { loadCandles } from '../candle-store';
+import { computeRsiData } from '../compute-client';
+import type { RsiCandleSet } from '../compute-protocol';
+
+const BINANCE_FAPI = API.BINANCE_FAPI_REST;
+
+// Mutex and rate limiter for Binance RSI fetching
+const binanceRsiMutex = new Mutex();
+// Binance futures limit: 2400 weight per minute, klines cost 1 weight (limit < 100) or 2 (limit < 500)
+const binanceRateLimiter = new RateLimiter(RATE_LIMIT.MAX_REQUESTS_PER_SECOND, RATE_LIMIT.WINDOW_MS);
+
+// Fetch kline data from Binance
+async function fetchKlines(
+  symbol: string,
+  interval: string,
+  limit: number
+): Promise<number[][] | null> {
+  try {
+    const response = await fetch(`${BINANCE_FAPI}/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`);
+
+    if (!response.ok) {
+      console.warn(`[Binance] Klines HTTP error for ${symbol} ${interval}: ${response.status}`);
+      return null;
+    }
+
+    const data: (string | number)[][] = await response.json();
+
+    if (!Array.isArray(data) || data.length === 0) {
+      return null;
+    }
+
+    // Convert to number arrays [timestamp, open, high, low, close, volume]
+    return data.map(k => [
+      Number(k[0]),
+      parseFloat(k[1] as string),
+      parseFloat(k[2] as string),
+      parseFloat(k[3] as string),
+      parseFloat(k[4] as string),
+      parseFloat(k[5] as string),
+    ]);
+  } catch (error) {
+    console.warn(`[Binance] Failed to fetch klines for ${symbol} ${interval}:`, error);
+    return null;
+  }
+}
+
+// Fetch klines for a shared bar size (rate limited, oldest first)
+export async function fetchBinanceCandles(
+  symbol: string,
+  bar: CandleBar,
+  limit: number
+): Promise<number[][] | null> {
+  await binanceRateLimiter.waitForSlot();
+  return fetchKlines(symbol, bar.toLowerCase(), limit);
+}
+
+// Fetch RSI data for a single Binance instrument
+// Configured pairs reuse the 1d / 1w / 1h klines; 4h is only requested when a pair needs it
+// Klines go through the candle store, so a refresh only downloads the newest bars
+export async function fetchBinanceRSIForInstrument(symbol: string, pairs: RsiPair[] = []): Promise<RSIData | null> {
+  await binanceRsiMutex.acquire();
+
+  try {
+    const load = (bar: CandleBar, limit: number) =>
+      loadCandles('binance', symbol, bar, limit, count => fetchBinanceCandles(symbol, bar, count));
+
+    const candles: RsiCandleSet = { daily: null, weekly: null, hourly: null, fourHour: null, fallback4h: null };
+
+    // ===== Daily klines for RSI + 7D change + technical indicators =====
+    candles.daily = await load('1D', RSI.DAILY_CANDLE_LIMIT);
+
+    // Small delay before weekly request
+    await new Promise(r => setTimeout(r, TIMING.API_BATCH_DELAY));
+
+    // ===== Weekly klines for weekly RSI =====
+    candles.weekly = await load('1W', RSI.WEEKLY_CANDLE_LIMIT);
+
+    // Small delay before hourly request
+    await new Promise(r => setTimeout(r, TIMING.API_BATCH_DELAY));
+
+    // ===== Hourly klines for 1h/4h change + 24h sparkline =====
+    candles.hourly = await load('1H', getHourlyCandleLimit(pairs));
+
+    // ===== 4h klines only when a configured pair needs them =====
+    if (hasRsiPairsOnBar(pairs, '4H')) {
+      await new Promise(r => setTimeout(r, TIMING.API_BATCH_DELAY));
+      candles.fourHour = await load('4H', RSI_PAIRS.CANDLE_LIMIT);
+    }
+
+    // RSI / indicator math runs in the compute worker
+    return await computeRsiData(candles, pairs);
+  } catch (error) {
+    console.error(`[Binance] Failed to fetch RSI for ${symbol}:`, error);
+    return null;
+  } finally {
+    binanceRsiMutex.release();
+  }
+}
+
+// Batch fetch RSI for multiple instruments with tiered priority
+export async function fetchBinanceRSIBatch(
+  symbols: string[],
+  existingData: Map<string, RSIData>,
+  onProgress: (text: string) => void,
+  onUpdate: (symbol: string, data: RSIData) => void,
+  pairs: RsiPair[] = [],
+  tier?: 'top50' | 'tier2' | 'tier3' | 'all'
+): Promise<void> {
+  const now = Date.now();
+
+  // Stale thresholds per tier (same as OKX)
+  const getStaleThreshold = (index: number): number => {
+    if (index < 50) return TIMING.RSI_STALE_TOP50;
+    if (index < 100) return TIMING.RSI_STALE_TIER2;
+    return TIMING.RSI_STALE_TIER3;
+  };
+
+  // Filter symbols that need refresh
+  const toFetch = symbols.filter((symbol, index) => {
+    const existing = existingData.get(symbol);
+    if (!existing || !hasRsiPairValues(existing, pairs)) return true;
+    return now - existing.lastUpdated > getStaleThreshold(index);
+  });
+
+  if (toFetch.length === 0) {
+    onProgress('');
+    return;
+  }
+
+  // Split into tiers
+  const top50 = tier === 'all' || tier === 'top50' || !tier ? toFetch.slice(0, 50) : [];
+  const tier2List = tier === 'all' || tier === 'tier2' || !tier ? toFetch.slice(50, 100) : [];
+  const tier3List = tier === 'all' || tier === 'tier3' || !tier ? toFetch.slice(100) : [];
+
+  // Tier 1: Top 50 - fastest loading
+  for (let i = 0; i < top50.length; i++) {
+    const symbol = top50[i];
+    onProgress(`Loading Top 50: ${i + 1}/${top50.length}`);
+
+    const rsiData = await fetchBinanceRSIForInstrument(symbol, pairs);
+    if (rsiData) {
+      onUpdate(symbol, rsiData);
+    }
+
+    if (i < top50.length - 1) {
+      await new Promise(r => setTimeout(r, TIMING.RSI_DELAY_TOP50));
+    }
+  }
+
+  // Tier 2: 51-100
+  for (let i = 0; i < tier2List.length; i++) {
+    const symbol = tier2List[i];
+    onProgress(`Loading 51-100: ${i + 1}/${tier2List.length}`);
+
+    const rsiData = await fetchBinanceRSIForInstrument(symbol, pairs);
+    if (rsiData) {
+      onUpdate(symbol, rsiData);
+    }
+
+    if (i < tier2List.length - 1) {
+      await new Promise(r => setTimeout(r, TIMING.RSI_DELAY_TIER2));
+    }
+  }
+
+  // Tier 3: 101+
+  for (let i = 0; i < tier3List.length; i++) {
+    const symbol = tier3List[i];
+    onProgress(`Loading others: ${i + 1}/${tier3List.length}`);
+
+    const rsiData = await fetchBinanceRSIForInstrument(symbol, pairs);
+    if (rsiData) {
+      onUpdate(symbol, rsiData);
+    }
+
+    if (i < tier3List.length - 1) {
+      await new Promise(r => setTimeout(r, TIMING.RSI_DELAY_TIER3));
+    }
+  }
+
+  onProgress('');
+}
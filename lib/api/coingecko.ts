@@ -1,9 +1,9 @@
 /**
  * CoinGecko API functions
- * Handles fetching market cap data and logo caching
+ * Handles fetching market cap data, logo caching and dominance history
  */
 
-import { MarketCapData } from '../types';
+import { MarketCapData, DominanceData, DominanceRange } from '../types';
 import { TIMING, CACHE_KEYS } from '../constants';
 import { getLogoCache, setLogoCache } from '../cache';
 
@@ -82,3 +82,20 @@ export async function fetchMarketCapData(): Promise<Map<string, MarketCapData>>
 
   return result;
 }
+
+// Fetch live BTC / ETH dominance plus stored history for a range
+// Goes through our /api/btc-dominance route, which persists the snapshots
+export async function fetchDominanceData(range: DominanceRange): Promise<DominanceData | null> {
+  try {
+    const response = await fetch(`/api/btc-dominance?range=${range}`);
+    if (!response.ok) {
+      console.error(`[Dominance] HTTP error: ${response.status}`);
+      return null;
+    }
+    const data = await response.json();
+    return Array.isArray(data?.history) ? (data as DominanceData) : null;
+  } catch (error) {
+    console.error('[Dominance] Failed to fetch data:', error);
+    return null;
+  }
+}
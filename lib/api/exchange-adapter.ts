@@ -0,0 +1,97 @@
+/**
+ * Exchange Adapter contract
+ * Everything the generic exchange store needs from a venue
+ *
+ * Each data manager (OKX / Hyperliquid / Binance) implements this interface,
+ * so adding a venue means writing an adapter instead of another store.
+ *
+ * Instrument IDs stay venue-native ("BTC-USDT-SWAP", "BTC", "BTCUSDT");
+ * anything compared across venues goes through ProcessedTicker.baseSymbol.
+ */
+
+import {
+  ExchangeId,
+  CandleBar,
+  ProcessedTicker,
+  RSIData,
+  RsiPair,
+  FundingRateData,
+  FundingHistoryPoint,
+  OpenInterestData,
+  ListingData,
+  LiveCandleUpdate,
+} from '../types';
+
+export type TickerUpdateCallback = (tickers: Map<string, ProcessedTicker>) => void;
+export type StatusCallback = (status: 'connecting' | 'live' | 'error', time?: Date) => void;
+// Daily / hourly candle push for a top-50 instrument (features.liveCandles)
+export type CandleUpdateCallback = (update: LiveCandleUpdate) => void;
+
+export type RsiTier = 'top50' | 'tier2' | 'tier3' | 'all';
+
+// Request budget for candle / RSI fetching
+export interface ExchangeRateLimit {
+  maxRequestsPerSecond: number;
+  windowMs: number;
+}
+
+export interface ExchangeFeatures {
+  listings: boolean; // Venue publishes listing dates
+  spot: boolean;     // Venue has spot markets to check against
+  openInterest: boolean; // Venue publishes open interest + 24h history
+  liveCandles: boolean;  // Venue streams 1D / 1H candles for the top 50 (onCandle)
+}
+
+export interface ExchangeAdapter {
+  readonly id: ExchangeId;
+  readonly label: string;
+  readonly features: ExchangeFeatures;
+  readonly rateLimit: ExchangeRateLimit;
+  // Settlement interval (hours) assumed when a funding rate doesn't carry one
+  readonly defaultFundingInterval: number;
+  // How often the store re-pulls funding rates (ms)
+  readonly fundingRefreshInterval: number;
+
+  // ===== Tickers =====
+  start(): Promise<void>;
+  stop(): void;
+  getTickers(): Map<string, ProcessedTicker>;
+  getTop50InstIds(): string[];
+  getAllInstIds(): string[];
+
+  // ===== Funding / listings / spot =====
+  fetchFundingRates(): Promise<Map<string, FundingRateData>>;
+  // Settled funding for one instrument since startTime (ms), oldest first
+  fetchFundingHistory(instId: string, startTime: number): Promise<FundingHistoryPoint[]>;
+  fetchListingDates(): Promise<Map<string, ListingData>>;
+  // Base symbols (e.g. "BTC") that also trade spot on this venue
+  fetchSpotSymbols(): Promise<Set<string>>;
+
+  // ===== Open interest =====
+  // Current OI keyed by instId (empty when features.openInterest is false)
+  fetchOpenInterest(): Promise<Map<string, OpenInterestData>>;
+  // 24h OI change (%) per instrument, reported one at a time as history loads
+  fetchOpenInterestChanges(
+    instIds: string[],
+    onUpdate: (instId: string, change: number) => void
+  ): Promise<void>;
+
+  // ===== Candles / RSI =====
+  // Candles as [timestamp, open, high, low, close, volume], oldest first
+  fetchCandles(instId: string, bar: CandleBar, limit: number): Promise<number[][] | null>;
+  // Built-in RSI plus every configured pair (RSIData.custom), one candle request per bar
+  fetchRSIBatch(
+    instIds: string[],
+    existingData: Map<string, RSIData>,
+    onProgress: (text: string) => void,
+    onUpdate: (instId: string, data: RSIData) => void,
+    pairs: RsiPair[],
+    tier?: RsiTier
+  ): Promise<void>;
+}
+
+export type ExchangeAdapterFactory = (
+  onUpdate: TickerUpdateCallback,
+  onStatus: StatusCallback,
+  onCandle?: CandleUpdateCallback
+) => ExchangeAdapter;
@@ -0,0 +1,16 @@
+/**
+ * Exchange registry
+ * Maps each supported venue to the factory for its ExchangeAdapter
+ */
+
+import { ExchangeId } from '../types';
+import type { ExchangeAdapterFactory } from './exchange-adapter';
+import { OKXHybridDataManager } from './okx-data-manager';
+import { HyperliquidDataManager } from './hyperliquid-data-manager';
+import { BinanceHybridDataManager } from './binance-data-manager';
+
+export const EXCHANGE_ADAPTERS: Record<ExchangeId, ExchangeAdapterFactory> = {
+  okx: (onUpdate, onStatus, onCandle) => new OKXHybridDataManager(onUpdate, onStatus, onCandle),
+  hyperliquid: (onUpdate, onStatus, onCandle) => new HyperliquidDataManager(onUpdate, onStatus, onCandle),
+  binance: (onUpdate, onStatus) => new BinanceHybridDataManager(onUpdate, onStatus),
+};
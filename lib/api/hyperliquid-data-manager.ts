@@ -11,20 +11,56 @@
  * - Hyperliquid WS only provides mid-prices (not full ticker data)
  * - All info queries use POST to a single endpoint
  * - Instrument IDs are simple coin names (e.g., "BTC" not "BTC-USDT-SWAP")
+ * - Funding comes with every metaAndAssetCtxs poll, so it is re-read at the polling rate
+ * - TOP 50 coins also subscribe to 1d / 1h candles on the same socket, forwarded to
+ *   onCandle for live RSI
  */
 
-import { HyperliquidMeta, HyperliquidAssetCtx, ProcessedTicker } from '../types';
-import { processHyperliquidTicker } from './hyperliquid-rest';
-import { API, TIMING, UI } from '../constants';
+import {
+  HyperliquidMeta,
+  HyperliquidAssetCtx,
+  ProcessedTicker,
+  CandleBar,
+  LiveCandleBar,
+  RSIData,
+  RsiPair,
+  FundingRateData,
+  OpenInterestData,
+} from '../types';
+import {
+  processHyperliquidTicker,
+  extractHyperliquidFundingRates,
+  fetchHyperliquidFundingRates,
+  fetchHyperliquidFundingHistory,
+  fetchHyperliquidListingDates,
+  fetchHyperliquidSpotSymbols,
+} from './hyperliquid-rest';
+import { fetchHyperliquidCandles, fetchHyperliquidRSIBatch } from './hyperliquid-rsi';
+import { API, TIMING, UI, RATE_LIMIT } from '../constants';
+import type {
+  ExchangeAdapter,
+  RsiTier,
+  TickerUpdateCallback,
+  StatusCallback,
+  CandleUpdateCallback,
+} from './exchange-adapter';
+
+// Candle subscription interval <-> bar of the candle store / live RSI
+const CANDLE_INTERVALS: Record<string, LiveCandleBar> = { '1d': '1D', '1h': '1H' };
+
+export class HyperliquidDataManager implements ExchangeAdapter {
+  readonly id = 'hyperliquid' as const;
+  readonly label = 'Hyperliquid';
+  readonly features = { listings: false, spot: true, openInterest: false, liveCandles: true };
+  readonly rateLimit = { maxRequestsPerSecond: RATE_LIMIT.HYPERLIQUID_MAX_REQUESTS_PER_SECOND, windowMs: RATE_LIMIT.WINDOW_MS };
+  readonly defaultFundingInterval = 1; // Hyperliquid funding is applied hourly
+  readonly fundingRefreshInterval = TIMING.REST_POLLING_INTERVAL;
 
-export type TickerUpdateCallback = (tickers: Map<string, ProcessedTicker>) => void;
-export type StatusCallback = (status: 'connecting' | 'live' | 'error', time?: Date) => void;
-
-export class HyperliquidDataManager {
   private ws: WebSocket | null = null;
   private tickers: Map<string, ProcessedTicker> = new Map();
   private onUpdate: TickerUpdateCallback;
   private onStatus: StatusCallback;
+  private onCandle: CandleUpdateCallback | null;
   private top50Coins: string[] = [];
   private allCoins: string[] = [];
   private restPollInterval: NodeJS.Timeout | null = null;
@@ -33,13 +69,14 @@ export class HyperliquidDataManager {
   private isRunning = false;
   private wsConnected = false;
 
-  // Store latest meta + contexts for WS price patching
+  // Latest meta + contexts, reused for funding rate extraction
   private latestMeta: HyperliquidMeta | null = null;
   private latestContexts: HyperliquidAssetCtx[] | null = null;
 
-  constructor(onUpdate: TickerUpdateCallback, onStatus: StatusCallback) {
+  constructor(onUpdate: TickerUpdateCallback, onStatus: StatusCallback, onCandle?: CandleUpdateCallback) {
     this.onUpdate = onUpdate;
     this.onStatus = onStatus;
+    this.onCandle = onCandle ?? null;
   }
 
   async start(): Promise<void> {
@@ -132,6 +169,8 @@ export class HyperliquidDataManager {
   }
 
   private connectWebSocket(): void {
+    // No global WebSocket (snapshot worker on Node < 22): REST polling covers every ticker
+    if (typeof WebSocket === 'undefined') return;
     if (this.ws?.readyState === WebSocket.OPEN) return;
 
     try {
@@ -148,6 +187,18 @@ export class HyperliquidDataManager {
         };
         this.ws?.send(JSON.stringify(subscribeMsg));
 
+        // Subscribe to 1d / 1h candles of the TOP 50 for live RSI
+        if (this.onCandle) {
+          this.top50Coins.forEach(coin => {
+            Object.keys(CANDLE_INTERVALS).forEach(interval => {
+              this.ws?.send(JSON.stringify({
+                method: 'subscribe',
+                subscription: { type: 'candle', coin, interval },
+              }));
+            });
+          });
+        }
+
         // Start ping interval
         this.startPing();
       };
@@ -162,6 +213,20 @@ export class HyperliquidDataManager {
             return;
           }
 
+          // Handle candle updates: { t, T, s, i, o, c, h, l, v, n }
+          if (data.channel === 'candle' && data.data) {
+            const candle = data.data;
+            const bar = CANDLE_INTERVALS[candle.i];
+            if (bar) {
+              this.onCandle?.({
+                instId: candle.s,
+                bar,
+                candle: [candle.t, candle.o, candle.h, candle.l, candle.c, candle.v].map(Number),
+              });
+            }
+            return;
+          }
+
           // Handle allMids updates
           if (data.channel === 'allMids' && data.data?.mids) {
             const mids: Record<string, string> = data.data.mids;
@@ -353,11 +418,55 @@ export class HyperliquidDataManager {
     return new Map(this.tickers);
   }
 
-  getTop50Coins(): string[] {
+  getTop50InstIds(): string[] {
     return [...this.top50Coins];
   }
 
-  getAllCoins(): string[] {
+  getAllInstIds(): string[] {
     return [...this.allCoins];
   }
+
+  // Reuse the last polled contexts; fall back to a fresh request before the first poll
+  async fetchFundingRates(): Promise<Map<string, FundingRateData>> {
+    if (this.latestMeta && this.latestContexts) {
+      return extractHyperliquidFundingRates(this.latestMeta, this.latestContexts);
+    }
+    return fetchHyperliquidFundingRates();
+  }
+
+  fetchFundingHistory(coin: string, startTime: number) {
+    return fetchHyperliquidFundingHistory(coin, startTime);
+  }
+
+  fetchListingDates() {
+    return fetchHyperliquidListingDates();
+  }
+
+  fetchSpotSymbols() {
+    return fetchHyperliquidSpotSymbols();
+  }
+
+  // Open interest columns are OKX-only for now
+  async fetchOpenInterest(): Promise<Map<string, OpenInterestData>> {
+    return new Map();
+  }
+
+  async fetchOpenInterestChanges(): Promise<void> {}
+
+  fetchCandles(coin: string, bar: CandleBar, limit: number) {
+    return fetchHyperliquidCandles(coin, bar, limit);
+  }
+
+  fetchRSIBatch(
+    coins: string[],
+    existingData: Map<string, RSIData>,
+    onProgress: (text: string) => void,
+    onUpdate: (coin: string, data: RSIData) => void,
+    pairs: RsiPair[],
+    tier?: RsiTier
+  ) {
+    // Only coins with candle subscriptions keep a live RSI state
+    const live = this.onCandle && this.ws ? new Set(this.top50Coins) : undefined;
+    return fetchHyperliquidRSIBatch(coins, existingData, onProgress, onUpdate, pairs, tier, live);
+  }
 }
@@ -14,13 +14,16 @@ import {
   HyperliquidAssetCtx,
   HyperliquidRawTicker,
   HyperliquidSpotMeta,
+  HyperliquidFundingHistory,
   ProcessedTicker,
   FundingRateData,
+  FundingHistoryPoint,
   ListingData,
 } from '../types';
-import { API } from '../constants';
+import { API, FUNDING_HISTORY } from '../constants';
 
 const HL_REST = API.HYPERLIQUID_REST;
+const HOUR_MS = 60 * 60 * 1000;
 
 // ===== Helper: POST to Hyperliquid info endpoint =====
 async function hlPost<T>(body: Record<string, unknown>): Promise<T | null> {
@@ -119,20 +122,16 @@ export async function fetchHyperliquidMeta(): Promise<HyperliquidMeta | null> {
   return hlPost<HyperliquidMeta>({ type: 'meta' });
 }
 
-// ===== Extract funding rates from metaAndAssetCtxs response =====
-export async function fetchHyperliquidFundingRates(): Promise<Map<string, FundingRateData>> {
-  const result = await hlPost<[HyperliquidMeta, HyperliquidAssetCtx[]]>({
-    type: 'metaAndAssetCtxs',
-  });
-
+// ===== Extract funding rates from metaAndAssetCtxs data =====
+export function extractHyperliquidFundingRates(
+  meta: HyperliquidMeta,
+  contexts: HyperliquidAssetCtx[]
+): Map<string, FundingRateData> {
   const fundingMap = new Map<string, FundingRateData>();
-
-  if (!result || !Array.isArray(result) || result.length < 2) {
-    return fundingMap;
-  }
-
-  const [meta, contexts] = result;
   const universe = meta.universe;
+  if (!universe || universe.length !== contexts.length) return fundingMap;
+
+  const nextSettlement = Math.ceil(Date.now() / HOUR_MS) * HOUR_MS;
 
   for (let i = 0; i < universe.length; i++) {
     const coin = universe[i].name;
@@ -142,8 +141,8 @@ export async function fetchHyperliquidFundingRates(): Promise<Map<string, Fundin
     fundingMap.set(coin, {
       fundingRate,
       nextFundingRate: fundingRate, // Hyperliquid doesn't provide predicted next rate separately
-      fundingTime: Date.now(),
-      nextFundingTime: Date.now() + 3600 * 1000, // Funding settles every hour
+      fundingTime: nextSettlement, // Funding settles at the top of every hour
+      nextFundingTime: nextSettlement + HOUR_MS,
       settlementInterval: 1, // Hyperliquid funding is applied hourly
       lastUpdated: Date.now(),
     });
@@ -152,6 +151,72 @@ export async function fetchHyperliquidFundingRates(): Promise<Map<string, Fundin
   return fundingMap;
 }
 
+// ===== Fetch funding rates via metaAndAssetCtxs =====
+export async function fetchHyperliquidFundingRates(): Promise<Map<string, FundingRateData>> {
+  const result = await hlPost<[HyperliquidMeta, HyperliquidAssetCtx[]]>({
+    type: 'metaAndAssetCtxs',
+  });
+
+  if (!result || !Array.isArray(result) || result.length < 2) {
+    return new Map();
+  }
+
+  return extractHyperliquidFundingRates(result[0], result[1]);
+}
+
+// ===== Fetch mark prices + funding rates in one metaAndAssetCtxs call =====
+export async function fetchHyperliquidMarksAndFunding(): Promise<{
+  markPrices: Map<string, number>;
+  fundingRates: Map<string, FundingRateData>;
+}> {
+  const markPrices = new Map<string, number>();
+  const result = await hlPost<[HyperliquidMeta, HyperliquidAssetCtx[]]>({
+    type: 'metaAndAssetCtxs',
+  });
+
+  if (!result || !Array.isArray(result) || result.length < 2) {
+    return { markPrices, fundingRates: new Map() };
+  }
+
+  const [meta, contexts] = result;
+  const fundingRates = extractHyperliquidFundingRates(meta, contexts);
+
+  // Empty funding map means universe/context mismatch, so indices line up below
+  if (fundingRates.size > 0) {
+    meta.universe.forEach((asset, i) => {
+      const markPx = parseFloat(contexts[i].markPx);
+      if (markPx > 0) markPrices.set(asset.name, markPx);
+    });
+  }
+
+  return { markPrices, fundingRates };
+}
+
+// ===== Fetch hourly funding history since startTime (oldest first) =====
+// fundingHistory returns at most 500 rows per request, so page forward by time
+export async function fetchHyperliquidFundingHistory(coin: string, startTime: number): Promise<FundingHistoryPoint[]> {
+  const points: FundingHistoryPoint[] = [];
+  let cursor = startTime;
+
+  for (let page = 0; page < FUNDING_HISTORY.MAX_PAGES; page++) {
+    const rows = await hlPost<HyperliquidFundingHistory[]>({
+      type: 'fundingHistory',
+      coin,
+      startTime: cursor,
+    });
+    if (!rows || !Array.isArray(rows) || rows.length === 0) break;
+
+    rows.forEach(row => {
+      points.push({ fundingTime: row.time, fundingRate: parseFloat(row.fundingRate) || 0 });
+    });
+
+    if (rows.length < 500) break;
+    cursor = rows[rows.length - 1].time + 1;
+  }
+
+  return points;
+}
+
 // ===== Fetch listing dates =====
 // Hyperliquid meta doesn't provide listing timestamps directly
 // We return an empty map for now; could be populated from chain history later
@@ -2,16 +2,22 @@
  * Hyperliquid RSI calculation functions
  * Handles fetching candle data from Hyperliquid and calculating RSI
  *
- * Reuses the same calculateRSI / calculate7DChange functions from utils.ts
+ * Reuses the shared RSI / indicator math from lib/rsi-data (run in the compute worker)
  * Only the data fetching is Hyperliquid-specific:
  * - POST to /info with { type: "candleSnapshot", coin, interval, startTime, endTime }
  * - Candles returned in chronological order (oldest first)
  * - Supported intervals: "1m","3m","5m","15m","30m","1h","2h","4h","8h","12h","1d","3d","1w","1M"
+ * - Candles are kept in the IndexedDB candle store (lib/candle-store) between refreshes
  */
 
-import { RSIData, HyperliquidCandle } from '../types';
-import { calculateRSI, calculate7DChange, Mutex, RateLimiter } from '../utils';
-import { API, TIMING, RATE_LIMIT } from '../constants';
+import { RSIData, HyperliquidCandle, CandleBar, RsiPair } from '../types';
+import { Mutex, RateLimiter } from '../utils';
+import { API, TIMING, RATE_LIMIT, RSI, RSI_PAIRS } from '../constants';
+import { getHourlyCandleLimit, hasRsiPairsOnBar, hasRsiPairValues } from '../rsi-pairs';
+import { loadCandles } from '../candle-store';
+import { computeRsiData } from '../compute-client';
+import { liveRsiKey } from '../live-rsi';
+import type { RsiCandleSet } from '../compute-protocol';
 
 const HL_REST = API.HYPERLIQUID_REST;
 
@@ -19,7 +25,7 @@ const HL_REST = API.HYPERLIQUID_REST;
 const hlRsiMutex = new Mutex();
 // Hyperliquid rate limit: 1200 weight per minute, each request = ~20 weight
 // That's ~60 requests/minute = 1 request/second to be safe
-const hlRateLimiter = new RateLimiter(4, RATE_LIMIT.WINDOW_MS);
+const hlRateLimiter = new RateLimiter(RATE_LIMIT.HYPERLIQUID_MAX_REQUESTS_PER_SECOND, RATE_LIMIT.WINDOW_MS);
 
 // Fetch candle data from Hyperliquid
 async function fetchCandles(
@@ -75,6 +81,16 @@ async function fetchCandles(
   }
 }
 
+// Fetch candles for a shared bar size (rate limited, oldest first)
+export async function fetchHyperliquidCandles(
+  coin: string,
+  bar: CandleBar,
+  limit: number
+): Promise<number[][] | null> {
+  await hlRateLimiter.waitForSlot();
+  return fetchCandles(coin, bar.toLowerCase(), limit);
+}
+
 // Convert interval string to milliseconds
 function getIntervalMs(interval: string): number {
   const map: Record<string, number> = {
@@ -97,112 +113,51 @@ function getIntervalMs(interval: string): number {
 }
 
 // Fetch RSI data for a single Hyperliquid instrument
-export async function fetchHyperliquidRSIForInstrument(coin: string): Promise<RSIData | null> {
+// Configured pairs reuse the 1d / 1w / 1h candles; 4h is only requested when a pair needs it
+// Candles go through the candle store, so a refresh only downloads the newest bars
+// `live`: the coin gets candle pushes, so the computation also seeds its live RSI state
+export async function fetchHyperliquidRSIForInstrument(
+  coin: string,
+  pairs: RsiPair[] = [],
+  live = false
+): Promise<RSIData | null> {
   await hlRsiMutex.acquire();
 
   try {
-    await hlRateLimiter.waitForSlot();
-
-    // ===== Daily candles for RSI + 7D change =====
-    const dailyCandles = await fetchCandles(coin, '1d', 100);
-
-    let rsi7: number | null = null;
-    let rsi14: number | null = null;
-    let rsiW7: number | null = null;
-    let rsiW14: number | null = null;
-    let change1h: number | null = null;
-    let change4h: number | null = null;
-    let change7d: number | null = null;
-    let sparkline7d: number[] | undefined;
-    let sparkline24h: number[] | undefined;
-
-    if (dailyCandles && dailyCandles.length >= 15) {
-      const closes = dailyCandles.map(c => c[4]); // close price at index 4
-      rsi7 = calculateRSI(closes, 7);
-      rsi14 = calculateRSI(closes, 14);
-      change7d = calculate7DChange(dailyCandles);
-
-      // Save last 7 days of closes for sparkline
-      sparkline7d = closes.slice(-7);
-    }
+    const load = (bar: CandleBar, limit: number) =>
+      loadCandles('hyperliquid', coin, bar, limit, count => fetchHyperliquidCandles(coin, bar, count));
+
+    const candles: RsiCandleSet = { daily: null, weekly: null, hourly: null, fourHour: null, fallback4h: null };
+
+    // ===== Daily candles for RSI + 7D change + technical indicators =====
+    candles.daily = await load('1D', RSI.DAILY_CANDLE_LIMIT);
 
     // Small delay before weekly request
     await new Promise(r => setTimeout(r, TIMING.API_BATCH_DELAY));
-    await hlRateLimiter.waitForSlot();
 
     // ===== Weekly candles for weekly RSI =====
-    try {
-      const weeklyCandles = await fetchCandles(coin, '1w', 100);
-
-      if (weeklyCandles && weeklyCandles.length >= 15) {
-        const closesW = weeklyCandles.map(c => c[4]);
-        rsiW7 = calculateRSI(closesW, 7);
-        rsiW14 = calculateRSI(closesW, 14);
-      }
-    } catch (e) {
-      console.warn(`[Hyperliquid] Weekly RSI failed for ${coin}`);
-    }
+    candles.weekly = await load('1W', RSI.WEEKLY_CANDLE_LIMIT);
 
     // Small delay before hourly request
     await new Promise(r => setTimeout(r, TIMING.API_BATCH_DELAY));
-    await hlRateLimiter.waitForSlot();
 
     // ===== Hourly candles for 1h/4h change + 24h sparkline =====
-    try {
-      const hourlyCandles = await fetchCandles(coin, '1h', 24);
-
-      if (hourlyCandles && hourlyCandles.length >= 2) {
-        sparkline24h = hourlyCandles.map(c => c[4]);
-        const currentClose = hourlyCandles[hourlyCandles.length - 1][4];
-
-        // 1h change
-        if (hourlyCandles.length >= 2) {
-          const prev1hClose = hourlyCandles[hourlyCandles.length - 2][4];
-          if (prev1hClose > 0) {
-            change1h = ((currentClose - prev1hClose) / prev1hClose) * 100;
-          }
-        }
-
-        // 4h change
-        if (hourlyCandles.length >= 5) {
-          const prev4hClose = hourlyCandles[hourlyCandles.length - 5][4];
-          if (prev4hClose > 0) {
-            change4h = ((currentClose - prev4hClose) / prev4hClose) * 100;
-          }
-        }
-      }
-    } catch (e) {
+    candles.hourly = await load('1H', getHourlyCandleLimit(pairs));
+
+    if (!candles.hourly || candles.hourly.length < 2) {
       console.warn(`[Hyperliquid] 1H data failed for ${coin}`);
+      // Fallback: 4H candles for change4h only
+      candles.fallback4h = await fetchHyperliquidCandles(coin, '4H', 2);
+    }
 
-      // Fallback: fetch 4H candles for change4h only
-      try {
-        await hlRateLimiter.waitForSlot();
-        const candles4h = await fetchCandles(coin, '4h', 2);
-
-        if (candles4h && candles4h.length >= 2) {
-          const currentClose = candles4h[candles4h.length - 1][4];
-          const prevClose = candles4h[candles4h.length - 2][4];
-          if (prevClose > 0) {
-            change4h = ((currentClose - prevClose) / prevClose) * 100;
-          }
-        }
-      } catch (e2) {
-        console.warn(`[Hyperliquid] 4H fallback failed for ${coin}`);
-      }
+    // ===== 4h candles only when a configured pair needs them =====
+    if (hasRsiPairsOnBar(pairs, '4H')) {
+      await new Promise(r => setTimeout(r, TIMING.API_BATCH_DELAY));
+      candles.fourHour = await load('4H', RSI_PAIRS.CANDLE_LIMIT);
     }
 
-    return {
-      rsi7,
-      rsi14,
-      rsiW7,
-      rsiW14,
-      change1h,
-      change4h,
-      change7d,
-      sparkline7d,
-      sparkline24h,
-      lastUpdated: Date.now(),
-    };
+    // RSI / indicator math runs in the compute worker
+    return await computeRsiData(candles, pairs, live ? liveRsiKey('hyperliquid', coin) : undefined);
   } catch (error) {
     console.error(`[Hyperliquid] Failed to fetch RSI for ${coin}:`, error);
     return null;
@@ -217,7 +172,9 @@ export async function fetchHyperliquidRSIBatch(
   existingData: Map<string, RSIData>,
   onProgress: (text: string) => void,
   onUpdate: (coin: string, data: RSIData) => void,
-  tier?: 'top50' | 'tier2' | 'tier3' | 'all'
+  pairs: RsiPair[] = [],
+  tier?: 'top50' | 'tier2' | 'tier3' | 'all',
+  liveCoins?: ReadonlySet<string> // Coins fed live candles (client only)
 ): Promise<void> {
   const now = Date.now();
 
@@ -231,7 +188,7 @@ export async function fetchHyperliquidRSIBatch(
   // Filter coins that need refresh
   const toFetch = coins.filter((coin, index) => {
     const existing = existingData.get(coin);
-    if (!existing) return true;
+    if (!existing || !hasRsiPairValues(existing, pairs)) return true;
     return now - existing.lastUpdated > getStaleThreshold(index);
   });
 
@@ -250,7 +207,7 @@ export async function fetchHyperliquidRSIBatch(
     const coin = top50[i];
     onProgress(`Loading Top 50: ${i + 1}/${top50.length}`);
 
-    const rsiData = await fetchHyperliquidRSIForInstrument(coin);
+    const rsiData = await fetchHyperliquidRSIForInstrument(coin, pairs, liveCoins?.has(coin));
     if (rsiData) {
       onUpdate(coin, rsiData);
     }
@@ -265,7 +222,7 @@ export async function fetchHyperliquidRSIBatch(
     const coin = tier2List[i];
     onProgress(`Loading 51-100: ${i + 1}/${tier2List.length}`);
 
-    const rsiData = await fetchHyperliquidRSIForInstrument(coin);
+    const rsiData = await fetchHyperliquidRSIForInstrument(coin, pairs, liveCoins?.has(coin));
     if (rsiData) {
       onUpdate(coin, rsiData);
     }
@@ -280,7 +237,7 @@ export async function fetchHyperliquidRSIBatch(
     const coin = tier3List[i];
     onProgress(`Loading others: ${i + 1}/${tier3List.length}`);
 
-    const rsiData = await fetchHyperliquidRSIForInstrument(coin);
+    const rsiData = await fetchHyperliquidRSIForInstrument(coin, pairs, liveCoins?.has(coin));
     if (rsiData) {
       onUpdate(coin, rsiData);
     }
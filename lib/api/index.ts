@@ -3,17 +3,43 @@
  * Re-exports all API functions for clean imports
  */
 
+// Exchange adapter contract + registry
+export {
+  type ExchangeAdapter,
+  type ExchangeAdapterFactory,
+  type ExchangeRateLimit,
+  type ExchangeFeatures,
+  type RsiTier,
+} from './exchange-adapter';
+export { EXCHANGE_ADAPTERS } from './exchanges';
+
+// Transport-switching adapter (direct WebSocket or server SSE stream)
+export { StreamDataManager, type StreamDiffCallback, type TransportCallback } from './stream-data-manager';
+
 // OKX Data Manager
 export { OKXHybridDataManager, type TickerUpdateCallback, type StatusCallback } from './okx-data-manager';
 
 // OKX REST API
-export { fetchTickersREST, fetchSpotSymbols, fetchListingDates, fetchFundingRates } from './okx-rest';
+export {
+  fetchTickersREST,
+  fetchSpotSymbols,
+  fetchListingDates,
+  fetchFundingRates,
+  fetchFundingRateHistory,
+  fetchMarkPrices,
+  fetchOpenInterest,
+  fetchOpenInterestChange,
+  fetchOpenInterestChanges,
+} from './okx-rest';
 
 // OKX RSI
-export { fetchRSIForInstrument, fetchRSIBatch } from './okx-rsi';
+export { fetchRSIForInstrument, fetchRSIBatch, fetchOKXCandles } from './okx-rsi';
 
 // CoinGecko
-export { fetchMarketCapData } from './coingecko';
+export { fetchMarketCapData, fetchDominanceData } from './coingecko';
+
+// Shared server snapshot
+export { fetchExchangeSnapshot, type SnapshotResult } from './snapshot';
 
 // Hyperliquid Data Manager
 export { HyperliquidDataManager } from './hyperliquid-data-manager';
@@ -23,8 +49,12 @@ export {
   fetchHyperliquidTickers,
   fetchHyperliquidMeta,
   fetchHyperliquidFundingRates,
+  extractHyperliquidFundingRates,
+  fetchHyperliquidMarksAndFunding,
+  fetchHyperliquidFundingHistory,
   fetchHyperliquidListingDates,
   fetchHyperliquidAllMids,
+  fetchHyperliquidSpotSymbols,
   processHyperliquidTicker,
 } from './hyperliquid-rest';
 
@@ -32,4 +62,26 @@ export {
 export {
   fetchHyperliquidRSIForInstrument,
   fetchHyperliquidRSIBatch,
+  fetchHyperliquidCandles,
 } from './hyperliquid-rsi';
+
+// Binance Data Manager
+export { BinanceHybridDataManager } from './binance-data-manager';
+
+// Binance REST API
+export {
+  fetchBinanceTickers,
+  fetchBinancePerpSymbols,
+  fetchBinanceSpotSymbols,
+  fetchBinanceListingDates,
+  fetchBinanceFundingRates,
+  fetchBinanceFundingHistory,
+  processBinanceTicker,
+} from './binance-rest';
+
+// Binance RSI
+export {
+  fetchBinanceRSIForInstrument,
+  fetchBinanceRSIBatch,
+  fetchBinanceCandles,
+} from './binance-rsi';
@@ -1,24 +1,54 @@
 /**
  * OKX Hybrid Data Manager
  * Manages WebSocket connection for TOP 50 tickers + REST polling for the rest
+ * Implements ExchangeAdapter for the generic exchange store
+ *
+ * TOP 50 also get candle1D / candle1H pushes over the business socket (candle channels
+ * aren't on the public one), forwarded to onCandle for live RSI
  */
 
-import { OKXTicker, ProcessedTicker } from '../types';
+import { OKXTicker, ProcessedTicker, CandleBar, LiveCandleBar, RSIData, RsiPair } from '../types';
 import { processTicker } from '../utils';
-import { API, TIMING, UI } from '../constants';
+import { API, TIMING, UI, RATE_LIMIT, FUNDING } from '../constants';
+import {
+  fetchFundingRates as fetchOKXFundingRates,
+  fetchFundingRateHistory as fetchOKXFundingRateHistory,
+  fetchListingDates as fetchOKXListingDates,
+  fetchSpotSymbols as fetchOKXSpotPairs,
+  fetchOpenInterest as fetchOKXOpenInterest,
+  fetchOpenInterestChanges as fetchOKXOpenInterestChanges,
+} from './okx-rest';
+import { fetchOKXCandles, fetchRSIBatch } from './okx-rsi';
+import type {
+  ExchangeAdapter,
+  RsiTier,
+  TickerUpdateCallback,
+  StatusCallback,
+  CandleUpdateCallback,
+} from './exchange-adapter';
 
 const OKX_WS_PUBLIC = API.OKX_WS_PUBLIC;
 const OKX_REST_BASE = API.OKX_REST_BASE;
 
-export type TickerUpdateCallback = (tickers: Map<string, ProcessedTicker>) => void;
-export type StatusCallback = (status: 'connecting' | 'live' | 'error', time?: Date) => void;
+// Candle channel -> bar of the candle store / live RSI
+const CANDLE_CHANNELS: Record<string, LiveCandleBar> = { candle1D: '1D', candle1H: '1H' };
+
+export type { TickerUpdateCallback, StatusCallback };
 
 // Hybrid data manager: WebSocket for TOP 50 + REST polling for the rest
-export class OKXHybridDataManager {
+export class OKXHybridDataManager implements ExchangeAdapter {
+  readonly id = 'okx' as const;
+  readonly label = 'OKX';
+  readonly features = { listings: true, spot: true, openInterest: true, liveCandles: true };
+  readonly rateLimit = { maxRequestsPerSecond: RATE_LIMIT.MAX_REQUESTS_PER_SECOND, windowMs: RATE_LIMIT.WINDOW_MS };
+  readonly defaultFundingInterval = FUNDING.DEFAULT_INTERVAL_HOURS;
+  readonly fundingRefreshInterval = TIMING.FUNDING_RATES_REFRESH;
+
   private ws: WebSocket | null = null;
   private tickers: Map<string, ProcessedTicker> = new Map();
   private onUpdate: TickerUpdateCallback;
   private onStatus: StatusCallback;
+  private onCandle: CandleUpdateCallback | null;
   private top50InstIds: string[] = [];
   private allInstIds: string[] = [];
   private restPollInterval: NodeJS.Timeout | null = null;
@@ -27,9 +57,15 @@ export class OKXHybridDataManager {
   private isRunning = false;
   private wsConnected = false;
 
-  constructor(onUpdate: TickerUpdateCallback, onStatus: StatusCallback) {
+  // Business socket for candle channels (only with onCandle)
+  private candleWs: WebSocket | null = null;
+  private candleReconnectTimeout: NodeJS.Timeout | null = null;
+  private candlePingInterval: NodeJS.Timeout | null = null;
+
+  constructor(onUpdate: TickerUpdateCallback, onStatus: StatusCallback, onCandle?: CandleUpdateCallback) {
     this.onUpdate = onUpdate;
     this.onStatus = onStatus;
+    this.onCandle = onCandle ?? null;
   }
 
   async start(): Promise<void> {
@@ -40,8 +76,9 @@ export class OKXHybridDataManager {
     // Step 1: Fetch all tickers via REST to get initial data and determine TOP 50
     await this.fetchAllTickers();
 
-    // Step 2: Connect WebSocket for TOP 50
+    // Step 2: Connect WebSocket for TOP 50 (tickers + candles)
     this.connectWebSocket();
+    this.connectCandleWebSocket();
 
     // Step 3: Start REST polling for non-TOP 50
     this.startRestPolling();
@@ -93,6 +130,8 @@ export class OKXHybridDataManager {
   }
 
   private connectWebSocket(): void {
+    // No global WebSocket (snapshot worker on Node < 22): REST polling covers every ticker
+    if (typeof WebSocket === 'undefined') return;
     if (this.ws?.readyState === WebSocket.OPEN) return;
     if (this.top50InstIds.length === 0) return;
 
@@ -185,6 +224,89 @@ export class OKXHybridDataManager {
     }
   }
 
+  private connectCandleWebSocket(): void {
+    if (!this.onCandle || typeof WebSocket === 'undefined') return;
+    if (this.candleWs?.readyState === WebSocket.OPEN) return;
+    if (this.top50InstIds.length === 0) return;
+
+    try {
+      this.candleWs = new WebSocket(API.OKX_WS_BUSINESS);
+
+      this.candleWs.onopen = () => {
+        console.log('Candle WebSocket connected, subscribing to TOP 50...');
+
+        // Two channels per instrument, so half the instruments per batch
+        const batchSize = Math.max(1, Math.floor(UI.WS_SUBSCRIBE_BATCH_SIZE / 2));
+        for (let i = 0; i < this.top50InstIds.length; i += batchSize) {
+          const batch = this.top50InstIds.slice(i, i + batchSize);
+          const subscribeMsg = {
+            op: 'subscribe',
+            args: batch.flatMap(instId => Object.keys(CANDLE_CHANNELS).map(channel => ({ channel, instId }))),
+          };
+          this.candleWs?.send(JSON.stringify(subscribeMsg));
+        }
+
+        this.candlePingInterval = setInterval(() => {
+          if (this.candleWs?.readyState === WebSocket.OPEN) {
+            this.candleWs.send('ping');
+          }
+        }, TIMING.WS_PING_INTERVAL);
+      };
+
+      this.candleWs.onmessage = (event) => {
+        if (event.data === 'pong') return;
+
+        try {
+          const data = JSON.parse(event.data);
+
+          if (data.event === 'error') {
+            console.error('Candle WebSocket error:', data.msg);
+            return;
+          }
+
+          // [ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm], same bars as REST candles
+          const bar = CANDLE_CHANNELS[data.arg?.channel];
+          if (bar && data.arg.instId && data.data) {
+            data.data.forEach((c: string[]) => {
+              this.onCandle?.({ instId: data.arg.instId, bar, candle: c.slice(0, 6).map(parseFloat) });
+            });
+          }
+        } catch (e) {
+          // Ignore parse errors for non-JSON messages
+        }
+      };
+
+      this.candleWs.onerror = (error) => {
+        console.error('Candle WebSocket error:', error);
+      };
+
+      this.candleWs.onclose = () => {
+        console.log('Candle WebSocket closed');
+        this.stopCandlePing();
+
+        if (this.isRunning) {
+          this.candleReconnectTimeout = setTimeout(() => {
+            this.connectCandleWebSocket();
+          }, TIMING.WS_RECONNECT_DELAY);
+        }
+      };
+    } catch (error) {
+      console.error('Failed to create candle WebSocket:', error);
+      if (this.isRunning) {
+        this.candleReconnectTimeout = setTimeout(() => {
+          this.connectCandleWebSocket();
+        }, TIMING.WS_RECONNECT_FALLBACK);
+      }
+    }
+  }
+
+  private stopCandlePing(): void {
+    if (this.candlePingInterval) {
+      clearInterval(this.candlePingInterval);
+      this.candlePingInterval = null;
+    }
+  }
+
   private startPing(): void {
     this.pingInterval = setInterval(() => {
       if (this.ws?.readyState === WebSocket.OPEN) {
@@ -262,6 +384,17 @@ export class OKXHybridDataManager {
       this.ws = null;
     }
 
+    // Stop candle WebSocket
+    this.stopCandlePing();
+    if (this.candleReconnectTimeout) {
+      clearTimeout(this.candleReconnectTimeout);
+      this.candleReconnectTimeout = null;
+    }
+    if (this.candleWs) {
+      this.candleWs.close();
+      this.candleWs = null;
+    }
+
     // Stop REST polling
     if (this.restPollInterval) {
       clearInterval(this.restPollInterval);
@@ -280,4 +413,53 @@ export class OKXHybridDataManager {
   getAllInstIds(): string[] {
     return [...this.allInstIds];
   }
+
+  fetchFundingRates() {
+    return fetchOKXFundingRates();
+  }
+
+  fetchFundingHistory(instId: string, startTime: number) {
+    return fetchOKXFundingRateHistory(instId, startTime);
+  }
+
+  fetchListingDates() {
+    return fetchOKXListingDates();
+  }
+
+  // OKX spot pairs come back as "BTC-USDT"; the adapter contract wants base symbols
+  async fetchSpotSymbols(): Promise<Set<string>> {
+    const pairs = await fetchOKXSpotPairs();
+    const bases = new Set<string>();
+    pairs.forEach(pair => {
+      if (pair.endsWith('-USDT')) {
+        bases.add(pair.slice(0, -'-USDT'.length));
+      }
+    });
+    return bases;
+  }
+
+  fetchOpenInterest() {
+    return fetchOKXOpenInterest();
+  }
+
+  fetchOpenInterestChanges(instIds: string[], onUpdate: (instId: string, change: number) => void) {
+    return fetchOKXOpenInterestChanges(instIds, onUpdate);
+  }
+
+  fetchCandles(instId: string, bar: CandleBar, limit: number) {
+    return fetchOKXCandles(instId, bar, limit);
+  }
+
+  fetchRSIBatch(
+    instIds: string[],
+    existingData: Map<string, RSIData>,
+    onProgress: (text: string) => void,
+    onUpdate: (instId: string, data: RSIData) => void,
+    pairs: RsiPair[],
+    tier?: RsiTier
+  ) {
+    // Only instruments on the candle socket keep a live RSI state
+    const live = this.candleWs ? new Set(this.top50InstIds) : undefined;
+    return fetchRSIBatch(instIds, existingData, onProgress, onUpdate, pairs, tier, live);
+  }
 }
@@ -3,9 +3,21 @@
  * Handles all REST API calls to OKX
  */
 
-import { OKXTicker, OKXInstrument, OKXFundingRate, FundingRateData, ListingData, ProcessedTicker } from '../types';
-import { processTicker } from '../utils';
-import { API, TIMING, RATE_LIMIT } from '../constants';
+import {
+  OKXTicker,
+  OKXInstrument,
+  OKXFundingRate,
+  OKXFundingRateHistory,
+  OKXMarkPrice,
+  OKXOpenInterest,
+  FundingRateData,
+  FundingHistoryPoint,
+  OpenInterestData,
+  ListingData,
+  ProcessedTicker,
+} from '../types';
+import { processTicker, RateLimiter } from '../utils';
+import { API, TIMING, RATE_LIMIT, FUNDING_HISTORY } from '../constants';
 
 const OKX_REST_BASE = API.OKX_REST_BASE;
 
@@ -155,3 +167,142 @@ export async function fetchFundingRates(): Promise<Map<string, FundingRateData>>
     return new Map();
   }
 }
+
+// General OKX REST budget, shared with candle fetching (lib/api/okx-rsi)
+export const okxRateLimiter = new RateLimiter(RATE_LIMIT.MAX_REQUESTS_PER_SECOND, RATE_LIMIT.WINDOW_MS);
+
+// Fetch settled funding rates for one instrument since startTime (oldest first)
+// OKX pages newest-first, 100 rows per page; `after` walks back in time
+export async function fetchFundingRateHistory(instId: string, startTime: number): Promise<FundingHistoryPoint[]> {
+  const points: FundingHistoryPoint[] = [];
+  let after = '';
+
+  try {
+    for (let page = 0; page < FUNDING_HISTORY.MAX_PAGES; page++) {
+      await okxRateLimiter.waitForSlot();
+      const response = await fetch(
+        `${OKX_REST_BASE}/public/funding-rate-history?instId=${instId}&limit=100${after ? `&after=${after}` : ''}`
+      );
+      if (!response.ok) {
+        console.error(`Failed to fetch funding history for ${instId}: HTTP ${response.status}`);
+        break;
+      }
+      const data = await response.json();
+      if (data.code !== '0' || !data.data || data.data.length === 0) break;
+
+      const rows = data.data as OKXFundingRateHistory[];
+      rows.forEach(row => {
+        const fundingTime = parseInt(row.fundingTime, 10);
+        if (fundingTime >= startTime) {
+          points.push({
+            fundingTime,
+            fundingRate: parseFloat(row.realizedRate || row.fundingRate) || 0,
+          });
+        }
+      });
+
+      const oldest = rows[rows.length - 1].fundingTime;
+      if (parseInt(oldest, 10) < startTime || rows.length < 100) break;
+      after = oldest;
+    }
+  } catch (error) {
+    console.error(`Failed to fetch funding history for ${instId}:`, error);
+  }
+
+  return points.sort((a, b) => a.fundingTime - b.fundingTime);
+}
+
+// Fetch mark prices for all USDT SWAP instruments (instId → markPx)
+export async function fetchMarkPrices(): Promise<Map<string, number>> {
+  try {
+    const response = await fetch(`${OKX_REST_BASE}/public/mark-price?instType=SWAP`);
+    if (!response.ok) {
+      console.error(`Failed to fetch mark prices: HTTP ${response.status}`);
+      return new Map();
+    }
+    const data = await response.json();
+
+    const result = new Map<string, number>();
+    if (data.code === '0' && data.data) {
+      data.data.forEach((m: OKXMarkPrice) => {
+        const markPx = parseFloat(m.markPx);
+        if (m.instId.includes('-USDT-') && markPx > 0) {
+          result.set(m.instId, markPx);
+        }
+      });
+    }
+    return result;
+  } catch (error) {
+    console.error('Failed to fetch mark prices:', error);
+    return new Map();
+  }
+}
+
+// Rubik endpoints have their own, much tighter rate limit
+const rubikRateLimiter = new RateLimiter(RATE_LIMIT.OKX_RUBIK_MAX_REQUESTS, RATE_LIMIT.OKX_RUBIK_WINDOW_MS);
+
+// Fetch current open interest for all USDT SWAP instruments (24h change filled in later)
+export async function fetchOpenInterest(): Promise<Map<string, OpenInterestData>> {
+  try {
+    const response = await fetch(`${OKX_REST_BASE}/public/open-interest?instType=SWAP`);
+    if (!response.ok) {
+      console.error(`Failed to fetch open interest: HTTP ${response.status}`);
+      return new Map();
+    }
+    const data = await response.json();
+
+    const result = new Map<string, OpenInterestData>();
+    if (data.code === '0' && data.data) {
+      data.data.forEach((oi: OKXOpenInterest) => {
+        if (!oi.instId.includes('-USDT-')) return;
+        result.set(oi.instId, {
+          oiUsd: parseFloat(oi.oiUsd) || 0,
+          oiChange24h: null,
+          lastUpdated: parseInt(oi.ts, 10) || Date.now()
+        });
+      });
+    }
+    return result;
+  } catch (error) {
+    console.error('Failed to fetch open interest:', error);
+    return new Map();
+  }
+}
+
+// Fetch 24h open interest change (%) for one instrument from hourly OI history
+export async function fetchOpenInterestChange(instId: string): Promise<number | null> {
+  try {
+    await rubikRateLimiter.waitForSlot();
+    const response = await fetch(
+      `${OKX_REST_BASE}/rubik/stat/contracts/open-interest-history?instId=${instId}&period=1H&limit=25`
+    );
+    if (!response.ok) {
+      console.warn(`Open interest history HTTP error for ${instId}: ${response.status}`);
+      return null;
+    }
+    const data = await response.json();
+
+    // Rows are [ts, oi, oiCcy, oiUsd], newest first
+    if (data.code !== '0' || !data.data || data.data.length < 25) return null;
+    const latest = parseFloat(data.data[0][3]);
+    const dayAgo = parseFloat(data.data[24][3]);
+    if (!dayAgo) return null;
+    return ((latest - dayAgo) / dayAgo) * 100;
+  } catch (error) {
+    console.warn(`Failed to fetch open interest history for ${instId}:`, error);
+    return null;
+  }
+}
+
+// Fetch 24h OI change for many instruments, reporting each as it arrives
+export async function fetchOpenInterestChanges(
+  instIds: string[],
+  onUpdate: (instId: string, change: number) => void
+): Promise<void> {
+  for (const instId of instIds) {
+    const change = await fetchOpenInterestChange(instId);
+    if (change !== null) {
+      onUpdate(instId, change);
+    }
+  }
+}
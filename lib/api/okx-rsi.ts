@@ -1,144 +1,97 @@
 /**
  * OKX RSI calculation functions
- * Handles fetching and calculating RSI data
+ * Handles fetching candles; RSI / indicator math is lib/rsi-data (run in the compute worker)
+ * Candles are kept in the IndexedDB candle store (lib/candle-store) between refreshes
  */
 
-import { RSIData } from '../types';
-import { calculateRSI, calculate7DChange, Mutex, RateLimiter } from '../utils';
-import { API, TIMING, RATE_LIMIT } from '../constants';
+import { RSIData, CandleBar, RsiPair } from '../types';
+import { Mutex } from '../utils';
+import { API, TIMING, RSI, RSI_PAIRS } from '../constants';
+import { getHourlyCandleLimit, hasRsiPairsOnBar, hasRsiPairValues } from '../rsi-pairs';
+import { loadCandles } from '../candle-store';
+import { okxRateLimiter } from './okx-rest';
+import { computeRsiData } from '../compute-client';
+import { liveRsiKey } from '../live-rsi';
+import type { RsiCandleSet } from '../compute-protocol';
 
 const OKX_REST_BASE = API.OKX_REST_BASE;
 
 // Global mutex for RSI fetching to prevent concurrent API calls
 const rsiMutex = new Mutex();
-const rateLimiter = new RateLimiter(RATE_LIMIT.MAX_REQUESTS_PER_SECOND, RATE_LIMIT.WINDOW_MS);
-
-// Fetch RSI data for a single instrument with mutex protection
-export async function fetchRSIForInstrument(instId: string): Promise<RSIData | null> {
-  await rsiMutex.acquire();
 
+// Fetch candles as [timestamp, open, high, low, close, volume], oldest first
+export async function fetchOKXCandles(
+  instId: string,
+  bar: CandleBar,
+  limit: number
+): Promise<number[][] | null> {
   try {
-    await rateLimiter.waitForSlot();
-
-    // Fetch daily candles for RSI and 7D change
-    // Need more candles for RSI to converge properly (TradingView uses ~100+ bars)
-    const response = await fetch(`${OKX_REST_BASE}/market/candles?instId=${instId}&bar=1D&limit=100`);
+    await okxRateLimiter.waitForSlot();
+    const response = await fetch(`${OKX_REST_BASE}/market/candles?instId=${instId}&bar=${bar}&limit=${limit}`);
     if (!response.ok) {
-      console.warn(`Daily candles HTTP error for ${instId}: ${response.status}`);
+      console.warn(`Candles HTTP error for ${instId} ${bar}: ${response.status}`);
       return null;
     }
     const data = await response.json();
 
-    let rsi7: number | null = null;
-    let rsi14: number | null = null;
-    let rsiW7: number | null = null;
-    let rsiW14: number | null = null;
-    let change1h: number | null = null;
-    let change4h: number | null = null;
-    let change7d: number | null = null;
-    let sparkline7d: number[] | undefined;
-    let sparkline24h: number[] | undefined;
-
-    if (data.code === '0' && data.data && data.data.length >= 15) {
-      // OKX returns newest first, include current candle to match OKX's own RSI display
-      const candles = [...data.data].reverse();
-      const closes = candles.map((c: string[]) => parseFloat(c[4]));
-
-      rsi7 = calculateRSI(closes, 7);
-      rsi14 = calculateRSI(closes, 14);
-      change7d = calculate7DChange(candles.map((c: string[]) => c.map(parseFloat)));
-
-      // Save last 7 days of closes for sparkline (from daily candles)
-      sparkline7d = closes.slice(-7);
+    if (data.code !== '0' || !data.data || data.data.length === 0) {
+      return null;
     }
 
+    // OKX returns newest first
+    return [...data.data].reverse().map((c: string[]) => c.slice(0, 6).map(parseFloat));
+  } catch (error) {
+    console.warn(`Failed to fetch candles for ${instId} ${bar}:`, error);
+    return null;
+  }
+}
+
+// Fetch RSI data for a single instrument with mutex protection
+// Configured pairs reuse the 1D / 1W / 1H candles; 4H is only requested when a pair needs it
+// Candles go through the candle store, so a refresh only downloads the newest bars
+// `live`: the instrument gets candle pushes, so the computation also seeds its live RSI state
+export async function fetchRSIForInstrument(
+  instId: string,
+  pairs: RsiPair[] = [],
+  live = false
+): Promise<RSIData | null> {
+  await rsiMutex.acquire();
+
+  try {
+    const load = (bar: CandleBar, limit: number) =>
+      loadCandles('okx', instId, bar, limit, count => fetchOKXCandles(instId, bar, count));
+
+    const candles: RsiCandleSet = { daily: null, weekly: null, hourly: null, fourHour: null, fallback4h: null };
+
+    // Daily candles for RSI, 7D change and the technical indicators
+    candles.daily = await load('1D', RSI.DAILY_CANDLE_LIMIT);
+
     // Small delay before weekly request
     await new Promise(r => setTimeout(r, TIMING.API_BATCH_DELAY));
-    await rateLimiter.waitForSlot();
-
-    // Fetch weekly candles for weekly RSI
-    // Need more candles for RSI to converge properly
-    try {
-      const responseW = await fetch(`${OKX_REST_BASE}/market/candles?instId=${instId}&bar=1W&limit=100`);
-      const dataW = await responseW.json();
-
-      if (dataW.code === '0' && dataW.data && dataW.data.length >= 15) {
-        // Include current candle to match OKX's own RSI display
-        const candlesW = [...dataW.data].reverse();
-        const closesW = candlesW.map((c: string[]) => parseFloat(c[4]));
-
-        rsiW7 = calculateRSI(closesW, 7);
-        rsiW14 = calculateRSI(closesW, 14);
-      }
-    } catch (e) {
-      console.warn(`Weekly RSI data failed for ${instId}`);
-    }
 
-    // Small delay before 1H request
+    // Weekly candles for weekly RSI
+    candles.weekly = await load('1W', RSI.WEEKLY_CANDLE_LIMIT);
+
+    // Small delay before hourly request
     await new Promise(r => setTimeout(r, TIMING.API_BATCH_DELAY));
-    await rateLimiter.waitForSlot();
-
-    // Fetch 1H candles for 24h sparkline (24 data points)
-    try {
-      const response1h = await fetch(`${OKX_REST_BASE}/market/candles?instId=${instId}&bar=1H&limit=24`);
-      const data1h = await response1h.json();
-
-      if (data1h.code === '0' && data1h.data && data1h.data.length >= 2) {
-        // Reverse to chronological order and extract closes
-        const candles1h = [...data1h.data].reverse();
-        sparkline24h = candles1h.map((c: string[]) => parseFloat(c[4]));
-
-        const currentClose = parseFloat(candles1h[candles1h.length - 1][4]);
-
-        // Calculate 1h change from the last 1 hour
-        if (candles1h.length >= 2) {
-          const prev1hClose = parseFloat(candles1h[candles1h.length - 2][4]);
-          if (prev1hClose > 0) {
-            change1h = ((currentClose - prev1hClose) / prev1hClose) * 100;
-          }
-        }
-
-        // Calculate 4h change from the last 4 hours
-        if (candles1h.length >= 5) {
-          const prev4hClose = parseFloat(candles1h[candles1h.length - 5][4]);
-          if (prev4hClose > 0) {
-            change4h = ((currentClose - prev4hClose) / prev4hClose) * 100;
-          }
-        }
-      }
-    } catch (e) {
+
+    // 1H candles for 24h sparkline (24 data points, more when 1H pairs are configured)
+    candles.hourly = await load('1H', getHourlyCandleLimit(pairs));
+
+    if (!candles.hourly || candles.hourly.length < 2) {
       console.warn(`1H data failed for ${instId}`);
+      // Fallback: 4H candles for change4h only
+      candles.fallback4h = await fetchOKXCandles(instId, '4H', 2);
+    }
 
-      // Fallback: fetch 4H candles for change4h only
-      try {
-        await rateLimiter.waitForSlot();
-        const response4h = await fetch(`${OKX_REST_BASE}/market/candles?instId=${instId}&bar=4H&limit=2`);
-        const data4h = await response4h.json();
-
-        if (data4h.code === '0' && data4h.data && data4h.data.length >= 2) {
-          const currentClose = parseFloat(data4h.data[0][4]);
-          const prevClose = parseFloat(data4h.data[1][4]);
-          if (prevClose > 0) {
-            change4h = ((currentClose - prevClose) / prevClose) * 100;
-          }
-        }
-      } catch (e2) {
-        console.warn(`4H fallback failed for ${instId}`);
-      }
+    // 4H candles only when a configured pair needs them
+    if (hasRsiPairsOnBar(pairs, '4H')) {
+      await new Promise(r => setTimeout(r, TIMING.API_BATCH_DELAY));
+      candles.fourHour = await load('4H', RSI_PAIRS.CANDLE_LIMIT);
     }
 
-    return {
-      rsi7,
-      rsi14,
-      rsiW7,
-      rsiW14,
-      change1h,
-      change4h,
-      change7d,
-      sparkline7d,
-      sparkline24h,
-      lastUpdated: Date.now()
-    };
+    // RSI / indicator math runs in the compute worker
+    return await computeRsiData(candles, pairs, live ? liveRsiKey('okx', instId) : undefined);
   } catch (error) {
     console.error(`Failed to fetch RSI for ${instId}:`, error);
     return null;
@@ -154,7 +107,9 @@ export async function fetchRSIBatch(
   existingData: Map<string, RSIData>,
   onProgress: (text: string) => void,
   onUpdate: (instId: string, data: RSIData) => void,
-  tier?: 'top50' | 'tier2' | 'tier3' | 'all' // Optional: fetch specific tier only
+  pairs: RsiPair[] = [],
+  tier?: 'top50' | 'tier2' | 'tier3' | 'all', // Optional: fetch specific tier only
+  liveInstIds?: ReadonlySet<string> // Instruments fed live candles (client only)
 ): Promise<void> {
   const now = Date.now();
 
@@ -168,7 +123,7 @@ export async function fetchRSIBatch(
   // Filter based on tier-specific stale thresholds
   const toFetch = instIds.filter((id, index) => {
     const existing = existingData.get(id);
-    if (!existing) return true;
+    if (!existing || !hasRsiPairValues(existing, pairs)) return true;
     return now - existing.lastUpdated > getStaleThreshold(index);
   });
 
@@ -187,7 +142,7 @@ export async function fetchRSIBatch(
     const instId = top50[i];
     onProgress(`Loading Top 50: ${i + 1}/${top50.length}`);
 
-    const rsiData = await fetchRSIForInstrument(instId);
+    const rsiData = await fetchRSIForInstrument(instId, pairs, liveInstIds?.has(instId));
     if (rsiData) {
       onUpdate(instId, rsiData);
     }
@@ -202,7 +157,7 @@ export async function fetchRSIBatch(
     const instId = tier2List[i];
     onProgress(`Loading 51-100: ${i + 1}/${tier2List.length}`);
 
-    const rsiData = await fetchRSIForInstrument(instId);
+    const rsiData = await fetchRSIForInstrument(instId, pairs, liveInstIds?.has(instId));
     if (rsiData) {
       onUpdate(instId, rsiData);
     }
@@ -217,7 +172,7 @@ export async function fetchRSIBatch(
     const instId = tier3List[i];
     onProgress(`Loading others: ${i + 1}/${tier3List.length}`);
 
-    const rsiData = await fetchRSIForInstrument(instId);
+    const rsiData = await fetchRSIForInstrument(instId, pairs, liveInstIds?.has(instId));
     if (rsiData) {
       onUpdate(instId, rsiData);
     }
@@ -0,0 +1,44 @@
+/**
+ * Shared snapshot API
+ * Loads the server-computed RSI / funding / listing snapshot (/api/snapshot)
+ * Conditional requests: an unchanged snapshot costs a 304 with no body
+ */
+
+import { ExchangeId, ExchangeSnapshot } from '../types';
+
+export type SnapshotResult =
+  | { status: 'ok'; snapshot: ExchangeSnapshot; etag: string | null }
+  | { status: 'not-modified' };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Returns null when the snapshot API is unavailable (callers fall back to direct fetching)
+export async function fetchExchangeSnapshot(
+  exchange: ExchangeId,
+  etag: string | null
+): Promise<SnapshotResult | null> {
+  try {
+    const response = await fetch(`/api/snapshot?exchange=${exchange}`, {
+      headers: etag ? { 'If-None-Match': etag } : undefined,
+      cache: 'no-store',
+    });
+
+    if (response.status === 304) return { status: 'not-modified' };
+    if (!response.ok) {
+      console.error(`[Snapshot] HTTP error: ${response.status}`);
+      return null;
+    }
+
+    const data = await response.json();
+    if (data?.exchange !== exchange || !isRecord(data.rsi) || !isRecord(data.fundingRates) || !isRecord(data.listings)) {
+      console.error('[Snapshot] Unexpected snapshot shape');
+      return null;
+    }
+    return { status: 'ok', snapshot: data as ExchangeSnapshot, etag: response.headers.get('ETag') };
+  } catch (error) {
+    console.error('[Snapshot] Failed to fetch snapshot:', error);
+    return null;
+  }
+}
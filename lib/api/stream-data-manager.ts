@@ -0,0 +1,304 @@
+/**
+ * Stream Data Manager
+ * Live tickers from the server's SSE stream (/api/stream) or from the venue's own
+ * data manager, whichever transport is preferred
+ * Implements ExchangeAdapter for the generic exchange store
+ *
+ * - Falls back once to the other transport when the preferred one fails:
+ *   SSE when no tickers arrive within STREAM.CONNECT_TIMEOUT or the connection keeps
+ *   erroring, direct when the venue can't be reached at all
+ * - Funding / listings / candles / RSI always go through the venue adapter
+ * - Funding and RSI pushed by the stream are handed to onDiff
+ * - Candle pushes (live RSI) only exist on the direct transport and go to onCandle
+ */
+
+import {
+  ExchangeId,
+  ProcessedTicker,
+  CandleBar,
+  RSIData,
+  RsiPair,
+  StreamDiff,
+  StreamTransport,
+} from '../types';
+import { STREAM, UI } from '../constants';
+import { applyTickerPatch } from '../stream-diff';
+import { EXCHANGE_ADAPTERS } from './exchanges';
+import type {
+  ExchangeAdapter,
+  RsiTier,
+  TickerUpdateCallback,
+  StatusCallback,
+  CandleUpdateCallback,
+} from './exchange-adapter';
+
+export type StreamDiffCallback = (diff: StreamDiff) => void;
+export type TransportCallback = (transport: StreamTransport) => void;
+
+export class StreamDataManager implements ExchangeAdapter {
+  readonly id: ExchangeId;
+  readonly label: string;
+  readonly features: ExchangeAdapter['features'];
+  readonly rateLimit: ExchangeAdapter['rateLimit'];
+  readonly defaultFundingInterval: number;
+  readonly fundingRefreshInterval: number;
+
+  private direct: ExchangeAdapter;
+  private source: EventSource | null = null;
+  private tickers: Map<string, ProcessedTicker> = new Map();
+  private onUpdate: TickerUpdateCallback;
+  private onStatus: StatusCallback;
+  private onDiff: StreamDiffCallback;
+  private onTransport: TransportCallback;
+  private preferred: StreamTransport;
+  private active: StreamTransport | null = null;
+  private connectTimeout: NodeJS.Timeout | null = null;
+  private sseErrors = 0;
+  private directLive = false;
+  private directFailed = false;
+  private fellBack = false;
+  private isRunning = false;
+
+  constructor(
+    exchange: ExchangeId,
+    preferred: StreamTransport,
+    onUpdate: TickerUpdateCallback,
+    onStatus: StatusCallback,
+    onDiff: StreamDiffCallback,
+    onTransport: TransportCallback,
+    onCandle?: CandleUpdateCallback
+  ) {
+    this.onUpdate = onUpdate;
+    this.onStatus = onStatus;
+    this.onDiff = onDiff;
+    this.onTransport = onTransport;
+    this.preferred = preferred;
+
+    // Late updates from a stopped direct feed (in-flight REST poll) must not overwrite the stream
+    this.direct = EXCHANGE_ADAPTERS[exchange](
+      (tickers) => {
+        if (this.active === 'direct') this.onUpdate(tickers);
+      },
+      (status, time) => this.handleDirectStatus(status, time),
+      onCandle && ((update) => {
+        if (this.active === 'direct') onCandle(update);
+      })
+    );
+    this.id = this.direct.id;
+    this.label = this.direct.label;
+    this.features = this.direct.features;
+    this.rateLimit = this.direct.rateLimit;
+    this.defaultFundingInterval = this.direct.defaultFundingInterval;
+    this.fundingRefreshInterval = this.direct.fundingRefreshInterval;
+  }
+
+  // Resolves once the first tickers arrived (or the fallback transport started)
+  async start(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    await this.startTransport(this.preferred);
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    this.stopTransport();
+  }
+
+  // Change the preferred transport while running
+  async setTransport(transport: StreamTransport): Promise<void> {
+    this.preferred = transport;
+    this.fellBack = false;
+    if (!this.isRunning || this.active === transport) return;
+    this.stopTransport();
+    await this.startTransport(transport);
+  }
+
+  private startTransport(transport: StreamTransport): Promise<void> {
+    this.active = transport;
+    this.onTransport(transport);
+    return transport === 'sse' ? this.startSse() : this.startDirect();
+  }
+
+  private stopTransport(): void {
+    if (this.connectTimeout) {
+      clearTimeout(this.connectTimeout);
+      this.connectTimeout = null;
+    }
+    this.source?.close();
+    this.source = null;
+    this.direct.stop();
+    this.active = null;
+  }
+
+  // Switch to the other transport, once per preference
+  private async fallBack(reason: string): Promise<void> {
+    if (!this.isRunning || this.fellBack || !this.active) return;
+    this.fellBack = true;
+    const next: StreamTransport = this.active === 'sse' ? 'direct' : 'sse';
+    console.warn(`[Stream] ${reason}, falling back to ${next === 'sse' ? 'server stream' : 'direct WebSocket'}`);
+    this.stopTransport();
+    await this.startTransport(next);
+  }
+
+  // ===== Direct (venue WebSocket + REST polling) =====
+
+  private async startDirect(): Promise<void> {
+    this.directLive = false;
+    this.directFailed = false;
+    await this.direct.start();
+    if (this.directFailed && !this.directLive) {
+      await this.fallBack(`${this.label} unreachable`);
+    }
+  }
+
+  private handleDirectStatus(status: 'connecting' | 'live' | 'error', time?: Date): void {
+    if (this.active !== 'direct') return;
+    if (status === 'live') this.directLive = true;
+    if (status === 'error') this.directFailed = true;
+    this.onStatus(status, time);
+  }
+
+  // ===== Server-Sent Events =====
+
+  private startSse(): Promise<void> {
+    this.onStatus('connecting');
+    this.sseErrors = 0;
+
+    return new Promise<void>(resolve => {
+      const source = new EventSource(`/api/stream?exchange=${this.id}`);
+      this.source = source;
+      let ready = false;
+
+      const fail = (reason: string) => {
+        if (this.source !== source) return;
+        this.fallBack(reason).then(resolve);
+      };
+
+      this.connectTimeout = setTimeout(() => {
+        if (!ready) fail('Server stream timed out');
+      }, STREAM.CONNECT_TIMEOUT);
+
+      // Sent on every (re)connect, replaces the ticker set
+      source.addEventListener('init', (event) => {
+        let snapshot;
+        try {
+          snapshot = JSON.parse((event as MessageEvent<string>).data);
+        } catch (e) {
+          // Keep the current tickers; before the first init the connect timeout falls back
+          console.error('[Stream] Bad init message:', e);
+          return;
+        }
+        this.tickers = new Map();
+        this.applyDiff(snapshot);
+        this.sseErrors = 0;
+        if (!ready) {
+          ready = true;
+          if (this.connectTimeout) {
+            clearTimeout(this.connectTimeout);
+            this.connectTimeout = null;
+          }
+          resolve();
+        }
+      });
+
+      source.onmessage = (event) => {
+        try {
+          this.applyDiff(JSON.parse(event.data));
+          this.sseErrors = 0;
+        } catch (e) {
+          console.error('[Stream] Bad message:', e);
+        }
+      };
+
+      // EventSource reconnects by itself; CLOSED means the server refused the stream
+      source.onerror = () => {
+        this.sseErrors++;
+        if (source.readyState === EventSource.CLOSED || this.sseErrors >= STREAM.MAX_ERRORS) {
+          fail('Server stream failed');
+        } else {
+          this.onStatus('connecting');
+        }
+      };
+    });
+  }
+
+  private applyDiff(diff: StreamDiff): void {
+    if (diff.tickers) {
+      Object.entries(diff.tickers).forEach(([instId, patch]) => {
+        this.tickers.set(instId, applyTickerPatch(this.tickers.get(instId), patch));
+      });
+    }
+    diff.removed?.forEach(instId => this.tickers.delete(instId));
+
+    if (diff.tickers || diff.removed) {
+      this.onUpdate(new Map(this.tickers));
+    }
+    if (diff.fundingRates || diff.rsi) {
+      this.onDiff(diff);
+    }
+    this.onStatus('live', new Date(diff.time));
+  }
+
+  // Streamed instruments, highest 24h quote volume first
+  private sortedStreamInstIds(): string[] {
+    const quoteVolume = (t: ProcessedTicker) => (parseFloat(t.volCcy24h) || 0) * t.priceNum;
+    return Array.from(this.tickers.values())
+      .sort((a, b) => quoteVolume(b) - quoteVolume(a))
+      .map(t => t.instId);
+  }
+
+  // ===== Tickers =====
+
+  getTickers(): Map<string, ProcessedTicker> {
+    return this.active === 'sse' ? new Map(this.tickers) : this.direct.getTickers();
+  }
+
+  getTop50InstIds(): string[] {
+    return this.active === 'sse' ? this.sortedStreamInstIds().slice(0, UI.TOP50_COUNT) : this.direct.getTop50InstIds();
+  }
+
+  getAllInstIds(): string[] {
+    return this.active === 'sse' ? this.sortedStreamInstIds() : this.direct.getAllInstIds();
+  }
+
+  // ===== Venue REST (unchanged by transport) =====
+
+  fetchFundingRates() {
+    return this.direct.fetchFundingRates();
+  }
+
+  fetchFundingHistory(instId: string, startTime: number) {
+    return this.direct.fetchFundingHistory(instId, startTime);
+  }
+
+  fetchListingDates() {
+    return this.direct.fetchListingDates();
+  }
+
+  fetchSpotSymbols() {
+    return this.direct.fetchSpotSymbols();
+  }
+
+  fetchOpenInterest() {
+    return this.direct.fetchOpenInterest();
+  }
+
+  fetchOpenInterestChanges(instIds: string[], onUpdate: (instId: string, change: number) => void) {
+    return this.direct.fetchOpenInterestChanges(instIds, onUpdate);
+  }
+
+  fetchCandles(instId: string, bar: CandleBar, limit: number) {
+    return this.direct.fetchCandles(instId, bar, limit);
+  }
+
+  fetchRSIBatch(
+    instIds: string[],
+    existingData: Map<string, RSIData>,
+    onProgress: (text: string) => void,
+    onUpdate: (instId: string, data: RSIData) => void,
+    pairs: RsiPair[],
+    tier?: RsiTier
+  ) {
+    return this.direct.fetchRSIBatch(instIds, existingData, onProgress, onUpdate, pairs, tier);
+  }
+}
@@ -0,0 +1,524 @@
+/**
+ * Board Computation
+ * Filter / sort pipeline and header aggregates of an exchange board, run by the
+ * compute engine (lib/compute-engine) so ticker updates never block rendering
+ *
+ * - Search, watchlist view, filters and the screener expression narrow the market,
+ *   then the sort column orders it
+ * - Rows come back as instIds; the store resolves them against its own tickers
+ * - RSI averages, quick filter counts and top movers cover the whole market
+ */
+
+import { ProcessedTicker } from './types';
+import { isMemeToken, getRsiSignal, calculateOiVolRatio } from './utils';
+import {
+  applyRsiFilter,
+  applyThresholdFilter,
+  calculateRsiAverages,
+  calculateTopMovers,
+  calculateQuickFilterCounts,
+} from './store-utils';
+import { parseScreener, evaluateScreener, ScreenerNode } from './screener';
+import { toWatchlistSymbol } from './watchlists';
+import { rsiPairKey, parseRsiColumnKey } from './rsi-pairs';
+import { getEmaTrendSignal, getMacdSignal, getEmaTrendSortValue, getMacdSortValue } from './indicators';
+import { findBtcReturns, calculateRealizedVol, calculateBtcBeta } from './volatility';
+import { VOLATILITY, COMPUTE } from './constants';
+import type { BoardData, BoardQuery, ComputedBoard } from './compute-protocol';
+
+// Parsed screener expression (invalid expressions are ignored; Controls shows the error)
+function parseExpression(source: string | undefined): ScreenerNode | null {
+  const trimmed = source?.trim();
+  if (!trimmed) return null;
+  const result = parseScreener(trimmed);
+  return result.ok ? result.expression : null;
+}
+
+/**
+ * Filtered and sorted tickers of a board
+ */
+export function filterAndSortTickers(data: BoardData, query: BoardQuery): ProcessedTicker[] {
+  const { tickers, rsiData, fundingRateData, openInterestData, listingData, marketCapData, spotSymbols } = data;
+  const { defaultFundingInterval } = query;
+  const screenerExpression = parseExpression(query.filters.expression);
+
+  // BTC perp daily returns, the reference for the beta / correlation filters
+  const btcReturns = findBtcReturns(tickers, rsiData);
+
+  let filtered = Array.from(tickers.values());
+
+  // Beta / correlation per instrument, computed once for filtering and sorting
+  const btcBetas = new Map<string, ReturnType<typeof calculateBtcBeta>>();
+  const getBtcBeta = (instId: string) => {
+    if (!btcBetas.has(instId)) {
+      btcBetas.set(instId, calculateBtcBeta(rsiData.get(instId)?.dailyReturns, btcReturns));
+    }
+    return btcBetas.get(instId) ?? null;
+  };
+
+  // Search filter - supports pipe-separated terms (e.g., "ETH|SOL|BTC")
+  if (query.searchTerm) {
+    const terms = query.searchTerm.toLowerCase().split('|').map(t => t.trim()).filter(t => t);
+    if (terms.length === 1) {
+      filtered = filtered.filter(t => t.instId.toLowerCase().includes(terms[0]));
+    } else {
+      filtered = filtered.filter(t => terms.some(term => t.baseSymbol.toLowerCase() === term));
+    }
+  }
+
+  // Watchlist view (matched by normalized base symbol across exchanges)
+  if (query.watchlistSymbols) {
+    const symbols = new Set(query.watchlistSymbols);
+    filtered = filtered.filter(t => symbols.has(toWatchlistSymbol(t.baseSymbol)));
+  }
+
+  // Apply filters
+  const { filters } = query;
+
+  // Symbol filter - exact base symbols, unlike the search box
+  if (filters.symbols && filters.symbols.length > 0) {
+    const symbols = new Set(filters.symbols);
+    filtered = filtered.filter(t => symbols.has(t.baseSymbol));
+  }
+
+  if (filters.rank) {
+    const sortedByMarketCap = [...filtered].sort((a, b) => {
+      const rankA = marketCapData.get(a.baseSymbol)?.rank ?? 9999;
+      const rankB = marketCapData.get(b.baseSymbol)?.rank ?? 9999;
+      return rankA - rankB;
+    });
+
+    const getTopN = (n: number) => new Set(sortedByMarketCap.slice(0, n).map(t => t.instId));
+    const getRangeSet = (start: number, end: number) => new Set(sortedByMarketCap.slice(start - 1, end).map(t => t.instId));
+
+    if (filters.rank === '1-25') {
+      const top25Set = getTopN(25);
+      filtered = filtered.filter(t => top25Set.has(t.instId));
+    } else if (filters.rank === '1-20') {
+      const top20Set = getTopN(20);
+      filtered = filtered.filter(t => top20Set.has(t.instId));
+    } else if (filters.rank === '21-50') {
+      const rangeSet = getRangeSet(21, 50);
+      filtered = filtered.filter(t => rangeSet.has(t.instId));
+    } else if (filters.rank === '51-100') {
+      const rangeSet = getRangeSet(51, 100);
+      filtered = filtered.filter(t => rangeSet.has(t.instId));
+    } else if (filters.rank === '101-500') {
+      const rangeSet = getRangeSet(101, 500);
+      filtered = filtered.filter(t => rangeSet.has(t.instId));
+    } else if (filters.rank === '>500') {
+      filtered = filtered.filter(t => !marketCapData.get(t.baseSymbol)?.rank);
+    }
+  }
+
+  if (filters.rsi7) {
+    const rsi7Filter = filters.rsi7;
+    filtered = filtered.filter(t => applyRsiFilter(rsiData.get(t.instId)?.rsi7, rsi7Filter));
+  }
+  if (filters.rsi14) {
+    const rsi14Filter = filters.rsi14;
+    filtered = filtered.filter(t => applyRsiFilter(rsiData.get(t.instId)?.rsi14, rsi14Filter));
+  }
+  if (filters.rsiW7) {
+    const rsiW7Filter = filters.rsiW7;
+    filtered = filtered.filter(t => applyRsiFilter(rsiData.get(t.instId)?.rsiW7, rsiW7Filter));
+  }
+  if (filters.rsiW14) {
+    const rsiW14Filter = filters.rsiW14;
+    filtered = filtered.filter(t => applyRsiFilter(rsiData.get(t.instId)?.rsiW14, rsiW14Filter));
+  }
+  // Configured RSI pairs (filters of removed pairs are ignored)
+  query.rsiPairs.forEach(pair => {
+    const key = rsiPairKey(pair);
+    const pairFilter = filters.rsiPairs?.[key];
+    if (pairFilter) {
+      filtered = filtered.filter(t => applyRsiFilter(rsiData.get(t.instId)?.custom?.[key], pairFilter));
+    }
+  });
+
+  if (filters.hasSpot) {
+    filtered = filtered.filter(t => {
+      const hasSpot = spotSymbols.has(t.baseSymbol);
+      return filters.hasSpot === 'yes' ? hasSpot : !hasSpot;
+    });
+  }
+
+  if (filters.fundingRate) {
+    if (filters.fundingRate === 'positive') {
+      filtered = filtered.filter(t => {
+        const fr = fundingRateData.get(t.instId)?.fundingRate;
+        return fr !== undefined && fr > 0;
+      });
+    } else if (filters.fundingRate === 'negative') {
+      filtered = filtered.filter(t => {
+        const fr = fundingRateData.get(t.instId)?.fundingRate;
+        return fr !== undefined && fr < 0;
+      });
+    }
+  }
+
+  if (filters.marketCapMin) {
+    filtered = filtered.filter(t => {
+      const cap = marketCapData.get(t.baseSymbol)?.marketCap;
+      if (cap === undefined) return false;
+
+      const capInMillions = cap / 1000000;
+
+      switch (filters.marketCapMin) {
+        case '0-20':
+          return capInMillions <= 20;
+        case '20-100':
+          return capInMillions > 20 && capInMillions <= 100;
+        case '100-1000':
+          return capInMillions > 100 && capInMillions <= 1000;
+        case '1000+':
+          return capInMillions > 1000;
+        default:
+          return true;
+      }
+    });
+  }
+
+  if (filters.listAge) {
+    const now = Date.now();
+    const oneDay = 24 * 60 * 60 * 1000;
+
+    filtered = filtered.filter(t => {
+      const listTime = listingData.get(t.instId)?.listTime;
+      if (!listTime) return false;
+
+      const age = now - listTime;
+
+      switch (filters.listAge) {
+        case '<30d':
+          return age <= 30 * oneDay;
+        case '<60d':
+          return age <= 60 * oneDay;
+        case '<90d':
+          return age <= 90 * oneDay;
+        case '<180d':
+          return age <= 180 * oneDay;
+        default:
+          return true;
+      }
+    });
+  }
+
+  if (filters.isMeme) {
+    filtered = filtered.filter(t => {
+      const isMeme = isMemeToken(t.baseSymbol);
+      return filters.isMeme === 'yes' ? isMeme : !isMeme;
+    });
+  }
+
+  if (filters.openInterestMin) {
+    filtered = filtered.filter(t => {
+      const oiUsd = openInterestData.get(t.instId)?.oiUsd;
+      if (!oiUsd) return false;
+
+      const oiInMillions = oiUsd / 1000000;
+
+      switch (filters.openInterestMin) {
+        case '0-10':
+          return oiInMillions <= 10;
+        case '10-100':
+          return oiInMillions > 10 && oiInMillions <= 100;
+        case '100+':
+          return oiInMillions > 100;
+        default:
+          return true;
+      }
+    });
+  }
+
+  if (filters.oiChange) {
+    const oiChangeFilter = filters.oiChange;
+    filtered = filtered.filter(t => applyThresholdFilter(openInterestData.get(t.instId)?.oiChange24h, oiChangeFilter));
+  }
+
+  if (filters.oiVolRatio) {
+    const oiVolRatioFilter = filters.oiVolRatio;
+    filtered = filtered.filter(t => applyThresholdFilter(
+      calculateOiVolRatio(openInterestData.get(t.instId)?.oiUsd, t.volCcy24h, t.priceNum),
+      oiVolRatioFilter
+    ));
+  }
+
+  // D-RSI Avg Signal filter
+  if (filters.dRsiSignal && filters.dRsiSignal.length > 0) {
+    const dRsiSignalFilter = filters.dRsiSignal;
+    filtered = filtered.filter(t => {
+      const rsi = rsiData.get(t.instId);
+      if (!rsi) return false;
+      const signalInfo = getRsiSignal(rsi.rsi7, rsi.rsi14);
+      return dRsiSignalFilter.includes(signalInfo.signal);
+    });
+  }
+
+  // W-RSI Avg Signal filter
+  if (filters.wRsiSignal && filters.wRsiSignal.length > 0) {
+    const wRsiSignalFilter = filters.wRsiSignal;
+    filtered = filtered.filter(t => {
+      const rsi = rsiData.get(t.instId);
+      if (!rsi) return false;
+      const signalInfo = getRsiSignal(rsi.rsiW7, rsi.rsiW14);
+      return wRsiSignalFilter.includes(signalInfo.signal);
+    });
+  }
+
+  // Technical indicator filters (daily candles)
+  if (filters.emaTrend && filters.emaTrend.length > 0) {
+    const emaTrendFilter = filters.emaTrend;
+    filtered = filtered.filter(t => {
+      const { signal } = getEmaTrendSignal(rsiData.get(t.instId)?.indicators);
+      return signal !== null && emaTrendFilter.includes(signal);
+    });
+  }
+
+  if (filters.macdSignal && filters.macdSignal.length > 0) {
+    const macdSignalFilter = filters.macdSignal;
+    filtered = filtered.filter(t => {
+      const { signal } = getMacdSignal(rsiData.get(t.instId)?.indicators);
+      return signal !== null && macdSignalFilter.includes(signal);
+    });
+  }
+
+  const indicatorFilters = [
+    ['ema20', 'ema20Dist'],
+    ['ema50', 'ema50Dist'],
+    ['ema200', 'ema200Dist'],
+    ['macdCrossAge', 'macdCrossAge'],
+    ['bbPercentB', 'bbPercentB'],
+    ['atrPct', 'atrPct'],
+  ] as const;
+  indicatorFilters.forEach(([filterKey, field]) => {
+    const indicatorFilter = filters[filterKey];
+    if (indicatorFilter) {
+      filtered = filtered.filter(t => applyThresholdFilter(rsiData.get(t.instId)?.indicators?.[field], indicatorFilter));
+    }
+  });
+
+  // Realized volatility / beta to BTC filters
+  if (filters.vol7d) {
+    const vol7dFilter = filters.vol7d;
+    filtered = filtered.filter(t => applyThresholdFilter(
+      calculateRealizedVol(rsiData.get(t.instId)?.dailyReturns, VOLATILITY.SHORT_DAYS),
+      vol7dFilter
+    ));
+  }
+
+  if (filters.vol30d) {
+    const vol30dFilter = filters.vol30d;
+    filtered = filtered.filter(t => applyThresholdFilter(
+      calculateRealizedVol(rsiData.get(t.instId)?.dailyReturns, VOLATILITY.RETURN_DAYS),
+      vol30dFilter
+    ));
+  }
+
+  if (filters.btcBeta) {
+    const btcBetaFilter = filters.btcBeta;
+    filtered = filtered.filter(t => applyThresholdFilter(getBtcBeta(t.instId)?.beta, btcBetaFilter));
+  }
+
+  if (filters.btcCorr) {
+    const btcCorrFilter = filters.btcCorr;
+    filtered = filtered.filter(t => applyThresholdFilter(getBtcBeta(t.instId)?.correlation, btcCorrFilter));
+  }
+
+  // Screener expression
+  if (screenerExpression) {
+    const context = {
+      rsiData,
+      fundingRateData,
+      marketCapData,
+      listingData,
+      openInterestData,
+      spotSymbols,
+      defaultFundingInterval,
+      btcReturns,
+      now: Date.now(),
+    };
+    filtered = filtered.filter(t => evaluateScreener(screenerExpression, t, context));
+  }
+
+  // Sort
+  const { sort } = query;
+  filtered.sort((a, b) => {
+    let aVal: number | string;
+    let bVal: number | string;
+
+    switch (sort.column) {
+      case 'symbol':
+        aVal = a.instId;
+        bVal = b.instId;
+        break;
+      case 'price':
+        aVal = a.priceNum;
+        bVal = b.priceNum;
+        break;
+      case 'change':
+        aVal = a.changeNum;
+        bVal = b.changeNum;
+        break;
+      case 'change4h':
+        aVal = rsiData.get(a.instId)?.change4h ?? -9999;
+        bVal = rsiData.get(b.instId)?.change4h ?? -9999;
+        break;
+      case 'change7d':
+        aVal = rsiData.get(a.instId)?.change7d ?? -9999;
+        bVal = rsiData.get(b.instId)?.change7d ?? -9999;
+        break;
+      case 'rank':
+        aVal = marketCapData.get(a.baseSymbol)?.marketCap ?? 0;
+        bVal = marketCapData.get(b.baseSymbol)?.marketCap ?? 0;
+        if (sort.direction === 'asc') {
+          return (bVal as number) - (aVal as number);
+        } else {
+          return (aVal as number) - (bVal as number);
+        }
+      case 'marketCap':
+        aVal = marketCapData.get(a.baseSymbol)?.marketCap ?? 0;
+        bVal = marketCapData.get(b.baseSymbol)?.marketCap ?? 0;
+        break;
+      case 'volume24h':
+        aVal = (parseFloat(a.volCcy24h) || 0) * a.priceNum;
+        bVal = (parseFloat(b.volCcy24h) || 0) * b.priceNum;
+        break;
+      case 'rsi7':
+        aVal = rsiData.get(a.instId)?.rsi7 ?? 0;
+        bVal = rsiData.get(b.instId)?.rsi7 ?? 0;
+        break;
+      case 'rsi14':
+        aVal = rsiData.get(a.instId)?.rsi14 ?? 0;
+        bVal = rsiData.get(b.instId)?.rsi14 ?? 0;
+        break;
+      case 'rsiW7':
+        aVal = rsiData.get(a.instId)?.rsiW7 ?? 0;
+        bVal = rsiData.get(b.instId)?.rsiW7 ?? 0;
+        break;
+      case 'rsiW14':
+        aVal = rsiData.get(a.instId)?.rsiW14 ?? 0;
+        bVal = rsiData.get(b.instId)?.rsiW14 ?? 0;
+        break;
+      case 'hasSpot':
+        aVal = spotSymbols.has(a.baseSymbol) ? 1 : 0;
+        bVal = spotSymbols.has(b.baseSymbol) ? 1 : 0;
+        break;
+      case 'fundingRate':
+        aVal = fundingRateData.get(a.instId)?.fundingRate ?? 0;
+        bVal = fundingRateData.get(b.instId)?.fundingRate ?? 0;
+        break;
+      case 'fundingApr':
+        const frA = fundingRateData.get(a.instId);
+        const frB = fundingRateData.get(b.instId);
+        const aprA = frA ? frA.fundingRate * ((365 * 24) / (frA.settlementInterval || defaultFundingInterval)) : 0;
+        const aprB = frB ? frB.fundingRate * ((365 * 24) / (frB.settlementInterval || defaultFundingInterval)) : 0;
+        aVal = aprA;
+        bVal = aprB;
+        break;
+      case 'fundingInterval':
+        aVal = fundingRateData.get(a.instId)?.settlementInterval ?? defaultFundingInterval;
+        bVal = fundingRateData.get(b.instId)?.settlementInterval ?? defaultFundingInterval;
+        break;
+      case 'openInterest':
+        aVal = openInterestData.get(a.instId)?.oiUsd ?? 0;
+        bVal = openInterestData.get(b.instId)?.oiUsd ?? 0;
+        break;
+      case 'oiChange24h':
+        aVal = openInterestData.get(a.instId)?.oiChange24h ?? -9999;
+        bVal = openInterestData.get(b.instId)?.oiChange24h ?? -9999;
+        break;
+      case 'oiVolRatio':
+        aVal = calculateOiVolRatio(openInterestData.get(a.instId)?.oiUsd, a.volCcy24h, a.priceNum) ?? 0;
+        bVal = calculateOiVolRatio(openInterestData.get(b.instId)?.oiUsd, b.volCcy24h, b.priceNum) ?? 0;
+        break;
+      case 'listDate':
+        aVal = listingData.get(a.instId)?.listTime ?? 0;
+        bVal = listingData.get(b.instId)?.listTime ?? 0;
+        break;
+      case 'emaTrend':
+        aVal = getEmaTrendSortValue(rsiData.get(a.instId)?.indicators);
+        bVal = getEmaTrendSortValue(rsiData.get(b.instId)?.indicators);
+        break;
+      case 'ema20':
+        aVal = rsiData.get(a.instId)?.indicators?.ema20Dist ?? -9999;
+        bVal = rsiData.get(b.instId)?.indicators?.ema20Dist ?? -9999;
+        break;
+      case 'ema50':
+        aVal = rsiData.get(a.instId)?.indicators?.ema50Dist ?? -9999;
+        bVal = rsiData.get(b.instId)?.indicators?.ema50Dist ?? -9999;
+        break;
+      case 'ema200':
+        aVal = rsiData.get(a.instId)?.indicators?.ema200Dist ?? -9999;
+        bVal = rsiData.get(b.instId)?.indicators?.ema200Dist ?? -9999;
+        break;
+      case 'macd':
+        aVal = getMacdSortValue(rsiData.get(a.instId)?.indicators);
+        bVal = getMacdSortValue(rsiData.get(b.instId)?.indicators);
+        break;
+      case 'bbPercentB':
+        aVal = rsiData.get(a.instId)?.indicators?.bbPercentB ?? -9999;
+        bVal = rsiData.get(b.instId)?.indicators?.bbPercentB ?? -9999;
+        break;
+      case 'atrPct':
+        aVal = rsiData.get(a.instId)?.indicators?.atrPct ?? 0;
+        bVal = rsiData.get(b.instId)?.indicators?.atrPct ?? 0;
+        break;
+      case 'vol7d':
+        aVal = calculateRealizedVol(rsiData.get(a.instId)?.dailyReturns, VOLATILITY.SHORT_DAYS) ?? 0;
+        bVal = calculateRealizedVol(rsiData.get(b.instId)?.dailyReturns, VOLATILITY.SHORT_DAYS) ?? 0;
+        break;
+      case 'vol30d':
+        aVal = calculateRealizedVol(rsiData.get(a.instId)?.dailyReturns, VOLATILITY.RETURN_DAYS) ?? 0;
+        bVal = calculateRealizedVol(rsiData.get(b.instId)?.dailyReturns, VOLATILITY.RETURN_DAYS) ?? 0;
+        break;
+      case 'btcBeta':
+        aVal = getBtcBeta(a.instId)?.beta ?? -9999;
+        bVal = getBtcBeta(b.instId)?.beta ?? -9999;
+        break;
+      case 'btcCorr':
+        aVal = getBtcBeta(a.instId)?.correlation ?? -9999;
+        bVal = getBtcBeta(b.instId)?.correlation ?? -9999;
+        break;
+      default: {
+        // Configured RSI pair column ("rsi:4H:14")
+        const pair = parseRsiColumnKey(sort.column);
+        if (pair) {
+          const key = rsiPairKey(pair);
+          aVal = rsiData.get(a.instId)?.custom?.[key] ?? 0;
+          bVal = rsiData.get(b.instId)?.custom?.[key] ?? 0;
+          break;
+        }
+        aVal = marketCapData.get(a.baseSymbol)?.rank ?? 9999;
+        bVal = marketCapData.get(b.baseSymbol)?.rank ?? 9999;
+      }
+    }
+
+    if (typeof aVal === 'string' && typeof bVal === 'string') {
+      return sort.direction === 'asc' ? aVal.localeCompare(bVal) : bVal.localeCompare(aVal);
+    }
+    return sort.direction === 'asc' ? (aVal as number) - (bVal as number) : (bVal as number) - (aVal as number);
+  });
+
+
+  return filtered;
+}
+
+/**
+ * Row model of a board: visible rows plus the market-wide header aggregates
+ */
+export function computeBoard(data: BoardData, query: BoardQuery): ComputedBoard {
+  const { tickers, rsiData, marketCapData } = data;
+  const limit = COMPUTE.TOP_MOVERS_LIMIT;
+
+  return {
+    rowIds: filterAndSortTickers(data, query).map(t => t.instId),
+    rsiAverages: calculateRsiAverages(tickers, marketCapData, rsiData),
+    quickFilterCounts: calculateQuickFilterCounts(tickers, rsiData),
+    topMovers: {
+      '4h': calculateTopMovers(tickers, rsiData, '4h', limit),
+      '24h': calculateTopMovers(tickers, rsiData, '24h', limit),
+      '7d': calculateTopMovers(tickers, rsiData, '7d', limit),
+    },
+  };
+}
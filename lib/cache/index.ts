@@ -3,8 +3,9 @@
  * Provides consistent caching with TTL support for all app data
  */
 
-import { CACHE_KEYS, TIMING, APP_VERSION } from '../constants';
-import { RSIData, MarketCapData } from '../types';
+import { CACHE_KEYS, TIMING, APP_VERSION, STREAM } from '../constants';
+import { RSIData, MarketCapData, AlertRule, SavedScreen, Watchlist, RsiPair, StreamTransport } from '../types';
+import { clearCandleStore } from '../candle-store';
 
 // ===========================================
 // Types
@@ -53,6 +54,10 @@ export const CACHE_CONFIG: Record<string, CacheConfig> = {
     key: CACHE_KEYS.FILTERS,
     ttl: Infinity,
   },
+  alertRules: {
+    key: CACHE_KEYS.ALERT_RULES,
+    ttl: Infinity,
+  },
 };
 
 // ===========================================
@@ -150,22 +155,22 @@ export function getCacheAge(entry: CacheEntry<unknown> | null): number {
 // ===========================================
 
 /**
- * Get RSI data from cache
+ * Get RSI data from cache (key defaults to the OKX namespace)
  */
-export function getRsiCache(): Map<string, RSIData> | null {
-  const entry = getCache<Record<string, RSIData>>(CACHE_KEYS.RSI_CACHE);
+export function getRsiCache(key: string = CACHE_KEYS.RSI_CACHE): Map<string, RSIData> | null {
+  const entry = getCache<Record<string, RSIData>>(key);
   if (!isCacheValid(entry, TIMING.CACHE_RSI)) return null;
 
   if (!entry) return null;
-  console.log(`[Cache] Loaded RSI cache (${getCacheAge(entry)}min old)`);
+  console.log(`[Cache] Loaded RSI cache ${key} (${getCacheAge(entry)}min old)`);
   return new Map(Object.entries(entry.data));
 }
 
 /**
  * Save RSI data to cache
  */
-export function setRsiCache(data: Map<string, RSIData>): boolean {
-  return setCache(CACHE_KEYS.RSI_CACHE, Object.fromEntries(data));
+export function setRsiCache(data: Map<string, RSIData>, key: string = CACHE_KEYS.RSI_CACHE): boolean {
+  return setCache(key, Object.fromEntries(data));
 }
 
 /**
@@ -206,104 +211,167 @@ export function setLogoCache(logos: Record<string, string>): boolean {
 /**
  * Get favorites from cache
  */
-export function getFavoritesCache(): string[] {
-  const entry = getCache<string[]>(CACHE_KEYS.FAVORITES);
+export function getFavoritesCache(key: string = CACHE_KEYS.FAVORITES): string[] {
+  const entry = getCache<string[]>(key);
   return entry?.data ?? [];
 }
 
 /**
  * Save favorites to cache
  */
-export function setFavoritesCache(favorites: string[]): boolean {
-  return setCache(CACHE_KEYS.FAVORITES, favorites);
+export function setFavoritesCache(favorites: string[], key: string = CACHE_KEYS.FAVORITES): boolean {
+  return setCache(key, favorites);
 }
 
 /**
  * Get column order from cache
  */
-export function getColumnOrderCache(): string[] | null {
-  const entry = getCache<string[]>(CACHE_KEYS.COLUMN_ORDER);
+export function getColumnOrderCache(key: string = CACHE_KEYS.COLUMN_ORDER): string[] | null {
+  const entry = getCache<string[]>(key);
   return entry?.data ?? null;
 }
 
 /**
  * Save column order to cache
  */
-export function setColumnOrderCache(order: string[]): boolean {
-  return setCache(CACHE_KEYS.COLUMN_ORDER, order);
+export function setColumnOrderCache(order: string[], key: string = CACHE_KEYS.COLUMN_ORDER): boolean {
+  return setCache(key, order);
 }
 
 /**
  * Get filters from cache
  */
-export function getFiltersCache<T>(): T | null {
-  const entry = getCache<T>(CACHE_KEYS.FILTERS);
+export function getFiltersCache<T>(key: string = CACHE_KEYS.FILTERS): T | null {
+  const entry = getCache<T>(key);
   return entry?.data ?? null;
 }
 
 /**
  * Save filters to cache
  */
-export function setFiltersCache<T>(filters: T): boolean {
-  return setCache(CACHE_KEYS.FILTERS, filters);
+export function setFiltersCache<T>(filters: T, key: string = CACHE_KEYS.FILTERS): boolean {
+  return setCache(key, filters);
 }
 
 /**
  * Get columns visibility from cache
  */
-export function getColumnsCache<T>(): T | null {
-  const entry = getCache<T>(CACHE_KEYS.COLUMNS);
+export function getColumnsCache<T>(key: string = CACHE_KEYS.COLUMNS): T | null {
+  const entry = getCache<T>(key);
   return entry?.data ?? null;
 }
 
 /**
  * Save columns visibility to cache
  */
-export function setColumnsCache<T>(columns: T): boolean {
-  return setCache(CACHE_KEYS.COLUMNS, columns);
+export function setColumnsCache<T>(columns: T, key: string = CACHE_KEYS.COLUMNS): boolean {
+  return setCache(key, columns);
 }
 
-// ===========================================
-// Hyperliquid-specific Cache Helpers
-// ===========================================
+/**
+ * Get watchlists from cache (null when never saved, so legacy favorites can seed them)
+ */
+export function getWatchlistsCache(): Watchlist[] | null {
+  const entry = getCache<Watchlist[]>(CACHE_KEYS.WATCHLISTS);
+  return Array.isArray(entry?.data) ? entry.data : null;
+}
 
-export function getHlRsiCache(): Map<string, RSIData> | null {
-  const entry = getCache<Record<string, RSIData>>(CACHE_KEYS.HL_RSI_CACHE);
-  if (!isCacheValid(entry, TIMING.CACHE_RSI)) return null;
-  if (!entry) return null;
-  console.log(`[Cache] Loaded HL RSI cache (${getCacheAge(entry)}min old)`);
-  return new Map(Object.entries(entry.data));
+/**
+ * Save watchlists to cache
+ */
+export function setWatchlistsCache(watchlists: Watchlist[]): boolean {
+  return setCache(CACHE_KEYS.WATCHLISTS, watchlists);
+}
+
+/**
+ * Get configured RSI pairs from cache
+ */
+export function getRsiPairsCache(): RsiPair[] {
+  const entry = getCache<RsiPair[]>(CACHE_KEYS.RSI_PAIRS);
+  return Array.isArray(entry?.data) ? entry.data : [];
+}
+
+/**
+ * Save configured RSI pairs to cache
+ */
+export function setRsiPairsCache(pairs: RsiPair[]): boolean {
+  return setCache(CACHE_KEYS.RSI_PAIRS, pairs);
+}
+
+/**
+ * Get the preferred live transport from cache
+ */
+export function getStreamTransportCache(): StreamTransport {
+  const entry = getCache<StreamTransport>(CACHE_KEYS.STREAM_TRANSPORT);
+  return entry?.data === 'sse' || entry?.data === 'direct' ? entry.data : STREAM.DEFAULT_TRANSPORT;
 }
 
-export function setHlRsiCache(data: Map<string, RSIData>): boolean {
-  return setCache(CACHE_KEYS.HL_RSI_CACHE, Object.fromEntries(data));
+/**
+ * Save the preferred live transport to cache
+ */
+export function setStreamTransportCache(transport: StreamTransport): boolean {
+  return setCache(CACHE_KEYS.STREAM_TRANSPORT, transport);
+}
+
+/**
+ * Get saved screens from cache
+ */
+export function getScreensCache(key: string = CACHE_KEYS.SCREENS): SavedScreen[] {
+  const entry = getCache<SavedScreen[]>(key);
+  return Array.isArray(entry?.data) ? entry.data : [];
 }
 
-export function getHlFavoritesCache(): string[] {
-  const entry = getCache<string[]>(CACHE_KEYS.HL_FAVORITES);
+/**
+ * Save screens to cache
+ */
+export function setScreensCache(screens: SavedScreen[], key: string = CACHE_KEYS.SCREENS): boolean {
+  return setCache(key, screens);
+}
+
+/**
+ * Get alert rules from cache
+ */
+export function getAlertRulesCache(): AlertRule[] {
+  const entry = getCache<AlertRule[]>(CACHE_KEYS.ALERT_RULES);
   return entry?.data ?? [];
 }
 
-export function setHlFavoritesCache(favorites: string[]): boolean {
-  return setCache(CACHE_KEYS.HL_FAVORITES, favorites);
+/**
+ * Save alert rules to cache
+ */
+export function setAlertRulesCache(rules: AlertRule[]): boolean {
+  return setCache(CACHE_KEYS.ALERT_RULES, rules);
 }
 
-export function getHlColumnOrderCache(): string[] | null {
-  const entry = getCache<string[]>(CACHE_KEYS.HL_COLUMN_ORDER);
-  return entry?.data ?? null;
+/**
+ * Get last fire time per alert rule (survives reloads so cooldowns hold)
+ */
+export function getAlertCooldownsCache(): Record<string, number> {
+  const entry = getCache<Record<string, number>>(CACHE_KEYS.ALERT_COOLDOWNS);
+  return entry?.data ?? {};
 }
 
-export function setHlColumnOrderCache(order: string[]): boolean {
-  return setCache(CACHE_KEYS.HL_COLUMN_ORDER, order);
+/**
+ * Save last fire time per alert rule
+ */
+export function setAlertCooldownsCache(cooldowns: Record<string, number>): boolean {
+  return setCache(CACHE_KEYS.ALERT_COOLDOWNS, cooldowns);
 }
 
-export function getHlColumnsCache<T>(): T | null {
-  const entry = getCache<T>(CACHE_KEYS.HL_COLUMNS);
-  return entry?.data ?? null;
+/**
+ * Get stored BTC daily closes for AHR999 ([dayStart, close], oldest first)
+ * Never expires: past days don't change, the latest one is refetched on refresh
+ */
+export function getAhr999ClosesCache(): number[][] | null {
+  const entry = getCache<number[][]>(CACHE_KEYS.AHR999_CLOSES);
+  return Array.isArray(entry?.data) ? entry.data : null;
 }
 
-export function setHlColumnsCache<T>(columns: T): boolean {
-  return setCache(CACHE_KEYS.HL_COLUMNS, columns);
+/**
+ * Save BTC daily closes for AHR999
+ */
+export function setAhr999ClosesCache(closes: number[][]): boolean {
+  return setCache(CACHE_KEYS.AHR999_CLOSES, closes);
 }
 
 // ===========================================
@@ -330,13 +398,17 @@ export function clearDataCache(): void {
 
   const dataCacheKeys = [
     CACHE_KEYS.RSI_CACHE,
+    CACHE_KEYS.HL_RSI_CACHE,
+    CACHE_KEYS.BINANCE_RSI_CACHE,
     CACHE_KEYS.MARKET_CAP_CACHE,
     CACHE_KEYS.LOGO_CACHE,
+    CACHE_KEYS.AHR999_CLOSES,
   ];
 
   dataCacheKeys.forEach(key => {
     removeCache(key);
   });
+  clearCandleStore();
   console.log('[Cache] Data cache cleared');
 }
 
@@ -0,0 +1,176 @@
+/**
+ * Candle Store (browser only, IndexedDB)
+ * Raw candles per (exchange, instId, bar), so RSI refreshes only download what's new
+ *
+ * - loadCandles requests the bars opened since the last stored candle (plus that one,
+ *   it was still open) and merges them in; RSI / indicators are recomputed from the result
+ * - Full fetch when nothing is stored, the stored history is too short, or the new
+ *   candles don't reach back to it (gap after a long absence)
+ * - Without IndexedDB (server-side snapshot worker, some private windows) every call
+ *   is a plain full fetch
+ */
+
+import { ExchangeId, CandleBar } from './types';
+import { CANDLE_STORE } from './constants';
+
+interface CandleRecord {
+  exchange: ExchangeId;
+  instId: string;
+  bar: CandleBar;
+  candles: number[][]; // [timestamp, open, high, low, close, volume], oldest first
+  complete: boolean;   // Venue had fewer candles than requested (young listing)
+  updatedAt: number;
+}
+
+// Fetches the newest `limit` candles, oldest first
+export type CandleFetcher = (limit: number) => Promise<number[][] | null>;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(CANDLE_STORE.DB_NAME, CANDLE_STORE.DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(CANDLE_STORE.STORE_NAME)) {
+            db.createObjectStore(CANDLE_STORE.STORE_NAME, { keyPath: ['exchange', 'instId', 'bar'] });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('[Candle Store] IndexedDB unavailable:', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('[Candle Store] IndexedDB unavailable:', error);
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+}
+
+function readRecord(db: IDBDatabase, exchange: ExchangeId, instId: string, bar: CandleBar): Promise<CandleRecord | null> {
+  return new Promise(resolve => {
+    try {
+      const request = db
+        .transaction(CANDLE_STORE.STORE_NAME, 'readonly')
+        .objectStore(CANDLE_STORE.STORE_NAME)
+        .get([exchange, instId, bar]);
+      request.onsuccess = () => resolve((request.result as CandleRecord | undefined) ?? null);
+      request.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+function writeRecord(db: IDBDatabase, record: CandleRecord): Promise<void> {
+  return new Promise(resolve => {
+    try {
+      const transaction = db.transaction(CANDLE_STORE.STORE_NAME, 'readwrite');
+      transaction.objectStore(CANDLE_STORE.STORE_NAME).put(record);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        console.warn(`[Candle Store] Failed to save ${record.instId} ${record.bar}:`, transaction.error);
+        resolve();
+      };
+      transaction.onabort = () => resolve();
+    } catch (error) {
+      console.warn(`[Candle Store] Failed to save ${record.instId} ${record.bar}:`, error);
+      resolve();
+    }
+  });
+}
+
+// Drop every stored candle (app version change, see lib/cache)
+export async function clearCandleStore(): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  await new Promise<void>(resolve => {
+    try {
+      const transaction = db.transaction(CANDLE_STORE.STORE_NAME, 'readwrite');
+      transaction.objectStore(CANDLE_STORE.STORE_NAME).clear();
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => resolve();
+      transaction.onabort = () => resolve();
+    } catch {
+      resolve();
+    }
+  });
+}
+
+/**
+ * Merge newer candles into stored ones by open time, keeping the newest `maxCandles`
+ * A fresh copy of a bar replaces the stored one (it may have been open when stored)
+ */
+export function mergeCandles(stored: number[][], fresh: number[][], maxCandles: number): number[][] {
+  const byTime = new Map<number, number[]>();
+  stored.forEach(c => byTime.set(c[0], c));
+  fresh.forEach(c => byTime.set(c[0], c));
+  return Array.from(byTime.values())
+    .sort((a, b) => a[0] - b[0])
+    .slice(-maxCandles);
+}
+
+// Candles to request so the response reaches back to the last stored (then still open) bar
+export function getMissingCandleCount(lastTime: number, bar: CandleBar, now: number): number {
+  return Math.max(Math.floor((now - lastTime) / CANDLE_STORE.BAR_MS[bar]), 0) + 2;
+}
+
+/**
+ * Newest `limit` candles for an instrument, oldest first
+ * Served from the store plus an incremental request whenever possible
+ */
+export async function loadCandles(
+  exchange: ExchangeId,
+  instId: string,
+  bar: CandleBar,
+  limit: number,
+  fetcher: CandleFetcher
+): Promise<number[][] | null> {
+  const db = await openDatabase();
+  if (!db) return fetcher(limit);
+
+  const now = Date.now();
+  const stored = await readRecord(db, exchange, instId, bar);
+  const usable = stored && stored.candles.length > 0 && (stored.complete || stored.candles.length >= limit);
+
+  let candles: number[][] | null = null;
+  let complete = false;
+
+  if (usable) {
+    if (now - stored.updatedAt < (CANDLE_STORE.REUSE_WINDOW[bar] ?? 0)) {
+      return stored.candles.slice(-limit);
+    }
+
+    const lastTime = stored.candles[stored.candles.length - 1][0];
+    const missing = getMissingCandleCount(lastTime, bar, now);
+    if (missing < limit) {
+      const fresh = await fetcher(missing);
+      if (!fresh) return null;
+      if (fresh.length > 0 && fresh[0][0] <= lastTime) {
+        candles = mergeCandles(stored.candles, fresh, CANDLE_STORE.MAX_CANDLES);
+        complete = stored.complete;
+      }
+    }
+  }
+
+  // Nothing usable stored, or too much missing to patch
+  if (!candles) {
+    candles = await fetcher(limit);
+    if (!candles) return null;
+    complete = candles.length < limit;
+  }
+
+  await writeRecord(db, { exchange, instId, bar, candles, complete, updatedAt: now });
+  return candles.slice(-limit);
+}
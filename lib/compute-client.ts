@@ -0,0 +1,225 @@
+/**
+ * Compute Client
+ * Main-thread side of the compute worker (lib/compute.worker, protocol in lib/compute-protocol)
+ *
+ * - One shared worker for every board and RSI pipeline, started on first use
+ * - Boards send only the map entries that changed since their previous patch
+ * - Live candle pushes go through the engine too, which holds the Wilder state (lib/live-rsi)
+ * - Without Worker support (server-side snapshot worker) the engine runs inline; when
+ *   the worker fails to load, it falls back to inline and boards resend their state
+ */
+
+import { RSIData, RsiPair, ExchangeId, LiveCandleUpdate } from './types';
+import { ComputeEngine } from './compute-engine';
+import type {
+  BoardDataMaps,
+  BoardDataKey,
+  BoardDataPatch,
+  BoardQuery,
+  ComputedBoard,
+  ComputeRequest,
+  ComputeResponse,
+  RsiCandleSet,
+  LiveRsiPatch,
+} from './compute-protocol';
+
+type RsiRequest = Extract<ComputeRequest, { type: 'rsi' }>;
+type CandlesRequest = Extract<ComputeRequest, { type: 'candles' }>;
+
+export interface LiveCandlesResult {
+  patches: [string, LiveRsiPatch][];  // By instId
+  unseeded: string[];                 // instIds to seed with seedLiveRsi
+}
+
+let worker: Worker | null = null;
+let engine: ComputeEngine | null = null;
+let nextBoardId = 1;
+let nextRsiId = 1;
+let nextCandlesId = 1;
+
+const boards: Map<number, BoardCompute> = new Map();
+const pendingRsi: Map<number, { request: RsiRequest; resolve: (data: RSIData | null) => void }> = new Map();
+const pendingCandles: Map<number, { request: CandlesRequest; resolve: (result: LiveCandlesResult) => void }> = new Map();
+
+const NO_MOVERS = { gainers: [], losers: [] };
+
+// Row model before the first computation arrives
+export const EMPTY_COMPUTED_BOARD: ComputedBoard = {
+  rowIds: [],
+  rsiAverages: { avgRsi7: null, avgRsi14: null, avgRsiW7: null, avgRsiW14: null },
+  quickFilterCounts: { overbought: 0, oversold: 0 },
+  topMovers: { '4h': NO_MOVERS, '24h': NO_MOVERS, '7d': NO_MOVERS },
+};
+
+function handleResponse(response: ComputeResponse): void {
+  if (response.type === 'board') {
+    boards.get(response.board)?.receive(response.result);
+    return;
+  }
+
+  if (response.type === 'candles') {
+    const pending = pendingCandles.get(response.id);
+    if (pending) {
+      pendingCandles.delete(response.id);
+      pending.resolve({ patches: response.patches, unseeded: response.unseeded });
+    }
+    return;
+  }
+
+  const pending = pendingRsi.get(response.id);
+  if (pending) {
+    pendingRsi.delete(response.id);
+    pending.resolve(response.data);
+  }
+}
+
+function startWorker(): boolean {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') return false;
+
+  try {
+    worker = new Worker(new URL('./compute.worker.ts', import.meta.url));
+  } catch (error) {
+    console.warn('[Compute] Worker unavailable, computing on the main thread:', error);
+    return false;
+  }
+
+  worker.onmessage = (event: MessageEvent<ComputeResponse>) => handleResponse(event.data);
+  // The engine catches its own errors, so this is a worker that never loaded
+  worker.onerror = (event) => {
+    console.warn('[Compute] Worker failed, computing on the main thread:', event.message);
+    fallBackToInline();
+  };
+  return true;
+}
+
+// Replay what the worker held: board state and unanswered requests
+// (live series are lost with it; candle pushes report them unseeded and they get reseeded)
+function fallBackToInline(): void {
+  worker?.terminate();
+  worker = null;
+  const inline = new ComputeEngine(handleResponse);
+  engine = inline;
+  boards.forEach(board => board.resync());
+  pendingRsi.forEach(({ request }) => inline.handle(request));
+  pendingCandles.forEach(({ request }) => inline.handle(request));
+}
+
+function send(request: ComputeRequest): void {
+  if (!worker && !engine && !startWorker()) {
+    engine = new ComputeEngine(handleResponse);
+  }
+  if (worker) {
+    worker.postMessage(request);
+  } else {
+    engine?.handle(request);
+  }
+}
+
+// Entries of `next` that are new or replaced since `prev` (by reference), and removed keys
+function diffMap<V>(prev: Map<string, V> | undefined, next: Map<string, V>): { set: [string, V][]; removed: string[] } {
+  const set: [string, V][] = [];
+  next.forEach((value, id) => {
+    if (prev?.get(id) !== value) set.push([id, value]);
+  });
+  const removed: string[] = [];
+  prev?.forEach((_, id) => {
+    if (!next.has(id)) removed.push(id);
+  });
+  return { set, removed };
+}
+
+/**
+ * RSIData from an instrument's candles, computed off the main thread when possible
+ * With a live key (liveRsiKey) the engine also keeps the series for candle pushes
+ */
+export function computeRsiData(candles: RsiCandleSet, pairs: RsiPair[], live?: string): Promise<RSIData | null> {
+  return new Promise(resolve => {
+    const request: RsiRequest = { type: 'rsi', id: nextRsiId++, candles, pairs, live };
+    pendingRsi.set(request.id, { request, resolve });
+    send(request);
+  });
+}
+
+/**
+ * Seed an instrument's live series without an RSI computation (snapshot mode)
+ */
+export function seedLiveRsi(
+  live: string,
+  daily: number[][] | null,
+  hourly: number[][] | null,
+  pairs: RsiPair[]
+): void {
+  send({ type: 'live-seed', live, daily, hourly, pairs });
+}
+
+/**
+ * Apply a batch of WebSocket candle pushes; resolves to the refreshed RSIData fields
+ */
+export function applyLiveCandles(exchange: ExchangeId, updates: LiveCandleUpdate[]): Promise<LiveCandlesResult> {
+  return new Promise(resolve => {
+    const request: CandlesRequest = { type: 'candles', id: nextCandlesId++, exchange, updates };
+    pendingCandles.set(request.id, { request, resolve });
+    send(request);
+  });
+}
+
+/**
+ * One board's connection to the compute engine
+ * Feed it the store's maps and query as they change; row models arrive through onResult
+ */
+export class BoardCompute {
+  private id: number;
+  private onResult: (result: ComputedBoard) => void;
+  private data: Partial<BoardDataMaps> = {};
+  private spotSymbols: Set<string> | null = null;
+  private query: BoardQuery | null = null;
+
+  constructor(onResult: (result: ComputedBoard) => void) {
+    this.id = nextBoardId++;
+    this.onResult = onResult;
+    boards.set(this.id, this);
+  }
+
+  setData<K extends BoardDataKey>(key: K, next: BoardDataMaps[K]): void {
+    const prev = this.data[key];
+    if (prev === next) return;
+    this.data[key] = next;
+    this.sendPatch(key, prev, next);
+  }
+
+  setSpotSymbols(symbols: Set<string>): void {
+    if (this.spotSymbols === symbols) return;
+    this.spotSymbols = symbols;
+    send({ type: 'board-spot', board: this.id, symbols: Array.from(symbols) });
+  }
+
+  setQuery(query: BoardQuery): void {
+    this.query = query;
+    send({ type: 'board-query', board: this.id, query });
+  }
+
+  close(): void {
+    boards.delete(this.id);
+    send({ type: 'board-close', board: this.id });
+  }
+
+  receive(result: ComputedBoard): void {
+    this.onResult(result);
+  }
+
+  // Send everything again (the engine that held it is gone)
+  resync(): void {
+    (Object.keys(this.data) as BoardDataKey[]).forEach(key => {
+      const map = this.data[key];
+      if (map) this.sendPatch(key, undefined, map);
+    });
+    if (this.spotSymbols) send({ type: 'board-spot', board: this.id, symbols: Array.from(this.spotSymbols) });
+    if (this.query) send({ type: 'board-query', board: this.id, query: this.query });
+  }
+
+  private sendPatch<K extends BoardDataKey>(key: K, prev: BoardDataMaps[K] | undefined, next: BoardDataMaps[K]): void {
+    const { set, removed } = diffMap<unknown>(prev, next);
+    if (set.length === 0 && removed.length === 0) return;
+    send({ type: 'board-data', board: this.id, key, set, removed } as BoardDataPatch);
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Compute Engine
+ * Board row models and RSI math behind the compute worker protocol (lib/compute-protocol)
+ * Hosted by lib/compute.worker; lib/compute-client runs it inline where workers are unavailable
+ *
+ * - Each board keeps a mirror of its data maps, patched with changed entries only
+ * - A board is recomputed once per burst of messages, and only after its first query
+ * - RSI requests are answered right away; a failed computation answers null
+ * - Live RSI series (lib/live-rsi) are seeded by keyed RSI requests and advanced by
+ *   candle pushes; pushes for instruments without a series are reported back as unseeded
+ */
+
+import { computeBoard } from './board-compute';
+import { calculateRsiData } from './rsi-data';
+import { LiveRsiSeries, liveRsiKey, createLiveRsiSeries, applyLiveCandle, readLiveRsi } from './live-rsi';
+import type { BoardData, BoardQuery, ComputeRequest, ComputeResponse, LiveRsiPatch } from './compute-protocol';
+
+interface BoardState {
+  data: BoardData;
+  query: BoardQuery | null;
+  scheduled: boolean;
+}
+
+function createBoardData(): BoardData {
+  return {
+    tickers: new Map(),
+    rsiData: new Map(),
+    fundingRateData: new Map(),
+    openInterestData: new Map(),
+    listingData: new Map(),
+    marketCapData: new Map(),
+    spotSymbols: new Set(),
+  };
+}
+
+export class ComputeEngine {
+  private boards: Map<number, BoardState> = new Map();
+  private live: Map<string, LiveRsiSeries> = new Map();
+  private post: (response: ComputeResponse) => void;
+
+  constructor(post: (response: ComputeResponse) => void) {
+    this.post = post;
+  }
+
+  handle(request: ComputeRequest): void {
+    switch (request.type) {
+      case 'board-data': {
+        const board = this.getBoard(request.board);
+        // Patches of every key have the same shape; only the value type differs
+        const map = board.data[request.key] as Map<string, unknown>;
+        request.set.forEach(([id, value]) => map.set(id, value));
+        request.removed.forEach(id => map.delete(id));
+        this.schedule(request.board);
+        break;
+      }
+      case 'board-spot':
+        this.getBoard(request.board).data.spotSymbols = new Set(request.symbols);
+        this.schedule(request.board);
+        break;
+      case 'board-query':
+        this.getBoard(request.board).query = request.query;
+        this.schedule(request.board);
+        break;
+      case 'board-close':
+        this.boards.delete(request.board);
+        break;
+      case 'rsi':
+        try {
+          const data = calculateRsiData(request.candles, request.pairs);
+          if (request.live) {
+            this.live.set(request.live, createLiveRsiSeries(request.candles.daily, request.candles.hourly, request.pairs));
+          }
+          this.post({ type: 'rsi', id: request.id, data });
+        } catch (error) {
+          console.error('[Compute] RSI calculation failed:', error);
+          this.post({ type: 'rsi', id: request.id, data: null });
+        }
+        break;
+      case 'live-seed':
+        this.live.set(request.live, createLiveRsiSeries(request.daily, request.hourly, request.pairs));
+        break;
+      case 'candles':
+        this.applyCandles(request);
+        break;
+    }
+  }
+
+  private applyCandles(request: Extract<ComputeRequest, { type: 'candles' }>): void {
+    const touched: Map<string, LiveRsiSeries> = new Map();
+    const unseeded: Set<string> = new Set();
+
+    request.updates.forEach(({ instId, bar, candle }) => {
+      const key = liveRsiKey(request.exchange, instId);
+      const series = this.live.get(key);
+      if (!series) {
+        unseeded.add(instId);
+        return;
+      }
+      if (applyLiveCandle(series, bar, candle)) {
+        touched.set(instId, series);
+      } else {
+        // Bar skipped (socket gap): reseed from REST
+        this.live.delete(key);
+        touched.delete(instId);
+        unseeded.add(instId);
+      }
+    });
+
+    const patches: [string, LiveRsiPatch][] = [];
+    touched.forEach((series, instId) => {
+      try {
+        patches.push([instId, readLiveRsi(series)]);
+      } catch (error) {
+        console.error('[Compute] Live RSI failed:', error);
+      }
+    });
+    this.post({ type: 'candles', id: request.id, patches, unseeded: Array.from(unseeded) });
+  }
+
+  private getBoard(id: number): BoardState {
+    let board = this.boards.get(id);
+    if (!board) {
+      board = { data: createBoardData(), query: null, scheduled: false };
+      this.boards.set(id, board);
+    }
+    return board;
+  }
+
+  // Coalesce the patches of one update (tickers + funding + RSI) into a single pass
+  private schedule(id: number): void {
+    const board = this.boards.get(id);
+    if (!board || board.scheduled) return;
+    board.scheduled = true;
+
+    setTimeout(() => {
+      board.scheduled = false;
+      if (!board.query || this.boards.get(id) !== board) return;
+      try {
+        this.post({ type: 'board', board: id, result: computeBoard(board.data, board.query) });
+      } catch (error) {
+        console.error('[Compute] Board computation failed:', error);
+      }
+    }, 0);
+  }
+}
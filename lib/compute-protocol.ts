@@ -0,0 +1,118 @@
+/**
+ * Compute Worker Protocol
+ * Messages between the main thread (lib/compute-client) and the compute engine
+ * (lib/compute-engine, hosted by lib/compute.worker)
+ *
+ * - Boards mirror their data maps into the engine as patches (changed entries only)
+ *   and get back ready-to-render row models whenever data or query changed
+ * - RSI requests carry an instrument's candles and resolve to its RSIData; with a live
+ *   key the engine keeps the daily / hourly state for WebSocket candle pushes (lib/live-rsi)
+ */
+
+import {
+  ProcessedTicker,
+  RSIData,
+  FundingRateData,
+  OpenInterestData,
+  ListingData,
+  MarketCapData,
+  Filters,
+  SortConfig,
+  RsiPair,
+  ExchangeId,
+  LiveCandleUpdate,
+} from './types';
+import type { RsiAverages, QuickFilterCounts, TopMoversResult } from './store-utils';
+
+// ===========================================
+// Board Data
+// ===========================================
+
+// Per-instrument maps a board mirrors into the engine
+export interface BoardDataMaps {
+  tickers: Map<string, ProcessedTicker>;
+  rsiData: Map<string, RSIData>;
+  fundingRateData: Map<string, FundingRateData>;
+  openInterestData: Map<string, OpenInterestData>;
+  listingData: Map<string, ListingData>;
+  marketCapData: Map<string, MarketCapData>;
+}
+
+export type BoardDataKey = keyof BoardDataMaps;
+
+export type BoardDataValue<K extends BoardDataKey> = BoardDataMaps[K] extends Map<string, infer V> ? V : never;
+
+// Everything the board pipeline reads
+export interface BoardData extends BoardDataMaps {
+  spotSymbols: Set<string>;
+}
+
+// Everything besides data that decides which rows show and in what order
+export interface BoardQuery {
+  searchTerm: string;
+  filters: Filters;
+  sort: SortConfig;
+  watchlistSymbols: string[] | null; // Viewed watchlist (normalized symbols), null for the whole market
+  rsiPairs: RsiPair[];
+  defaultFundingInterval: number;
+}
+
+export type TopMoversTimeframe = '4h' | '24h' | '7d';
+
+// Row model of one board: filtered + sorted instruments and the header aggregates
+export interface ComputedBoard {
+  rowIds: string[];
+  rsiAverages: RsiAverages;
+  quickFilterCounts: QuickFilterCounts;
+  topMovers: Record<TopMoversTimeframe, TopMoversResult>;
+}
+
+// ===========================================
+// RSI
+// ===========================================
+
+// Candles behind one RSIData, [timestamp, open, high, low, close, volume] oldest first
+export interface RsiCandleSet {
+  daily: number[][] | null;
+  weekly: number[][] | null;
+  hourly: number[][] | null;
+  fourHour: number[][] | null;    // Only loaded when a configured pair is on 4H
+  fallback4h: number[][] | null;  // Last two 4H bars when hourly failed (change4h only)
+}
+
+// RSIData fields kept current by live candle pushes
+export type LiveRsiPatch = Partial<Pick<
+  RSIData,
+  'rsi7' | 'rsi14' | 'change1h' | 'change4h' | 'change7d' | 'sparkline7d' | 'sparkline24h' | 'custom'
+>>;
+
+// ===========================================
+// Messages
+// ===========================================
+
+// Entries changed since the previous patch of the same map
+export type BoardDataPatch = {
+  [K in BoardDataKey]: {
+    type: 'board-data';
+    board: number;
+    key: K;
+    set: [string, BoardDataValue<K>][];
+    removed: string[];
+  };
+}[BoardDataKey];
+
+export type ComputeRequest =
+  | BoardDataPatch
+  | { type: 'board-spot'; board: number; symbols: string[] }
+  | { type: 'board-query'; board: number; query: BoardQuery }
+  | { type: 'board-close'; board: number }
+  // `live`: liveRsiKey of the instrument, to keep its state for candle pushes
+  | { type: 'rsi'; id: number; candles: RsiCandleSet; pairs: RsiPair[]; live?: string }
+  | { type: 'live-seed'; live: string; daily: number[][] | null; hourly: number[][] | null; pairs: RsiPair[] }
+  | { type: 'candles'; id: number; exchange: ExchangeId; updates: LiveCandleUpdate[] };
+
+export type ComputeResponse =
+  | { type: 'board'; board: number; result: ComputedBoard }
+  | { type: 'rsi'; id: number; data: RSIData | null }
+  // `unseeded`: pushed instruments without live state yet
+  | { type: 'candles'; id: number; patches: [string, LiveRsiPatch][]; unseeded: string[] };
@@ -0,0 +1,14 @@
+/**
+ * Compute Worker entry
+ * Runs the compute engine off the main thread, see lib/compute-client
+ */
+
+import { ComputeEngine } from './compute-engine';
+import type { ComputeRequest, ComputeResponse } from './compute-protocol';
+
+// Dedicated worker scope (the project's lib settings only type the window)
+const scope = self as unknown as Worker;
+
+const engine = new ComputeEngine((response: ComputeResponse) => scope.postMessage(response));
+
+scope.onmessage = (event: MessageEvent<ComputeRequest>) => engine.handle(event.data);
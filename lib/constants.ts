@@ -4,6 +4,7 @@
  */
 
 import pkg from '../package.json';
+import type { ExchangeId, StreamTransport, CandleBar } from './types';
 
 // ===========================================
 // App Version (auto-synced from package.json)
@@ -15,10 +16,14 @@ export const APP_VERSION = pkg.version;
 // ===========================================
 export const API = {
   OKX_WS_PUBLIC: 'wss://ws.okx.com:8443/ws/v5/public',
+  OKX_WS_BUSINESS: 'wss://ws.okx.com:8443/ws/v5/business', // Candle channels
   OKX_REST_BASE: 'https://www.okx.com/api/v5',
   COINGECKO_BASE: 'https://api.coingecko.com/api/v3',
   HYPERLIQUID_REST: 'https://api.hyperliquid.xyz/info',
   HYPERLIQUID_WS: 'wss://api.hyperliquid.xyz/ws',
+  BINANCE_FAPI_REST: 'https://fapi.binance.com/fapi/v1',
+  BINANCE_FAPI_WS: 'wss://fstream.binance.com/ws',
+  BINANCE_SPOT_REST: 'https://api.binance.com/api/v3',
 } as const;
 
 // ===========================================
@@ -39,6 +44,9 @@ export const TIMING = {
   MARKET_CAP_REFRESH: 5 * 60 * 1000,     // 5 minutes
   FUNDING_RATES_REFRESH: 5 * 60 * 1000,  // 5 minutes
   REST_POLLING_INTERVAL: 5 * 1000,       // 5 seconds
+  FUNDING_ARB_REFRESH: 30 * 1000,        // 30 seconds (mark prices for arb basis)
+  OPEN_INTEREST_REFRESH: 5 * 60 * 1000,  // 5 minutes
+  OPEN_INTEREST_CHANGE_REFRESH: 15 * 60 * 1000, // 15 minutes (per-instrument OI history)
 
   // Initial delays
   INITIAL_RSI_FETCH_DELAY: 2000,         // 2 seconds
@@ -70,7 +78,11 @@ export const TIMING = {
 // ===========================================
 export const RATE_LIMIT = {
   MAX_REQUESTS_PER_SECOND: 8,
+  HYPERLIQUID_MAX_REQUESTS_PER_SECOND: 4,
   WINDOW_MS: 1000,
+  // OKX rubik (trading statistics) endpoints: 5 requests per 2 seconds
+  OKX_RUBIK_MAX_REQUESTS: 5,
+  OKX_RUBIK_WINDOW_MS: 2000,
   API_BATCH_SIZE: 20,
 } as const;
 
@@ -89,7 +101,8 @@ export const RSI = {
   OVERBOUGHT: 85,
 
   // Candle limits for calculation
-  DAILY_CANDLE_LIMIT: 100,
+  // Daily history also feeds the EMA200 / MACD / Bollinger / ATR columns (lib/indicators)
+  DAILY_CANDLE_LIMIT: 210,
   WEEKLY_CANDLE_LIMIT: 100,
   HOURLY_CANDLE_LIMIT: 24,
 
@@ -97,6 +110,85 @@ export const RSI = {
   MIN_CANDLES_REQUIRED: 15,
 } as const;
 
+// ===========================================
+// Configurable RSI Pairs
+// ===========================================
+export const RSI_PAIRS = {
+  MAX_PAIRS: 8,
+  MIN_PERIOD: 2,
+  MAX_PERIOD: 50,
+  // Candles fetched for a bar with configured pairs (2x the longest period)
+  CANDLE_LIMIT: 100,
+} as const;
+
+// ===========================================
+// Candle Store (IndexedDB, see lib/candle-store)
+// ===========================================
+export const CANDLE_STORE = {
+  DB_NAME: 'perp-candles',
+  DB_VERSION: 1,
+  STORE_NAME: 'candles',
+  // Candles kept per (exchange, instId, bar), above the longest request (daily RSI + indicators)
+  MAX_CANDLES: 250,
+  // Bar lengths, to work out how many candles are missing since the last stored one
+  BAR_MS: {
+    '1H': 60 * 60 * 1000,
+    '4H': 4 * 60 * 60 * 1000,
+    '1D': 24 * 60 * 60 * 1000,
+    '1W': 7 * 24 * 60 * 60 * 1000,
+  } as Record<CandleBar, number>,
+  // Stored candles reused without any request for this long (weekly RSI barely moves in an hour)
+  REUSE_WINDOW: {
+    '1W': 60 * 60 * 1000,
+  } as Partial<Record<CandleBar, number>>,
+} as const;
+
+// ===========================================
+// Technical Indicators (daily candles)
+// ===========================================
+export const INDICATORS = {
+  EMA_PERIODS: [20, 50, 200],
+  MACD_FAST: 12,
+  MACD_SLOW: 26,
+  MACD_SIGNAL: 9,
+  // A MACD cross counts as fresh for this many daily bars
+  MACD_FRESH_CROSS_BARS: 3,
+  BB_PERIOD: 20,
+  BB_STD_DEV: 2,
+  ATR_PERIOD: 14,
+  // ATR % of price bands for the volatility pill
+  ATR_LOW: 3,
+  ATR_HIGH: 6,
+  ATR_EXTREME: 10,
+} as const;
+
+// ===========================================
+// Realized Volatility / Beta to BTC (daily candles)
+// ===========================================
+export const VOLATILITY = {
+  // Daily returns kept per instrument (the 30d window)
+  RETURN_DAYS: 30,
+  SHORT_DAYS: 7,
+  // Crypto trades every day of the year
+  ANNUALIZATION_DAYS: 365,
+  // Overlapping returns needed before beta / correlation are shown
+  MIN_BETA_DAYS: 20,
+} as const;
+
+// ===========================================
+// RSI Divergence (daily candles)
+// ===========================================
+export const DIVERGENCE = {
+  RSI_PERIOD: 14,
+  // Bars on each side that confirm a swing high / low
+  PIVOT_BARS: 3,
+  // Latest swing must be at most this many bars old
+  MAX_PIVOT_AGE: 10,
+  // Widget lookback choices (daily bars covering both swings)
+  LOOKBACK_OPTIONS: [30, 60, 90],
+  DEFAULT_LOOKBACK: 60,
+} as const;
+
 // ===========================================
 // Funding Rate Configuration
 // ===========================================
@@ -112,6 +204,127 @@ export const FUNDING = {
   DEFAULT_INTERVAL_HOURS: 8,
 } as const;
 
+// ===========================================
+// Funding History (token detail drawer)
+// ===========================================
+export const FUNDING_HISTORY = {
+  // Lookback windows in days
+  RANGE_DAYS: { '7d': 7, '30d': 30, '90d': 90 },
+  DEFAULT_RANGE: '30d',
+
+  // Notional used for cumulative funding (USD)
+  DEFAULT_NOTIONAL: 10000,
+
+  // Page caps per venue request loop (90d of 1h funding = 2160 periods)
+  MAX_PAGES: 25,
+
+  // Reuse fetched history for this long before re-pulling
+  CACHE_TTL: 10 * 60 * 1000,             // 10 minutes
+} as const;
+
+// ===========================================
+// Alerts
+// ===========================================
+export const ALERTS = {
+  DEFAULT_COOLDOWN_MIN: 60,
+  MAX_RULES: 20,
+
+  // Symbols listed in one notification before "+N more"
+  MAX_SYMBOLS_SHOWN: 5,
+
+  // In-app toasts
+  TOAST_DURATION: 8000,                  // 8 seconds
+  MAX_TOASTS: 4,
+} as const;
+
+// ===========================================
+// Watchlists
+// ===========================================
+export const WATCHLISTS = {
+  // Seeded from the legacy per-exchange favorites
+  DEFAULT_ID: 'favorites',
+  DEFAULT_NAME: 'Favorites',
+  MAX_LISTS: 20,
+  MAX_NAME_LENGTH: 30,
+  MAX_NOTE_LENGTH: 80,
+  // Query param carrying a shared list ("name:BTC,ETH,SOL")
+  URL_PARAM: 'wl',
+} as const;
+
+// ===========================================
+// Saved Screens
+// ===========================================
+export const SCREENS = {
+  MAX_SCREENS: 30,
+  MAX_NAME_LENGTH: 40,
+  // Query param carrying a shared screen
+  URL_PARAM: 'screen',
+} as const;
+
+// ===========================================
+// Token Detail Chart
+// ===========================================
+export const TOKEN_CHART = {
+  // Candles per chart (same depth the RSI pipeline uses, so RSI converges)
+  CANDLE_LIMIT: 100,
+  // Candles drawn (older ones only warm up the RSI)
+  VISIBLE_CANDLES: 60,
+  DEFAULT_BAR: '1D',
+
+  // Reuse fetched candles for this long before re-pulling
+  CACHE_TTL: 60 * 1000,                  // 1 minute
+} as const;
+
+// ===========================================
+// Market Charts (ETH/BTC, TOTAL2)
+// ===========================================
+export const MARKET_CHART = {
+  // ETH/BTC from the venue's ETH and BTC perps: candle size + count per range
+  // (counts stay under every venue's per-request limit)
+  ETH_BTC_RANGES: {
+    '7d': { bar: '1H', limit: 168 },
+    '30d': { bar: '4H', limit: 180 },
+    '90d': { bar: '1D', limit: 90 },
+    '1y': { bar: '1W', limit: 52 },
+  },
+  ETH_BTC_DEFAULT_RANGE: '30d',
+
+  // TOTAL2 is rebuilt from CoinGecko's hourly 7d sparklines: hours per range
+  TOTAL2_RANGES: {
+    '24h': 24,
+    '3d': 72,
+    '7d': 168,
+  },
+  TOTAL2_DEFAULT_RANGE: '7d',
+
+  CHART_HEIGHT: 80,
+} as const;
+
+// ===========================================
+// Market Treemap
+// ===========================================
+export const TREEMAP = {
+  // Largest tiles only; the long tail would be sub-pixel anyway
+  MAX_TILES: 150,
+  // Tile size needed before a label / a label + value is drawn
+  MIN_LABEL_WIDTH: 36,
+  MIN_LABEL_HEIGHT: 18,
+  MIN_VALUE_HEIGHT: 34,
+} as const;
+
+// ===========================================
+// Scatter Plot
+// ===========================================
+export const SCATTER = {
+  // Dot radius range (px), scaled by sqrt(market cap)
+  MIN_RADIUS: 3,
+  MAX_RADIUS: 14,
+  // Drags smaller than this (px) count as clicks, not selections
+  MIN_BRUSH_SIZE: 6,
+  DEFAULT_X: 'dRsiAvg',
+  DEFAULT_Y: 'fundingApr',
+} as const;
+
 // ===========================================
 // Widget Configuration
 // ===========================================
@@ -127,6 +340,91 @@ export const WIDGET = {
   DISPLAY_LIMIT: 5,          // Max items to show in small widgets
 } as const;
 
+// ===========================================
+// Shared Snapshot (/api/snapshot)
+// ===========================================
+export const SNAPSHOT = {
+  // Client poll interval (revalidated with the ETag, 304 when unchanged)
+  CLIENT_REFRESH: 60 * 1000,             // 1 minute
+  // Server worker stops when no client asked for this long
+  IDLE_TIMEOUT: 10 * 60 * 1000,          // 10 minutes
+  IDLE_CHECK_INTERVAL: 60 * 1000,        // 1 minute
+  // Server-side instrument list refresh (new listings, volume ranking)
+  TICKER_REFRESH: 5 * 60 * 1000,         // 5 minutes
+  // Longest a request waits for a starting worker's funding and listings
+  WARMUP_WAIT: 10 * 1000,                // 10 seconds
+} as const;
+
+// ===========================================
+// Live Stream (/api/stream, Server-Sent Events)
+// ===========================================
+
+export const STREAM = {
+  DEFAULT_TRANSPORT: 'direct' as StreamTransport,
+  // Server batches ticker / funding / RSI changes into one diff per flush
+  FLUSH_INTERVAL: 1000,                  // 1 second
+  // SSE comment line so proxies don't close a quiet connection
+  HEARTBEAT_INTERVAL: 15 * 1000,         // 15 seconds
+  // Client falls back to the other transport when SSE hasn't delivered tickers by then
+  CONNECT_TIMEOUT: 15 * 1000,            // 15 seconds
+  // Consecutive EventSource errors before falling back
+  MAX_ERRORS: 3,
+} as const;
+
+// ===========================================
+// Live Candles (WebSocket RSI for the top 50, see lib/live-rsi)
+// ===========================================
+
+export const LIVE_CANDLES = {
+  // Candle pushes are batched into one worker round trip and one RSI state update
+  FLUSH_INTERVAL: 1000,                  // 1 second
+  // Top 50 counts as live while candles arrived this recently
+  ACTIVE_WINDOW: 2 * 60 * 1000,          // 2 minutes
+  // REST recomputation of live top-50 RSI (weekly RSI, indicators, reseeding the live state)
+  REST_REFRESH: 10 * 60 * 1000,          // 10 minutes
+  // Closed closes kept per bar: 24h sparkline, 4h / 7d change
+  RECENT_CLOSES: 24,
+} as const;
+
+// ===========================================
+// Compute Worker (indicator math + board filtering off the main thread)
+// ===========================================
+
+export const COMPUTE = {
+  // Gainers / losers kept per timeframe in every computed board
+  TOP_MOVERS_LIMIT: 10,
+} as const;
+
+// ===========================================
+// BTC / ETH Dominance History
+// ===========================================
+export const DOMINANCE = {
+  RANGE_DAYS: {
+    '1d': 1,
+    '7d': 7,
+    '30d': 30,
+    '1y': 365,
+  },
+  DEFAULT_RANGE: '7d',
+
+  // Points per response after downsampling
+  MAX_POINTS: 120,
+
+  // Minimum gap between stored snapshots
+  SNAPSHOT_INTERVAL: 5 * 60 * 1000,      // 5 minutes
+  // Snapshots keep full resolution this long, then thin to one per hour
+  RAW_RETENTION_DAYS: 7,
+  // Snapshots older than this are dropped (1y range plus slack)
+  RETENTION_DAYS: 400,
+
+  // File store location (relative to the server's working directory)
+  STORE_PATH: '.data/dominance.json',
+
+  // Widget refresh interval
+  REFRESH_INTERVAL: 5 * 60 * 1000,       // 5 minutes
+  CHART_HEIGHT: 80,
+} as const;
+
 // ===========================================
 // AHR999 Indicator Zones
 // ===========================================
@@ -142,15 +440,28 @@ export const AHR999 = {
   // Power law model coefficients
   COEFFICIENT_A: 5.84,
   COEFFICIENT_B: 17.01,
+
+  // Daily closes averaged into the DCA cost
+  DCA_DAYS: 200,
+
+  // Index history kept for the chart (4 years)
+  HISTORY_DAYS: 4 * 365,
+
+  // OKX BTC spot daily candles (UTC days), history-candles pages hold 100 rows
+  OKX_INST_ID: 'BTC-USDT',
+  OKX_PAGE_LIMIT: 100,
+
+  // Refresh interval for the widget
+  REFRESH_INTERVAL: 5 * 60 * 1000,
 } as const;
 
-// Zone colors for the bar visualization
+// Zone colors for the bar visualization and the history chart (hex for SVG)
 export const AHR999_ZONE_COLORS = [
-  { width: '9%', color: 'bg-green-500' },   // Bottom
-  { width: '15%', color: 'bg-emerald-400' }, // DCA
-  { width: '16%', color: 'bg-orange-400' },  // Wait
-  { width: '40%', color: 'bg-red-400' },     // Take Profit
-  { width: '20%', color: 'bg-red-600' },     // Top
+  { zone: 'bottom', width: '9%', color: 'bg-green-500', hex: '#22c55e' },       // Bottom
+  { zone: 'dca', width: '15%', color: 'bg-emerald-400', hex: '#34d399' },       // DCA
+  { zone: 'wait', width: '16%', color: 'bg-orange-400', hex: '#fb923c' },       // Wait
+  { zone: 'takeProfit', width: '40%', color: 'bg-red-400', hex: '#f87171' },    // Take Profit
+  { zone: 'top', width: '20%', color: 'bg-red-600', hex: '#dc2626' },           // Top
 ] as const;
 
 // Zone legend data
@@ -203,6 +514,7 @@ export const CACHE_KEYS = {
   COLUMN_ORDER: 'okx-column-order',
   FILTERS: 'okx-filters',
   COLUMNS: 'okx-columns',
+  SCREENS: 'okx-screens',
   RSI_CACHE: 'okx-rsi-cache',
   MARKET_CAP_CACHE: 'okx-marketcap-cache',
   LOGO_CACHE: 'perp_board_logo_cache',
@@ -211,9 +523,65 @@ export const CACHE_KEYS = {
   HL_COLUMN_ORDER: 'hl-column-order',
   HL_FILTERS: 'hl-filters',
   HL_COLUMNS: 'hl-columns',
+  HL_SCREENS: 'hl-screens',
   HL_RSI_CACHE: 'hl-rsi-cache',
+  // Binance-specific cache keys
+  BINANCE_FAVORITES: 'binance-favorites',
+  BINANCE_COLUMN_ORDER: 'binance-column-order',
+  BINANCE_FILTERS: 'binance-filters',
+  BINANCE_COLUMNS: 'binance-columns',
+  BINANCE_SCREENS: 'binance-screens',
+  BINANCE_RSI_CACHE: 'binance-rsi-cache',
+  // Watchlists (shared across exchanges, replace the per-exchange favorites)
+  WATCHLISTS: 'perp-watchlists',
+  // Configured RSI pairs (shared across exchanges)
+  RSI_PAIRS: 'perp-rsi-pairs',
+  // Alerts (shared across exchanges)
+  ALERT_RULES: 'perp-alert-rules',
+  ALERT_COOLDOWNS: 'perp-alert-cooldowns',
+  // BTC daily closes behind the AHR999 history
+  AHR999_CLOSES: 'perp-ahr999-closes',
+  // Preferred live transport (shared across exchanges)
+  STREAM_TRANSPORT: 'perp-stream-transport',
 } as const;
 
+// Per-exchange namespaces for user preferences + RSI cache
+export interface ExchangeCacheKeys {
+  FAVORITES: string;
+  COLUMN_ORDER: string;
+  FILTERS: string;
+  COLUMNS: string;
+  SCREENS: string;
+  RSI_CACHE: string;
+}
+
+export const EXCHANGE_CACHE_KEYS: Record<ExchangeId, ExchangeCacheKeys> = {
+  okx: {
+    FAVORITES: CACHE_KEYS.FAVORITES,
+    COLUMN_ORDER: CACHE_KEYS.COLUMN_ORDER,
+    FILTERS: CACHE_KEYS.FILTERS,
+    COLUMNS: CACHE_KEYS.COLUMNS,
+    SCREENS: CACHE_KEYS.SCREENS,
+    RSI_CACHE: CACHE_KEYS.RSI_CACHE,
+  },
+  hyperliquid: {
+    FAVORITES: CACHE_KEYS.HL_FAVORITES,
+    COLUMN_ORDER: CACHE_KEYS.HL_COLUMN_ORDER,
+    FILTERS: CACHE_KEYS.HL_FILTERS,
+    COLUMNS: CACHE_KEYS.HL_COLUMNS,
+    SCREENS: CACHE_KEYS.HL_SCREENS,
+    RSI_CACHE: CACHE_KEYS.HL_RSI_CACHE,
+  },
+  binance: {
+    FAVORITES: CACHE_KEYS.BINANCE_FAVORITES,
+    COLUMN_ORDER: CACHE_KEYS.BINANCE_COLUMN_ORDER,
+    FILTERS: CACHE_KEYS.BINANCE_FILTERS,
+    COLUMNS: CACHE_KEYS.BINANCE_COLUMNS,
+    SCREENS: CACHE_KEYS.BINANCE_SCREENS,
+    RSI_CACHE: CACHE_KEYS.BINANCE_RSI_CACHE,
+  },
+};
+
 // ===========================================
 // Meme Tokens List
 // ===========================================
@@ -27,7 +27,21 @@ export const DEFAULT_COLUMNS: ColumnVisibility = {
   rsiW7: false,
   rsiW14: false,
   listDate: false,
-  hasSpot: false
+  hasSpot: false,
+  openInterest: false,
+  oiChange24h: false,
+  oiVolRatio: false,
+  emaTrend: false,
+  ema20: false,
+  ema50: false,
+  ema200: false,
+  macd: false,
+  bbPercentB: false,
+  atrPct: false,
+  vol7d: false,
+  vol30d: false,
+  btcBeta: false,
+  btcCorr: false
 };
 
 // Get default columns (kept for backward compatibility, isMobile param ignored)
@@ -50,11 +64,25 @@ export const DEFAULT_COLUMN_ORDER: ColumnKey[] = [
   'change7d',
   'volume24h',
   'marketCap',
+  'openInterest',
+  'oiChange24h',
+  'oiVolRatio',
   'dRsiSignal',
   'wRsiSignal',
   'rsi7',
   'rsi14',
   'rsiW7',
   'rsiW14',
+  'emaTrend',
+  'ema20',
+  'ema50',
+  'ema200',
+  'macd',
+  'bbPercentB',
+  'atrPct',
+  'vol7d',
+  'vol30d',
+  'btcBeta',
+  'btcCorr',
   'listDate'
 ];
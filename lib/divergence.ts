@@ -0,0 +1,70 @@
+/**
+ * RSI Divergence Detection
+ * Regular divergences on the daily closes the RSI pipeline already fetches
+ *
+ * - Swings are closes that are the lowest / highest within PIVOT_BARS on each side,
+ *   so the newest swing can only be confirmed PIVOT_BARS after it formed
+ * - Bullish: the latest swing low closes below an earlier one while RSI14 holds higher
+ * - Bearish: the latest swing high closes above an earlier one while RSI14 makes a lower high
+ * - Only the latest swing of each type is checked (older ones are history, not a setup),
+ *   paired with the closest earlier swing that diverges
+ */
+
+import { RsiDivergence } from './types';
+import { DIVERGENCE } from './constants';
+import { calculateRSISeries } from './utils';
+
+// Longest span any widget lookback can show
+const MAX_SPAN = Math.max(...DIVERGENCE.LOOKBACK_OPTIONS);
+
+// Indexes of confirmed swing lows (dir -1) or highs (dir 1) that have an RSI value
+function findSwings(closes: number[], rsi: (number | null)[], dir: 1 | -1): number[] {
+  const k = DIVERGENCE.PIVOT_BARS;
+  const swings: number[] = [];
+
+  for (let i = k; i < closes.length - k; i++) {
+    if (rsi[i] === null) continue;
+    let isSwing = true;
+    for (let j = i - k; j <= i + k && isSwing; j++) {
+      if (j !== i && (closes[j] - closes[i]) * dir > 0) isSwing = false;
+    }
+    if (isSwing) swings.push(i);
+  }
+  return swings;
+}
+
+function detect(closes: number[], rsi: (number | null)[], type: RsiDivergence['type']): RsiDivergence | null {
+  const dir = type === 'bullish' ? -1 : 1;
+  const swings = findSwings(closes, rsi, dir);
+  if (swings.length < 2) return null;
+
+  const latest = swings[swings.length - 1];
+  const barsAgo = closes.length - 1 - latest;
+  if (barsAgo > DIVERGENCE.MAX_PIVOT_AGE) return null;
+
+  for (let i = swings.length - 2; i >= 0; i--) {
+    const earlier = swings[i];
+    const span = latest - earlier;
+    if (barsAgo + span > MAX_SPAN) break;
+
+    // Price extends the swing, RSI doesn't
+    const priceExtends = (closes[latest] - closes[earlier]) * dir > 0;
+    const rsiFails = ((rsi[latest] as number) - (rsi[earlier] as number)) * dir < 0;
+    if (priceExtends && rsiFails) return { type, barsAgo, span };
+  }
+  return null;
+}
+
+/**
+ * Latest bullish and bearish divergence in a series of daily closes (oldest first)
+ */
+export function detectRsiDivergences(closes: number[]): RsiDivergence[] {
+  const rsi = calculateRSISeries(closes, DIVERGENCE.RSI_PERIOD);
+  return [detect(closes, rsi, 'bullish'), detect(closes, rsi, 'bearish')]
+    .filter((d): d is RsiDivergence => d !== null);
+}
+
+// Whether both swings fall inside the last `lookback` daily bars
+export function isWithinLookback(divergence: RsiDivergence, lookback: number): boolean {
+  return divergence.barsAgo + divergence.span <= lookback;
+}
@@ -0,0 +1,157 @@
+/**
+ * Dominance Store (server only)
+ * BTC / ETH dominance snapshots taken by /api/btc-dominance, kept across restarts
+ *
+ * - DominanceStore is the storage contract; the route only goes through getDominanceStore()
+ * - File store (default): JSON file at DOMINANCE_STORE_PATH, or DOMINANCE.STORE_PATH
+ * - Memory store: DOMINANCE_STORE=memory, and the default on Vercel where the filesystem
+ *   is read-only; swap in a KV / database store there by implementing DominanceStore
+ * - Snapshots older than RAW_RETENTION_DAYS are thinned to one per hour and dropped
+ *   after RETENTION_DAYS, so a year of history stays small
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DominancePoint } from './types';
+import { DOMINANCE } from './constants';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface DominanceStore {
+  // Snapshots at or after `since` (ms), oldest first
+  list(since: number): Promise<DominancePoint[]>;
+  append(point: DominancePoint): Promise<void>;
+}
+
+function isDominancePoint(value: unknown): value is DominancePoint {
+  if (typeof value !== 'object' || value === null) return false;
+  const { timestamp, btc, eth } = value as Record<string, unknown>;
+  return typeof timestamp === 'number' && typeof btc === 'number' && typeof eth === 'number';
+}
+
+/**
+ * Apply retention: full resolution for recent snapshots, the first snapshot of
+ * each hour before that, nothing older than RETENTION_DAYS
+ */
+export function compactSnapshots(points: DominancePoint[], now: number): DominancePoint[] {
+  const rawStart = now - DOMINANCE.RAW_RETENTION_DAYS * DAY_MS;
+  const keepStart = now - DOMINANCE.RETENTION_DAYS * DAY_MS;
+  const result: DominancePoint[] = [];
+  let lastHour = -1;
+
+  points.forEach(point => {
+    if (point.timestamp < keepStart) return;
+    if (point.timestamp >= rawStart) {
+      result.push(point);
+      return;
+    }
+    const hour = Math.floor(point.timestamp / HOUR_MS);
+    if (hour !== lastHour) {
+      result.push(point);
+      lastHour = hour;
+    }
+  });
+  return result;
+}
+
+/**
+ * Average snapshots into at most `maxPoints` equal time buckets from `start`
+ * Each bucket is stamped with its newest snapshot, so the last point stays current
+ */
+export function downsampleDominance(points: DominancePoint[], start: number, maxPoints: number): DominancePoint[] {
+  if (points.length <= maxPoints) return points;
+
+  const end = points[points.length - 1].timestamp;
+  const size = Math.max((end - start) / maxPoints, 1);
+  const buckets = new Map<number, { timestamp: number; btc: number; eth: number; count: number }>();
+
+  points.forEach(point => {
+    const index = Math.min(Math.floor((point.timestamp - start) / size), maxPoints - 1);
+    const bucket = buckets.get(index) ?? { timestamp: 0, btc: 0, eth: 0, count: 0 };
+    bucket.timestamp = point.timestamp;
+    bucket.btc += point.btc;
+    bucket.eth += point.eth;
+    bucket.count++;
+    buckets.set(index, bucket);
+  });
+
+  return Array.from(buckets.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([, b]) => ({ timestamp: b.timestamp, btc: b.btc / b.count, eth: b.eth / b.count }));
+}
+
+// ===========================================
+// Stores
+// ===========================================
+
+// Lives as long as the server instance (lost on cold starts)
+class MemoryDominanceStore implements DominanceStore {
+  private points: DominancePoint[] = [];
+
+  async list(since: number): Promise<DominancePoint[]> {
+    return this.points.filter(p => p.timestamp >= since);
+  }
+
+  async append(point: DominancePoint): Promise<void> {
+    this.points = compactSnapshots([...this.points, point], point.timestamp);
+  }
+}
+
+// Whole history in one JSON file, read once and kept in memory
+class FileDominanceStore implements DominanceStore {
+  private points: DominancePoint[] | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async load(): Promise<DominancePoint[]> {
+    if (this.points) return this.points;
+
+    try {
+      const raw: unknown = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      this.points = Array.isArray(raw) ? raw.filter(isDominancePoint) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[Dominance Store] Failed to read ${this.filePath}:`, error);
+      }
+      this.points = [];
+    }
+    return this.points;
+  }
+
+  async list(since: number): Promise<DominancePoint[]> {
+    return (await this.load()).filter(p => p.timestamp >= since);
+  }
+
+  async append(point: DominancePoint): Promise<void> {
+    // Writes are queued and go through a temp file, so a crash mid-write
+    // never leaves a truncated history behind
+    // The new history is built inside the queue, so concurrent appends each see
+    // the previous one's points instead of overwriting them
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        const points = compactSnapshots([...(await this.load()), point], point.timestamp);
+        this.points = points;
+
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(points));
+        await fs.rename(tempPath, this.filePath);
+      })
+      .catch(error => console.error(`[Dominance Store] Failed to write ${this.filePath}:`, error));
+    return this.writeQueue;
+  }
+}
+
+let store: DominanceStore | null = null;
+
+export function getDominanceStore(): DominanceStore {
+  if (!store) {
+    const kind = process.env.DOMINANCE_STORE ?? (process.env.VERCEL ? 'memory' : 'file');
+    store = kind === 'memory'
+      ? new MemoryDominanceStore()
+      : new FileDominanceStore(path.resolve(process.env.DOMINANCE_STORE_PATH || DOMINANCE.STORE_PATH));
+  }
+  return store;
+}
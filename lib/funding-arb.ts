@@ -0,0 +1,140 @@
+/**
+ * Cross-exchange Funding Arbitrage (OKX vs Hyperliquid)
+ * Matches perps listed on both venues and ranks the delta-neutral funding carry
+ *
+ * - Coins are matched by base symbol after stripping contract multipliers
+ *   (OKX/Binance style "1000PEPE", Hyperliquid style "kPEPE")
+ * - Rates are normalized to APR with each venue's own settlement interval
+ *   (OKX usually 8h, Hyperliquid 1h), so hourly and 8-hourly rates compare directly
+ * - Carry = short the venue paying the higher funding, long the other
+ */
+
+import { FundingRateData, FundingArbLeg, FundingArbRow } from './types';
+import { calculateFundingApr } from './widget-utils';
+import { FUNDING } from './constants';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ===========================================
+// Symbol Normalization
+// ===========================================
+
+// Contract multiplier prefixes, longest first
+const MULTIPLIER_PREFIXES: { pattern: RegExp; multiplier: number }[] = [
+  { pattern: /^1000000(.+)$/, multiplier: 1_000_000 }, // 1000000MOG
+  { pattern: /^1M(.+)$/, multiplier: 1_000_000 },      // 1MBABYDOGE
+  { pattern: /^1000(.+)$/, multiplier: 1000 },         // 1000PEPE, 1000BONK
+  { pattern: /^k([A-Z].*)$/, multiplier: 1000 },       // Hyperliquid: kPEPE, kSHIB
+];
+
+/**
+ * Split a venue symbol into its underlying base and contract multiplier
+ * "1000PEPE" → { base: "PEPE", multiplier: 1000 }, "BTC" → { base: "BTC", multiplier: 1 }
+ */
+export function normalizeBaseSymbol(symbol: string): { base: string; multiplier: number } {
+  for (const { pattern, multiplier } of MULTIPLIER_PREFIXES) {
+    const match = symbol.match(pattern);
+    if (match) return { base: match[1].toUpperCase(), multiplier };
+  }
+  return { base: symbol.toUpperCase(), multiplier: 1 };
+}
+
+// ===========================================
+// Settlement Timing
+// ===========================================
+
+/**
+ * Next settlement time at or after now
+ * Funding data is refreshed periodically, so a stored fundingTime may already
+ * be in the past; roll it forward by whole settlement intervals.
+ */
+export function getNextSettlementTime(
+  fundingTime: number,
+  intervalHours: number,
+  now: number = Date.now()
+): number {
+  const intervalMs = (intervalHours || FUNDING.DEFAULT_INTERVAL_HOURS) * HOUR_MS;
+  if (!fundingTime) return Math.ceil(now / intervalMs) * intervalMs;
+  if (fundingTime > now) return fundingTime;
+  return fundingTime + Math.ceil((now - fundingTime + 1) / intervalMs) * intervalMs;
+}
+
+// Format a countdown as "5h 12m" / "12m 05s"
+export function formatCountdown(ms: number): string {
+  if (ms <= 0) return '0s';
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+  return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+}
+
+// ===========================================
+// Row Building
+// ===========================================
+
+function buildLeg(
+  instId: string,
+  multiplier: number,
+  contractMarkPrice: number,
+  funding: FundingRateData,
+  defaultInterval: number
+): FundingArbLeg {
+  const settlementInterval = funding.settlementInterval || defaultInterval;
+  return {
+    instId,
+    multiplier,
+    markPrice: contractMarkPrice / multiplier,
+    fundingRate: funding.fundingRate,
+    settlementInterval,
+    apr: calculateFundingApr(funding.fundingRate, settlementInterval),
+    fundingTime: funding.fundingTime,
+  };
+}
+
+/**
+ * Build arbitrage rows for every base symbol listed on both OKX and Hyperliquid
+ * Rows are sorted by carry APR, highest first.
+ *
+ * @param okxFunding - OKX funding rates keyed by instId ("BTC-USDT-SWAP")
+ * @param okxMarkPrices - OKX mark prices keyed by instId
+ * @param hlFunding - Hyperliquid funding rates keyed by coin ("BTC")
+ * @param hlMarkPrices - Hyperliquid mark prices keyed by coin
+ */
+export function buildFundingArbRows(
+  okxFunding: Map<string, FundingRateData>,
+  okxMarkPrices: Map<string, number>,
+  hlFunding: Map<string, FundingRateData>,
+  hlMarkPrices: Map<string, number>
+): FundingArbRow[] {
+  // Index OKX legs by normalized base symbol
+  const okxLegs = new Map<string, FundingArbLeg>();
+  okxFunding.forEach((funding, instId) => {
+    const markPrice = okxMarkPrices.get(instId);
+    if (!markPrice) return;
+    const { base, multiplier } = normalizeBaseSymbol(instId.split('-')[0]);
+    okxLegs.set(base, buildLeg(instId, multiplier, markPrice, funding, FUNDING.DEFAULT_INTERVAL_HOURS));
+  });
+
+  const rows: FundingArbRow[] = [];
+  hlFunding.forEach((funding, coin) => {
+    const markPrice = hlMarkPrices.get(coin);
+    if (!markPrice) return;
+    const { base, multiplier } = normalizeBaseSymbol(coin);
+    const okx = okxLegs.get(base);
+    if (!okx) return;
+
+    const hl = buildLeg(coin, multiplier, markPrice, funding, 1);
+    rows.push({
+      symbol: base,
+      okx,
+      hl,
+      carryApr: Math.abs(okx.apr - hl.apr),
+      shortVenue: okx.apr >= hl.apr ? 'okx' : 'hyperliquid',
+      basis: ((hl.markPrice - okx.markPrice) / okx.markPrice) * 100,
+    });
+  });
+
+  return rows.sort((a, b) => b.carryApr - a.carryApr);
+}
@@ -0,0 +1,137 @@
+/**
+ * Funding Rate History
+ * Summary stats and cumulative funding for a token's settled funding periods
+ *
+ * - Points come from ExchangeAdapter.fetchFundingHistory (oldest first)
+ * - Average APR is the realized funding annualized over the window's span,
+ *   so venues with 1h and 8h settlement compare directly
+ * - Positive funding means longs pay shorts
+ */
+
+import { FundingHistoryPoint, FundingHistoryRange, FundingHistoryStats } from './types';
+import { FUNDING_HISTORY } from './constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+
+// Position side for cumulative funding
+export type FundingSide = 'long' | 'short';
+
+// One point of the cumulative funding series
+export interface CumulativeFundingPoint {
+  fundingTime: number;
+  fundingRate: number;
+  payment: number;    // USD received (+) or paid (-) this period
+  cumulative: number; // Running USD total
+}
+
+// Start of a lookback window (ms)
+export function getFundingRangeStart(range: FundingHistoryRange, now: number = Date.now()): number {
+  return now - FUNDING_HISTORY.RANGE_DAYS[range] * DAY_MS;
+}
+
+// Points settled inside the lookback window
+export function sliceFundingHistory(
+  points: FundingHistoryPoint[],
+  range: FundingHistoryRange,
+  now: number = Date.now()
+): FundingHistoryPoint[] {
+  const start = getFundingRangeStart(range, now);
+  return points.filter(p => p.fundingTime >= start);
+}
+
+/**
+ * Settlement interval inferred from the spacing of settled periods (ms)
+ * Uses the most common gap, so a single missing period doesn't skew it
+ */
+function inferIntervalMs(points: FundingHistoryPoint[]): number {
+  const counts = new Map<number, number>();
+  for (let i = 1; i < points.length; i++) {
+    const gap = points[i].fundingTime - points[i - 1].fundingTime;
+    if (gap > 0) counts.set(gap, (counts.get(gap) ?? 0) + 1);
+  }
+  let best = 0;
+  let bestCount = 0;
+  counts.forEach((count, gap) => {
+    if (count > bestCount) {
+      best = gap;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * Summary stats for a funding history window
+ * Returns null when there are no settled periods
+ */
+export function calculateFundingHistoryStats(points: FundingHistoryPoint[]): FundingHistoryStats | null {
+  if (points.length === 0) return null;
+
+  let cumulativeRate = 0;
+  let positive = 0;
+  let maxPositiveStreak = 0;
+  let maxNegativeStreak = 0;
+  let positiveStreak = 0;
+  let negativeStreak = 0;
+
+  points.forEach(p => {
+    cumulativeRate += p.fundingRate;
+
+    if (p.fundingRate > 0) {
+      positive++;
+      positiveStreak++;
+      negativeStreak = 0;
+    } else if (p.fundingRate < 0) {
+      negativeStreak++;
+      positiveStreak = 0;
+    } else {
+      positiveStreak = 0;
+      negativeStreak = 0;
+    }
+    maxPositiveStreak = Math.max(maxPositiveStreak, positiveStreak);
+    maxNegativeStreak = Math.max(maxNegativeStreak, negativeStreak);
+  });
+
+  // Each point settles the period ending at fundingTime, so the span covers one extra interval
+  const intervalMs = inferIntervalMs(points);
+  const spanMs = points[points.length - 1].fundingTime - points[0].fundingTime + intervalMs;
+  const avgApr = spanMs > 0 ? (cumulativeRate / spanMs) * YEAR_MS * 100 : 0;
+
+  return {
+    periods: points.length,
+    avgApr,
+    positivePct: (positive / points.length) * 100,
+    maxPositiveStreak,
+    maxNegativeStreak,
+    cumulativeRate,
+  };
+}
+
+/**
+ * Running funding received (+) or paid (-) by a position of `notional` USD
+ * Longs pay positive funding, shorts receive it
+ */
+export function calculateCumulativeFunding(
+  points: FundingHistoryPoint[],
+  notional: number,
+  side: FundingSide
+): CumulativeFundingPoint[] {
+  const direction = side === 'long' ? -1 : 1;
+  let cumulative = 0;
+
+  return points.map(p => {
+    const payment = p.fundingRate * notional * direction;
+    cumulative += payment;
+    return { fundingTime: p.fundingTime, fundingRate: p.fundingRate, payment, cumulative };
+  });
+}
+
+// Format a USD amount with sign, e.g. "+$12.34" / "-$1.2K"
+export function formatFundingUsd(value: number): string {
+  const sign = value > 0 ? '+' : value < 0 ? '-' : '';
+  const abs = Math.abs(value);
+  if (abs >= 1e6) return `${sign}$${(abs / 1e6).toFixed(2)}M`;
+  if (abs >= 1e4) return `${sign}$${(abs / 1e3).toFixed(1)}K`;
+  return `${sign}$${abs.toFixed(2)}`;
+}
@@ -0,0 +1,230 @@
+/**
+ * Technical Indicators
+ * Trend, momentum and volatility readings from the daily candles the RSI
+ * pipeline already downloads - no extra requests per instrument
+ *
+ * - EMA20 / EMA50 / EMA200: distance of the last close from each EMA in %
+ * - MACD(12, 26, 9): histogram and daily bars since the last signal-line cross
+ * - Bollinger %B(20, 2): 0 = lower band, 1 = upper band
+ * - ATR14 (Wilder) as % of the last close
+ *
+ * Candles are [timestamp, open, high, low, close, volume], oldest first,
+ * the last one being the current (unclosed) bar like the RSI columns
+ */
+
+import { TechnicalIndicators, EmaTrendSignal, MacdSignalType } from './types';
+import { INDICATORS } from './constants';
+
+// ===========================================
+// Calculations
+// ===========================================
+
+// EMA at every value, seeded with the SMA of the first `period` values (null before that)
+export function calculateEMASeries(values: number[], period: number): (number | null)[] {
+  const series: (number | null)[] = values.map(() => null);
+  if (values.length < period) return series;
+
+  const k = 2 / (period + 1);
+  let ema = values.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+  series[period - 1] = ema;
+  for (let i = period; i < values.length; i++) {
+    ema = values[i] * k + ema * (1 - k);
+    series[i] = ema;
+  }
+  return series;
+}
+
+// % distance of the last close from its EMA
+function emaDistance(closes: number[], period: number): number | null {
+  const ema = calculateEMASeries(closes, period)[closes.length - 1];
+  if (ema === null || ema === undefined || ema === 0) return null;
+  return ((closes[closes.length - 1] - ema) / ema) * 100;
+}
+
+/**
+ * MACD histogram on the last bar and how many bars ago it last changed sign
+ * The age is a lower bound when no cross happened within the fetched history
+ */
+export function calculateMACD(closes: number[]): { histogram: number | null; crossAge: number | null } {
+  const fast = calculateEMASeries(closes, INDICATORS.MACD_FAST);
+  const slow = calculateEMASeries(closes, INDICATORS.MACD_SLOW);
+
+  const macdLine: number[] = [];
+  closes.forEach((_, i) => {
+    const f = fast[i];
+    const s = slow[i];
+    if (f !== null && s !== null) macdLine.push(f - s);
+  });
+
+  const signal = calculateEMASeries(macdLine, INDICATORS.MACD_SIGNAL);
+  const histogram: number[] = [];
+  macdLine.forEach((value, i) => {
+    const sig = signal[i];
+    if (sig !== null) histogram.push(value - sig);
+  });
+
+  if (histogram.length === 0) return { histogram: null, crossAge: null };
+
+  const last = histogram[histogram.length - 1];
+  let crossAge = 0;
+  for (let i = histogram.length - 1; i > 0; i--) {
+    if ((histogram[i - 1] >= 0) !== (last >= 0)) break;
+    crossAge++;
+  }
+
+  return { histogram: last, crossAge };
+}
+
+// Bollinger %B of the last close (population standard deviation, as TradingView)
+export function calculateBollingerPercentB(closes: number[]): number | null {
+  const period = INDICATORS.BB_PERIOD;
+  if (closes.length < period) return null;
+
+  const window = closes.slice(-period);
+  const mean = window.reduce((sum, v) => sum + v, 0) / period;
+  const variance = window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period;
+  const deviation = Math.sqrt(variance) * INDICATORS.BB_STD_DEV;
+  if (deviation === 0) return null;
+
+  const lower = mean - deviation;
+  return (closes[closes.length - 1] - lower) / (2 * deviation);
+}
+
+// ATR (Wilder's smoothing, same as calculateRSI) as % of the last close
+export function calculateATRPercent(candles: number[][]): number | null {
+  const period = INDICATORS.ATR_PERIOD;
+  if (candles.length < period + 1) return null;
+
+  const trueRanges: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const [, , high, low] = candles[i];
+    const prevClose = candles[i - 1][4];
+    trueRanges.push(Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose)));
+  }
+
+  let atr = trueRanges.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+  for (let i = period; i < trueRanges.length; i++) {
+    atr = (atr * (period - 1) + trueRanges[i]) / period;
+  }
+
+  const close = candles[candles.length - 1][4];
+  return close > 0 ? (atr / close) * 100 : null;
+}
+
+/**
+ * All indicators from one series of daily candles
+ */
+export function calculateIndicators(candles: number[][]): TechnicalIndicators {
+  const closes = candles.map(c => c[4]);
+  const [ema20, ema50, ema200] = INDICATORS.EMA_PERIODS;
+  const macd = calculateMACD(closes);
+
+  return {
+    ema20Dist: emaDistance(closes, ema20),
+    ema50Dist: emaDistance(closes, ema50),
+    ema200Dist: emaDistance(closes, ema200),
+    macdHist: macd.histogram,
+    macdCrossAge: macd.crossAge,
+    bbPercentB: calculateBollingerPercentB(closes),
+    atrPct: calculateATRPercent(candles),
+  };
+}
+
+// ===========================================
+// Signals
+// ===========================================
+
+export interface IndicatorSignalInfo<T extends string> {
+  signal: T | null; // null when there is no data
+  label: string;
+  pillStyle: string;
+}
+
+const NO_DATA = { signal: null, label: '--', pillStyle: 'bg-muted text-muted-foreground' };
+
+/**
+ * Close vs EMA20/50/200
+ * Above (below) every EMA is an uptrend (downtrend), "strong" when the EMAs are
+ * also stacked in trend order (EMA20 > EMA50 > EMA200 for an uptrend)
+ */
+export function getEmaTrendSignal(indicators: TechnicalIndicators | undefined): IndicatorSignalInfo<EmaTrendSignal> {
+  const distances = [indicators?.ema20Dist, indicators?.ema50Dist, indicators?.ema200Dist]
+    .filter((d): d is number => d !== null && d !== undefined);
+  if (distances.length === 0) return NO_DATA;
+
+  // Close is further above a lower EMA, so stacked-up means distances rise with the period
+  const stacked = (dir: 1 | -1) => distances.every((d, i) => i === 0 || (d - distances[i - 1]) * dir > 0);
+
+  if (distances.every(d => d > 0)) {
+    return stacked(1)
+      ? { signal: 'strong-uptrend', label: 'Strong Uptrend', pillStyle: 'bg-green-500 text-white' }
+      : { signal: 'uptrend', label: 'Uptrend', pillStyle: 'bg-emerald-100 text-emerald-700' };
+  }
+  if (distances.every(d => d < 0)) {
+    return stacked(-1)
+      ? { signal: 'strong-downtrend', label: 'Strong Downtrend', pillStyle: 'bg-red-500 text-white' }
+      : { signal: 'downtrend', label: 'Downtrend', pillStyle: 'bg-red-100 text-red-700' };
+  }
+  return { signal: 'mixed', label: 'Mixed', pillStyle: 'bg-muted text-muted-foreground' };
+}
+
+// Histogram side, flagged as a cross for MACD_FRESH_CROSS_BARS after it flips
+export function getMacdSignal(indicators: TechnicalIndicators | undefined): IndicatorSignalInfo<MacdSignalType> {
+  const hist = indicators?.macdHist;
+  if (hist === null || hist === undefined) return NO_DATA;
+
+  const fresh = (indicators?.macdCrossAge ?? Infinity) < INDICATORS.MACD_FRESH_CROSS_BARS;
+  if (hist >= 0) {
+    return fresh
+      ? { signal: 'bullish-cross', label: 'Bullish Cross', pillStyle: 'bg-green-500 text-white' }
+      : { signal: 'bullish', label: 'Bullish', pillStyle: 'bg-emerald-100 text-emerald-700' };
+  }
+  return fresh
+    ? { signal: 'bearish-cross', label: 'Bearish Cross', pillStyle: 'bg-red-500 text-white' }
+    : { signal: 'bearish', label: 'Bearish', pillStyle: 'bg-red-100 text-red-700' };
+}
+
+// Same colours as the RSI pills: under the lower band reads oversold (green)
+export function getBollingerPillStyle(percentB: number | null | undefined): string {
+  if (percentB === null || percentB === undefined) return 'bg-muted text-muted-foreground';
+  if (percentB < 0) return 'bg-green-500 text-white';
+  if (percentB <= 0.2) return 'bg-emerald-100 text-emerald-700';
+  if (percentB < 0.8) return 'bg-muted text-muted-foreground';
+  if (percentB <= 1) return 'bg-orange-100 text-orange-700';
+  return 'bg-red-500 text-white';
+}
+
+export function getAtrPillStyle(atrPct: number | null | undefined): string {
+  if (atrPct === null || atrPct === undefined) return 'bg-muted text-muted-foreground';
+  if (atrPct < INDICATORS.ATR_LOW) return 'bg-sky-100 text-sky-700';
+  if (atrPct < INDICATORS.ATR_HIGH) return 'bg-muted text-muted-foreground';
+  if (atrPct < INDICATORS.ATR_EXTREME) return 'bg-orange-100 text-orange-700';
+  return 'bg-red-400 text-white';
+}
+
+// ===========================================
+// Sorting
+// ===========================================
+
+const EMA_TREND_RANK: Record<EmaTrendSignal, number> = {
+  'strong-uptrend': 2,
+  'uptrend': 1,
+  'mixed': 0,
+  'downtrend': -1,
+  'strong-downtrend': -2,
+};
+
+// Trend strength, ties broken by distance from EMA50
+export function getEmaTrendSortValue(indicators: TechnicalIndicators | undefined): number {
+  const { signal } = getEmaTrendSignal(indicators);
+  if (signal === null) return -9999;
+  return EMA_TREND_RANK[signal] * 1000 + Math.max(-999, Math.min(999, indicators?.ema50Dist ?? 0));
+}
+
+// Freshest bullish cross first, freshest bearish cross last
+export function getMacdSortValue(indicators: TechnicalIndicators | undefined): number {
+  const hist = indicators?.macdHist;
+  if (hist === null || hist === undefined) return -9999;
+  const recency = 1000 - Math.min(999, indicators?.macdCrossAge ?? 999);
+  return hist >= 0 ? recency : -recency;
+}
@@ -0,0 +1,203 @@
+/**
+ * Live RSI
+ * Keeps the current daily / hourly bar of WebSocket-subscribed instruments up to date
+ * between REST refreshes; the state lives in the compute engine (lib/compute-engine)
+ *
+ * - Seeded from the candles of an instrument's last RSI computation (lib/rsi-data)
+ * - Wilder averages cover the closed bars only and the open bar is applied on read,
+ *   so a price tick costs O(1) per RSI period instead of a 200-candle recompute
+ * - A push for the next bar folds the previous one into the averages; a skipped bar
+ *   drops the series until the next REST refresh reseeds it
+ * - Same formulas as calculateRSI / calculate7DChange / rsi-data, so live values match
+ *   what a REST refresh at that moment would show
+ * - Weekly RSI, indicators, divergences and daily returns still come from REST
+ */
+
+import { ExchangeId, LiveCandleBar, RSIData, RsiPair } from './types';
+import { RSI, CANDLE_STORE, LIVE_CANDLES } from './constants';
+import { rsiPairKey } from './rsi-pairs';
+import type { LiveRsiPatch } from './compute-protocol';
+
+// Wilder (RMA) averages of gains / losses over the closed bars
+interface WilderState {
+  avgGain: number;
+  avgLoss: number;
+}
+
+interface LiveBarSeries {
+  openTime: number;                   // Open time of the current bar
+  close: number;                      // Its latest close
+  recent: number[];                   // Closed closes, oldest first (last one is the RSI base)
+  wilder: Map<number, WilderState>;   // By RSI period
+}
+
+export interface LiveRsiSeries {
+  daily: LiveBarSeries | null;
+  hourly: LiveBarSeries | null;
+  pairs: RsiPair[];
+}
+
+// Engine key of an instrument's series
+export function liveRsiKey(exchange: ExchangeId, instId: string): string {
+  return `${exchange}:${instId}`;
+}
+
+// ===========================================
+// Wilder Smoothing
+// ===========================================
+
+// Averages after the closed closes, as calculateRSI builds them (SMA seed, then RMA)
+// Null without `period` closed changes, when the open bar would still be part of the seed
+function seedWilder(closed: number[], period: number): WilderState | null {
+  if (closed.length < period + 1) return null;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closed[i] - closed[i - 1];
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  for (let i = period + 1; i < closed.length; i++) {
+    const change = closed[i] - closed[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+  return { avgGain, avgLoss };
+}
+
+// One more change applied to the averages
+function smooth(state: WilderState, period: number, change: number): WilderState {
+  return {
+    avgGain: (state.avgGain * (period - 1) + Math.max(change, 0)) / period,
+    avgLoss: (state.avgLoss * (period - 1) + Math.max(-change, 0)) / period,
+  };
+}
+
+function rsiFromAverages({ avgGain, avgLoss }: WilderState): number {
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+// RSI with the open bar's close as the latest change
+function readRsi(series: LiveBarSeries, period: number): number | null {
+  const state = series.wilder.get(period);
+  if (!state) return null;
+  const base = series.recent[series.recent.length - 1];
+  return rsiFromAverages(smooth(state, period, series.close - base));
+}
+
+// ===========================================
+// Series
+// ===========================================
+
+function createBarSeries(candles: number[][], periods: number[]): LiveBarSeries | null {
+  if (candles.length < 2) return null;
+
+  const closed = candles.slice(0, -1).map(c => c[4]);
+  const [openTime, , , , close] = candles[candles.length - 1];
+  const wilder = new Map<number, WilderState>();
+  periods.forEach(period => {
+    const state = seedWilder(closed, period);
+    if (state) wilder.set(period, state);
+  });
+
+  return { openTime, close, recent: closed.slice(-LIVE_CANDLES.RECENT_CLOSES), wilder };
+}
+
+const pairPeriods = (pairs: RsiPair[], bar: LiveCandleBar) => pairs.filter(p => p.bar === bar).map(p => p.period);
+
+/**
+ * Live state from the daily / hourly candles an RSIData was computed from
+ */
+export function createLiveRsiSeries(
+  daily: number[][] | null,
+  hourly: number[][] | null,
+  pairs: RsiPair[]
+): LiveRsiSeries {
+  return {
+    // Same minimum as the REST computation, so live RSI never shows where REST has none
+    daily: daily && daily.length >= RSI.MIN_CANDLES_REQUIRED
+      ? createBarSeries(daily, [7, 14, ...pairPeriods(pairs, '1D')])
+      : null,
+    hourly: hourly ? createBarSeries(hourly, pairPeriods(pairs, '1H')) : null,
+    pairs,
+  };
+}
+
+/**
+ * Apply one candle push; false when the series can't follow (bar skipped) and was dropped
+ */
+export function applyLiveCandle(series: LiveRsiSeries, bar: LiveCandleBar, candle: number[]): boolean {
+  const current = bar === '1D' ? series.daily : series.hourly;
+  if (!current) return true;
+
+  const [openTime, , , , close] = candle;
+  if (openTime < current.openTime) return true; // Late push for an older bar
+
+  if (openTime > current.openTime) {
+    if (openTime - current.openTime > CANDLE_STORE.BAR_MS[bar]) {
+      if (bar === '1D') series.daily = null;
+      else series.hourly = null;
+      return false;
+    }
+
+    // Previous bar closed at its last close
+    const base = current.recent[current.recent.length - 1];
+    current.wilder.forEach((state, period) => {
+      current.wilder.set(period, smooth(state, period, current.close - base));
+    });
+    current.recent = [...current.recent, current.close].slice(-LIVE_CANDLES.RECENT_CLOSES);
+    current.openTime = openTime;
+  }
+
+  current.close = close;
+  return true;
+}
+
+// % change from `prev` to `current`, null without a usable base
+function percentChange(current: number, prev: number | undefined): number | null {
+  return prev !== undefined && prev > 0 ? ((current - prev) / prev) * 100 : null;
+}
+
+/**
+ * RSIData fields as of the latest pushes
+ */
+export function readLiveRsi(series: LiveRsiSeries): LiveRsiPatch {
+  const patch: LiveRsiPatch = {};
+  const custom: NonNullable<RSIData['custom']> = {};
+
+  const { daily, hourly } = series;
+  if (daily) {
+    const closes = [...daily.recent, daily.close];
+    // Left out while the series is too young to smooth (the REST value stands)
+    if (daily.wilder.has(7)) patch.rsi7 = readRsi(daily, 7);
+    if (daily.wilder.has(14)) patch.rsi14 = readRsi(daily, 14);
+    patch.change7d = closes.length >= 7 && closes[closes.length - 7] !== 0
+      ? ((daily.close - closes[closes.length - 7]) / closes[closes.length - 7]) * 100
+      : null;
+    patch.sparkline7d = closes.slice(-7);
+  }
+
+  if (hourly) {
+    const closes = [...hourly.recent, hourly.close];
+    patch.sparkline24h = closes.slice(-RSI.HOURLY_CANDLE_LIMIT);
+    patch.change1h = percentChange(hourly.close, closes[closes.length - 2]);
+    if (closes.length >= 5) {
+      patch.change4h = percentChange(hourly.close, closes[closes.length - 5]);
+    }
+  }
+
+  series.pairs.forEach(pair => {
+    const barSeries = pair.bar === '1D' ? daily : pair.bar === '1H' ? hourly : null;
+    if (barSeries?.wilder.has(pair.period)) {
+      custom[rsiPairKey(pair)] = readRsi(barSeries, pair.period);
+    }
+  });
+  if (Object.keys(custom).length > 0) patch.custom = custom;
+
+  return patch;
+}
@@ -0,0 +1,78 @@
+/**
+ * RSIData from candles
+ * The indicator math shared by every venue's RSI pipeline; only fetching is venue-specific
+ * Runs in the compute worker on the client (lib/compute-client), inline on the server
+ *
+ * - Daily: RSI7/14, 7D change, technical indicators, divergences, daily returns, 7d sparkline
+ * - Weekly: RSI7/14
+ * - Hourly: 1h / 4h change and the 24h sparkline (4h change from two 4H bars as a fallback)
+ * - Configured pairs reuse whichever of these bars they are on, plus 4H when needed
+ * - The last candle is the current (unclosed) bar, to match the venues' own RSI display
+ */
+
+import { RSIData, RsiPair, CandleBar } from './types';
+import { RSI } from './constants';
+import { calculateRSI, calculateRsiPairs, calculate7DChange } from './utils';
+import { calculateIndicators } from './indicators';
+import { detectRsiDivergences } from './divergence';
+import { calculateDailyReturns } from './volatility';
+import type { RsiCandleSet } from './compute-protocol';
+
+// % change from `prev` to `current`, null without a usable base
+function percentChange(current: number, prev: number | undefined): number | null {
+  return prev !== undefined && prev > 0 ? ((current - prev) / prev) * 100 : null;
+}
+
+export function calculateRsiData(candles: RsiCandleSet, pairs: RsiPair[]): RSIData {
+  const { daily, weekly, hourly, fourHour, fallback4h } = candles;
+  const closesByBar: Partial<Record<CandleBar, number[]>> = {};
+
+  const data: RSIData = {
+    rsi7: null,
+    rsi14: null,
+    rsiW7: null,
+    rsiW14: null,
+    change1h: null,
+    change4h: null,
+    change7d: null,
+    lastUpdated: Date.now(),
+  };
+
+  // Need more candles for RSI to converge properly (TradingView uses ~100+ bars)
+  if (daily && daily.length >= RSI.MIN_CANDLES_REQUIRED) {
+    const closes = daily.map(c => c[4]);
+    data.rsi7 = calculateRSI(closes, 7);
+    data.rsi14 = calculateRSI(closes, 14);
+    data.change7d = calculate7DChange(daily);
+    data.indicators = calculateIndicators(daily);
+    data.divergences = detectRsiDivergences(closes);
+    data.dailyReturns = calculateDailyReturns(daily);
+    data.sparkline7d = closes.slice(-7);
+    closesByBar['1D'] = closes;
+  }
+
+  if (weekly && weekly.length >= RSI.MIN_CANDLES_REQUIRED) {
+    const closesW = weekly.map(c => c[4]);
+    data.rsiW7 = calculateRSI(closesW, 7);
+    data.rsiW14 = calculateRSI(closesW, 14);
+    closesByBar['1W'] = closesW;
+  }
+
+  if (hourly && hourly.length >= 2) {
+    const closes1h = hourly.map(c => c[4]);
+    const currentClose = closes1h[closes1h.length - 1];
+    data.sparkline24h = closes1h.slice(-RSI.HOURLY_CANDLE_LIMIT);
+    data.change1h = percentChange(currentClose, closes1h[closes1h.length - 2]);
+    if (closes1h.length >= 5) {
+      data.change4h = percentChange(currentClose, closes1h[closes1h.length - 5]);
+    }
+    closesByBar['1H'] = closes1h;
+  } else if (fallback4h && fallback4h.length >= 2) {
+    data.change4h = percentChange(fallback4h[fallback4h.length - 1][4], fallback4h[fallback4h.length - 2][4]);
+  }
+
+  if (fourHour) closesByBar['4H'] = fourHour.map(c => c[4]);
+  if (pairs.length > 0) data.custom = calculateRsiPairs(pairs, closesByBar);
+
+  return data;
+}
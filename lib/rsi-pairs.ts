@@ -0,0 +1,155 @@
+/**
+ * Configurable RSI Pairs
+ * Extra (timeframe, period) RSI columns on top of the built-in D/W RSI7 and RSI14
+ *
+ * - Pairs are shared across exchanges and stored through lib/cache
+ * - Each pair becomes a table column ("rsi:4H:14"), a sort key and an RSI filter
+ * - Values live in RSIData.custom keyed by "4H:14"; venues request one candle
+ *   series per bar and compute every configured period from it
+ */
+
+import { CandleBar, ColumnKey, ColumnVisibility, Filters, RSIData, RsiPair, RsiPairKey, RsiColumnKey } from './types';
+import { RSI, RSI_PAIRS } from './constants';
+
+export const RSI_PAIR_BARS: CandleBar[] = ['1H', '4H', '1D', '1W'];
+
+// Already shown by the rsi7 / rsi14 / rsiW7 / rsiW14 columns
+const BUILT_IN_PAIRS: RsiPairKey[] = ['1D:7', '1D:14', '1W:7', '1W:14'];
+
+const RSI_COLUMN_PATTERN = /^rsi:(1H|4H|1D|1W):(\d+)$/;
+
+export function rsiPairKey(pair: RsiPair): RsiPairKey {
+  return `${pair.bar}:${pair.period}`;
+}
+
+export function rsiColumnKey(pair: RsiPair): RsiColumnKey {
+  return `rsi:${rsiPairKey(pair)}`;
+}
+
+export function parseRsiColumnKey(key: string): RsiPair | null {
+  const match = key.match(RSI_COLUMN_PATTERN);
+  if (!match) return null;
+  return { bar: match[1] as CandleBar, period: parseInt(match[2], 10) };
+}
+
+export function isRsiColumnKey(key: string): key is RsiColumnKey {
+  return RSI_COLUMN_PATTERN.test(key);
+}
+
+// "4H-RSI14", "D-RSI21" - same naming as the built-in D-RSI14 / W-RSI14 columns
+export function getRsiPairLabel(pair: RsiPair): string {
+  const prefix = pair.bar === '1D' ? 'D' : pair.bar === '1W' ? 'W' : pair.bar;
+  return `${prefix}-RSI${pair.period}`;
+}
+
+/**
+ * Why a pair can't be added, or null when it can
+ */
+export function validateRsiPair(pair: RsiPair, pairs: RsiPair[]): string | null {
+  const key = rsiPairKey(pair);
+  const label = getRsiPairLabel(pair);
+
+  if (!Number.isInteger(pair.period) || pair.period < RSI_PAIRS.MIN_PERIOD || pair.period > RSI_PAIRS.MAX_PERIOD) {
+    return `Period must be ${RSI_PAIRS.MIN_PERIOD}-${RSI_PAIRS.MAX_PERIOD}`;
+  }
+  if (BUILT_IN_PAIRS.includes(key)) return `${label} is a built-in column`;
+  if (pairs.some(p => rsiPairKey(p) === key)) return `${label} is already added`;
+  if (pairs.length >= RSI_PAIRS.MAX_PAIRS) return `Up to ${RSI_PAIRS.MAX_PAIRS} pairs`;
+  return null;
+}
+
+/**
+ * Validate pairs loaded from storage, dropping anything malformed or duplicated
+ */
+export function normalizeRsiPairs(raw: unknown): RsiPair[] {
+  if (!Array.isArray(raw)) return [];
+
+  const pairs: RsiPair[] = [];
+  raw.forEach(item => {
+    if (typeof item !== 'object' || item === null) return;
+    const { bar, period } = item as Record<string, unknown>;
+    if (!RSI_PAIR_BARS.includes(bar as CandleBar) || typeof period !== 'number') return;
+    const pair = { bar: bar as CandleBar, period };
+    if (validateRsiPair(pair, pairs) === null) pairs.push(pair);
+  });
+  return pairs;
+}
+
+// ===========================================
+// Fetching
+// ===========================================
+
+export function hasRsiPairsOnBar(pairs: RsiPair[], bar: CandleBar): boolean {
+  return pairs.some(p => p.bar === bar);
+}
+
+// Hourly candles to request: the 24h sparkline, or enough history for 1H pairs
+export function getHourlyCandleLimit(pairs: RsiPair[]): number {
+  return hasRsiPairsOnBar(pairs, '1H') ? RSI_PAIRS.CANDLE_LIMIT : RSI.HOURLY_CANDLE_LIMIT;
+}
+
+/**
+ * Whether cached RSI data already carries a value for every configured pair
+ * (a newly added pair makes the instrument due for a refetch)
+ */
+export function hasRsiPairValues(data: RSIData, pairs: RsiPair[]): boolean {
+  return pairs.every(p => data.custom !== undefined && rsiPairKey(p) in data.custom);
+}
+
+// ===========================================
+// Columns
+// ===========================================
+
+/**
+ * Column order with configured pairs: columns of removed pairs are dropped,
+ * new pairs are placed after the last RSI column
+ */
+export function withRsiPairColumns(order: ColumnKey[], pairs: RsiPair[]): ColumnKey[] {
+  const configured = new Set<ColumnKey>(pairs.map(rsiColumnKey));
+  const result = order.filter(key => !isRsiColumnKey(key) || configured.has(key));
+  const missing = pairs.map(rsiColumnKey).filter(key => !result.includes(key));
+  if (missing.length === 0) return result;
+
+  const lastRsiIndex = result.reduce(
+    (last, key, i) => (key === 'rsiW14' || isRsiColumnKey(key) ? i : last),
+    result.length - 1
+  );
+  result.splice(lastRsiIndex + 1, 0, ...missing);
+  return result;
+}
+
+/**
+ * Column visibility with configured pairs (shown until the user hides them)
+ */
+export function withRsiPairVisibility(columns: ColumnVisibility, pairs: RsiPair[]): ColumnVisibility {
+  const result = Object.fromEntries(
+    Object.entries(columns).filter(([key]) => !isRsiColumnKey(key))
+  ) as ColumnVisibility;
+  pairs.forEach(pair => {
+    const key = rsiColumnKey(pair);
+    result[key] = columns[key] ?? true;
+  });
+  return result;
+}
+
+// ===========================================
+// Filters
+// ===========================================
+
+// "4H:14=<30,1H:21=25~75" for shared links
+export function encodeRsiPairFilters(filters: Filters['rsiPairs']): string {
+  return Object.entries(filters ?? {})
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(',');
+}
+
+export function decodeRsiPairFilters(param: string): Filters['rsiPairs'] {
+  const filters: NonNullable<Filters['rsiPairs']> = {};
+  param.split(',').forEach(part => {
+    const [key, value] = part.split('=');
+    const pair = key ? parseRsiColumnKey(`rsi:${key}`) : null;
+    if (pair && value) filters[rsiPairKey(pair)] = value;
+  });
+  return Object.keys(filters).length > 0 ? filters : undefined;
+}
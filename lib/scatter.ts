@@ -0,0 +1,169 @@
+/**
+ * Market Scatter Plot
+ * Axis metrics, scales and brush selection for the scatter view of the board
+ *
+ * - Every filtered perp with both axis values becomes a dot, sized by market cap
+ * - Guide lines mark the levels traders read quadrants against:
+ *   RSI 30 / 70 and zero for changes and funding
+ * - Axis domains are padded and can be narrowed by zooming into a brush selection
+ */
+
+import { ProcessedTicker, ScatterMetric } from './types';
+import { ScreenerContext } from './screener';
+import { calculateAvgRsi, getFundingApr } from './widget-utils';
+import { RSI, SCATTER } from './constants';
+
+export type ScatterContext = Pick<
+  ScreenerContext,
+  'rsiData' | 'fundingRateData' | 'marketCapData' | 'openInterestData' | 'defaultFundingInterval'
+>;
+
+interface ScatterMetricDefinition {
+  label: string;
+  read: (t: ProcessedTicker, ctx: ScatterContext) => number | null | undefined;
+  format: (value: number) => string;
+  guides: number[];
+}
+
+const formatPercent = (v: number) => `${v >= 0 ? '+' : ''}${v.toFixed(1)}%`;
+const formatRsi = (v: number) => v.toFixed(1);
+const RSI_GUIDES = [RSI.VERY_WEAK, RSI.STRONG];
+
+export const SCATTER_METRICS: Record<ScatterMetric, ScatterMetricDefinition> = {
+  dRsiAvg: {
+    label: 'D-RSI Avg',
+    read: (t, c) => {
+      const rsi = c.rsiData.get(t.instId);
+      return rsi ? calculateAvgRsi({ rsi7: rsi.rsi7, rsi14: rsi.rsi14, rsiW7: null, rsiW14: null }) : null;
+    },
+    format: formatRsi,
+    guides: RSI_GUIDES,
+  },
+  wRsiAvg: {
+    label: 'W-RSI Avg',
+    read: (t, c) => {
+      const rsi = c.rsiData.get(t.instId);
+      return rsi ? calculateAvgRsi({ rsi7: null, rsi14: null, rsiW7: rsi.rsiW7, rsiW14: rsi.rsiW14 }) : null;
+    },
+    format: formatRsi,
+    guides: RSI_GUIDES,
+  },
+  avgRsi: {
+    label: 'RSI Avg (D+W)',
+    read: (t, c) => {
+      const rsi = c.rsiData.get(t.instId);
+      return rsi ? calculateAvgRsi(rsi) : null;
+    },
+    format: formatRsi,
+    guides: RSI_GUIDES,
+  },
+  fundingApr: {
+    label: 'Funding APR',
+    read: (t, c) => {
+      const fr = c.fundingRateData.get(t.instId);
+      return fr ? getFundingApr(fr, c.defaultFundingInterval) : null;
+    },
+    format: formatPercent,
+    guides: [0],
+  },
+  change4h: { label: '4h Change', read: (t, c) => c.rsiData.get(t.instId)?.change4h, format: formatPercent, guides: [0] },
+  change24h: { label: '24h Change', read: t => t.changeNum, format: formatPercent, guides: [0] },
+  change7d: { label: '7d Change', read: (t, c) => c.rsiData.get(t.instId)?.change7d, format: formatPercent, guides: [0] },
+  oiChange: { label: 'OI 24h Change', read: (t, c) => c.openInterestData.get(t.instId)?.oiChange24h, format: formatPercent, guides: [0] },
+};
+
+export const SCATTER_METRIC_KEYS = Object.keys(SCATTER_METRICS) as ScatterMetric[];
+
+export interface ScatterPoint {
+  instId: string;
+  symbol: string;
+  x: number;
+  y: number;
+  marketCap: number | null;
+}
+
+export type ScatterDomain = [number, number];
+
+export interface ScatterDomains {
+  x: ScatterDomain;
+  y: ScatterDomain;
+}
+
+/**
+ * Dots for the filtered rows (rows missing either axis value are left out)
+ */
+export function buildScatterPoints(
+  rows: ProcessedTicker[],
+  ctx: ScatterContext,
+  xMetric: ScatterMetric,
+  yMetric: ScatterMetric
+): ScatterPoint[] {
+  const readX = SCATTER_METRICS[xMetric].read;
+  const readY = SCATTER_METRICS[yMetric].read;
+  const points: ScatterPoint[] = [];
+
+  rows.forEach(t => {
+    const x = readX(t, ctx);
+    const y = readY(t, ctx);
+    if (x == null || y == null || !Number.isFinite(x) || !Number.isFinite(y)) return;
+    points.push({ instId: t.instId, symbol: t.baseSymbol, x, y, marketCap: ctx.marketCapData.get(t.baseSymbol)?.marketCap ?? null });
+  });
+
+  // Big dots first so small ones stay clickable on top
+  return points.sort((a, b) => (b.marketCap ?? 0) - (a.marketCap ?? 0));
+}
+
+// Data range padded by 5%, always including the metric's guide lines
+function paddedDomain(values: number[], guides: number[]): ScatterDomain {
+  const all = [...values, ...guides];
+  const min = Math.min(...all);
+  const max = Math.max(...all);
+  const pad = (max - min || 1) * 0.05;
+  return [min - pad, max + pad];
+}
+
+export function getScatterDomains(points: ScatterPoint[], xMetric: ScatterMetric, yMetric: ScatterMetric): ScatterDomains {
+  return {
+    x: paddedDomain(points.map(p => p.x), SCATTER_METRICS[xMetric].guides),
+    y: paddedDomain(points.map(p => p.y), SCATTER_METRICS[yMetric].guides),
+  };
+}
+
+// Linear scale from a domain onto [start, end] pixels
+export function scaleLinear(domain: ScatterDomain, start: number, end: number) {
+  const span = domain[1] - domain[0] || 1;
+  return {
+    toPixel: (v: number) => start + ((v - domain[0]) / span) * (end - start),
+    toValue: (px: number) => domain[0] + ((px - start) / (end - start)) * span,
+  };
+}
+
+// Dot radius by market cap (tokens without market cap get the smallest dot)
+export function getDotRadius(marketCap: number | null, maxMarketCap: number): number {
+  if (!marketCap || maxMarketCap <= 0) return SCATTER.MIN_RADIUS;
+  const t = Math.sqrt(marketCap / maxMarketCap);
+  return SCATTER.MIN_RADIUS + t * (SCATTER.MAX_RADIUS - SCATTER.MIN_RADIUS);
+}
+
+// About five round tick values across a domain
+export function getTicks(domain: ScatterDomain, count: number = 5): number[] {
+  const span = domain[1] - domain[0];
+  if (span <= 0) return [domain[0]];
+  const raw = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw) ?? raw;
+  const ticks: number[] = [];
+  for (let v = Math.ceil(domain[0] / step) * step; v <= domain[1]; v += step) {
+    ticks.push(Number(v.toFixed(10)));
+  }
+  return ticks;
+}
+
+/**
+ * Points inside a brush selection (given in data units)
+ */
+export function selectScatterPoints(points: ScatterPoint[], selection: ScatterDomains): ScatterPoint[] {
+  const [x0, x1] = [Math.min(...selection.x), Math.max(...selection.x)];
+  const [y0, y1] = [Math.min(...selection.y), Math.max(...selection.y)];
+  return points.filter(p => p.x >= x0 && p.x <= x1 && p.y >= y0 && p.y <= y1);
+}
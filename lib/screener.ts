@@ -0,0 +1,430 @@
+/**
+ * Screener Expression Language
+ * Free-form filter expressions evaluated against every row of the board
+ *
+ *   rsi7 < 30 and fundingApr > 20 and mcapRank <= 100 and not meme
+ *   (change24h > 10 or change7d > 25) and volume >= 50m
+ *
+ * - Comparisons: <, <=, >, >=, = (or ==), !=
+ * - Boolean flags (meme, spot) stand alone and combine with and / or / not
+ * - Numbers accept k/m/b suffixes (50m = 50,000,000) and a trailing %
+ * - Field names are case-insensitive; rows missing a value never match a comparison
+ */
+
+import {
+  ProcessedTicker,
+  RSIData,
+  FundingRateData,
+  MarketCapData,
+  ListingData,
+  OpenInterestData,
+  DailyReturns,
+} from './types';
+import { getFundingApr } from './widget-utils';
+import { isMemeToken, calculateOiVolRatio } from './utils';
+import { calculateRealizedVol, calculateBtcBeta } from './volatility';
+import { VOLATILITY } from './constants';
+
+// ===========================================
+// Fields
+// ===========================================
+
+// Everything a row can be screened on
+export interface ScreenerContext {
+  rsiData: Map<string, RSIData>;
+  fundingRateData: Map<string, FundingRateData>;
+  marketCapData: Map<string, MarketCapData>;
+  listingData: Map<string, ListingData>;
+  openInterestData: Map<string, OpenInterestData>;
+  spotSymbols: Set<string>;
+  defaultFundingInterval: number;
+  btcReturns: DailyReturns | undefined; // Beta reference, see lib/volatility
+  now: number;
+}
+
+type NumericReader = (t: ProcessedTicker, ctx: ScreenerContext) => number | null | undefined;
+type FlagReader = (t: ProcessedTicker, ctx: ScreenerContext) => boolean;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NUMERIC_FIELDS: Record<string, { description: string; read: NumericReader }> = {
+  rsi7: { description: 'Daily RSI7', read: (t, c) => c.rsiData.get(t.instId)?.rsi7 },
+  rsi14: { description: 'Daily RSI14', read: (t, c) => c.rsiData.get(t.instId)?.rsi14 },
+  rsiW7: { description: 'Weekly RSI7', read: (t, c) => c.rsiData.get(t.instId)?.rsiW7 },
+  rsiW14: { description: 'Weekly RSI14', read: (t, c) => c.rsiData.get(t.instId)?.rsiW14 },
+  price: { description: 'Last price (USD)', read: t => t.priceNum },
+  change1h: { description: '1h change %', read: (t, c) => c.rsiData.get(t.instId)?.change1h },
+  change4h: { description: '4h change %', read: (t, c) => c.rsiData.get(t.instId)?.change4h },
+  change24h: { description: '24h change %', read: t => t.changeNum },
+  change7d: { description: '7d change %', read: (t, c) => c.rsiData.get(t.instId)?.change7d },
+  volume: { description: '24h volume (USD)', read: t => (parseFloat(t.volCcy24h) || 0) * t.priceNum },
+  fundingRate: {
+    description: 'Current funding rate %',
+    read: (t, c) => {
+      const fr = c.fundingRateData.get(t.instId);
+      return fr ? fr.fundingRate * 100 : undefined;
+    },
+  },
+  fundingApr: {
+    description: 'Funding APR %',
+    read: (t, c) => {
+      const fr = c.fundingRateData.get(t.instId);
+      return fr ? getFundingApr(fr, c.defaultFundingInterval) : undefined;
+    },
+  },
+  mcap: { description: 'Market cap (USD)', read: (t, c) => c.marketCapData.get(t.baseSymbol)?.marketCap },
+  mcapRank: { description: 'Market cap rank', read: (t, c) => c.marketCapData.get(t.baseSymbol)?.rank },
+  listAgeDays: {
+    description: 'Days since listing',
+    read: (t, c) => {
+      const listTime = c.listingData.get(t.instId)?.listTime;
+      return listTime ? (c.now - listTime) / DAY_MS : undefined;
+    },
+  },
+  oi: { description: 'Open interest (USD)', read: (t, c) => c.openInterestData.get(t.instId)?.oiUsd },
+  oiChange: { description: 'OI 24h change %', read: (t, c) => c.openInterestData.get(t.instId)?.oiChange24h },
+  oiVolRatio: {
+    description: 'OI / 24h volume',
+    read: (t, c) => calculateOiVolRatio(c.openInterestData.get(t.instId)?.oiUsd, t.volCcy24h, t.priceNum),
+  },
+  ema20: { description: 'Close vs daily EMA20 %', read: (t, c) => c.rsiData.get(t.instId)?.indicators?.ema20Dist },
+  ema50: { description: 'Close vs daily EMA50 %', read: (t, c) => c.rsiData.get(t.instId)?.indicators?.ema50Dist },
+  ema200: { description: 'Close vs daily EMA200 %', read: (t, c) => c.rsiData.get(t.instId)?.indicators?.ema200Dist },
+  macdHist: { description: 'Daily MACD histogram', read: (t, c) => c.rsiData.get(t.instId)?.indicators?.macdHist },
+  macdCrossAge: { description: 'Days since the last MACD cross', read: (t, c) => c.rsiData.get(t.instId)?.indicators?.macdCrossAge },
+  bbPercentB: { description: 'Daily Bollinger %B', read: (t, c) => c.rsiData.get(t.instId)?.indicators?.bbPercentB },
+  atrPct: { description: 'Daily ATR14 % of price', read: (t, c) => c.rsiData.get(t.instId)?.indicators?.atrPct },
+  vol7d: {
+    description: '7d realized vol, annualized %',
+    read: (t, c) => calculateRealizedVol(c.rsiData.get(t.instId)?.dailyReturns, VOLATILITY.SHORT_DAYS),
+  },
+  vol30d: {
+    description: '30d realized vol, annualized %',
+    read: (t, c) => calculateRealizedVol(c.rsiData.get(t.instId)?.dailyReturns, VOLATILITY.RETURN_DAYS),
+  },
+  btcBeta: {
+    description: '30d beta to BTC',
+    read: (t, c) => calculateBtcBeta(c.rsiData.get(t.instId)?.dailyReturns, c.btcReturns)?.beta,
+  },
+  btcCorr: {
+    description: '30d correlation to BTC',
+    read: (t, c) => calculateBtcBeta(c.rsiData.get(t.instId)?.dailyReturns, c.btcReturns)?.correlation,
+  },
+};
+
+const FLAG_FIELDS: Record<string, { description: string; read: FlagReader }> = {
+  meme: { description: 'Meme token', read: t => isMemeToken(t.baseSymbol) },
+  spot: { description: 'Has a spot market', read: (t, c) => c.spotSymbols.has(t.baseSymbol) },
+};
+
+export interface ScreenerFieldInfo {
+  name: string;
+  description: string;
+  kind: 'number' | 'flag';
+}
+
+export const SCREENER_FIELDS: ScreenerFieldInfo[] = [
+  ...Object.entries(NUMERIC_FIELDS).map(([name, f]) => ({ name, description: f.description, kind: 'number' as const })),
+  ...Object.entries(FLAG_FIELDS).map(([name, f]) => ({ name, description: f.description, kind: 'flag' as const })),
+];
+
+// Case-insensitive lookup → canonical field name
+const FIELD_LOOKUP = new Map(SCREENER_FIELDS.map(f => [f.name.toLowerCase(), f]));
+
+const KEYWORDS = ['and', 'or', 'not'];
+
+// ===========================================
+// Syntax Tree
+// ===========================================
+
+export type ScreenerOperator = '<' | '<=' | '>' | '>=' | '=' | '!=';
+
+export type ScreenerNode =
+  | { type: 'and' | 'or'; left: ScreenerNode; right: ScreenerNode }
+  | { type: 'not'; operand: ScreenerNode }
+  | { type: 'compare'; field: string; operator: ScreenerOperator; value: number }
+  | { type: 'flag'; field: string };
+
+export interface ScreenerError {
+  message: string;
+  position: number; // Character offset in the input
+}
+
+export type ScreenerParseResult =
+  | { ok: true; expression: ScreenerNode }
+  | { ok: false; error: ScreenerError };
+
+// Thrown inside the parser, converted to ScreenerParseResult at the boundary
+class ScreenerSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'ScreenerSyntaxError';
+  }
+}
+
+// ===========================================
+// Tokenizer
+// ===========================================
+
+type Token =
+  | { kind: 'ident'; text: string; position: number }
+  | { kind: 'number'; value: number; text: string; position: number }
+  | { kind: 'op'; text: ScreenerOperator; position: number }
+  | { kind: 'and' | 'or' | 'not' | '(' | ')'; text: string; position: number }
+  | { kind: 'end'; text: ''; position: number };
+
+const NUMBER_PATTERN = /^-?(\d+\.?\d*|\.\d+)([kmb])?%?/i;
+const IDENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+const SUFFIX_MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const rest = input.slice(i);
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch, text: ch, position: i });
+      i++;
+      continue;
+    }
+
+    // Symbolic boolean aliases
+    if (rest.startsWith('&&')) {
+      tokens.push({ kind: 'and', text: '&&', position: i });
+      i += 2;
+      continue;
+    }
+    if (rest.startsWith('||')) {
+      tokens.push({ kind: 'or', text: '||', position: i });
+      i += 2;
+      continue;
+    }
+
+    const op = rest.match(/^(<=|>=|==|!=|<|>|=)/);
+    if (op) {
+      tokens.push({ kind: 'op', text: (op[1] === '==' ? '=' : op[1]) as ScreenerOperator, position: i });
+      i += op[1].length;
+      continue;
+    }
+    if (ch === '!') {
+      tokens.push({ kind: 'not', text: '!', position: i });
+      i++;
+      continue;
+    }
+
+    const num = rest.match(NUMBER_PATTERN);
+    if (num) {
+      const suffix = num[2]?.toLowerCase();
+      const value = parseFloat(num[0]) * (suffix ? SUFFIX_MULTIPLIERS[suffix] : 1);
+      tokens.push({ kind: 'number', value, text: num[0], position: i });
+      i += num[0].length;
+      continue;
+    }
+
+    const ident = rest.match(IDENT_PATTERN);
+    if (ident) {
+      const lower = ident[0].toLowerCase();
+      if (KEYWORDS.includes(lower)) {
+        tokens.push({ kind: lower as 'and' | 'or' | 'not', text: ident[0], position: i });
+      } else {
+        tokens.push({ kind: 'ident', text: ident[0], position: i });
+      }
+      i += ident[0].length;
+      continue;
+    }
+
+    throw new ScreenerSyntaxError(`Unexpected character "${ch}"`, i);
+  }
+
+  tokens.push({ kind: 'end', text: '', position: input.length });
+  return tokens;
+}
+
+// ===========================================
+// Parser (recursive descent)
+//   or      := and ("or" and)*
+//   and     := unary ("and" unary)*
+//   unary   := "not" unary | primary
+//   primary := "(" or ")" | field op number | flag
+// ===========================================
+
+function describeToken(token: Token): string {
+  return token.kind === 'end' ? 'end of input' : `"${token.text}"`;
+}
+
+function parseTokens(tokens: Token[]): ScreenerNode {
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+
+  function parseOr(): ScreenerNode {
+    let left = parseAnd();
+    while (peek().kind === 'or') {
+      next();
+      left = { type: 'or', left, right: parseAnd() };
+    }
+    return left;
+  }
+
+  function parseAnd(): ScreenerNode {
+    let left = parseUnary();
+    while (peek().kind === 'and') {
+      next();
+      left = { type: 'and', left, right: parseUnary() };
+    }
+    return left;
+  }
+
+  function parseUnary(): ScreenerNode {
+    if (peek().kind === 'not') {
+      next();
+      return { type: 'not', operand: parseUnary() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): ScreenerNode {
+    const token = next();
+
+    if (token.kind === '(') {
+      const inner = parseOr();
+      const close = next();
+      if (close.kind !== ')') {
+        throw new ScreenerSyntaxError(`Expected ")" but found ${describeToken(close)}`, close.position);
+      }
+      return inner;
+    }
+
+    if (token.kind !== 'ident') {
+      throw new ScreenerSyntaxError(`Expected a field name but found ${describeToken(token)}`, token.position);
+    }
+
+    const field = FIELD_LOOKUP.get(token.text.toLowerCase());
+    if (!field) {
+      throw new ScreenerSyntaxError(`Unknown field "${token.text}"`, token.position);
+    }
+
+    if (field.kind === 'flag') {
+      if (peek().kind === 'op') {
+        throw new ScreenerSyntaxError(`"${field.name}" is a flag; use "${field.name}" or "not ${field.name}"`, peek().position);
+      }
+      return { type: 'flag', field: field.name };
+    }
+
+    const op = next();
+    if (op.kind !== 'op') {
+      throw new ScreenerSyntaxError(`Expected a comparison after "${field.name}" but found ${describeToken(op)}`, op.position);
+    }
+    const value = next();
+    if (value.kind !== 'number') {
+      throw new ScreenerSyntaxError(`Expected a number after "${op.text}" but found ${describeToken(value)}`, value.position);
+    }
+
+    return { type: 'compare', field: field.name, operator: op.text, value: value.value };
+  }
+
+  const expression = parseOr();
+  const trailing = peek();
+  if (trailing.kind !== 'end') {
+    throw new ScreenerSyntaxError(`Expected "and" or "or" but found ${describeToken(trailing)}`, trailing.position);
+  }
+  return expression;
+}
+
+/**
+ * Parse a screener expression
+ * @returns The syntax tree, or the first error with its character position
+ */
+export function parseScreener(input: string): ScreenerParseResult {
+  try {
+    const tokens = tokenize(input);
+    if (tokens.length === 1) {
+      return { ok: false, error: { message: 'Expression is empty', position: 0 } };
+    }
+    return { ok: true, expression: parseTokens(tokens) };
+  } catch (e) {
+    if (e instanceof ScreenerSyntaxError) {
+      return { ok: false, error: { message: e.message, position: e.position } };
+    }
+    throw e;
+  }
+}
+
+// ===========================================
+// Evaluation
+// ===========================================
+
+function compare(value: number, operator: ScreenerOperator, target: number): boolean {
+  switch (operator) {
+    case '<': return value < target;
+    case '<=': return value <= target;
+    case '>': return value > target;
+    case '>=': return value >= target;
+    case '=': return value === target;
+    case '!=': return value !== target;
+  }
+}
+
+/**
+ * Evaluate a parsed expression for one row
+ */
+export function evaluateScreener(node: ScreenerNode, ticker: ProcessedTicker, ctx: ScreenerContext): boolean {
+  switch (node.type) {
+    case 'and':
+      return evaluateScreener(node.left, ticker, ctx) && evaluateScreener(node.right, ticker, ctx);
+    case 'or':
+      return evaluateScreener(node.left, ticker, ctx) || evaluateScreener(node.right, ticker, ctx);
+    case 'not':
+      return !evaluateScreener(node.operand, ticker, ctx);
+    case 'flag':
+      return FLAG_FIELDS[node.field].read(ticker, ctx);
+    case 'compare': {
+      const value = NUMERIC_FIELDS[node.field].read(ticker, ctx);
+      if (value === null || value === undefined || !isFinite(value)) return false;
+      return compare(value, node.operator, node.value);
+    }
+  }
+}
+
+// ===========================================
+// Autocomplete
+// ===========================================
+
+export interface ScreenerCompletion {
+  start: number;                  // Replace input[start, end) with a field name
+  end: number;
+  fields: ScreenerFieldInfo[];
+}
+
+/**
+ * Field names matching the identifier under the cursor
+ * Returns null when the cursor isn't on a word where a field can go
+ */
+export function getScreenerCompletions(input: string, cursor: number): ScreenerCompletion | null {
+  const before = input.slice(0, cursor);
+  const word = before.match(/[A-Za-z_][A-Za-z0-9_]*$/);
+  if (!word) return null;
+
+  const start = cursor - word[0].length;
+  const after = input.slice(cursor).match(/^[A-Za-z0-9_]*/);
+  const end = cursor + (after ? after[0].length : 0);
+
+  // Fields only follow the start, "(", a boolean keyword or "not"
+  const preceding = before.slice(0, start).trimEnd();
+  const lastWord = preceding.match(/([A-Za-z_]+|&&|\|\||[(!])$/)?.[0]?.toLowerCase();
+  if (preceding && (!lastWord || !['and', 'or', 'not', '&&', '||', '(', '!'].includes(lastWord))) {
+    return null;
+  }
+
+  const prefix = word[0].toLowerCase();
+  const fields = SCREENER_FIELDS.filter(f => f.name.toLowerCase().startsWith(prefix) && f.name.toLowerCase() !== prefix);
+  return fields.length > 0 ? { start, end, fields } : null;
+}
@@ -0,0 +1,219 @@
+/**
+ * Saved Screens
+ * Named board setups (filters, columns, column order, sort, view)
+ *
+ * - Screens are stored per exchange through lib/cache
+ * - Import accepts JSON exports and shared links (base64url JSON in ?screen=)
+ * - Anything loaded from outside is normalized against the current column set,
+ *   so screens saved before a column existed still apply cleanly
+ */
+
+import {
+  SavedScreen,
+  ColumnKey,
+  ColumnVisibility,
+  Filters,
+  SortConfig,
+  RsiSignalType,
+  EmaTrendSignal,
+  MacdSignalType,
+} from './types';
+import { DEFAULT_COLUMN_ORDER, getDefaultColumns } from './defaults';
+import { FIXED_COLUMNS, SCREENS } from './constants';
+import { normalizeBoardView } from './watchlists';
+import { isRsiColumnKey, parseRsiColumnKey, rsiPairKey } from './rsi-pairs';
+
+export function createScreenId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`;
+}
+
+// "Oversold majors" → "Oversold majors (2)" when the name is taken
+export function uniqueScreenName(name: string, screens: SavedScreen[], ignoreId?: string): string {
+  const base = name.trim().slice(0, SCREENS.MAX_NAME_LENGTH) || 'Untitled';
+  const taken = new Set(screens.filter(s => s.id !== ignoreId).map(s => s.name.toLowerCase()));
+  if (!taken.has(base.toLowerCase())) return base;
+
+  let n = 2;
+  while (taken.has(`${base} (${n})`.toLowerCase())) n++;
+  return `${base} (${n})`;
+}
+
+// ===========================================
+// Normalization
+// ===========================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Keep known columns (and RSI pair columns) in saved order, append columns added since
+function normalizeColumnOrder(order: unknown): ColumnKey[] {
+  const known = new Set<string>(DEFAULT_COLUMN_ORDER);
+  const fixed = FIXED_COLUMNS as readonly ColumnKey[];
+  const saved = Array.isArray(order)
+    ? order.filter((c): c is ColumnKey => typeof c === 'string' && (known.has(c) || isRsiColumnKey(c)) && !fixed.includes(c as ColumnKey))
+    : [];
+  const missing = DEFAULT_COLUMN_ORDER.filter(c => !fixed.includes(c) && !saved.includes(c));
+  return [...fixed, ...saved, ...missing];
+}
+
+function normalizeColumns(columns: unknown): ColumnVisibility {
+  const result = { ...getDefaultColumns() };
+  if (isRecord(columns)) {
+    (Object.keys(result) as (keyof ColumnVisibility)[]).forEach(key => {
+      if (typeof columns[key] === 'boolean') result[key] = columns[key] as boolean;
+    });
+    Object.keys(columns).filter(isRsiColumnKey).forEach(key => {
+      if (typeof columns[key] === 'boolean') result[key] = columns[key] as boolean;
+    });
+  }
+  return result;
+}
+
+// Filters held as plain strings (ranges, thresholds, expression)
+const STRING_FILTER_KEYS = [
+  'rank', 'marketCapMin', 'rsi7', 'rsi14', 'rsiW7', 'rsiW14', 'hasSpot', 'fundingRate', 'listAge', 'isMeme',
+  'openInterestMin', 'oiChange', 'oiVolRatio', 'ema20', 'ema50', 'ema200', 'macdCrossAge', 'bbPercentB',
+  'atrPct', 'vol7d', 'vol30d', 'btcBeta', 'btcCorr', 'expression',
+] as const;
+
+const RSI_SIGNALS: RsiSignalType[] = [
+  'extreme-oversold', 'oversold', 'very-weak', 'weak', 'neutral',
+  'strong', 'very-strong', 'overbought', 'extreme-overbought',
+];
+const EMA_TRENDS: EmaTrendSignal[] = ['strong-uptrend', 'uptrend', 'mixed', 'downtrend', 'strong-downtrend'];
+const MACD_SIGNALS: MacdSignalType[] = ['bullish-cross', 'bullish', 'bearish', 'bearish-cross'];
+
+// Known values of a multi-select filter, dropped when none are left
+function normalizeSignals<T extends string>(value: unknown, known: T[]): T[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const signals = value.filter((v): v is T => known.includes(v as T));
+  return signals.length > 0 ? signals : undefined;
+}
+
+// Field by field, so a hand-edited or malicious screen can't hand the board a wrong type
+function normalizeFilters(raw: unknown): Filters {
+  const filters: Filters = {};
+  if (!isRecord(raw)) return filters;
+
+  STRING_FILTER_KEYS.forEach(key => {
+    const value = raw[key];
+    if (typeof value === 'string' && value) filters[key] = value;
+  });
+
+  const dRsiSignal = normalizeSignals(raw.dRsiSignal, RSI_SIGNALS);
+  if (dRsiSignal) filters.dRsiSignal = dRsiSignal;
+  const wRsiSignal = normalizeSignals(raw.wRsiSignal, RSI_SIGNALS);
+  if (wRsiSignal) filters.wRsiSignal = wRsiSignal;
+  const emaTrend = normalizeSignals(raw.emaTrend, EMA_TRENDS);
+  if (emaTrend) filters.emaTrend = emaTrend;
+  const macdSignal = normalizeSignals(raw.macdSignal, MACD_SIGNALS);
+  if (macdSignal) filters.macdSignal = macdSignal;
+  if (Array.isArray(raw.symbols)) {
+    const symbols = raw.symbols.filter((s): s is string => typeof s === 'string' && s !== '');
+    if (symbols.length > 0) filters.symbols = symbols;
+  }
+
+  if (isRecord(raw.rsiPairs)) {
+    const rsiPairs: NonNullable<Filters['rsiPairs']> = {};
+    Object.entries(raw.rsiPairs).forEach(([key, value]) => {
+      const pair = parseRsiColumnKey(`rsi:${key}`);
+      if (pair && typeof value === 'string' && value) rsiPairs[rsiPairKey(pair)] = value;
+    });
+    if (Object.keys(rsiPairs).length > 0) filters.rsiPairs = rsiPairs;
+  }
+
+  return filters;
+}
+
+function normalizeSort(sort: unknown): SortConfig {
+  if (isRecord(sort) && typeof sort.column === 'string' && (sort.direction === 'asc' || sort.direction === 'desc')) {
+    return { column: sort.column, direction: sort.direction };
+  }
+  return { column: 'rank', direction: 'asc' };
+}
+
+/**
+ * Validate a screen from storage, a JSON file or a link
+ * @returns A complete screen, or null when the input isn't a screen at all
+ */
+export function normalizeScreen(raw: unknown): SavedScreen | null {
+  if (!isRecord(raw) || typeof raw.name !== 'string') return null;
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createScreenId(),
+    name: raw.name.trim().slice(0, SCREENS.MAX_NAME_LENGTH) || 'Untitled',
+    filters: normalizeFilters(raw.filters),
+    columns: normalizeColumns(raw.columns),
+    columnOrder: normalizeColumnOrder(raw.columnOrder),
+    sort: normalizeSort(raw.sort),
+    view: normalizeBoardView(raw.view),
+    updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : Date.now(),
+  };
+}
+
+// ===========================================
+// JSON Export / Import
+// ===========================================
+
+export function exportScreensJson(screens: SavedScreen[]): string {
+  return JSON.stringify({ version: 1, screens }, null, 2);
+}
+
+/**
+ * Parse an exported file (either { screens: [...] } or a bare array)
+ * @returns Valid screens with fresh IDs, or null when the JSON is unusable
+ */
+export function parseScreensJson(text: string): SavedScreen[] | null {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    const list = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.screens : null;
+    if (!Array.isArray(list)) return null;
+
+    return list
+      .map(normalizeScreen)
+      .filter((s): s is SavedScreen => s !== null)
+      .map(s => ({ ...s, id: createScreenId() }));
+  } catch (e) {
+    console.warn('[Screens] Failed to parse JSON:', e);
+    return null;
+  }
+}
+
+// ===========================================
+// Share Links
+// ===========================================
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+export function encodeScreenParam(screen: SavedScreen): string {
+  const { name, filters, columns, columnOrder, sort, view } = screen;
+  return toBase64Url(JSON.stringify({ name, filters, columns, columnOrder, sort, view }));
+}
+
+export function decodeScreenParam(encoded: string): SavedScreen | null {
+  try {
+    const screen = normalizeScreen(JSON.parse(fromBase64Url(encoded)));
+    return screen ? { ...screen, id: createScreenId(), updatedAt: Date.now() } : null;
+  } catch (e) {
+    console.warn('[Screens] Failed to decode shared screen:', e);
+    return null;
+  }
+}
+
+export function getScreenShareUrl(screen: SavedScreen): string {
+  if (typeof window === 'undefined') return '';
+  const params = new URLSearchParams({ [SCREENS.URL_PARAM]: encodeScreenParam(screen) });
+  return `${window.location.origin}${window.location.pathname}?${params.toString()}`;
+}
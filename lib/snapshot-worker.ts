@@ -0,0 +1,361 @@
+/**
+ * Snapshot Worker (server only)
+ * Computes RSI, funding rates and listing dates once per exchange and serves
+ * the same snapshot to every client through /api/snapshot
+ *
+ * - Calls the venues' REST / RSI functions directly (no WebSocket), so the same
+ *   rate limiters and RSI stale thresholds apply as in the browser
+ * - RSI refreshes on the store's tier cadence; instruments are ranked by 24h quote
+ *   volume because market cap data only exists client-side
+ * - Built-in RSI only: configured RSI pairs are per user and stay client-side
+ * - Started by the first request, stopped after SNAPSHOT.IDLE_TIMEOUT without one
+ * - The JSON body is built once per data version and tagged with an ETag
+ * - While /api/stream clients are connected, the venue's data manager runs here too
+ *   (WebSocket + REST polling) and changes go out as one StreamDiff per STREAM.FLUSH_INTERVAL
+ */
+
+import {
+  ExchangeId,
+  ExchangeSnapshot,
+  ProcessedTicker,
+  RSIData,
+  FundingRateData,
+  ListingData,
+  StreamDiff,
+  TickerPatch,
+} from './types';
+import { TIMING, SNAPSHOT, STREAM } from './constants';
+import type { ExchangeAdapter, RsiTier } from './api/exchange-adapter';
+import { EXCHANGE_ADAPTERS } from './api/exchanges';
+import { diffTicker, fundingRateChanged } from './stream-diff';
+import {
+  fetchTickersREST,
+  fetchFundingRates as fetchOKXFundingRates,
+  fetchListingDates as fetchOKXListingDates,
+} from './api/okx-rest';
+import { fetchRSIBatch as fetchOKXRSIBatch } from './api/okx-rsi';
+import {
+  fetchHyperliquidTickers,
+  fetchHyperliquidFundingRates,
+  fetchHyperliquidListingDates,
+} from './api/hyperliquid-rest';
+import { fetchHyperliquidRSIBatch } from './api/hyperliquid-rsi';
+import { fetchBinanceTickers, fetchBinanceFundingRates, fetchBinanceListingDates } from './api/binance-rest';
+import { fetchBinanceRSIBatch } from './api/binance-rsi';
+
+// What the worker needs from a venue (the REST half of ExchangeAdapter)
+interface SnapshotSource {
+  fetchTickers(): Promise<ProcessedTicker[]>;
+  fetchFundingRates(): Promise<Map<string, FundingRateData>>;
+  fetchListingDates(): Promise<Map<string, ListingData>>;
+  fetchRSIBatch: ExchangeAdapter['fetchRSIBatch'];
+  fundingRefreshInterval: number;
+}
+
+const SNAPSHOT_SOURCES: Record<ExchangeId, SnapshotSource> = {
+  okx: {
+    // USDT-margined perps only, like the OKX data manager
+    fetchTickers: async () => (await fetchTickersREST()).filter(t => t.instId.endsWith('-USDT-SWAP')),
+    fetchFundingRates: fetchOKXFundingRates,
+    fetchListingDates: fetchOKXListingDates,
+    fetchRSIBatch: fetchOKXRSIBatch,
+    fundingRefreshInterval: TIMING.FUNDING_RATES_REFRESH,
+  },
+  hyperliquid: {
+    fetchTickers: fetchHyperliquidTickers,
+    fetchFundingRates: fetchHyperliquidFundingRates,
+    fetchListingDates: fetchHyperliquidListingDates,
+    fetchRSIBatch: fetchHyperliquidRSIBatch,
+    // Clients keep their own 5s funding poll; refreshing faster than they read the snapshot is wasted
+    fundingRefreshInterval: SNAPSHOT.CLIENT_REFRESH,
+  },
+  binance: {
+    fetchTickers: fetchBinanceTickers,
+    fetchFundingRates: fetchBinanceFundingRates,
+    fetchListingDates: fetchBinanceListingDates,
+    fetchRSIBatch: fetchBinanceRSIBatch,
+    fundingRefreshInterval: TIMING.FUNDING_RATES_REFRESH,
+  },
+};
+
+// Changes on every server start, so ETags from a previous process never match
+const PROCESS_ID = Date.now().toString(36);
+
+// Own keys only: `in` would also accept inherited names like "constructor"
+export function isSnapshotExchange(value: string): value is ExchangeId {
+  return Object.prototype.hasOwnProperty.call(SNAPSHOT_SOURCES, value);
+}
+
+// 'init' carries every ticker in full, 'diff' only what changed since the last flush
+export type StreamEvent = { type: 'init' | 'diff'; diff: StreamDiff };
+export type StreamListener = (event: StreamEvent) => void;
+
+class SnapshotWorker {
+  private instIds: string[] = [];
+  private rsi = new Map<string, RSIData>();
+  private fundingRates = new Map<string, FundingRateData>();
+  private listings = new Map<string, ListingData>();
+  private warm = false;
+
+  private version = 0;
+  private generatedAt = 0;
+  private body: { version: number; etag: string; json: string } | null = null;
+
+  private ready: Promise<void> | null = null;
+  private timers: NodeJS.Timeout[] = [];
+  private rsiRun: Promise<void> | null = null;
+  private lastRequest = 0;
+
+  // Live feed for /api/stream, only while someone listens
+  private listeners = new Set<StreamListener>();
+  private subscribers = 0;
+  private feed: ExchangeAdapter | null = null;
+  private feedReady: Promise<void> | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private liveTickers = new Map<string, ProcessedTicker>();
+  private sentTickers = new Map<string, ProcessedTicker>();
+  private pendingFunding = new Map<string, FundingRateData>();
+  private pendingRsi = new Map<string, RSIData>();
+
+  constructor(private readonly exchange: ExchangeId, private readonly source: SnapshotSource) {}
+
+  /**
+   * Start on first use; resolves once tickers, funding and listings are loaded
+   * (RSI keeps filling in afterwards)
+   */
+  ensureRunning(): Promise<void> {
+    this.lastRequest = Date.now();
+    if (!this.ready) {
+      // A failed start is retried by the next request
+      this.ready = this.start().catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  // Current snapshot as JSON plus its ETag
+  getBody(): { etag: string; json: string } {
+    if (!this.body || this.body.version !== this.version) {
+      const snapshot: ExchangeSnapshot = {
+        exchange: this.exchange,
+        generatedAt: this.generatedAt,
+        warm: this.warm,
+        rsi: Object.fromEntries(this.rsi),
+        fundingRates: Object.fromEntries(this.fundingRates),
+        listings: Object.fromEntries(this.listings),
+      };
+      this.body = {
+        version: this.version,
+        etag: `"${this.exchange}-${PROCESS_ID}-${this.version}"`,
+        json: JSON.stringify(snapshot),
+      };
+    }
+    return { etag: this.body.etag, json: this.body.json };
+  }
+
+  /**
+   * Receive live changes until the returned function is called
+   * The listener gets an 'init' event with every ticker first
+   */
+  async subscribe(listener: StreamListener): Promise<() => void> {
+    // Counted before the awaits, so a client leaving meanwhile can't stop the feed under this one
+    this.subscribers++;
+    const leave = () => {
+      this.subscribers--;
+      this.lastRequest = Date.now();
+      if (this.subscribers === 0) this.stopFeed();
+    };
+
+    try {
+      await this.ensureRunning();
+      await this.startFeed();
+    } catch (error) {
+      leave();
+      throw error;
+    }
+
+    listener({ type: 'init', diff: { time: Date.now(), tickers: Object.fromEntries(this.liveTickers) } });
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+      leave();
+    };
+  }
+
+  private startFeed(): Promise<void> {
+    if (!this.feedReady) {
+      const feed = EXCHANGE_ADAPTERS[this.exchange](tickers => {
+        this.liveTickers = tickers;
+      }, () => {});
+      this.feed = feed;
+      this.feedReady = feed.start().then(() => {
+        this.sentTickers = this.liveTickers;
+      });
+      this.flushTimer = setInterval(() => this.flush(), STREAM.FLUSH_INTERVAL);
+    }
+    return this.feedReady;
+  }
+
+  private stopFeed(): void {
+    console.log(`[Snapshot] Last ${this.exchange} stream client left, stopping live feed`);
+    this.feed?.stop();
+    this.feed = null;
+    this.feedReady = null;
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pendingFunding.clear();
+    this.pendingRsi.clear();
+  }
+
+  // Send everything that changed since the last flush as one diff
+  private flush(): void {
+    if (this.listeners.size === 0) return;
+
+    const tickers: Record<string, TickerPatch> = {};
+    let tickerCount = 0;
+    this.liveTickers.forEach((ticker, instId) => {
+      const patch = diffTicker(this.sentTickers.get(instId), ticker);
+      if (patch) {
+        tickers[instId] = patch;
+        tickerCount++;
+      }
+    });
+    const removed = Array.from(this.sentTickers.keys()).filter(instId => !this.liveTickers.has(instId));
+    this.sentTickers = this.liveTickers;
+
+    if (tickerCount === 0 && removed.length === 0 && this.pendingFunding.size === 0 && this.pendingRsi.size === 0) {
+      return;
+    }
+
+    const diff: StreamDiff = { time: Date.now() };
+    if (tickerCount > 0) diff.tickers = tickers;
+    if (removed.length > 0) diff.removed = removed;
+    if (this.pendingFunding.size > 0) diff.fundingRates = Object.fromEntries(this.pendingFunding);
+    if (this.pendingRsi.size > 0) diff.rsi = Object.fromEntries(this.pendingRsi);
+    this.pendingFunding.clear();
+    this.pendingRsi.clear();
+
+    this.listeners.forEach(listener => listener({ type: 'diff', diff }));
+  }
+
+  private touch(): void {
+    this.version++;
+    this.generatedAt = Date.now();
+  }
+
+  private every(task: () => void, interval: number): void {
+    this.timers.push(setInterval(task, interval));
+  }
+
+  private async start(): Promise<void> {
+    console.log(`[Snapshot] Starting ${this.exchange} worker`);
+    this.warm = false;
+
+    const [, fundingRates, listings] = await Promise.all([
+      this.settle('ticker refresh', this.refreshTickers(), undefined),
+      this.settle('funding refresh', this.source.fetchFundingRates(), new Map<string, FundingRateData>()),
+      this.settle('listing fetch', this.source.fetchListingDates(), new Map<string, ListingData>()),
+    ]);
+    this.fundingRates = fundingRates;
+    this.listings = listings;
+    this.touch();
+
+    // Full pass first (only stale instruments after a restart), then the store's tiers
+    this.refreshRsi('all').then(() => {
+      this.warm = true;
+      this.touch();
+      console.log(`[Snapshot] ${this.exchange} RSI warm (${this.rsi.size} instruments)`);
+    });
+    this.every(() => this.refreshRsi('top50'), TIMING.RSI_REFRESH_TOP50);
+    this.every(() => this.refreshRsi('tier2'), TIMING.RSI_REFRESH_TIER2);
+    this.every(() => this.refreshRsi('tier3'), TIMING.RSI_REFRESH_TIER3);
+
+    this.every(() => this.settle('ticker refresh', this.refreshTickers(), undefined), SNAPSHOT.TICKER_REFRESH);
+    this.every(() => this.settle('funding refresh', this.refreshFunding(), undefined), this.source.fundingRefreshInterval);
+
+    this.every(() => {
+      if (this.subscribers === 0 && Date.now() - this.lastRequest > SNAPSHOT.IDLE_TIMEOUT) this.stop();
+    }, SNAPSHOT.IDLE_CHECK_INTERVAL);
+  }
+
+  // Keeps collected data, so a restarted worker only refetches what went stale
+  private stop(): void {
+    console.log(`[Snapshot] Stopping idle ${this.exchange} worker`);
+    this.timers.forEach(clearInterval);
+    this.timers = [];
+    this.ready = null;
+  }
+
+  // Instrument list, highest 24h quote volume first
+  private async refreshTickers(): Promise<void> {
+    const tickers = await this.source.fetchTickers();
+    if (tickers.length === 0) return;
+
+    const quoteVolume = (t: ProcessedTicker) => (parseFloat(t.volCcy24h) || 0) * t.priceNum;
+    this.instIds = tickers
+      .sort((a, b) => quoteVolume(b) - quoteVolume(a))
+      .map(t => t.instId);
+  }
+
+  // Latest funding rates; changed ones are queued for stream clients
+  private async refreshFunding(): Promise<void> {
+    const rates = await this.source.fetchFundingRates();
+    if (rates.size === 0) return;
+
+    if (this.feed) {
+      rates.forEach((rate, instId) => {
+        if (fundingRateChanged(this.fundingRates.get(instId), rate)) this.pendingFunding.set(instId, rate);
+      });
+    }
+    this.fundingRates = rates;
+    this.touch();
+  }
+
+  // Logs a failed fetch and resolves to the fallback, so timers never leave unhandled rejections
+  private settle<T>(task: string, pending: Promise<T>, fallback: T): Promise<T> {
+    return pending.catch(error => {
+      console.error(`[Snapshot] ${this.exchange} ${task} failed:`, error);
+      return fallback;
+    });
+  }
+
+  // One RSI pass at a time; callers during a pass wait for the running one
+  private refreshRsi(tier: RsiTier): Promise<void> {
+    if (this.rsiRun) return this.rsiRun;
+    if (this.instIds.length === 0) return Promise.resolve();
+
+    this.rsiRun = this.source.fetchRSIBatch(
+      this.instIds,
+      this.rsi,
+      () => {},
+      (instId, data) => {
+        this.rsi.set(instId, data);
+        if (this.feed) this.pendingRsi.set(instId, data);
+        this.touch();
+      },
+      [],
+      tier
+    )
+      .catch(error => console.error(`[Snapshot] ${this.exchange} RSI refresh failed:`, error))
+      .finally(() => {
+        this.rsiRun = null;
+      });
+    return this.rsiRun;
+  }
+}
+
+const workers = new Map<ExchangeId, SnapshotWorker>();
+
+export function getSnapshotWorker(exchange: ExchangeId): SnapshotWorker {
+  let worker = workers.get(exchange);
+  if (!worker) {
+    worker = new SnapshotWorker(exchange, SNAPSHOT_SOURCES[exchange]);
+    workers.set(exchange, worker);
+  }
+  return worker;
+}
@@ -1,6 +1,6 @@
 /**
  * Shared Store Utilities
- * Pure functions extracted from exchange-specific stores (OKX / Hyperliquid)
+ * Pure functions behind the board row model (lib/board-compute, run in the compute worker)
  * These are stateless and can be used by any store without risk.
  */
 
@@ -34,6 +34,32 @@ export function applyRsiFilter(
   return true;
 }
 
+// ===========================================
+// Threshold Filter (unbounded numeric values)
+// ===========================================
+
+/**
+ * Same syntax as applyRsiFilter, for values without a 0-100 scale
+ * Examples: "5~20", "<-10", ">1.5" (open-ended ranges like "5~" are allowed)
+ */
+export function applyThresholdFilter(
+  value: number | null | undefined,
+  filterValue: string
+): boolean {
+  if (value === null || value === undefined) return false;
+  if (filterValue.includes('~')) {
+    const [minStr, maxStr] = filterValue.split('~');
+    const min = minStr ? parseFloat(minStr) : -Infinity;
+    const max = maxStr ? parseFloat(maxStr) : Infinity;
+    return value >= min && value <= max;
+  } else if (filterValue.startsWith('<')) {
+    return value < parseFloat(filterValue.slice(1));
+  } else if (filterValue.startsWith('>')) {
+    return value > parseFloat(filterValue.slice(1));
+  }
+  return true;
+}
+
 // ===========================================
 // RSI Averages (Top 100 by Market Cap)
 // ===========================================
@@ -0,0 +1,55 @@
+/**
+ * Stream diffs
+ * Compact ticker / funding changes for /api/stream: the snapshot worker builds
+ * them, the SSE data manager applies them
+ *
+ * - Tickers are diffed field by field (rawData one level deeper), so a price tick
+ *   costs a few fields instead of the whole venue ticker
+ * - Funding rates only count as changed when a rate or settlement time moved
+ */
+
+import { ProcessedTicker, FundingRateData, TickerPatch } from './types';
+
+// Fields of `next` that differ from `prev` (all of them when prev is missing)
+function changedFields<T extends object>(prev: T | undefined, next: T): Partial<T> | null {
+  const changed: Partial<T> = {};
+  let any = false;
+  (Object.keys(next) as (keyof T)[]).forEach(key => {
+    if (prev && prev[key] === next[key]) return;
+    changed[key] = next[key];
+    any = true;
+  });
+  return any ? changed : null;
+}
+
+// Patch turning `prev` into `next`, null when nothing changed
+export function diffTicker(prev: ProcessedTicker | undefined, next: ProcessedTicker): TickerPatch | null {
+  if (!prev) return next;
+
+  const { rawData, ...fields } = next;
+  const { rawData: prevRawData, ...prevFields } = prev;
+  const patch: TickerPatch = changedFields(prevFields, fields) ?? {};
+  const rawPatch = changedFields(prevRawData, rawData);
+  if (rawPatch) patch.rawData = rawPatch;
+
+  return Object.keys(patch).length > 0 ? patch : null;
+}
+
+// Apply a patch from diffTicker; a patch for an unknown instrument is a full ticker
+export function applyTickerPatch(prev: ProcessedTicker | undefined, patch: TickerPatch): ProcessedTicker {
+  return {
+    ...prev,
+    ...patch,
+    rawData: { ...prev?.rawData, ...patch.rawData },
+  } as ProcessedTicker;
+}
+
+// Whether a refreshed funding rate is worth sending (lastUpdated alone isn't)
+export function fundingRateChanged(prev: FundingRateData | undefined, next: FundingRateData): boolean {
+  return !prev
+    || prev.fundingRate !== next.fundingRate
+    || prev.nextFundingRate !== next.nextFundingRate
+    || prev.fundingTime !== next.fundingTime
+    || prev.nextFundingTime !== next.nextFundingTime
+    || prev.settlementInterval !== next.settlementInterval;
+}
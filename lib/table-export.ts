@@ -0,0 +1,215 @@
+/**
+ * Table Export
+ * Writes the filtered, sorted board as CSV or JSON for spreadsheets and notebooks
+ *
+ * - Only visible columns are exported, in the current column order
+ * - Values are raw numbers in the units the store keeps: prices/volume/OI/market cap
+ *   in USD, changes and funding APR in %, funding rate as the exchange's fraction
+ * - Both formats start with metadata (exchange, export time, active filters)
+ */
+
+import {
+  ColumnKey,
+  ExchangeId,
+  Filters,
+  ProcessedTicker,
+  SortConfig,
+  TableExportFormat,
+} from './types';
+import { ScreenerContext } from './screener';
+import { getFundingApr } from './widget-utils';
+import { getColumnDefinition, calculateOiVolRatio, getRsiSignal } from './utils';
+import { parseRsiColumnKey, rsiPairKey } from './rsi-pairs';
+import { getEmaTrendSignal, getMacdSignal } from './indicators';
+import { calculateRealizedVol, calculateBtcBeta } from './volatility';
+import { VOLATILITY } from './constants';
+
+export type ExportValue = string | number | boolean | null;
+
+type ValueReader = (t: ProcessedTicker, ctx: ScreenerContext, position: number) => ExportValue;
+
+// Raw value per column (favorite/logo carry no data and are skipped)
+const COLUMN_VALUES: Partial<Record<ColumnKey, ValueReader>> = {
+  rank: (_t, _c, position) => position,
+  symbol: t => t.baseSymbol,
+  price: t => t.priceNum,
+  fundingRate: (t, c) => c.fundingRateData.get(t.instId)?.fundingRate ?? null,
+  fundingApr: (t, c) => {
+    const fr = c.fundingRateData.get(t.instId);
+    return fr ? getFundingApr(fr, c.defaultFundingInterval) : null;
+  },
+  fundingInterval: (t, c) => c.fundingRateData.get(t.instId)?.settlementInterval || null,
+  change4h: (t, c) => c.rsiData.get(t.instId)?.change4h ?? null,
+  change: t => t.changeNum,
+  change7d: (t, c) => c.rsiData.get(t.instId)?.change7d ?? null,
+  volume24h: t => (parseFloat(t.volCcy24h) || 0) * t.priceNum,
+  marketCap: (t, c) => c.marketCapData.get(t.baseSymbol)?.marketCap ?? null,
+  openInterest: (t, c) => c.openInterestData.get(t.instId)?.oiUsd ?? null,
+  oiChange24h: (t, c) => c.openInterestData.get(t.instId)?.oiChange24h ?? null,
+  oiVolRatio: (t, c) => calculateOiVolRatio(c.openInterestData.get(t.instId)?.oiUsd, t.volCcy24h, t.priceNum),
+  dRsiSignal: (t, c) => {
+    const rsi = c.rsiData.get(t.instId);
+    const signal = getRsiSignal(rsi?.rsi7 ?? null, rsi?.rsi14 ?? null);
+    return signal.label !== '--' ? signal.label : null;
+  },
+  wRsiSignal: (t, c) => {
+    const rsi = c.rsiData.get(t.instId);
+    const signal = getRsiSignal(rsi?.rsiW7 ?? null, rsi?.rsiW14 ?? null);
+    return signal.label !== '--' ? signal.label : null;
+  },
+  rsi7: (t, c) => c.rsiData.get(t.instId)?.rsi7 ?? null,
+  rsi14: (t, c) => c.rsiData.get(t.instId)?.rsi14 ?? null,
+  rsiW7: (t, c) => c.rsiData.get(t.instId)?.rsiW7 ?? null,
+  rsiW14: (t, c) => c.rsiData.get(t.instId)?.rsiW14 ?? null,
+  emaTrend: (t, c) => {
+    const trend = getEmaTrendSignal(c.rsiData.get(t.instId)?.indicators);
+    return trend.signal ? trend.label : null;
+  },
+  ema20: (t, c) => c.rsiData.get(t.instId)?.indicators?.ema20Dist ?? null,
+  ema50: (t, c) => c.rsiData.get(t.instId)?.indicators?.ema50Dist ?? null,
+  ema200: (t, c) => c.rsiData.get(t.instId)?.indicators?.ema200Dist ?? null,
+  macd: (t, c) => {
+    const macd = getMacdSignal(c.rsiData.get(t.instId)?.indicators);
+    return macd.signal ? macd.label : null;
+  },
+  bbPercentB: (t, c) => c.rsiData.get(t.instId)?.indicators?.bbPercentB ?? null,
+  atrPct: (t, c) => c.rsiData.get(t.instId)?.indicators?.atrPct ?? null,
+  vol7d: (t, c) => calculateRealizedVol(c.rsiData.get(t.instId)?.dailyReturns, VOLATILITY.SHORT_DAYS),
+  vol30d: (t, c) => calculateRealizedVol(c.rsiData.get(t.instId)?.dailyReturns, VOLATILITY.RETURN_DAYS),
+  btcBeta: (t, c) => calculateBtcBeta(c.rsiData.get(t.instId)?.dailyReturns, c.btcReturns)?.beta ?? null,
+  btcCorr: (t, c) => calculateBtcBeta(c.rsiData.get(t.instId)?.dailyReturns, c.btcReturns)?.correlation ?? null,
+  listDate: (t, c) => {
+    const listTime = c.listingData.get(t.instId)?.listTime;
+    return listTime ? new Date(listTime).toISOString().slice(0, 10) : null;
+  },
+  hasSpot: (t, c) => c.spotSymbols.has(t.baseSymbol),
+};
+
+// Reader for any column, including configured RSI pairs ("rsi:4H:14")
+function getValueReader(key: ColumnKey): ValueReader | undefined {
+  const pair = parseRsiColumnKey(key);
+  if (pair) {
+    const pairKey = rsiPairKey(pair);
+    return (t, c) => c.rsiData.get(t.instId)?.custom?.[pairKey] ?? null;
+  }
+  return COLUMN_VALUES[key];
+}
+
+export interface TableExportMeta {
+  exchange: ExchangeId;
+  exportedAt: string; // ISO timestamp
+  rowCount: number;
+  view: string;       // "All markets" or the watchlist name
+  searchTerm?: string;
+  filters: Filters;   // Active filters only
+  sort: SortConfig;
+}
+
+export interface TableExport {
+  meta: TableExportMeta;
+  columns: { key: ColumnKey; label: string }[];
+  rows: Record<string, ExportValue>[];
+}
+
+// Drop unset / empty filter values so the metadata only lists what's applied
+function activeFilters(filters: Filters): Filters {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, v]) => (Array.isArray(v) ? v.length > 0 : v !== undefined && v !== ''))
+  ) as Filters;
+}
+
+/**
+ * Build the export from the filtered rows
+ * @param rows - Output of getFilteredData (already filtered and sorted)
+ * @param visibleColumns - Visible columns in column order
+ */
+export function buildTableExport(
+  rows: ProcessedTicker[],
+  visibleColumns: ColumnKey[],
+  ctx: ScreenerContext,
+  meta: Omit<TableExportMeta, 'exportedAt' | 'rowCount' | 'filters'> & { filters: Filters }
+): TableExport {
+  const columns = visibleColumns
+    .map(key => ({ key, label: getColumnDefinition(key).label, read: getValueReader(key) }))
+    .filter((c): c is { key: ColumnKey; label: string; read: ValueReader } => c.read !== undefined);
+
+  return {
+    meta: {
+      ...meta,
+      searchTerm: meta.searchTerm || undefined,
+      filters: activeFilters(meta.filters),
+      exportedAt: new Date(ctx.now).toISOString(),
+      rowCount: rows.length,
+    },
+    columns: columns.map(({ key, label }) => ({ key, label })),
+    rows: rows.map((ticker, i) => {
+      const row: Record<string, ExportValue> = { instId: ticker.instId };
+      columns.forEach(({ key, read }) => {
+        const value = read(ticker, ctx, i + 1);
+        row[key] = typeof value === 'number' && !Number.isFinite(value) ? null : value;
+      });
+      return row;
+    }),
+  };
+}
+
+// ===========================================
+// Serialization
+// ===========================================
+
+function escapeCsv(value: ExportValue): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with "# key: value" metadata lines above the header row
+ * (pandas: read_csv(path, comment='#'))
+ */
+export function tableExportToCsv(data: TableExport): string {
+  const { meta } = data;
+  const filters = Object.entries(meta.filters)
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('|') : value}`)
+    .join('; ');
+
+  const lines = [
+    `# exchange: ${meta.exchange}`,
+    `# exported: ${meta.exportedAt}`,
+    `# rows: ${meta.rowCount}`,
+    `# view: ${meta.view}`,
+    `# search: ${meta.searchTerm ?? ''}`,
+    `# filters: ${filters || 'none'}`,
+    `# sort: ${meta.sort.column} ${meta.sort.direction}`,
+  ].map(line => line.replace(/[\r\n]+/g, ' '));
+
+  const keys = ['instId', ...data.columns.map(c => c.key)];
+  lines.push(keys.join(','));
+  data.rows.forEach(row => {
+    lines.push(keys.map(key => escapeCsv(row[key] ?? null)).join(','));
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+export function tableExportToJson(data: TableExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Serialize and save the export as a file download
+ */
+export function downloadTableExport(data: TableExport, format: TableExportFormat): void {
+  if (typeof window === 'undefined') return;
+
+  const content = format === 'csv' ? tableExportToCsv(data) : tableExportToJson(data);
+  const type = format === 'csv' ? 'text/csv' : 'application/json';
+  const stamp = data.meta.exportedAt.slice(0, 16).replace(/[:T]/g, '-');
+
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${data.meta.exchange}-perps-${stamp}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
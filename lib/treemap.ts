@@ -0,0 +1,216 @@
+/**
+ * Market Treemap
+ * Squarified layout + colour scales for the treemap view of the board
+ *
+ * - Tiles are sized by market cap or 24h volume and coloured by one metric
+ * - Colours run from red through neutral grey to green; for RSI the scale is
+ *   flipped so oversold reads green, matching the RSI pills in the table
+ * - Layout follows Bruls, Huizing & van Wijk, "Squarified Treemaps" (2000)
+ */
+
+import {
+  ProcessedTicker,
+  RSIData,
+  FundingRateData,
+  MarketCapData,
+  TreemapSizeMetric,
+  TreemapColorMetric,
+} from './types';
+import { calculateAvgRsi, getFundingApr } from './widget-utils';
+import { TREEMAP } from './constants';
+
+// Data the treemap reads for each ticker
+export interface TreemapContext {
+  rsiData: Map<string, RSIData>;
+  fundingRateData: Map<string, FundingRateData>;
+  marketCapData: Map<string, MarketCapData>;
+  defaultFundingInterval: number;
+}
+
+export interface TreemapTile {
+  instId: string;
+  symbol: string;
+  size: number;          // Value of the size metric (USD)
+  value: number | null;  // Value of the colour metric
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ColorMetricDefinition {
+  label: string;
+  read: (t: ProcessedTicker, ctx: TreemapContext) => number | null | undefined;
+  format: (value: number) => string;
+  // Map a value to -1 (full red) .. +1 (full green)
+  score: (value: number) => number;
+}
+
+const clamp = (v: number) => Math.max(-1, Math.min(1, v));
+const formatPercent = (v: number) => `${v >= 0 ? '+' : ''}${v.toFixed(2)}%`;
+
+export const TREEMAP_SIZE_METRICS: Record<TreemapSizeMetric, { label: string; read: (t: ProcessedTicker, ctx: TreemapContext) => number | null | undefined }> = {
+  marketCap: { label: 'Market Cap', read: (t, c) => c.marketCapData.get(t.baseSymbol)?.marketCap },
+  volume: { label: 'Volume 24h', read: t => (parseFloat(t.volCcy24h) || 0) * t.priceNum },
+};
+
+export const TREEMAP_COLOR_METRICS: Record<TreemapColorMetric, ColorMetricDefinition> = {
+  change24h: {
+    label: '24h',
+    read: t => t.changeNum,
+    format: formatPercent,
+    score: v => clamp(v / 10),
+  },
+  change4h: {
+    label: '4h',
+    read: (t, c) => c.rsiData.get(t.instId)?.change4h,
+    format: formatPercent,
+    score: v => clamp(v / 5),
+  },
+  avgRsi: {
+    label: 'RSI Avg',
+    read: (t, c) => {
+      const rsi = c.rsiData.get(t.instId);
+      return rsi ? calculateAvgRsi(rsi) : null;
+    },
+    format: v => v.toFixed(1),
+    score: v => clamp((50 - v) / 30),
+  },
+  fundingApr: {
+    label: 'Funding APR',
+    read: (t, c) => {
+      const fr = c.fundingRateData.get(t.instId);
+      return fr ? getFundingApr(fr, c.defaultFundingInterval) : null;
+    },
+    format: v => `${v >= 0 ? '+' : ''}${v.toFixed(1)}%`,
+    score: v => clamp(v / 50),
+  },
+};
+
+// ===========================================
+// Colour Scale
+// ===========================================
+
+const NEUTRAL = [82, 82, 91];  // zinc-600
+const GREEN = [22, 163, 74];   // green-600
+const RED = [220, 38, 38];     // red-600
+
+/**
+ * Tile background for a colour metric value (grey when the value is missing)
+ */
+export function getTreemapColor(metric: TreemapColorMetric, value: number | null): string {
+  if (value === null) return `rgb(${NEUTRAL.join(',')})`;
+  const score = TREEMAP_COLOR_METRICS[metric].score(value);
+  const target = score >= 0 ? GREEN : RED;
+  const t = Math.abs(score);
+  const rgb = NEUTRAL.map((n, i) => Math.round(n + (target[i] - n) * t));
+  return `rgb(${rgb.join(',')})`;
+}
+
+// ===========================================
+// Squarified Layout
+// ===========================================
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Worst aspect ratio of a row laid along a side of length `side`
+function worstRatio(areas: number[], side: number): number {
+  const sum = areas.reduce((a, b) => a + b, 0);
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  const side2 = side * side;
+  return Math.max((side2 * max) / (sum * sum), (sum * sum) / (side2 * min));
+}
+
+// Place a finished row along the shorter side, returning the space left over
+function placeRow(areas: number[], rect: Rect, out: Rect[]): Rect {
+  const sum = areas.reduce((a, b) => a + b, 0);
+
+  if (rect.width >= rect.height) {
+    // Column on the left
+    const colWidth = sum / rect.height;
+    let y = rect.y;
+    areas.forEach(area => {
+      const height = area / colWidth;
+      out.push({ x: rect.x, y, width: colWidth, height });
+      y += height;
+    });
+    return { x: rect.x + colWidth, y: rect.y, width: rect.width - colWidth, height: rect.height };
+  }
+
+  // Row along the top
+  const rowHeight = sum / rect.width;
+  let x = rect.x;
+  areas.forEach(area => {
+    const width = area / rowHeight;
+    out.push({ x, y: rect.y, width, height: rowHeight });
+    x += width;
+  });
+  return { x: rect.x, y: rect.y + rowHeight, width: rect.width, height: rect.height - rowHeight };
+}
+
+/**
+ * Lay out values (sorted largest first) into a width × height box
+ * @returns One rectangle per value, in input order
+ */
+export function layoutTreemap(values: number[], width: number, height: number): Rect[] {
+  const total = values.reduce((a, b) => a + b, 0);
+  if (total <= 0 || width <= 0 || height <= 0) return [];
+
+  const scale = (width * height) / total;
+  const areas = values.map(v => v * scale);
+  const out: Rect[] = [];
+
+  let rect: Rect = { x: 0, y: 0, width, height };
+  let row: number[] = [];
+
+  areas.forEach(area => {
+    const side = Math.min(rect.width, rect.height);
+    if (row.length === 0 || worstRatio([...row, area], side) <= worstRatio(row, side)) {
+      row.push(area);
+    } else {
+      rect = placeRow(row, rect, out);
+      row = [area];
+    }
+  });
+  if (row.length > 0) placeRow(row, rect, out);
+
+  return out;
+}
+
+/**
+ * Build tiles for the filtered rows
+ * Rows without a size value are skipped; only the largest TREEMAP.MAX_TILES are drawn
+ */
+export function buildTreemapTiles(
+  rows: ProcessedTicker[],
+  ctx: TreemapContext,
+  sizeMetric: TreemapSizeMetric,
+  colorMetric: TreemapColorMetric,
+  width: number,
+  height: number
+): TreemapTile[] {
+  const readSize = TREEMAP_SIZE_METRICS[sizeMetric].read;
+  const readColor = TREEMAP_COLOR_METRICS[colorMetric].read;
+
+  const sized = rows
+    .map(t => ({ ticker: t, size: readSize(t, ctx) ?? 0 }))
+    .filter(r => r.size > 0)
+    .sort((a, b) => b.size - a.size)
+    .slice(0, TREEMAP.MAX_TILES);
+
+  const rects = layoutTreemap(sized.map(r => r.size), width, height);
+
+  return sized.map((r, i) => ({
+    instId: r.ticker.instId,
+    symbol: r.ticker.baseSymbol,
+    size: r.size,
+    value: readColor(r.ticker, ctx) ?? null,
+    ...rects[i],
+  }));
+}
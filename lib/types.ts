@@ -75,6 +75,14 @@ export interface HyperliquidSpotMeta {
   universe: HyperliquidSpotPair[];
 }
 
+// Hyperliquid funding history entry (fundingHistory info request)
+export interface HyperliquidFundingHistory {
+  coin: string;
+  fundingRate: string;
+  premium: string;
+  time: number;
+}
+
 // Hyperliquid candle data
 export interface HyperliquidCandle {
   t: number;  // open time ms
@@ -89,6 +97,83 @@ export interface HyperliquidCandle {
   n: number;  // number of trades
 }
 
+// ===========================================
+// Binance USDⓈ-M Futures Types
+// ===========================================
+
+// Binance 24hr ticker (GET /fapi/v1/ticker/24hr), stored in ProcessedTicker.rawData
+export interface BinanceTicker24h {
+  symbol: string;             // e.g. "BTCUSDT"
+  priceChange: string;
+  priceChangePercent: string; // rolling 24h change %
+  lastPrice: string;
+  openPrice: string;
+  highPrice: string;
+  lowPrice: string;
+  volume: string;             // base asset volume
+  quoteVolume: string;        // USDT volume
+  openTime: number;
+  closeTime: number;
+}
+
+// Binance 24hr ticker WebSocket event (<symbol>@ticker stream)
+export interface BinanceWSTicker {
+  e: string;  // event type ("24hrTicker")
+  E: number;  // event time
+  s: string;  // symbol
+  p: string;  // price change
+  P: string;  // price change percent
+  c: string;  // last price
+  o: string;  // open price
+  h: string;  // high price
+  l: string;  // low price
+  v: string;  // base asset volume
+  q: string;  // quote asset volume
+  O: number;  // statistics open time
+  C: number;  // statistics close time
+}
+
+// Binance symbol info (GET /fapi/v1/exchangeInfo)
+export interface BinanceSymbolInfo {
+  symbol: string;
+  pair: string;
+  contractType: string;  // "PERPETUAL", "CURRENT_QUARTER", ...
+  status: string;        // "TRADING", "SETTLING", ...
+  baseAsset: string;
+  quoteAsset: string;
+  marginAsset: string;
+  onboardDate: number;   // Listing timestamp in milliseconds
+  deliveryDate: number;
+}
+
+// Binance mark price + funding (GET /fapi/v1/premiumIndex)
+export interface BinancePremiumIndex {
+  symbol: string;
+  markPrice: string;
+  indexPrice: string;
+  lastFundingRate: string; // Rate applied at nextFundingTime
+  interestRate: string;
+  nextFundingTime: number;
+  time: number;
+}
+
+// Binance funding rate history (GET /fapi/v1/fundingRate)
+export interface BinanceFundingRateHistory {
+  symbol: string;
+  fundingRate: string;
+  fundingTime: number;
+  markPrice: string;
+}
+
+// Binance funding config (GET /fapi/v1/fundingInfo)
+// Only lists symbols with non-default settings (default interval is 8h)
+export interface BinanceFundingInfo {
+  symbol: string;
+  adjustedFundingRateCap: string;
+  adjustedFundingRateFloor: string;
+  fundingIntervalHours: number;
+}
+
 // OKX Instrument data
 export interface OKXInstrument {
   instId: string;
@@ -123,6 +208,62 @@ export interface OKXFundingRate {
   nextFundingTime: string;
 }
 
+// OKX Open Interest data (GET /public/open-interest)
+export interface OKXOpenInterest {
+  instId: string;
+  instType: string;
+  oi: string;      // Contracts
+  oiCcy: string;   // Base currency
+  oiUsd: string;   // USD value
+  ts: string;
+}
+
+// OKX Funding Rate History (GET /public/funding-rate-history)
+export interface OKXFundingRateHistory {
+  instId: string;
+  instType: string;
+  fundingRate: string;
+  realizedRate: string; // Rate actually settled
+  fundingTime: string;
+  method: string;
+}
+
+// OKX Mark Price data
+export interface OKXMarkPrice {
+  instId: string;
+  instType: string;
+  markPx: string;
+  ts: string;
+}
+
+// Supported perpetual venues
+export type ExchangeId = 'okx' | 'hyperliquid' | 'binance';
+
+// Candle bar sizes supported by every exchange adapter
+export type CandleBar = '1H' | '4H' | '1D' | '1W';
+
+// Bars streamed over venue WebSockets for live RSI, see lib/live-rsi
+export type LiveCandleBar = '1D' | '1H';
+
+// One candle push: the bar's [timestamp, open, high, low, close, volume] so far
+export interface LiveCandleUpdate {
+  instId: string;
+  bar: LiveCandleBar;
+  candle: number[];
+}
+
+// User-configured RSI (timeframe, period) pair, see lib/rsi-pairs
+export interface RsiPair {
+  bar: CandleBar;
+  period: number;
+}
+
+// "4H:14" - keys RSIData.custom and Filters.rsiPairs
+export type RsiPairKey = `${CandleBar}:${number}`;
+
+// "rsi:4H:14" - table column for a configured pair
+export type RsiColumnKey = `rsi:${RsiPairKey}`;
+
 // Processed ticker data (exchange-agnostic)
 export interface ProcessedTicker {
   instId: string;
@@ -130,7 +271,7 @@ export interface ProcessedTicker {
   priceNum: number;
   changeNum: number; // 24h change %
   volCcy24h: string; // 24h volume in currency
-  rawData: OKXTicker | HyperliquidRawTicker;
+  rawData: OKXTicker | HyperliquidRawTicker | BinanceTicker24h;
 }
 
 // RSI data for a single instrument
@@ -144,9 +285,53 @@ export interface RSIData {
   change7d: number | null;  // 7-day change %
   sparkline7d?: number[];   // 7-day price data from daily candles (OKX)
   sparkline24h?: number[];  // 24h price data from hourly candles (OKX)
+  custom?: Partial<Record<RsiPairKey, number | null>>; // Configured RSI pairs
+  indicators?: TechnicalIndicators; // Daily EMA / MACD / Bollinger / ATR
+  divergences?: RsiDivergence[];    // Latest daily RSI14 divergence of each type
+  dailyReturns?: DailyReturns;      // Realized vol / beta to BTC inputs
   lastUpdated: number;
 }
 
+// Log returns of the last closed daily candles, see lib/volatility
+export interface DailyReturns {
+  endTime: number;  // Open time of the newest closed daily candle
+  values: number[]; // Oldest first, up to VOLATILITY.RETURN_DAYS
+}
+
+// Regular divergence between the latest daily swing and an earlier one, see lib/divergence
+// Bullish: price lower low, RSI higher low. Bearish: price higher high, RSI lower high
+export interface RsiDivergence {
+  type: 'bullish' | 'bearish';
+  barsAgo: number; // Daily bars since the latest swing
+  span: number;    // Daily bars between the two swings
+}
+
+// Daily technical indicators, see lib/indicators
+export interface TechnicalIndicators {
+  ema20Dist: number | null;     // Last close vs EMA20 in %
+  ema50Dist: number | null;     // Last close vs EMA50 in %
+  ema200Dist: number | null;    // Last close vs EMA200 in % (null for listings under 200 days)
+  macdHist: number | null;      // MACD(12, 26, 9) histogram
+  macdCrossAge: number | null;  // Daily bars since the MACD line last crossed its signal (0 = current bar)
+  bbPercentB: number | null;    // Bollinger(20, 2) %B: 0 = lower band, 1 = upper band
+  atrPct: number | null;        // ATR14 as % of the last close
+}
+
+// Price vs EMA20/50/200 alignment
+export type EmaTrendSignal =
+  | 'strong-uptrend'
+  | 'uptrend'
+  | 'mixed'
+  | 'downtrend'
+  | 'strong-downtrend';
+
+// MACD histogram side, "cross" while the crossover is fresh
+export type MacdSignalType =
+  | 'bullish-cross'
+  | 'bullish'
+  | 'bearish'
+  | 'bearish-cross';
+
 // Funding rate data
 export interface FundingRateData {
   fundingRate: number;
@@ -157,6 +342,32 @@ export interface FundingRateData {
   lastUpdated: number;
 }
 
+// One settled funding period from venue history
+export interface FundingHistoryPoint {
+  fundingTime: number; // Settlement timestamp (ms)
+  fundingRate: number; // Rate settled for the period
+}
+
+// Funding history lookback windows
+export type FundingHistoryRange = '7d' | '30d' | '90d';
+
+// Summary of a funding history window
+export interface FundingHistoryStats {
+  periods: number;
+  avgApr: number;            // Annualized realized funding in %
+  positivePct: number;       // % of periods with rate > 0
+  maxPositiveStreak: number; // Longest run of consecutive positive periods
+  maxNegativeStreak: number; // Longest run of consecutive negative periods
+  cumulativeRate: number;    // Sum of all rates in the window (decimal)
+}
+
+// Open interest data
+export interface OpenInterestData {
+  oiUsd: number;               // Open interest in USD
+  oiChange24h: number | null;  // % change vs 24h ago (null until history is loaded)
+  lastUpdated: number;
+}
+
 // Listing date data
 export interface ListingData {
   listTime: number; // Unix timestamp in milliseconds
@@ -170,6 +381,50 @@ export interface MarketCapData {
   sparkline?: number[]; // 7-day price data for sparkline chart
 }
 
+// Server-computed data for one exchange, shared by every client via /api/snapshot
+export interface ExchangeSnapshot {
+  exchange: ExchangeId;
+  generatedAt: number; // Last change to any of the maps
+  warm: boolean;       // First full RSI pass finished
+  rsi: Record<string, RSIData>;
+  fundingRates: Record<string, FundingRateData>;
+  listings: Record<string, ListingData>;
+}
+
+// Live board transport: the venue's own WebSocket, or the server's SSE stream (/api/stream)
+export type StreamTransport = 'direct' | 'sse';
+
+// Changed ProcessedTicker fields; rawData carries only its changed fields too
+export type TickerPatch = Partial<Omit<ProcessedTicker, 'rawData'>> & {
+  rawData?: Partial<ProcessedTicker['rawData']>;
+};
+
+// One /api/stream message: everything that changed since the previous one
+// The first message of a connection ('init') carries every ticker in full
+export interface StreamDiff {
+  time: number;
+  tickers?: Record<string, TickerPatch>;
+  removed?: string[]; // Delisted instIds
+  fundingRates?: Record<string, FundingRateData>;
+  rsi?: Record<string, RSIData>;
+}
+
+// BTC / ETH dominance (% of total crypto market cap) at one snapshot
+export interface DominancePoint {
+  timestamp: number;
+  btc: number;
+  eth: number;
+}
+
+export type DominanceRange = '1d' | '7d' | '30d' | '1y';
+
+// /api/btc-dominance response: live dominance plus the stored history for a range
+export interface DominanceData {
+  btc: number;
+  eth: number;
+  history: DominancePoint[];
+}
+
 // Column key type
 export type ColumnKey =
   | 'favorite'
@@ -192,7 +447,22 @@ export type ColumnKey =
   | 'rsiW7'
   | 'rsiW14'
   | 'listDate'
-  | 'hasSpot';
+  | 'hasSpot'
+  | 'openInterest'
+  | 'oiChange24h'
+  | 'oiVolRatio'
+  | 'emaTrend'
+  | 'ema20'
+  | 'ema50'
+  | 'ema200'
+  | 'macd'
+  | 'bbPercentB'
+  | 'atrPct'
+  | 'vol7d'
+  | 'vol30d'
+  | 'btcBeta'
+  | 'btcCorr'
+  | RsiColumnKey;
 
 // Column visibility settings
 export interface ColumnVisibility {
@@ -217,6 +487,21 @@ export interface ColumnVisibility {
   rsiW14: boolean;
   listDate: boolean;
   hasSpot: boolean;
+  openInterest: boolean;
+  oiChange24h: boolean;
+  oiVolRatio: boolean;
+  emaTrend: boolean;
+  ema20: boolean;
+  ema50: boolean;
+  ema200: boolean;
+  macd: boolean;
+  bbPercentB: boolean;
+  atrPct: boolean;
+  vol7d: boolean;
+  vol30d: boolean;
+  btcBeta: boolean;
+  btcCorr: boolean;
+  [key: RsiColumnKey]: boolean; // Configured RSI pairs (visible when unset)
 }
 
 // Column order configuration
@@ -249,14 +534,85 @@ export interface Filters {
   rsi14?: string;
   rsiW7?: string;   // Weekly RSI7 filter
   rsiW14?: string;  // Weekly RSI14 filter
+  rsiPairs?: Partial<Record<RsiPairKey, string>>; // Configured RSI pair filters (same syntax)
   hasSpot?: string;
   fundingRate?: string;
   listAge?: string;  // Listing age filter (e.g., '>1y', '<30d')
   isMeme?: string;   // Meme token filter
   dRsiSignal?: RsiSignalType[];  // D-RSI Avg Signal filter (multi-select)
   wRsiSignal?: RsiSignalType[];  // W-RSI Avg Signal filter (multi-select)
+  openInterestMin?: string;  // Open interest USD range (e.g., '10-100' in $M)
+  oiChange?: string;         // OI 24h change % (e.g., '>10', '<-10', '5~20')
+  oiVolRatio?: string;       // OI / 24h volume ratio (e.g., '>1', '<0.5')
+  emaTrend?: EmaTrendSignal[];   // EMA trend signal filter (multi-select)
+  ema20?: string;            // Close vs EMA20 % (e.g., '>0', '<-10')
+  ema50?: string;            // Close vs EMA50 %
+  ema200?: string;           // Close vs EMA200 %
+  macdSignal?: MacdSignalType[]; // MACD signal filter (multi-select)
+  macdCrossAge?: string;     // Daily bars since the last MACD cross (e.g., '<3')
+  bbPercentB?: string;       // Bollinger %B (e.g., '>1', '~0.2')
+  atrPct?: string;           // ATR14 % of price (e.g., '>8', '3~6')
+  vol7d?: string;            // 7d realized vol, annualized % (e.g., '>100')
+  vol30d?: string;           // 30d realized vol, annualized %
+  btcBeta?: string;          // 30d beta to BTC (e.g., '>1.5')
+  btcCorr?: string;          // 30d correlation to BTC (e.g., '<0.3')
+  expression?: string;       // Screener expression (e.g., 'rsi7 < 30 and not meme'), see lib/screener
+  symbols?: string[];        // Exact base symbols (e.g., a scatter brush selection)
 }
 
+// Entry colour tags for watchlists
+export type WatchlistColor = 'yellow' | 'green' | 'red' | 'blue' | 'purple';
+
+// One symbol in a watchlist (normalized base symbol, shared across exchanges)
+export interface WatchlistEntry {
+  symbol: string;          // "PEPE" matches OKX 1000PEPE and Hyperliquid kPEPE
+  color?: WatchlistColor;
+  note?: string;
+}
+
+// Named list of symbols ("core", "memes", "shorts")
+export interface Watchlist {
+  id: string;
+  name: string;
+  entries: WatchlistEntry[];
+}
+
+// Board view: whole market or one watchlist ("list:<id>")
+export type BoardView = 'market' | `list:${string}`;
+
+// Named snapshot of the board setup (filters + columns + sort + view)
+export interface SavedScreen {
+  id: string;
+  name: string;
+  filters: Filters;
+  columns: ColumnVisibility;
+  columnOrder: ColumnKey[];
+  sort: SortConfig;
+  view: BoardView;
+  updatedAt: number;
+}
+
+// How the filtered market is shown: paginated table, treemap or scatter plot
+export type MarketDisplay = 'table' | 'treemap' | 'scatter';
+
+// Treemap tile size and colour metrics
+export type TreemapSizeMetric = 'marketCap' | 'volume';
+export type TreemapColorMetric = 'change24h' | 'change4h' | 'avgRsi' | 'fundingApr';
+
+// Scatter plot axis metrics
+export type ScatterMetric =
+  | 'dRsiAvg'
+  | 'wRsiAvg'
+  | 'avgRsi'
+  | 'fundingApr'
+  | 'change4h'
+  | 'change24h'
+  | 'change7d'
+  | 'oiChange';
+
+// File formats for exporting the filtered table
+export type TableExportFormat = 'csv' | 'json';
+
 // Sort configuration
 export interface SortConfig {
   column: string;
@@ -285,6 +641,16 @@ export interface TokenWithRsi {
   logo?: string;
 }
 
+// Token with an RSI divergence for the divergence widget
+export interface TokenWithDivergence {
+  symbol: string;
+  instId: string;
+  marketCap: number;
+  price: number;
+  divergence: RsiDivergence;
+  logo?: string;
+}
+
 // Token with APR data for Funding widgets
 export interface TokenWithApr {
   symbol: string;
@@ -294,20 +660,88 @@ export interface TokenWithApr {
   logo?: string;
 }
 
+// ===========================================
+// Funding Arbitrage Types (OKX vs Hyperliquid)
+// ===========================================
+
+// One venue's side of a cross-exchange funding pair
+export interface FundingArbLeg {
+  instId: string;            // Venue-native ID ("1000PEPE-USDT-SWAP", "kPEPE")
+  multiplier: number;        // Tokens per contract unit (1000 for 1000PEPE / kPEPE)
+  markPrice: number;         // Mark price per single token (multiplier removed)
+  fundingRate: number;       // Rate per settlement
+  settlementInterval: number; // in hours (OKX 8h or less, Hyperliquid 1h)
+  apr: number;               // Funding APR in %
+  fundingTime: number;       // Upcoming settlement (ms)
+}
+
+// Funding carry for a base symbol listed on both venues
+export interface FundingArbRow {
+  symbol: string;            // Normalized base symbol ("PEPE")
+  okx: FundingArbLeg;
+  hl: FundingArbLeg;
+  carryApr: number;          // |okx.apr - hl.apr| earned by the hedged pair
+  shortVenue: 'okx' | 'hyperliquid'; // Short the higher-funding venue, long the other
+  basis: number;             // (HL mark - OKX mark) / OKX mark, in %
+}
+
+// ===========================================
+// Alert Types
+// ===========================================
+
+// Fields an alert rule can watch (RSIData, FundingRateData and ProcessedTicker)
+export type AlertField =
+  | 'rsi7'
+  | 'rsi14'
+  | 'rsiW7'
+  | 'rsiW14'
+  | 'change1h'
+  | 'change4h'
+  | 'change7d'
+  | 'fundingRate'
+  | 'fundingApr'
+  | 'price'
+  | 'change24h';
+
+export type AlertOperator = 'lt' | 'gt';
+
+// User-defined alert rule
+export interface AlertRule {
+  id: string;
+  field: AlertField;
+  operator: AlertOperator;
+  value: number;
+  maxRank?: number;     // Only coins ranked <= maxRank by market cap
+  symbol?: string;      // Only this base symbol ("BTC")
+  cooldownMin: number;  // Minutes before the rule can fire again
+  enabled: boolean;
+}
+
+// One firing of a rule (covers every instrument matching at that moment)
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  title: string;
+  message: string;
+  symbols: string[];
+  firedAt: number;
+}
+
 // Store state
 export interface AppState {
   tickers: Map<string, ProcessedTicker>;
   rsiData: Map<string, RSIData>;
   fundingRateData: Map<string, FundingRateData>;
+  openInterestData: Map<string, OpenInterestData>;
   listingData: Map<string, ListingData>;
   marketCapData: Map<string, MarketCapData>;
   spotSymbols: Set<string>;
-  favorites: string[];
+  watchlists: Watchlist[];
   columns: ColumnVisibility;
   columnOrder: ColumnKey[];
   filters: Filters;
   sort: SortConfig;
-  view: 'market' | 'favorites';
+  view: BoardView;
   status: 'connecting' | 'live' | 'error';
   lastUpdate: Date | null;
   rsiProgress: string;
@@ -1,4 +1,4 @@
-import { RSIData, MarketCapData, ProcessedTicker, OKXTicker, ColumnKey, RsiSignalType } from './types';
+import { RSIData, MarketCapData, ProcessedTicker, OKXTicker, ColumnKey, RsiColumnKey, RsiSignalType, RsiPair, CandleBar } from './types';
 import {
   MEME_TOKENS as MEME_TOKENS_SET,
   RSI,
@@ -6,6 +6,7 @@ import {
   RATE_LIMIT,
   UI
 } from './constants';
+import { rsiPairKey, parseRsiColumnKey, getRsiPairLabel } from './rsi-pairs';
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 
@@ -65,10 +66,71 @@ export const COLUMN_TOOLTIPS: Partial<Record<ColumnKey, string[]>> = {
     '≤85: Overbought',
     '>85: Extreme Overbought',
   ],
+  oiChange24h: [
+    'Open interest change vs 24h ago',
+    'Rising OI + rising funding: longs crowding in',
+    'Rising OI + negative funding: shorts crowding in',
+    'Falling OI: positions closing / deleveraging',
+  ],
+  oiVolRatio: [
+    'OI (USD) / 24h Volume (USD)',
+    '>1: Positions held longer than a day of trading',
+    '<0.5: Mostly intraday turnover',
+  ],
+  emaTrend: [
+    'Daily close vs EMA20 / EMA50 / EMA200',
+    'Uptrend: above all three',
+    'Downtrend: below all three',
+    'Strong: EMAs also stacked in trend order',
+    'Mixed: above some, below others',
+  ],
+  macd: [
+    'Daily MACD (12, 26, 9) histogram side',
+    'Cross: histogram flipped within the last 3 days',
+    'Age: days since the last cross',
+  ],
+  bbPercentB: [
+    'Daily Bollinger Bands (20, 2) %B',
+    '>1: Above the upper band',
+    '0.5: On the 20-day average',
+    '<0: Below the lower band',
+  ],
+  atrPct: [
+    'Daily ATR14 as % of price',
+    '<3%: Quiet',
+    '≥6%: Volatile',
+    '≥10%: Extreme',
+  ],
+  vol7d: [
+    'Realized volatility of the last 7 daily closes',
+    'Std dev of daily log returns, annualized (√365)',
+  ],
+  vol30d: [
+    'Realized volatility of the last 30 daily closes',
+    'Std dev of daily log returns, annualized (√365)',
+  ],
+  btcBeta: [
+    '30d beta of daily returns to the BTC perp',
+    '>1: Moves more than BTC',
+    '<1: Moves less than BTC',
+  ],
+  btcCorr: [
+    '30d correlation of daily returns to the BTC perp',
+    '1: Moves with BTC',
+    '0: Unrelated to BTC',
+  ],
 };
 
+export interface ColumnDefinition {
+  label: string;
+  width: number;
+  align: 'left' | 'right' | 'center';
+  fixed?: boolean;
+  sortable?: boolean;
+}
+
 // Column definitions - all columns centered except symbol (left-aligned)
-export const COLUMN_DEFINITIONS: Record<ColumnKey, { label: string; width: number; align: 'left' | 'right' | 'center'; fixed?: boolean; sortable?: boolean }> = {
+export const COLUMN_DEFINITIONS: Record<Exclude<ColumnKey, RsiColumnKey>, ColumnDefinition> = {
   favorite: { label: '', width: 40, align: 'center', fixed: true, sortable: false },
   rank: { label: '#', width: 48, align: 'center', fixed: true, sortable: true },
   logo: { label: '', width: 32, align: 'center', fixed: true, sortable: false },
@@ -82,16 +144,39 @@ export const COLUMN_DEFINITIONS: Record<ColumnKey, { label: string; width: numbe
   change7d: { label: '7d', width: 68, align: 'center', sortable: true },
   volume24h: { label: 'Vol 24h', width: 85, align: 'center', sortable: true },
   marketCap: { label: 'Market Cap', width: 90, align: 'center', sortable: true },
+  openInterest: { label: 'OI', width: 85, align: 'center', sortable: true },
+  oiChange24h: { label: 'OI 24h', width: 72, align: 'center', sortable: true },
+  oiVolRatio: { label: 'OI/Vol', width: 62, align: 'center', sortable: true },
   dRsiSignal: { label: 'D-RSI Avg Signal', width: 125, align: 'center', sortable: true },
   wRsiSignal: { label: 'W-RSI Avg Signal', width: 125, align: 'center', sortable: true },
   rsi7: { label: 'D-RSI7', width: 58, align: 'center', sortable: true },
   rsi14: { label: 'D-RSI14', width: 62, align: 'center', sortable: true },
   rsiW7: { label: 'W-RSI7', width: 58, align: 'center', sortable: true },
   rsiW14: { label: 'W-RSI14', width: 62, align: 'center', sortable: true },
+  emaTrend: { label: 'EMA Trend', width: 125, align: 'center', sortable: true },
+  ema20: { label: 'vs EMA20', width: 72, align: 'center', sortable: true },
+  ema50: { label: 'vs EMA50', width: 72, align: 'center', sortable: true },
+  ema200: { label: 'vs EMA200', width: 78, align: 'center', sortable: true },
+  macd: { label: 'MACD', width: 110, align: 'center', sortable: true },
+  bbPercentB: { label: 'BB %B', width: 62, align: 'center', sortable: true },
+  atrPct: { label: 'ATR%', width: 62, align: 'center', sortable: true },
+  vol7d: { label: 'Vol 7d', width: 68, align: 'center', sortable: true },
+  vol30d: { label: 'Vol 30d', width: 72, align: 'center', sortable: true },
+  btcBeta: { label: 'β BTC', width: 62, align: 'center', sortable: true },
+  btcCorr: { label: 'ρ BTC', width: 62, align: 'center', sortable: true },
   listDate: { label: 'Listed', width: 75, align: 'center', sortable: true },
   hasSpot: { label: 'Spot', width: 48, align: 'center', sortable: true }
 };
 
+// Definition for any column, including configured RSI pairs ("rsi:4H:14")
+export function getColumnDefinition(key: ColumnKey): ColumnDefinition {
+  const pair = parseRsiColumnKey(key);
+  if (pair) {
+    return { label: getRsiPairLabel(pair), width: 62, align: 'center', sortable: true };
+  }
+  return COLUMN_DEFINITIONS[key as Exclude<ColumnKey, RsiColumnKey>];
+}
+
 // Format funding APR (annualized)
 export function formatFundingApr(rate: number | undefined | null, intervalHours: number | undefined | null): string {
   if (rate === undefined || rate === null) return '--';
@@ -193,6 +278,48 @@ export function calculateRSI(closes: number[], period: number): number | null {
   return rsi;
 }
 
+// RSI for each configured pair from closes per bar (oldest first)
+// Pairs whose bar wasn't fetched or is too short come back null
+export function calculateRsiPairs(
+  pairs: RsiPair[],
+  closesByBar: Partial<Record<CandleBar, number[]>>
+): NonNullable<RSIData['custom']> {
+  const values: NonNullable<RSIData['custom']> = {};
+  pairs.forEach(pair => {
+    const closes = closesByBar[pair.bar];
+    values[rsiPairKey(pair)] = closes ? calculateRSI(closes, pair.period) : null;
+  });
+  return values;
+}
+
+// RSI at every close (same Wilder smoothing as calculateRSI), null until `period` changes exist
+// Used for RSI sub-panes under price charts
+export function calculateRSISeries(closes: number[], period: number): (number | null)[] {
+  const series: (number | null)[] = closes.map(() => null);
+  if (closes.length < period + 1) return series;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= closes.length - 1; i++) {
+    const change = closes[i] - closes[i - 1];
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+      if (i < period) continue;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+
+    series[i] = avgLoss === 0 ? (avgGain === 0 ? 50 : 100) : 100 - 100 / (1 + avgGain / avgLoss);
+  }
+
+  return series;
+}
+
 // RSI Signal types and helper functions (9-state system)
 // Re-export RsiSignalType as RsiSignal for backward compatibility
 export type RsiSignal = RsiSignalType;
@@ -289,6 +416,14 @@ export function formatVolume(volCcy: string | number, price: number): string {
   return '$' + volumeUsd.toFixed(0);
 }
 
+// Open interest / 24h volume ratio (volume in base currency, same as formatVolume)
+export function calculateOiVolRatio(oiUsd: number | undefined, volCcy: string | number, price: number): number | null {
+  const vol = typeof volCcy === 'string' ? parseFloat(volCcy) : volCcy;
+  const volumeUsd = vol * price;
+  if (!oiUsd || !volumeUsd || isNaN(volumeUsd)) return null;
+  return oiUsd / volumeUsd;
+}
+
 
 // Get RSI pill style for oversold widget (green tones)
 export function getRsiOversoldPillStyle(rsi: number | null | undefined): string {
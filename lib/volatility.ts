@@ -0,0 +1,105 @@
+/**
+ * Realized Volatility & Beta to BTC
+ * From the daily candles the RSI pipeline already fetches
+ *
+ * - Each instrument keeps the log returns of its last 30 closed daily candles
+ *   (RSIData.dailyReturns); the current, unclosed candle is left out
+ * - Realized vol: standard deviation of daily log returns, annualized over 365 days, in %
+ * - Beta / correlation: 30d returns against the same venue's BTC perp, aligned by
+ *   candle time so instruments refreshed on different days still line up
+ */
+
+import { DailyReturns, ProcessedTicker, RSIData } from './types';
+import { VOLATILITY } from './constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===========================================
+// Returns
+// ===========================================
+
+/**
+ * Log returns of the closed candles in [timestamp, open, high, low, close, volume] rows
+ */
+export function calculateDailyReturns(candles: number[][]): DailyReturns | undefined {
+  const closed = candles.slice(0, -1).slice(-(VOLATILITY.RETURN_DAYS + 1));
+  if (closed.length < 2) return undefined;
+
+  const values: number[] = [];
+  for (let i = 1; i < closed.length; i++) {
+    const prev = closed[i - 1][4];
+    const close = closed[i][4];
+    if (prev > 0 && close > 0) values.push(Math.log(close / prev));
+  }
+
+  return { endTime: closed[closed.length - 1][0], values };
+}
+
+// Daily returns of the venue's BTC perp (the beta reference, same lookup as AltcoinVsBTC)
+export function findBtcReturns(
+  tickers: Map<string, ProcessedTicker>,
+  rsiData: Map<string, RSIData>
+): DailyReturns | undefined {
+  let btcTicker: ProcessedTicker | undefined;
+  tickers.forEach((ticker) => {
+    if (ticker.baseSymbol === 'BTC') {
+      btcTicker = ticker;
+    }
+  });
+  return btcTicker ? rsiData.get(btcTicker.instId)?.dailyReturns : undefined;
+}
+
+// ===========================================
+// Statistics
+// ===========================================
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Sample covariance (n - 1)
+function covariance(a: number[], b: number[]): number {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((sum, v, i) => sum + (v - meanA) * (b[i] - meanB), 0) / (a.length - 1);
+}
+
+/**
+ * Annualized realized volatility in % over the last `days` daily returns
+ */
+export function calculateRealizedVol(returns: DailyReturns | undefined, days: number): number | null {
+  const window = returns?.values.slice(-days);
+  if (!window || window.length < days) return null;
+  return Math.sqrt(covariance(window, window) * VOLATILITY.ANNUALIZATION_DAYS) * 100;
+}
+
+/**
+ * 30d beta and correlation of an instrument's returns to BTC's
+ * Null until both series overlap for MIN_BETA_DAYS closed days
+ */
+export function calculateBtcBeta(
+  returns: DailyReturns | undefined,
+  btcReturns: DailyReturns | undefined
+): { beta: number; correlation: number } | null {
+  if (!returns || !btcReturns) return null;
+
+  // Drop the newer series' extra days so both end on the same candle
+  const offset = Math.round((btcReturns.endTime - returns.endTime) / DAY_MS);
+  const asset = offset < 0 ? returns.values.slice(0, offset) : returns.values;
+  const btc = offset > 0 ? btcReturns.values.slice(0, -offset) : btcReturns.values;
+
+  const length = Math.min(asset.length, btc.length, VOLATILITY.RETURN_DAYS);
+  if (length < VOLATILITY.MIN_BETA_DAYS) return null;
+
+  const a = asset.slice(-length);
+  const b = btc.slice(-length);
+  const btcVariance = covariance(b, b);
+  const assetVariance = covariance(a, a);
+  if (btcVariance === 0 || assetVariance === 0) return null;
+
+  const cov = covariance(a, b);
+  return {
+    beta: cov / btcVariance,
+    correlation: cov / Math.sqrt(btcVariance * assetVariance),
+  };
+}
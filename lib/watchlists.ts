@@ -0,0 +1,115 @@
+/**
+ * Watchlists
+ * Named symbol lists shared by every exchange board
+ *
+ * - Entries store the normalized base symbol, so a list built on OKX
+ *   (1000PEPE-USDT-SWAP) resolves on Hyperliquid (kPEPE) and Binance (1000PEPEUSDT)
+ * - The first load seeds a "Favorites" list from the legacy per-exchange favorites
+ * - Lists share through the URL as "name:BTC,ETH,SOL"
+ */
+
+import { ExchangeId, Watchlist, WatchlistColor, BoardView } from './types';
+import { normalizeBaseSymbol } from './funding-arb';
+import { EXCHANGE_CACHE_KEYS, WATCHLISTS } from './constants';
+import { getFavoritesCache } from './cache';
+
+export const WATCHLIST_COLORS: { value: WatchlistColor; text: string; bg: string }[] = [
+  { value: 'yellow', text: 'text-yellow-400', bg: 'bg-yellow-400' },
+  { value: 'green', text: 'text-green-500', bg: 'bg-green-500' },
+  { value: 'red', text: 'text-red-500', bg: 'bg-red-500' },
+  { value: 'blue', text: 'text-blue-500', bg: 'bg-blue-500' },
+  { value: 'purple', text: 'text-purple-500', bg: 'bg-purple-500' },
+];
+
+export function getWatchlistColorClass(color: WatchlistColor | undefined): string {
+  return WATCHLIST_COLORS.find(c => c.value === color)?.text ?? 'text-yellow-400';
+}
+
+export function createWatchlistId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`;
+}
+
+// Symbol stored in a watchlist for a ticker's base symbol
+export function toWatchlistSymbol(baseSymbol: string): string {
+  return normalizeBaseSymbol(baseSymbol).base;
+}
+
+// ===========================================
+// View Helpers
+// ===========================================
+
+export function watchlistView(id: string): BoardView {
+  return `list:${id}`;
+}
+
+export function getViewWatchlistId(view: BoardView): string | null {
+  return view.startsWith('list:') ? view.slice(5) : null;
+}
+
+/**
+ * Coerce a stored or shared view value
+ * The old 'favorites' view maps onto the seeded Favorites list
+ */
+export function normalizeBoardView(view: unknown): BoardView {
+  if (view === 'favorites') return watchlistView(WATCHLISTS.DEFAULT_ID);
+  if (typeof view === 'string' && view.startsWith('list:') && view.length > 5) return view as BoardView;
+  return 'market';
+}
+
+// ===========================================
+// Legacy Favorites Migration
+// ===========================================
+
+// Per-exchange favorites were stored as venue instrument IDs
+function legacyFavoriteToSymbol(exchange: ExchangeId, instId: string): string {
+  switch (exchange) {
+    case 'okx':
+      return toWatchlistSymbol(instId.split('-')[0]);   // BTC-USDT-SWAP
+    case 'binance':
+      return toWatchlistSymbol(instId.replace(/USDT$/, '')); // BTCUSDT
+    default:
+      return toWatchlistSymbol(instId);                 // Hyperliquid coin
+  }
+}
+
+/**
+ * Initial lists for users who have never saved watchlists
+ * Merges every exchange's legacy favorites into one Favorites list
+ */
+export function createDefaultWatchlists(): Watchlist[] {
+  const symbols = new Set<string>();
+  (Object.keys(EXCHANGE_CACHE_KEYS) as ExchangeId[]).forEach(exchange => {
+    getFavoritesCache(EXCHANGE_CACHE_KEYS[exchange].FAVORITES).forEach(instId => {
+      symbols.add(legacyFavoriteToSymbol(exchange, instId));
+    });
+  });
+
+  return [{
+    id: WATCHLISTS.DEFAULT_ID,
+    name: WATCHLISTS.DEFAULT_NAME,
+    entries: Array.from(symbols).map(symbol => ({ symbol })),
+  }];
+}
+
+// ===========================================
+// URL Serialization
+// ===========================================
+
+export function encodeWatchlistParam(list: Watchlist): string {
+  return `${list.name}:${list.entries.map(e => e.symbol).join(',')}`;
+}
+
+export function decodeWatchlistParam(encoded: string): { name: string; symbols: string[] } | null {
+  const separator = encoded.lastIndexOf(':');
+  if (separator <= 0) return null;
+
+  const name = encoded.slice(0, separator).trim().slice(0, WATCHLISTS.MAX_NAME_LENGTH);
+  const symbols = encoded
+    .slice(separator + 1)
+    .split(',')
+    .map(s => s.trim())
+    .filter(Boolean)
+    .map(toWatchlistSymbol);
+
+  return name ? { name, symbols: Array.from(new Set(symbols)) } : null;
+}
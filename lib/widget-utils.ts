@@ -3,29 +3,9 @@
  * Shared utilities for widget components
  */
 
-import { ProcessedTicker, RSIData, MarketCapData, TokenWithRsi } from './types';
+import { ProcessedTicker, RSIData, FundingRateData, MarketCapData, TokenWithRsi, TokenWithDivergence } from './types';
 import { RSI, FUNDING, WIDGET } from './constants';
-
-// ===========================================
-// TradingView Script Loader
-// ===========================================
-
-const TV_MINI_CHART_SRC = 'https://widgets.tradingview-widget.com/w/en/tv-mini-chart.js';
-
-/**
- * Load TradingView mini-chart web component script exactly once.
- * Uses DOM query to detect if already loaded — safe across modules and Strict Mode.
- */
-export function loadTradingViewMiniChart(): void {
-  if (typeof document === 'undefined') return;
-  if (document.querySelector(`script[src="${TV_MINI_CHART_SRC}"]`)) return;
-
-  const script = document.createElement('script');
-  script.type = 'module';
-  script.src = TV_MINI_CHART_SRC;
-  script.onerror = () => console.warn('Failed to load TradingView mini-chart script');
-  document.head.appendChild(script);
-}
+import { isWithinLookback } from './divergence';
 
 // ===========================================
 // Types
@@ -34,6 +14,12 @@ export function loadTradingViewMiniChart(): void {
 // Time frame type for 1h/4h/24h selectors
 export type TimeFrame = '1h' | '4h' | '24h';
 
+// One point of a market chart series (ETH/BTC, TOTAL2)
+export interface ChartPoint {
+  time: number;
+  value: number;
+}
+
 // RSI data structure (minimal for calculation)
 export interface RSIValues {
   rsi7: number | null;
@@ -105,6 +91,14 @@ export function calculateFundingApr(
   return rate * periodsPerYear * 100;
 }
 
+/**
+ * Funding APR of one instrument
+ * Rates without a settlement interval use the exchange's default interval
+ */
+export function getFundingApr(funding: FundingRateData, defaultIntervalHours: number): number {
+  return calculateFundingApr(funding.fundingRate, funding.settlementInterval || defaultIntervalHours);
+}
+
 // ===========================================
 // Token Filtering Functions (shared logic for widgets)
 // ===========================================
@@ -166,3 +160,101 @@ export function getTokensByRsiThreshold(
     .sort((a, b) => mode === 'oversold' ? a.avgRsi - b.avgRsi : b.avgRsi - a.avgRsi)
     .slice(0, displayLimit);
 }
+
+/**
+ * Get tokens with a daily RSI divergence inside the lookback
+ * Used by the RsiDivergence widget
+ *
+ * @param tickers - All tickers
+ * @param rsiData - RSI data map (divergences are detected when candles are fetched)
+ * @param marketCapData - Market cap data map
+ * @param lookback - Daily bars both swings must fall within
+ * @param displayLimit - Number of results to return, largest market cap first (default: WIDGET.DISPLAY_LIMIT)
+ */
+export function getTokensWithRsiDivergence(
+  tickers: Map<string, ProcessedTicker>,
+  rsiData: Map<string, RSIData>,
+  marketCapData: Map<string, MarketCapData>,
+  lookback: number,
+  displayLimit: number = WIDGET.DISPLAY_LIMIT
+): TokenWithDivergence[] {
+  const hits: TokenWithDivergence[] = [];
+
+  tickers.forEach((ticker) => {
+    const mc = marketCapData.get(ticker.baseSymbol);
+    const divergences = rsiData.get(ticker.instId)?.divergences;
+
+    if (!mc || !mc.marketCap || !divergences) return;
+
+    // Most recent divergence of either type
+    const divergence = divergences
+      .filter(d => isWithinLookback(d, lookback))
+      .sort((a, b) => a.barsAgo - b.barsAgo)[0];
+    if (!divergence) return;
+
+    hits.push({
+      symbol: ticker.baseSymbol,
+      instId: ticker.instId,
+      marketCap: mc.marketCap,
+      price: ticker.priceNum,
+      divergence,
+      logo: mc.logo,
+    });
+  });
+
+  return hits
+    .sort((a, b) => b.marketCap - a.marketCap)
+    .slice(0, displayLimit);
+}
+
+// ===========================================
+// Market Chart Series
+// ===========================================
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * ETH/BTC ratio from the venue's ETH and BTC candles, joined on candle time
+ * so a missing candle on either side drops the point instead of shifting it
+ */
+export function calculateEthBtcSeries(ethCandles: number[][], btcCandles: number[][]): ChartPoint[] {
+  const btcCloses = new Map(btcCandles.map(c => [c[0], c[4]]));
+  const series: ChartPoint[] = [];
+
+  ethCandles.forEach(([time, , , , close]) => {
+    const btcClose = btcCloses.get(time);
+    if (btcClose) series.push({ time, value: close / btcClose });
+  });
+  return series;
+}
+
+/**
+ * TOTAL2 approximation (crypto market cap excluding BTC) over the last `hours`
+ * Each coin's market cap is scaled back along its 7d hourly sparkline
+ * (market cap × price / latest price), so supply changes within the week are ignored.
+ * Sparklines end at the latest CoinGecko update and are aligned from the end.
+ */
+export function calculateTotal2Series(
+  marketCapData: Map<string, MarketCapData>,
+  hours: number,
+  now: number = Date.now()
+): ChartPoint[] {
+  const totals: number[] = new Array(hours).fill(0);
+  let coins = 0;
+
+  marketCapData.forEach((mc, symbol) => {
+    const prices = mc.sparkline;
+    if (symbol === 'BTC' || !mc.marketCap || !prices || prices.length < hours) return;
+    const latest = prices[prices.length - 1];
+    if (!latest) return;
+
+    const window = prices.slice(-hours);
+    window.forEach((price, i) => {
+      totals[i] += mc.marketCap * (price / latest);
+    });
+    coins++;
+  });
+
+  if (coins === 0) return [];
+  return totals.map((value, i) => ({ time: now - (hours - 1 - i) * HOUR_MS, value }));
+}